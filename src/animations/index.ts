@@ -0,0 +1,344 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import type { AnimationType, BuiltInAnimationType, Direction, DirectionSet } from '../types.js';
+
+export interface AnimationDefinition {
+  description?: string;
+  prompt: string;
+  // Whole or fractional seconds, e.g. '2s'
+  duration: string;
+  fps: number;
+  // Cycles such as idle and walk; one-shot actions play once and are never trimmed
+  loop: boolean;
+  // Bone name fragments the skeleton must have, matched case-insensitively ('Wing' matches 'LeftWing1')
+  requiredBones?: string[];
+}
+
+// Values for {{name}} placeholders in animation prompts
+export type PromptVariables = Record<string, string>;
+
+// Per-character replacements for an animation's prompt, duration or fps
+export type AnimationOverride = Partial<Pick<AnimationDefinition, 'prompt' | 'duration' | 'fps'>>;
+
+export type AnimationOverrides = Record<string, AnimationOverride>;
+
+const BUILT_IN_ANIMATIONS: Record<BuiltInAnimationType, AnimationDefinition> = {
+  idle: {
+    prompt: 'subtle idle breathing animation, gentle swaying motion, seamless loop, character stays in place',
+    duration: '4s',
+    fps: 24,
+    loop: true,
+  },
+  walk: {
+    prompt: 'walking animation cycle, smooth footsteps, 8-frame walk cycle, seamless loop, side view movement',
+    duration: '4s',
+    fps: 24,
+    loop: true,
+  },
+  run: {
+    prompt: 'running animation, fast movement, dynamic pose, seamless loop, energetic motion',
+    duration: '3s',
+    fps: 30,
+    loop: true,
+  },
+  attack: {
+    prompt: 'attack swing animation, weapon slash motion, return to idle pose, powerful strike',
+    duration: '2s',
+    fps: 30,
+    loop: false,
+  },
+  jump: {
+    prompt: 'jumping animation, crouch to leap to landing, smooth arc, natural gravity',
+    duration: '2s',
+    fps: 24,
+    loop: false,
+  },
+  death: {
+    prompt: 'death animation, dramatic fall, fade out effect, final pose',
+    duration: '3s',
+    fps: 24,
+    loop: false,
+  },
+  hurt: {
+    prompt: 'hurt reaction animation, flinch backwards, brief recovery, return to stance',
+    duration: '1s',
+    fps: 24,
+    loop: false,
+  },
+  cast: {
+    prompt: 'spell casting animation, hands raise and channel glowing magic, release the spell, return to stance',
+    duration: '2s',
+    fps: 24,
+    loop: false,
+    requiredBones: ['Hand'],
+  },
+  block: {
+    prompt: 'blocking animation, raise guard to absorb a hit, braced defensive pose, return to stance',
+    duration: '1s',
+    fps: 24,
+    loop: false,
+    requiredBones: ['Arm'],
+  },
+  dodge: {
+    prompt: 'dodge animation, quick evasive sidestep and roll, recover to fighting pose',
+    duration: '1s',
+    fps: 30,
+    loop: false,
+    requiredBones: ['Leg'],
+  },
+  emote: {
+    prompt: 'emote animation, cheerful wave gesture, expressive body language, return to idle pose',
+    duration: '2s',
+    fps: 24,
+    loop: false,
+    requiredBones: ['Head'],
+  },
+  crouch: {
+    prompt: 'crouching idle animation, low crouched stance, subtle breathing motion, seamless loop, character stays in place',
+    duration: '3s',
+    fps: 24,
+    loop: true,
+    requiredBones: ['Leg'],
+  },
+  climb: {
+    prompt: 'climbing animation cycle, alternating hand and foot holds, steady upward movement, seamless loop',
+    duration: '3s',
+    fps: 24,
+    loop: true,
+    requiredBones: ['Hand', 'Foot'],
+  },
+  swim: {
+    prompt: 'swimming animation cycle, smooth strokes through water, gentle bobbing motion, seamless loop',
+    duration: '4s',
+    fps: 24,
+    loop: true,
+  },
+  fly: {
+    prompt: 'flying animation cycle, steady wing flaps, hovering in the air, seamless loop',
+    duration: '4s',
+    fps: 24,
+    loop: true,
+    requiredBones: ['Wing'],
+  },
+};
+
+const animationDefinitionSchema = z
+  .object({
+    description: z.string().optional(),
+    prompt: z.string().min(1),
+    duration: z.string().regex(/^\d+(\.\d+)?s$/, 'Duration must be in seconds, e.g. "2s"'),
+    fps: z.number().int().min(1).max(60),
+    loop: z.boolean().default(false),
+    requiredBones: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+const animationOverrideSchema = animationDefinitionSchema.pick({ prompt: true, duration: true, fps: true }).partial().strict();
+
+const animationOverridesSchema = z.record(z.string(), animationOverrideSchema);
+
+export const animationPackSchema = z
+  .object({
+    name: z.string().optional(),
+    animations: z
+      .record(
+        z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Animation names may only contain letters, digits, "-" and "_"'),
+        animationDefinitionSchema
+      )
+      .refine(animations => Object.keys(animations).length > 0, 'An animation pack needs at least one animation'),
+  })
+  .strict();
+
+export type AnimationPack = z.infer<typeof animationPackSchema>;
+
+const ANIMATIONS = new Map<string, AnimationDefinition>(Object.entries(BUILT_IN_ANIMATIONS));
+
+export function registerAnimation(name: string, definition: AnimationDefinition): void {
+  if (!name.trim()) {
+    throw new Error('Animation name must not be empty');
+  }
+  ANIMATIONS.set(name, definition);
+}
+
+// Removing a built-in animation restores its default definition
+export function unregisterAnimation(name: string): boolean {
+  if (name in BUILT_IN_ANIMATIONS) {
+    ANIMATIONS.set(name, BUILT_IN_ANIMATIONS[name as BuiltInAnimationType]);
+    return false;
+  }
+  return ANIMATIONS.delete(name);
+}
+
+export function getAnimation(name: AnimationType): AnimationDefinition | undefined {
+  return ANIMATIONS.get(name);
+}
+
+export function getAnimationNames(): AnimationType[] {
+  return [...ANIMATIONS.keys()];
+}
+
+export function getAnimations(): Record<string, AnimationDefinition> {
+  return Object.fromEntries(ANIMATIONS);
+}
+
+export function parseAnimationPack(content: string, format: 'json' | 'yaml', source = 'animation pack'): AnimationPack {
+  let raw: unknown;
+  try {
+    raw = format === 'json' ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = animationPackSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// Registers every animation in a JSON or YAML pack and returns their names
+export async function loadAnimationPack(filePath: string): Promise<string[]> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext !== '.json' && ext !== '.yaml' && ext !== '.yml') {
+    throw new Error(`Unsupported animation pack format: ${ext || filePath}. Use .json, .yaml or .yml`);
+  }
+
+  const content = await fs.readFile(filePath, 'utf-8');
+  const pack = parseAnimationPack(content, ext === '.json' ? 'json' : 'yaml', `animation pack ${filePath}`);
+
+  for (const [name, definition] of Object.entries(pack.animations)) {
+    registerAnimation(name, definition);
+  }
+
+  const names = Object.keys(pack.animations);
+  console.log(`[Animations] Loaded ${names.length} animation(s) from ${filePath}: ${names.join(', ')}`);
+  return names;
+}
+
+// ANIMATION_PACKS holds pack paths separated by the platform path delimiter (":" or ";")
+export async function loadAnimationPacksFromEnv(): Promise<string[]> {
+  const packs = (process.env.ANIMATION_PACKS || '').split(path.delimiter).filter(Boolean);
+  const names: string[] = [];
+  for (const pack of packs) {
+    names.push(...(await loadAnimationPack(pack)));
+  }
+  return names;
+}
+
+// Names that are not registered, in the order given and without duplicates
+export function findUnknownAnimations(names: readonly string[]): string[] {
+  return [...new Set(names.filter(name => !ANIMATIONS.has(name)))];
+}
+
+// {{name}} or {{name|fallback}}; names may contain letters, digits, "_" and "-"
+const TEMPLATE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?:\|([^}]*))?\}\}/g;
+
+// Fills {{name}} placeholders from variables; {{name|fallback}} uses the fallback when the
+// variable is unset. Any other unset variable is an error rather than a hole in the prompt.
+export function renderPromptTemplate(template: string, variables: PromptVariables = {}): string {
+  const missing = new Set<string>();
+  const rendered = template.replace(TEMPLATE_PATTERN, (_match, name: string, fallback?: string) => {
+    const value = variables[name] ?? fallback?.trim();
+    if (value === undefined) {
+      missing.add(name);
+      return '';
+    }
+    return value;
+  });
+
+  if (missing.size > 0) {
+    const available = Object.keys(variables);
+    throw new Error(`Missing prompt variables: ${[...missing].join(', ')}. Available: ${available.length > 0 ? available.join(', ') : 'none'}`);
+  }
+  return rendered;
+}
+
+// name=value pairs, e.g. from repeated --var options
+export function parsePromptVariables(specs: readonly string[]): PromptVariables {
+  const variables: PromptVariables = {};
+  for (const spec of specs) {
+    const [name, value] = spec.split(/=(.*)/s);
+    if (!/^[A-Za-z_][\w-]*$/.test(name) || value === undefined) {
+      throw new Error(`Invalid prompt variable: ${spec}. Use name=value, e.g. weapon=flaming sword`);
+    }
+    variables[name] = value;
+  }
+  return variables;
+}
+
+// animation.field=value pairs such as attack.fps=12, e.g. from repeated --animation-override options
+export function parseAnimationOverrides(specs: readonly string[]): AnimationOverrides {
+  const overrides: Record<string, Record<string, unknown>> = {};
+  for (const spec of specs) {
+    const match = spec.match(/^([^.=]+)\.(prompt|duration|fps)=(.*)$/s);
+    if (!match) {
+      throw new Error(`Invalid animation override: ${spec}. Use animation.field=value with field prompt, duration or fps`);
+    }
+    const [, animation, field, value] = match;
+    overrides[animation] = { ...overrides[animation], [field]: field === 'fps' ? Number(value) : value };
+  }
+  return validateAnimationOverrides(overrides);
+}
+
+export function validateAnimationOverrides(overrides: unknown, source = 'animation overrides'): AnimationOverrides {
+  const parsed = animationOverridesSchema.safeParse(overrides);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+const DIRECTIONS: Direction[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Left-facing clips can be derived by flipping the matching right-facing ones
+const MIRROR_SOURCES: Partial<Record<Direction, Direction>> = { W: 'E', NW: 'NE', SW: 'SE' };
+
+export function getDirections(set: 4 | 8 = 8): Direction[] {
+  return set === 4 ? ['N', 'E', 'S', 'W'] : [...DIRECTIONS];
+}
+
+// Expands 4 or 8 and checks an explicit list, keeping its order without duplicates
+export function resolveDirections(value: DirectionSet): Direction[] {
+  if (value === 4 || value === 8) {
+    return getDirections(value);
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Invalid directions: ${JSON.stringify(value)}. Use 4, 8 or a list of ${DIRECTIONS.join(', ')}`);
+  }
+  const invalid = value.filter(direction => !DIRECTIONS.includes(direction));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid direction: ${invalid.join(', ')}. Valid directions: ${DIRECTIONS.join(', ')}`);
+  }
+  return [...new Set(value)];
+}
+
+// '4', '8' or a comma-separated list such as 'N,E,S'
+export function parseDirections(spec: string): Direction[] {
+  const value = spec.trim();
+  if (value === '4' || value === '8') {
+    return getDirections(Number(value) as 4 | 8);
+  }
+  return resolveDirections(value.split(',').map(direction => direction.trim().toUpperCase()).filter(Boolean) as Direction[]);
+}
+
+export function getMirrorSource(direction: Direction): Direction | undefined {
+  return MIRROR_SOURCES[direction];
+}
+
+// File and sheet name of a clip: 'walk' or 'walk_NE'
+export function toDirectionalName(animationType: AnimationType, direction?: Direction): string {
+  return direction ? `${animationType}_${direction}` : animationType;
+}
+
+// Splits 'walk_NE' into walk and NE; registered names are never split
+export function parseDirectionalName(name: string): { animationType: AnimationType; direction?: Direction } {
+  const match = name.match(/^(.+)_(N|NE|E|SE|S|SW|W|NW)$/);
+  if (!match || ANIMATIONS.has(name)) {
+    return { animationType: name };
+  }
+  return { animationType: match[1], direction: match[2] as Direction };
+}
@@ -1,37 +1,71 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { generateImage, ImageProvider } from '../image-gen/index.js';
-import { createAnimationBatch, VideoProvider } from '../video-gen/index.js';
+import { generateImage, getStyle, getStyleNames, ImageCacheOptions, ImageProvider, isValidSeed, loadStylePack } from '../image-gen/index.js';
+import { buildTransitionGraph, createAnimationBatch, createTransitionBatch, TransitionSpec, VideoProvider, writeStateMachine } from '../video-gen/index.js';
 import { generateAndRig3DModel, RiggingProvider } from '../rigging/index.js';
 import { exportForThreeJS } from '../threejs-export/index.js';
-import type { CharacterStyle, AnimationType, SkeletonType, PipelineResult } from '../types.js';
+import { moderatePrompt, formatViolations, ModerationAction, ModerationOptions } from '../moderation/index.js';
+import { expandPrompt, ExpandPromptOptions, getRiggingSkeleton } from '../prompt-expansion/index.js';
+import { AnimationOverrides, findUnknownAnimations, getAnimationNames, loadAnimationPack, PromptVariables, resolveDirections, validateAnimationOverrides } from '../animations/index.js';
+import { findDegradedOutputs, formatDegradedOutput, resolveFallbackPolicies, resolveProviderChains } from '../fallback/index.js';
+import type { CharacterStyle, AnimationType, SkeletonType, PipelineResult, ModerationViolation, CharacterSheet, DegradedOutput, DirectionSet, FallbackPolicies, FallbackPolicy, PipelineStage, ProviderChain } from '../types.js';
 
 export interface BatchCharacterConfig {
   name: string;
   prompt: string;
   style?: CharacterStyle;
   animations?: AnimationType[];
+  // One clip per facing for top-down games: 4, 8 or a list such as ['N', 'E', 'S']
+  directions?: DirectionSet;
+  // Transition clips between animations: 'auto' or [from, to] pairs such as [['idle', 'walk']]
+  transitions?: TransitionSpec;
+  // Values for {{name}} placeholders in animation prompts, over the batch defaults; character,
+  // name and style are always set from this config
+  variables?: PromptVariables;
+  // Per-animation prompt, duration and fps, e.g. { attack: { prompt: '{{character}} swings {{weapon}}', fps: 12 } }
+  animationOverrides?: AnimationOverrides;
   skeleton?: SkeletonType;
+  seed?: number;
+  palette?: string;
+}
+
+export interface BatchProviders {
+  image?: ProviderChain<ImageProvider>;
+  video?: ProviderChain<VideoProvider>;
+  rigging?: ProviderChain<RiggingProvider>;
 }
 
 export interface BatchConfig {
   characters: BatchCharacterConfig[];
   outputDir: string;
+  // JSON/YAML style packs to register before generating
+  stylePacks?: string[];
+  // JSON/YAML animation packs whose animation types characters may use
+  animationPacks?: string[];
   defaults?: {
     style?: CharacterStyle;
     animations?: AnimationType[];
+    directions?: DirectionSet;
+    transitions?: TransitionSpec;
+    variables?: PromptVariables;
     skeleton?: SkeletonType;
   };
-  providers?: {
-    image?: ImageProvider;
-    video?: VideoProvider;
-    rigging?: RiggingProvider;
-  };
+  // One provider or a chain per stage, e.g. video: ['veo', 'runway']; later providers
+  // are tried when earlier ones hit rate limits, quota or outages
+  providers?: BatchProviders;
+  // One policy for every stage or per stage; defaults to image 'fail', video and rigging 'placeholder'
+  fallback?: FallbackPolicy | FallbackPolicies;
+  // Prompts are checked before anything is generated; 'refuse' (default) fails flagged characters
+  moderation?: ModerationOptions & { action?: ModerationAction };
   options?: {
     concurrency?: number;
     continueOnError?: boolean;
     skipAnimation?: boolean;
     skipRigging?: boolean;
+    // Expand each prompt into a character sheet; true uses the LLM when available
+    expandPrompts?: boolean | ExpandPromptOptions['mode'];
+    // Reuse cached images for unchanged characters (default true)
+    cache?: boolean | ImageCacheOptions;
   };
 }
 
@@ -39,11 +73,15 @@ export interface BatchResult {
   total: number;
   successful: number;
   failed: number;
+  // Successful characters with at least one placeholder or substituted provider
+  degraded: number;
   results: Array<{
     name: string;
     success: boolean;
     result?: PipelineResult;
     error?: string;
+    violations?: ModerationViolation[];
+    degraded?: DegradedOutput[];
     duration: number;
   }>;
   totalDuration: number;
@@ -57,57 +95,150 @@ export async function runBatchGeneration(config: BatchConfig): Promise<BatchResu
     defaults = {},
     providers = {},
     options = {},
+    stylePacks = [],
+    animationPacks = [],
+    moderation = {},
   } = config;
+  const fallback = resolveFallbackPolicies(config.fallback);
+  resolveProviderChains(providers);
+
+  for (const pack of stylePacks) {
+    await loadStylePack(pack);
+  }
+  for (const pack of animationPacks) {
+    await loadAnimationPack(pack);
+  }
+
+  const unknownStyles = [defaults.style, ...characters.map(c => c.style)]
+    .filter((style): style is CharacterStyle => style !== undefined && !getStyle(style));
+  if (unknownStyles.length > 0) {
+    throw new Error(`Unknown styles: ${[...new Set(unknownStyles)].join(', ')}. Valid styles: ${getStyleNames().join(', ')}`);
+  }
+
+  const transitionPairs = [defaults.transitions, ...characters.map(c => c.transitions)]
+    .flatMap(transitions => transitions === undefined || transitions === 'auto' ? [] : transitions);
+  for (const [from, to] of transitionPairs) {
+    if (from === to) {
+      throw new Error(`Invalid transition: ${from}:${to}. A transition needs two different animations`);
+    }
+  }
+  for (const character of characters) {
+    if (character.seed !== undefined && !isValidSeed(character.seed)) {
+      throw new Error(`Invalid seed for ${character.name}: ${JSON.stringify(character.seed)}. Seed must be an integer from 0 to ${2 ** 32 - 1}`);
+    }
+    if (character.animationOverrides !== undefined) {
+      validateAnimationOverrides(character.animationOverrides, `animationOverrides for ${character.name}`);
+    }
+  }
+  const unknownAnimations = findUnknownAnimations([
+    defaults.animations ?? [],
+    ...characters.map(c => c.animations ?? []),
+    ...characters.map(c => Object.keys(c.animationOverrides ?? {})),
+    ...transitionPairs,
+  ].flat());
+  if (unknownAnimations.length > 0) {
+    throw new Error(`Unknown animations: ${unknownAnimations.join(', ')}. Valid animations: ${getAnimationNames().join(', ')}`);
+  }
+  for (const directions of [defaults.directions, ...characters.map(c => c.directions)]) {
+    if (directions !== undefined) {
+      resolveDirections(directions);
+    }
+  }
 
   const {
     concurrency = 1,
     continueOnError = true,
     skipAnimation = false,
     skipRigging = false,
+    expandPrompts = false,
+    cache = true,
   } = options;
 
   console.log(`[Batch] Starting batch generation of ${characters.length} characters`);
   console.log(`[Batch] Output directory: ${outputDir}`);
   console.log(`[Batch] Concurrency: ${concurrency}`);
 
+  // Moderate every prompt up front so a rejected character never costs anything
+  const { action: moderationAction = 'refuse', ...moderationOptions } = moderation;
+  const preflight = await Promise.all(characters.map(c => moderatePrompt(c.prompt, moderationOptions)));
+  const flagged = characters.filter((_, i) => !preflight[i].allowed);
+  if (flagged.length > 0) {
+    console.warn(`[Batch] Moderation flagged ${flagged.length} character(s): ${flagged.map(c => c.name || sanitizeName(c.prompt)).join(', ')}`);
+    if (moderationAction === 'refuse' && !continueOnError) {
+      throw new Error(`Prompt moderation failed for ${flagged.map(c => c.name || sanitizeName(c.prompt)).join(', ')}`);
+    }
+  }
+
   await fs.mkdir(outputDir, { recursive: true });
 
   const results: BatchResult['results'] = [];
   let successful = 0;
   let failed = 0;
+  let degradedCount = 0;
 
   // Process characters with concurrency limit
-  const chunks = chunkArray(characters, concurrency);
+  const chunks = chunkArray(characters.map((charConfig, i) => ({ charConfig, moderation: preflight[i] })), concurrency);
 
   for (const chunk of chunks) {
     const chunkResults = await Promise.all(
-      chunk.map(async (charConfig) => {
+      chunk.map(async ({ charConfig, moderation: check }) => {
         const charStartTime = Date.now();
         const charName = charConfig.name || sanitizeName(charConfig.prompt);
+        const violations = check.allowed ? undefined : check.violations;
+
+        if (violations && moderationAction === 'refuse') {
+          failed++;
+          console.error(`[Batch] ✗ Refused: ${charName} - ${formatViolations(violations)}`);
+          return {
+            name: charName,
+            success: false,
+            error: `Prompt moderation: ${formatViolations(violations)}`,
+            violations,
+            duration: 0,
+          };
+        }
 
         console.log(`[Batch] Processing: ${charName}`);
 
         try {
+          const characterSheet = expandPrompts
+            ? await expandPrompt(charConfig.prompt, { mode: expandPrompts === true ? 'auto' : expandPrompts })
+            : undefined;
+
           const result = await generateSingleCharacter({
             ...charConfig,
             name: charName,
             style: charConfig.style || defaults.style || 'pixel',
-            animations: charConfig.animations || defaults.animations || ['idle'],
-            skeleton: charConfig.skeleton || defaults.skeleton || 'biped',
+            animations: charConfig.animations || defaults.animations || characterSheet?.suggestedAnimations || ['idle'],
+            directions: charConfig.directions ?? defaults.directions,
+            transitions: charConfig.transitions ?? defaults.transitions,
+            variables: { ...defaults.variables, ...charConfig.variables },
+            skeleton: charConfig.skeleton || defaults.skeleton || (characterSheet && getRiggingSkeleton(characterSheet)) || 'biped',
+            characterSheet,
           }, {
             outputDir: path.join(outputDir, charName),
             providers,
+            fallback,
             skipAnimation,
             skipRigging,
+            cache,
           });
 
           successful++;
-          console.log(`[Batch] ✓ Completed: ${charName}`);
+          const degraded = result.degraded;
+          if (degraded) {
+            degradedCount++;
+            console.warn(`[Batch] ⚠ Completed with degraded outputs: ${charName} - ${degraded.map(formatDegradedOutput).join('; ')}`);
+          } else {
+            console.log(`[Batch] ✓ Completed: ${charName}`);
+          }
 
           return {
             name: charName,
             success: true,
             result,
+            violations,
+            ...(degraded && { degraded }),
             duration: Date.now() - charStartTime,
           };
         } catch (error) {
@@ -123,6 +254,7 @@ export async function runBatchGeneration(config: BatchConfig): Promise<BatchResu
             name: charName,
             success: false,
             error: errorMessage,
+            violations,
             duration: Date.now() - charStartTime,
           };
         }
@@ -139,6 +271,7 @@ export async function runBatchGeneration(config: BatchConfig): Promise<BatchResu
     total: characters.length,
     successful,
     failed,
+    degraded: degradedCount,
     results,
     totalDuration,
   };
@@ -148,7 +281,7 @@ export async function runBatchGeneration(config: BatchConfig): Promise<BatchResu
   await fs.writeFile(reportPath, JSON.stringify(summary, null, 2));
 
   console.log('\n[Batch] Generation complete!');
-  console.log(`[Batch] Total: ${summary.total}, Success: ${successful}, Failed: ${failed}`);
+  console.log(`[Batch] Total: ${summary.total}, Success: ${successful}, Failed: ${failed}, Degraded: ${degradedCount}`);
   console.log(`[Batch] Total time: ${(totalDuration / 1000).toFixed(1)}s`);
   console.log(`[Batch] Report saved to: ${reportPath}`);
 
@@ -157,20 +290,23 @@ export async function runBatchGeneration(config: BatchConfig): Promise<BatchResu
 
 interface SingleCharacterOptions {
   outputDir: string;
-  providers: {
-    image?: ImageProvider;
-    video?: VideoProvider;
-    rigging?: RiggingProvider;
-  };
+  providers: BatchProviders;
+  fallback: Record<PipelineStage, FallbackPolicy>;
   skipAnimation: boolean;
   skipRigging: boolean;
+  cache: boolean | ImageCacheOptions;
 }
 
 async function generateSingleCharacter(
-  config: BatchCharacterConfig & { style: CharacterStyle; animations: AnimationType[]; skeleton: SkeletonType },
+  config: BatchCharacterConfig & {
+    style: CharacterStyle;
+    animations: AnimationType[];
+    skeleton: SkeletonType;
+    characterSheet?: CharacterSheet;
+  },
   options: SingleCharacterOptions
 ): Promise<PipelineResult> {
-  const { outputDir, providers, skipAnimation, skipRigging } = options;
+  const { outputDir, providers, fallback, skipAnimation, skipRigging, cache } = options;
 
   await fs.mkdir(outputDir, { recursive: true });
 
@@ -179,22 +315,48 @@ async function generateSingleCharacter(
     config.prompt,
     config.style,
     outputDir,
-    { provider: providers.image }
+    {
+      provider: providers.image,
+      seed: config.seed,
+      pixelize: config.palette ? { palette: config.palette } : undefined,
+      characterSheet: config.characterSheet,
+      cache,
+      fallback: fallback.image,
+    }
   );
 
   // Step 2: Animate (optional)
   let videoResults: PipelineResult['videoGen'] = [];
+  let transitions: PipelineResult['transitions'];
+  let transitionGraph: PipelineResult['transitionGraph'];
   if (!skipAnimation) {
     try {
       videoResults = await createAnimationBatch(
         imageResult.imagePath,
         config.animations,
         outputDir,
-        { provider: providers.video }
+        {
+          provider: providers.video,
+          characterSheet: config.characterSheet,
+          fallback: fallback.video,
+          directions: config.directions,
+          variables: { character: config.prompt, name: config.name, style: config.style, ...config.variables },
+          overrides: config.animationOverrides,
+        }
       );
     } catch (_error) {
       console.warn(`[Batch] Animation failed for ${config.name}, continuing...`);
     }
+
+    if (config.transitions && videoResults.length > 0) {
+      try {
+        transitions = await createTransitionBatch(videoResults, outputDir, { provider: providers.video, fallback: fallback.video, transitions: config.transitions });
+        transitionGraph = buildTransitionGraph(videoResults, transitions);
+        await writeStateMachine(transitionGraph, path.join(outputDir, 'state-machine.json'));
+      } catch (_error) {
+        console.warn(`[Batch] Transitions failed for ${config.name}, continuing...`);
+      }
+    }
   }
 
   // Step 3: 3D Rigging (optional)
@@ -216,7 +378,7 @@ async function generateSingleCharacter(
     riggingResult = await generateAndRig3DModel(
       imageResult.imagePath,
       outputDir,
-      { skeletonType: config.skeleton, provider: providers.rigging }
+      { skeletonType: config.skeleton, provider: providers.rigging, fallback: fallback.rigging }
     );
 
     exportResult = await exportForThreeJS(
@@ -232,6 +394,9 @@ async function generateSingleCharacter(
     videoGen: videoResults,
     rigging: riggingResult,
     export: exportResult,
+    characterSheet: config.characterSheet,
+    ...(transitions && { transitions }),
+    ...(transitionGraph && { transitionGraph }),
     metadata: {
       createdAt: new Date().toISOString(),
       totalDuration: 0,
@@ -239,13 +404,22 @@ async function generateSingleCharacter(
         prompt: config.prompt,
         style: config.style,
         animations: config.animations,
-        resolution: 512,
+        resolution: getStyle(config.style)?.resolution ?? 512,
         skeleton: config.skeleton,
         outputDir,
+        seed: typeof imageResult.metadata.seed === 'number' ? imageResult.metadata.seed : config.seed,
+        palette: config.palette,
+        ...(config.variables && Object.keys(config.variables).length > 0 && { variables: config.variables }),
+        ...(config.animationOverrides && { animationOverrides: config.animationOverrides }),
       },
     },
   };
 
+  const degraded = findDegradedOutputs(result);
+  if (degraded.length > 0) {
+    result.degraded = degraded;
+  }
+
   // Save individual metadata
   const metadataPath = path.join(outputDir, 'metadata.json');
   await fs.writeFile(metadataPath, JSON.stringify(result, null, 2));
@@ -279,11 +453,19 @@ export function validateBatchConfig(config: unknown): config is BatchConfig {
   for (const char of c.characters) {
     if (!char || typeof char !== 'object') return false;
     if (typeof (char as Record<string, unknown>).prompt !== 'string') return false;
+    if (!isAnimationList((char as Record<string, unknown>).animations)) return false;
+    const seed = (char as Record<string, unknown>).seed;
+    if (seed !== undefined && !isValidSeed(seed)) return false;
   }
   
   return true;
 }
 
+// Names are checked against the registry once animation packs are loaded
+function isAnimationList(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(name => typeof name === 'string'));
+}
+
 function chunkArray<T>(array: T[], size: number): T[][] {
   const chunks: T[][] = [];
   for (let i = 0; i < array.length; i += size) {
@@ -307,6 +489,11 @@ export function createBatchConfigTemplate(): BatchConfig {
         prompt: 'cute pixel art knight with sword and shield',
         style: 'pixel',
         animations: ['idle', 'walk', 'attack'],
+        transitions: 'auto',
+        variables: { weapon: 'sword' },
+        animationOverrides: {
+          attack: { prompt: '{{character}} swings {{weapon}} in a wide arc, then returns to its stance', fps: 24 },
+        },
         skeleton: 'biped',
       },
       {
@@ -314,6 +501,7 @@ export function createBatchConfigTemplate(): BatchConfig {
         prompt: 'anime wizard with magical staff',
         style: 'anime',
         animations: ['idle', 'walk'],
+        directions: 4,
         skeleton: 'biped',
       },
       {
@@ -332,8 +520,13 @@ export function createBatchConfigTemplate(): BatchConfig {
     },
     providers: {
       image: 'openai',
-      video: 'veo',
-      rigging: 'tripo',
+      video: ['veo', 'runway'],
+      rigging: ['tripo', 'meshy'],
+    },
+    fallback: {
+      image: 'fail',
+      video: 'placeholder',
+      rigging: 'placeholder',
     },
     options: {
       concurrency: 2,
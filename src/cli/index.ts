@@ -2,26 +2,52 @@
 
 import { Command } from 'commander';
 import dotenv from 'dotenv';
+import os from 'os';
 import path from 'path';
 import fs from 'fs/promises';
-import ora from 'ora';
-import { generateImage, getSupportedProviders as getImageProviders, ImageProvider } from '../image-gen/index.js';
-import { createAnimationBatch, getAnimationTypes, getSupportedProviders as getVideoProviders, VideoProvider } from '../video-gen/index.js';
-import { generateAndRig3DModel, getSkeletonTypes, getSupportedProviders as getRiggingProviders, RiggingProvider, checkTripoApiKey } from '../rigging/index.js';
+import readline from 'readline/promises';
+import ora, { Ora } from 'ora';
+import { clearImageCache, generateImage, generateTurnaround, getImageCacheDir, getSupportedProviders as getImageProviders, getBuiltInPalettes, listImageCache, pruneImageCache, getStyle, getStyleNames, getStylePrompts, ImageProvider, isValidSeed, loadStylePack, loadStylePacksFromEnv, PixelizeOptions, selectImageCandidate, TURNAROUND_VIEWS } from '../image-gen/index.js';
+import { buildTransitionGraph, createAnimationBatch, createTransitionBatch, getAnimationTypes, getSupportedProviders as getVideoProviders, parseTransitions, toTransitionName, TransitionSpec, VideoProvider, writeStateMachine } from '../video-gen/index.js';
+import { generateAndRig3DModel, getSkeletonTypes, getSupportedProviders as getRiggingProviders, RiggingProvider, checkTripoApiKey, DEFAULT_RIGGING_PROVIDERS } from '../rigging/index.js';
 import { exportForThreeJS, getExportFormats } from '../threejs-export/index.js';
+import { moderatePrompt, ModerationAction } from '../moderation/index.js';
+import { expandPrompt, ExpandPromptOptions, getRiggingSkeleton } from '../prompt-expansion/index.js';
+import { AnimationOverrides, findUnknownAnimations, getAnimations, loadAnimationPack, loadAnimationPacksFromEnv, parseAnimationOverrides, parseDirectionalName, parseDirections, parsePromptVariables, PromptVariables, toDirectionalName } from '../animations/index.js';
+import { findDegradedOutputs, formatDegradedOutput, getFallbackPolicies, parseFallbackPolicies, parseProviderChain, resolveFallbackPolicies } from '../fallback/index.js';
+import { clipsToAtlas, clipToSpriteSheet, createAnimatedPreview, createSpriteSheet, extractFramesFromVideo, getAnimatedFormats, getMetadataFormats, getSpriteSheetFormats, isLoopingAnimation, packAtlas, videoToAnimatedPreview, videoToSpriteSheet } from '../sprite-sheet/index.js';
+import type { AnimatedFormat, AnimatedImageOptions, AtlasAnimation, AtlasOptions, ExtractFramesOptions, SpriteSheetFormat, SpriteSheetMetadataFormat } from '../sprite-sheet/index.js';
 import type { 
   CharacterStyle, 
   AnimationType, 
+  CharacterSheet,
+  Direction,
+  FallbackPolicy,
   SkeletonType, 
   PipelineResult,
   GenerationConfig,
+  ImageGenResult,
+  PipelineStage,
+  RiggingResult,
+  ModerationResult,
+  MultiViewImages,
+  TransitionGraph,
+  TransitionResult,
+  TurnaroundResult,
+  TurnaroundView,
   VideoGenResult
 } from '../types.js';
 
 dotenv.config();
 
 const VERSION = '1.0.0';
-const STYLES: CharacterStyle[] = ['pixel', 'anime', 'lowpoly', 'painterly', 'voxel'];
+const PICK_MODES = ['auto', 'interactive'] as const;
+const MODERATION_ACTIONS: ModerationAction[] = ['refuse', 'warn'];
+const EXPANSION_MODES = ['auto', 'llm', 'template'] as const;
+const ATLAS_FORMATS = ['png', 'webp'] as const;
+type ExpansionMode = NonNullable<ExpandPromptOptions['mode']>;
+// 'auto' keeps the top-ranked candidate; a number picks that rank without prompting
+type PickMode = typeof PICK_MODES[number] | number;
 
 const program = new Command();
 
@@ -42,59 +68,135 @@ Examples:
   .version(VERSION, '-v, --version', 'Output version number')
   .option('--verbose', 'Enable verbose output')
   .option('--json', 'Output results as JSON')
-  .option('--quiet', 'Suppress non-essential output');
+  .option('--quiet', 'Suppress non-essential output')
+  .option('--style-pack <path>', 'Load art styles from a JSON/YAML style pack (repeatable, also STYLE_PACKS)', collect, [])
+  .option('--animation-pack <path>', 'Load animation types from a JSON/YAML animation pack (repeatable, also ANIMATION_PACKS)', collect, [])
+  .option('--cache-dir <dir>', 'Image cache directory (default IMAGE_CACHE_DIR or .cache/images)')
+  .hook('preAction', async () => {
+    try {
+      await loadStylePacksFromEnv();
+      for (const pack of program.opts().stylePack as string[]) {
+        await loadStylePack(pack);
+      }
+      await loadAnimationPacksFromEnv();
+      for (const pack of program.opts().animationPack as string[]) {
+        await loadAnimationPack(pack);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
 
 // Generate command - full pipeline
 program
   .command('generate')
   .description('Run the full character generation pipeline')
   .requiredOption('-p, --prompt <string>', 'Character description (required)')
-  .option('-s, --style <style>', `Art style: ${STYLES.join(', ')}`, 'pixel')
+  .option('-s, --style <style>', `Art style: ${getStyleNames().join(', ')}, or one from a style pack`, 'pixel')
   .option('-a, --animations <types>', `Animation types: ${getAnimationTypes().join(', ')}`, 'idle')
-  .option('-r, --resolution <number>', 'Output resolution (256-2048)', '512')
+  .option('-r, --resolution <number>', 'Output resolution (256-2048, default from style or 512)')
   .option('-k, --skeleton <type>', `Skeleton type: ${getSkeletonTypes().join(', ')}`, 'biped')
   .option('-o, --output <dir>', 'Output directory', './output')
-  .option('--image-provider <provider>', `Image provider: ${getImageProviders().join(', ')}`, 'openai')
-  .option('--video-provider <provider>', `Video provider: ${getVideoProviders().join(', ')}`, 'veo')
-  .option('--rigging-provider <provider>', `Rigging provider: ${getRiggingProviders().join(', ')}`, 'tripo')
+  .option('--image-provider <providers>', `Image provider, or a comma-separated chain tried in order on rate limits and outages: ${getImageProviders().join(', ')} (default from style or openai)`)
+  .option('--seed <number>', 'Image generation seed for reproducible runs')
+  .option('--candidates <number>', 'Number of sprite candidates to generate and rank', '1')
+  .option('--pick <mode>', `Candidate selection: ${PICK_MODES.join(', ')}, or a candidate rank such as 2`, 'auto')
+  .option('--no-post-process', 'Keep the raw sprite (no background removal, trim or padding)')
+  .option('--no-cache', 'Always call the image provider instead of reusing cached images')
+  .option('--palette <name|path>', `Pixel-art palette: ${getBuiltInPalettes().join(', ')}, or a .hex/.gpl file`)
+  .option('--pixel-resolution <number>', 'True pixel-art resolution when no grid is detected (e.g. 32, 64, 128)')
+  .option('--pixel-upscale <factor>', 'Nearest-neighbour upscale factor for pixel art', '1')
+  .option('--turnaround', 'Also generate side, back and three-quarter views and rig from all of them')
+  .option('--moderation <action>', `On prompt violations: ${MODERATION_ACTIONS.join(', ')}`, 'refuse')
+  .option('--provider-moderation', 'Also check the prompt with the OpenAI moderation endpoint')
+  .option('--expand-prompt [mode]', `Expand the prompt into a character sheet: ${EXPANSION_MODES.join(', ')} (default auto)`)
+  .option('--video-provider <providers>', `Video provider or comma-separated chain: ${getVideoProviders().join(', ')}`, 'veo')
+  .option('--rigging-provider <providers>', `Rigging provider or comma-separated chain: ${getRiggingProviders().join(', ')}`, DEFAULT_RIGGING_PROVIDERS.join(','))
+  .option('--fallback <policy>', `When a provider fails: ${getFallbackPolicies().join(', ')}, for every stage or per stage as video=next-provider,rigging=fail (default image=fail, video and rigging placeholder)`)
   .option('--skip-animation', 'Skip animation generation')
   .option('--skip-rigging', 'Skip 3D rigging')
-  .action(async (options) => {
+  .option('--preview [format]', `Write an animated preview of each clip: ${getAnimatedFormats().join(', ')} (default gif)`)
+  .option('--sprite-sheet [formats]', `Write a sprite sheet of each clip with metadata: ${getMetadataFormats().join(', ')} (default json-hash)`)
+  .option('--atlas [formats]', `Pack every clip into one trimmed texture atlas with metadata: ${getMetadataFormats().join(', ')} (default json-hash)`)
+  .option('--no-loop-trim', 'Only score looping animations instead of cutting them to their most seamless loop')
+  .option('--directions <set>', 'One clip per facing for top-down games: 4, 8 or comma-separated directions (N,NE,E,SE,S,SW,W,NW)')
+  .option('--no-mirror', 'Generate left-facing clips instead of flipping the right-facing ones')
+  .option('--transitions [pairs]', 'Also generate transition clips and state-machine.json: auto (default) or comma-separated from:to pairs, e.g. idle:walk,walk:run')
+  .option('--var <name=value>', 'Value for a {{name}} placeholder in animation prompts, e.g. weapon="flaming sword" (repeatable)', collect, [])
+  .option('--animation-override <animation.field=value>', 'Override an animation\'s prompt, duration or fps, e.g. attack.prompt="{{character}} swings {{weapon}}" (repeatable)', collect, [])
+  .action(async (options, command: Command) => {
     const verbose = program.opts().verbose;
     const jsonOutput = program.opts().json;
     const quiet = program.opts().quiet;
 
     // Validate options
-    if (!STYLES.includes(options.style)) {
-      console.error(`Invalid style: ${options.style}. Valid styles: ${STYLES.join(', ')}`);
-      process.exit(1);
-    }
+    const style = parseStyle(options.style);
+    const imageProvider = parseProviders(options.imageProvider ?? style.provider ?? 'openai', getImageProviders(), 'image ');
+    const videoProvider = parseProviders(options.videoProvider, getVideoProviders(), 'video ');
+    const riggingProvider = parseProviders(options.riggingProvider, getRiggingProviders(), 'rigging ');
 
-    const animations = options.animations.split(',').map((a: string) => a.trim()) as AnimationType[];
-    const invalidAnims = animations.filter(a => !getAnimationTypes().includes(a));
-    if (invalidAnims.length > 0) {
-      console.error(`Invalid animations: ${invalidAnims.join(', ')}. Valid: ${getAnimationTypes().join(', ')}`);
-      process.exit(1);
-    }
+    const animations = parseAnimations(options.animations);
+    const directions = parseDirectionsOption(options.directions);
+    const transitions = parseTransitionsOption(options.transitions);
+    const variables = parseVariablesOption(options.var);
+    const overrides = parseOverridesOption(options.animationOverride);
+
+    const seed = parseSeed(options.seed);
+    const candidates = parseCandidates(options.candidates);
+    const pick = parsePickMode(options.pick, candidates);
+    const pixelize = parsePixelize(options);
+    const moderation = parseModerationAction(options.moderation);
+    const expansion = parseExpansionMode(options.expandPrompt);
+    const preview = parsePreviewFormat(options.preview);
+    const spriteSheets = parseMetadataFormats(options.spriteSheet);
+    const atlas = parseMetadataFormats(options.atlas);
+    const fallback = parseFallback(options.fallback);
 
     const config: GenerationConfig = {
       prompt: options.prompt,
       style: options.style as CharacterStyle,
       animations,
-      resolution: parseInt(options.resolution),
+      resolution: options.resolution ? parseInt(options.resolution) : style.resolution ?? 512,
       skeleton: options.skeleton as SkeletonType,
       outputDir: options.output,
+      seed,
+      candidates,
+      palette: options.palette,
+      turnaround: options.turnaround === true,
+      ...(Object.keys(variables).length > 0 && { variables }),
+      ...(Object.keys(overrides).length > 0 && { animationOverrides: overrides }),
     };
 
     const result = await runFullPipeline(config, {
       verbose,
       jsonOutput,
       quiet,
-      imageProvider: options.imageProvider as ImageProvider,
-      videoProvider: options.videoProvider as VideoProvider,
-      riggingProvider: options.riggingProvider as RiggingProvider,
+      imageProvider,
+      candidates,
+      pick,
+      postProcess: options.postProcess,
+      pixelize,
+      cache: options.cache,
+      turnaround: options.turnaround === true,
+      moderation,
+      providerModeration: options.providerModeration === true,
+      expansion,
+      // Only fill in skeleton and animations from the sheet when the user left them at their defaults
+      skeletonFromSheet: command.getOptionValueSource('skeleton') === 'default',
+      animationsFromSheet: command.getOptionValueSource('animations') === 'default',
+      videoProvider,
+      riggingProvider,
+      fallback,
       skipAnimation: options.skipAnimation,
       skipRigging: options.skipRigging,
+      preview,
+      spriteSheets,
+      atlas,
+      loopTrim: options.loopTrim,
+      directions,
+      mirror: options.mirror,
+      transitions,
     });
 
     if (jsonOutput) {
@@ -107,26 +209,120 @@ program
   .command('image-gen')
   .description('Generate character sprite only')
   .requiredOption('-p, --prompt <string>', 'Character description')
-  .option('-s, --style <style>', `Art style: ${STYLES.join(', ')}`, 'pixel')
-  .option('-r, --resolution <number>', 'Output resolution', '512')
+  .option('-s, --style <style>', `Art style: ${getStyleNames().join(', ')}, or one from a style pack`, 'pixel')
+  .option('-r, --resolution <number>', 'Output resolution (default from style or 512)')
   .option('-o, --output <dir>', 'Output directory', './output')
-  .option('--provider <provider>', `Provider: ${getImageProviders().join(', ')}`, 'openai')
+  .option('--provider <providers>', `Provider or comma-separated chain: ${getImageProviders().join(', ')} (default from style or openai)`)
+  .option('--seed <number>', 'Generation seed for reproducible runs')
+  .option('--candidates <number>', 'Number of candidates to generate and rank', '1')
+  .option('--pick <mode>', `Candidate selection: ${PICK_MODES.join(', ')}, or a candidate rank such as 2`, 'auto')
+  .option('--no-post-process', 'Keep the raw sprite (no background removal, trim or padding)')
+  .option('--no-cache', 'Always call the image provider instead of reusing cached images')
+  .option('--palette <name|path>', `Pixel-art palette: ${getBuiltInPalettes().join(', ')}, or a .hex/.gpl file`)
+  .option('--pixel-resolution <number>', 'True pixel-art resolution when no grid is detected (e.g. 32, 64, 128)')
+  .option('--pixel-upscale <factor>', 'Nearest-neighbour upscale factor for pixel art', '1')
+  .option('--reference <path>', 'Reference image to stay on-model with (repeatable)', collect, [])
+  .option('--reference-strength <number>', 'How closely to follow the references, 0-1', '0.35')
+  .option('--turnaround', `Generate a turnaround sheet (${TURNAROUND_VIEWS.join(', ')}) instead of one sprite`)
+  .option('--fallback <policy>', `When the provider fails: ${getFallbackPolicies().join(', ')}`, 'fail')
+  .option('--moderation <action>', `On prompt violations: ${MODERATION_ACTIONS.join(', ')}`, 'refuse')
+  .option('--provider-moderation', 'Also check the prompt with the OpenAI moderation endpoint')
   .action(async (options) => {
     const jsonOutput = program.opts().json;
+    const seed = parseSeed(options.seed);
+    const candidates = parseCandidates(options.candidates);
+    const pick = parsePickMode(options.pick, candidates);
+    const pixelize = parsePixelize(options);
+    const referenceStrength = parseReferenceStrength(options.referenceStrength);
+    const style = parseStyle(options.style);
+    const provider = parseProviders(options.provider ?? style.provider ?? 'openai', getImageProviders());
+    const resolution = options.resolution ? parseInt(options.resolution) : undefined;
+    const moderation = parseModerationAction(options.moderation);
+    const fallback = parseFallback(options.fallback).image;
+
+    await runModerationPreflight(options.prompt, moderation, options.providerModeration === true);
+
+    if (options.turnaround) {
+      const spinner = ora('Generating turnaround views...').start();
+      try {
+        // References and candidates shape the front view; the other angles follow the picked front
+        let front: ImageGenResult | undefined;
+        if (options.reference.length > 0 || candidates > 1) {
+          spinner.text = 'Generating front view...';
+          front = await generateImage(options.prompt, options.style as CharacterStyle, options.output, {
+            resolution,
+            provider,
+            seed,
+            candidates,
+            postProcess: options.postProcess,
+            pixelize,
+            cache: cacheOption(options.cache),
+            referenceImages: options.reference,
+            referenceStrength,
+            fallback,
+          });
+          spinner.stop();
+          front = await pickCandidate(front, pick);
+          spinner.start('Generating turnaround views...');
+        }
+        const result = await generateTurnaround(options.prompt, options.style as CharacterStyle, options.output, {
+          resolution,
+          provider,
+          seed,
+          postProcess: options.postProcess,
+          pixelize,
+          cache: cacheOption(options.cache),
+          referenceStrength,
+          fallback,
+          front,
+        });
+
+        spinner.succeed(`Turnaround sheet saved to ${result.sheetPath}`);
+        Object.entries(result.imagePaths).forEach(([view, imagePath]) => console.log(`  - ${view}: ${imagePath}`));
+        if (result.seed !== undefined) {
+          console.log(`  - Seed: ${result.seed}`);
+        }
+
+        if (jsonOutput) {
+          console.log(JSON.stringify(result, null, 2));
+        }
+      } catch (error) {
+        spinner.fail(`Failed: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+      return;
+    }
+
     const spinner = ora('Generating character sprite...').start();
     
     try {
-      const result = await generateImage(
+      let result = await generateImage(
         options.prompt,
         options.style as CharacterStyle,
         options.output,
         { 
-          resolution: parseInt(options.resolution),
-          provider: options.provider as ImageProvider,
+          resolution,
+          provider,
+          seed,
+          candidates,
+          postProcess: options.postProcess,
+          pixelize,
+          cache: cacheOption(options.cache),
+          referenceImages: options.reference,
+          referenceStrength,
+          fallback,
         }
       );
       
-      spinner.succeed(`Sprite saved to ${result.imagePath}`);
+      if (result.isPlaceholder) {
+        spinner.warn(`Placeholder sprite saved to ${result.imagePath}: ${result.fallbackReason}`);
+      } else {
+        spinner.succeed(`Sprite saved to ${result.imagePath}`);
+      }
+      result = await pickCandidate(result, pick);
+      if (result.metadata.seed !== undefined) {
+        console.log(`  - Seed: ${result.metadata.seed}`);
+      }
       
       if (jsonOutput) {
         console.log(JSON.stringify(result, null, 2));
@@ -144,30 +340,246 @@ program
   .requiredOption('-i, --input <path>', 'Path to sprite image')
   .option('-t, --types <types>', `Animation types: ${getAnimationTypes().join(', ')}`, 'idle')
   .option('-o, --output <dir>', 'Output directory', './output')
-  .option('--provider <provider>', `Provider: ${getVideoProviders().join(', ')}`, 'veo')
+  .option('--provider <providers>', `Provider or comma-separated chain: ${getVideoProviders().join(', ')}`, 'veo')
+  .option('--fallback <policy>', `When the provider fails: ${getFallbackPolicies().join(', ')}`, 'placeholder')
+  .option('--preview [format]', `Write an animated preview of each clip: ${getAnimatedFormats().join(', ')} (default gif)`)
+  .option('--sprite-sheet [formats]', `Write a sprite sheet of each clip with metadata: ${getMetadataFormats().join(', ')} (default json-hash)`)
+  .option('--atlas [formats]', `Pack every clip into one trimmed texture atlas with metadata: ${getMetadataFormats().join(', ')} (default json-hash)`)
+  .option('--no-loop-trim', 'Only score looping animations instead of cutting them to their most seamless loop')
+  .option('--directions <set>', 'One clip per facing for top-down games: 4, 8 or comma-separated directions (N,NE,E,SE,S,SW,W,NW)')
+  .option('--no-mirror', 'Generate left-facing clips instead of flipping the right-facing ones')
+  .option('--transitions [pairs]', 'Also generate transition clips and state-machine.json: auto (default) or comma-separated from:to pairs, e.g. idle:walk,walk:run')
+  .option('--var <name=value>', 'Value for a {{name}} placeholder in animation prompts, e.g. weapon="flaming sword" (repeatable)', collect, [])
+  .option('--animation-override <animation.field=value>', 'Override an animation\'s prompt, duration or fps, e.g. attack.prompt="{{character}} swings {{weapon}}" (repeatable)', collect, [])
   .action(async (options) => {
     const jsonOutput = program.opts().json;
+    const preview = parsePreviewFormat(options.preview);
+    const spriteSheets = parseMetadataFormats(options.spriteSheet);
+    const atlas = parseMetadataFormats(options.atlas);
+    const fallback = parseFallback(options.fallback).video;
+    const provider = parseProviders(options.provider, getVideoProviders());
+    const animations = parseAnimations(options.types);
+    const directions = parseDirectionsOption(options.directions);
+    const transitions = parseTransitionsOption(options.transitions);
+    const variables = parseVariablesOption(options.var);
+    const overrides = parseOverridesOption(options.animationOverride);
     const spinner = ora('Creating animations...').start();
     
     try {
-      const animations = options.types.split(',').map((a: string) => a.trim()) as AnimationType[];
       const results = await createAnimationBatch(
         options.input, 
         animations, 
         options.output,
-        { provider: options.provider as VideoProvider }
+        { provider, trimLoop: options.loopTrim, fallback, directions, mirror: options.mirror, variables, overrides }
       );
       
-      spinner.succeed(`Created ${results.length} animations`);
+      finishAnimationSpinner(spinner, results);
+
+      if (preview) {
+        await writeClipPreviews(results, options.output, preview);
+      }
+      if (spriteSheets) {
+        await writeClipSpriteSheets(results, options.output, spriteSheets);
+      }
+      if (atlas) {
+        await writeClipAtlas(results, options.output, atlas);
+      }
+      const blends = transitions && results.length > 0
+        ? await writeClipTransitions(results, options.output, transitions, { provider, fallback })
+        : undefined;
       
       if (jsonOutput) {
-        console.log(JSON.stringify(results, null, 2));
+        console.log(JSON.stringify(blends ? { clips: results, ...blends } : results, null, 2));
+      } else {
+        results.forEach(r => console.log(`  - ${toDirectionalName(r.animationType, r.direction)}: ${r.videoPath}${r.isPlaceholder ? ' (placeholder)' : ''}${r.mirroredFrom ? ` (mirrored from ${r.mirroredFrom})` : ''}${r.loop ? ` (loop score ${r.loop.score})` : ''}${r.previewPath ? ` (preview ${r.previewPath})` : ''}`));
+        blends?.transitions.forEach(t => console.log(`  - ${toTransitionName(t.from, t.to, t.direction)}: ${t.videoPath}${t.isPlaceholder ? ' (placeholder)' : ''}`));
+      }
+    } catch (error) {
+      spinner.fail(`Failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// Preview command - animated GIF/APNG/WebP from a clip or a folder of frames
+program
+  .command('preview')
+  .description('Create a shareable animated preview from a video clip or a folder of frames')
+  .requiredOption('-i, --input <path>', 'Video file (needs ffmpeg) or directory of frame images')
+  .option('-o, --output <dir>', 'Output directory', './output')
+  .option('-n, --name <name>', 'Preview file name without extension (default: input name)')
+  .option('-f, --format <format>', `Format: ${getAnimatedFormats().join(', ')}`, 'gif')
+  .option('--fps <number>', 'Frames per second sampled from a video and played back', '12')
+  .option('--frame-count <number>', 'Maximum number of frames taken from a video')
+  .option('--start <seconds>', 'Start of the video window')
+  .option('--end <seconds>', 'End of the video window')
+  .option('--delay <ms>', 'Milliseconds per frame (default 1000 / fps)')
+  .option('--loop <count>', 'Total plays, 0 loops forever', '0')
+  .option('--colors <number>', 'GIF palette size, 2-256', '256')
+  .option('--dither <amount>', 'GIF dithering strength, 0-1', '1')
+  .option('--palette <name|path>', `Fixed GIF palette: ${getBuiltInPalettes().join(', ')}, or a .hex/.gpl file`)
+  .option('--quality <number>', 'Lossy WebP quality 1-100 (default lossless)')
+  .action(async (options) => {
+    const jsonOutput = program.opts().json;
+    const previewOptions = parsePreviewOptions(options);
+    const name = options.name ?? path.basename(options.input, path.extname(options.input));
+    const spinner = ora('Creating preview...').start();
+
+    try {
+      const stat = await fs.stat(options.input);
+      let previewPath: string;
+      if (stat.isDirectory()) {
+        previewPath = await createAnimatedPreview(await listFrameImages(options.input), options.output, name, previewOptions);
+      } else {
+        previewPath = await videoToAnimatedPreview(options.input, options.output, name, previewOptions);
+      }
+
+      spinner.succeed(`Preview saved to ${previewPath}`);
+      if (jsonOutput) {
+        console.log(JSON.stringify({ previewPath, format: previewOptions.format }, null, 2));
+      }
+    } catch (error) {
+      spinner.fail(`Failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// Sprite sheet command - pack a clip or a folder of frames with engine metadata
+program
+  .command('sprite-sheet')
+  .description('Pack a video clip or a folder of frames into a sprite sheet with engine metadata')
+  .requiredOption('-i, --input <path>', 'Video file (needs ffmpeg) or directory of frame images')
+  .option('-o, --output <dir>', 'Output directory', './output')
+  .option('-n, --name <name>', 'Animation name used for files and frame names (default: input name)')
+  .option('-m, --metadata <formats>', `Metadata formats: ${getMetadataFormats().join(', ')}`, 'json-hash')
+  .option('-f, --format <format>', `Sheet image format: ${getSpriteSheetFormats().join(', ')}`, 'png')
+  .option('--columns <number>', 'Frames per row (default: square-ish)')
+  .option('--fps <number>', 'Frames per second sampled from a video, also sets frame durations')
+  .option('--frame-count <number>', 'Number of frames taken from a video (default 8 without --fps)')
+  .option('--start <seconds>', 'Start of the video window')
+  .option('--end <seconds>', 'End of the video window')
+  .option('--frame-duration <ms>', 'Milliseconds per frame (default from the sampling rate, 100 for frame folders)')
+  .option('--no-loop', 'Mark the animation as one-shot in engine metadata')
+  .option('--trim-loop', 'Keep only the most seamless looping frame range')
+  .option('--godot-path <path>', 'Texture path for Godot .tres files (default res://<image>)')
+  .action(async (options) => {
+    const jsonOutput = program.opts().json;
+    const metadataFormats = parseMetadataFormats(options.metadata)!;
+    if (!getSpriteSheetFormats().includes(options.format)) {
+      console.error(`Invalid sheet format: ${options.format}. Valid formats: ${getSpriteSheetFormats().join(', ')}`);
+      process.exit(1);
+    }
+    const name = options.name ?? path.basename(options.input, path.extname(options.input));
+    const sheetOptions = {
+      format: options.format as SpriteSheetFormat,
+      columns: parseNumberOption(options.columns, 'columns', 1, 256, true),
+      metadataFormats,
+      frameDuration: parseNumberOption(options.frameDuration, 'frame duration', 1, 65535),
+      loop: options.loop,
+      trimLoop: options.trimLoop === true,
+      godotTexturePath: options.godotPath,
+      // Names such as walk_NE keep their facing in the metadata
+      direction: parseDirectionalName(name).direction,
+    };
+    const spinner = ora('Creating sprite sheet...').start();
+
+    try {
+      const stat = await fs.stat(options.input);
+      const result = stat.isDirectory()
+        ? await createSpriteSheet(await listFrameImages(options.input), options.output, name, sheetOptions)
+        : await videoToSpriteSheet(options.input, options.output, name, {
+          ...sheetOptions,
+          fps: parseNumberOption(options.fps, 'fps', 0.1, 60),
+          frameCount: parseNumberOption(options.frameCount, 'frame count', 1, 1000, true),
+          start: parseNumberOption(options.start, 'start', 0, Infinity),
+          end: parseNumberOption(options.end, 'end', 0, Infinity),
+        });
+
+      spinner.succeed(`Sprite sheet saved to ${result.spriteSheetPath}`);
+      if (jsonOutput) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        Object.entries(result.metadataPaths ?? {}).forEach(([format, filePath]) => console.log(`  - ${format}: ${filePath}`));
+      }
+    } catch (error) {
+      spinner.fail(`Failed: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// Atlas command - pack several clips or frame folders into one trimmed texture atlas
+program
+  .command('atlas')
+  .description('Pack several clips or frame folders into one trimmed texture atlas with engine metadata')
+  .requiredOption('-i, --input <paths...>', 'Video files (need ffmpeg) or frame directories, as path or name=path')
+  .option('-o, --output <dir>', 'Output directory', './output')
+  .option('-n, --name <name>', 'Atlas file name without extension', 'atlas')
+  .option('-m, --metadata <formats>', `Metadata formats: ${getMetadataFormats().join(', ')}`, 'json-hash')
+  .option('-f, --format <format>', `Atlas image format: ${ATLAS_FORMATS.join(', ')}`, 'png')
+  .option('--max-size <px>', 'Largest page width and height; frames that do not fit go onto more pages', '2048')
+  .option('--padding <px>', 'Transparent pixels between frames', '2')
+  .option('--extrude <px>', 'Edge pixels repeated around each frame against texture bleeding', '0')
+  .option('--pot', 'Round page sizes up to powers of two')
+  .option('--no-trim', 'Keep transparent frame borders')
+  .option('--no-dedupe', 'Store identical frames separately')
+  .option('--fps <number>', 'Frames per second sampled from videos, also sets their frame durations', '12')
+  .option('--frame-duration <ms>', 'Milliseconds per frame for frame folders', '100')
+  .option('--one-shot <names>', 'Animations that play once (default attack, jump, death, hurt)')
+  .option('--godot-path <path>', 'Texture path for Godot .tres files (default res://<image>)')
+  .action(async (options) => {
+    const jsonOutput = program.opts().json;
+    if (!ATLAS_FORMATS.includes(options.format)) {
+      console.error(`Invalid atlas format: ${options.format}. Valid formats: ${ATLAS_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    const maxSize = parseNumberOption(options.maxSize, 'max size', 16, 16384, true);
+    const fps = parseNumberOption(options.fps, 'fps', 0.1, 60)!;
+    const frameDuration = parseNumberOption(options.frameDuration, 'frame duration', 1, 65535);
+    const oneShot: string[] | undefined = options.oneShot?.split(',').map((name: string) => name.trim());
+    const atlasOptions: AtlasOptions = {
+      maxWidth: maxSize,
+      maxHeight: maxSize,
+      padding: parseNumberOption(options.padding, 'padding', 0, 64, true),
+      extrude: parseNumberOption(options.extrude, 'extrude', 0, 64, true),
+      powerOfTwo: options.pot === true,
+      trim: options.trim,
+      dedupe: options.dedupe,
+      format: options.format,
+      metadataFormats: parseMetadataFormats(options.metadata),
+      godotTexturePath: options.godotPath,
+    };
+    const spinner = ora('Packing atlas...').start();
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sprite-atlas-'));
+
+    try {
+      const animations: AtlasAnimation[] = [];
+      for (const input of options.input as string[]) {
+        const separator = input.indexOf('=');
+        const inputPath = separator > 0 ? input.slice(separator + 1) : input;
+        const name = separator > 0 ? input.slice(0, separator) : path.basename(inputPath, path.extname(inputPath));
+        const loop = oneShot ? !oneShot.includes(name) : isLoopingAnimation(name);
+        const { direction } = parseDirectionalName(name);
+
+        if ((await fs.stat(inputPath)).isDirectory()) {
+          animations.push({ name, framePaths: await listFrameImages(inputPath), frameDuration, loop, direction });
+        } else {
+          const framePaths = await extractFramesFromVideo(inputPath, path.join(workDir, String(animations.length)), { fps });
+          animations.push({ name, framePaths, frameDuration: 1000 / fps, loop, direction });
+        }
+      }
+
+      const result = await packAtlas(animations, options.output, options.name, atlasOptions);
+      spinner.succeed(`Atlas saved to ${result.pages.map(page => page.imagePath).join(', ')}`);
+      if (jsonOutput) {
+        console.log(JSON.stringify(result, null, 2));
       } else {
-        results.forEach(r => console.log(`  - ${r.animationType}: ${r.videoPath}`));
+        console.log(`  ${result.frameCount} frames (${result.uniqueFrameCount} unique) from ${result.animations.join(', ')}`);
+        result.pages.forEach(page => Object.entries(page.metadataPaths).forEach(([format, filePath]) => console.log(`  - ${format}: ${filePath}`)));
       }
     } catch (error) {
       spinner.fail(`Failed: ${error instanceof Error ? error.message : error}`);
       process.exit(1);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
     }
   });
 
@@ -178,24 +590,34 @@ program
   .requiredOption('-i, --input <path>', 'Path to sprite or animation')
   .option('-k, --skeleton <type>', `Skeleton type: ${getSkeletonTypes().join(', ')}`, 'biped')
   .option('-o, --output <dir>', 'Output directory', './output')
-  .option('--provider <provider>', `Provider: ${getRiggingProviders().join(', ')}`, 'tripo')
+  .option('--provider <providers>', `Provider or comma-separated chain: ${getRiggingProviders().join(', ')}`, DEFAULT_RIGGING_PROVIDERS.join(','))
   .option('--face-limit <number>', 'Max faces in model', '10000')
+  .option('--fallback <policy>', `When the provider fails: ${getFallbackPolicies().join(', ')}`, 'placeholder')
+  .option('--view <view=path>', `Extra view for multi-view reconstruction: ${TURNAROUND_VIEWS.filter(v => v !== 'front').join(', ')} (repeatable)`, collect, [])
   .action(async (options) => {
     const jsonOutput = program.opts().json;
+    const input = parseViews(options.input, options.view);
+    const fallback = parseFallback(options.fallback).rigging;
+    const provider = parseProviders(options.provider, getRiggingProviders());
     const spinner = ora('Generating 3D model and rigging...').start();
     
     try {
       const result = await generateAndRig3DModel(
-        options.input,
+        input,
         options.output,
         { 
           skeletonType: options.skeleton as SkeletonType,
-          provider: options.provider as RiggingProvider,
+          provider,
           faceLimit: parseInt(options.faceLimit),
+          fallback,
         }
       );
       
-      spinner.succeed(`Rigged model saved to ${result.riggedModelPath}`);
+      if (result.isPlaceholder) {
+        spinner.warn(`Placeholder model saved to ${result.riggedModelPath}: ${result.fallbackReason ?? 'placeholder provider'}`);
+      } else {
+        spinner.succeed(`Rigged model saved to ${result.riggedModelPath}`);
+      }
       
       if (jsonOutput) {
         console.log(JSON.stringify(result, null, 2));
@@ -249,17 +671,23 @@ program
   .option('--animations', 'List animation types')
   .option('--skeletons', 'List skeleton types')
   .option('--providers', 'List all providers')
+  .option('--palettes', 'List built-in pixel-art palettes')
   .action((options) => {
-    const all = !options.styles && !options.animations && !options.skeletons && !options.providers;
+    const all = !options.styles && !options.animations && !options.skeletons && !options.providers && !options.palettes;
     
     if (all || options.styles) {
       console.log('\n📎 Art Styles:');
-      STYLES.forEach(s => console.log(`  - ${s}`));
+      Object.entries(getStylePrompts()).forEach(([name, style]) =>
+        console.log(style.description ? `  - ${name}: ${style.description}` : `  - ${name}`)
+      );
     }
     
     if (all || options.animations) {
       console.log('\n🎬 Animation Types:');
-      getAnimationTypes().forEach(a => console.log(`  - ${a}`));
+      Object.entries(getAnimations()).forEach(([name, animation]) => {
+        const kind = animation.loop ? 'loop' : 'one-shot';
+        console.log(animation.description ? `  - ${name} (${kind}): ${animation.description}` : `  - ${name} (${kind})`);
+      });
     }
     
     if (all || options.skeletons) {
@@ -273,10 +701,65 @@ program
       console.log('  Video:', getVideoProviders().join(', '));
       console.log('  Rigging:', getRiggingProviders().join(', '));
     }
+
+    if (all || options.palettes) {
+      console.log('\n🎨 Pixel-art Palettes:');
+      getBuiltInPalettes().forEach(p => console.log(`  - ${p}`));
+    }
     
     console.log('');
   });
 
+// Cache command - inspect and clean the image cache
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the generated image cache');
+
+cacheCommand
+  .command('ls')
+  .description('List cached images')
+  .action(async () => {
+    const dir = getImageCacheDir(program.opts().cacheDir);
+    const entries = await listImageCache(dir);
+
+    if (program.opts().json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    console.log(`\n🗄️  Image cache: ${dir}`);
+    if (entries.length === 0) {
+      console.log('  (empty)\n');
+      return;
+    }
+    entries.forEach(e => {
+      const seed = e.seed !== undefined ? ` seed ${e.seed}` : '';
+      console.log(`  ${e.key.slice(0, 12)}  ${e.createdAt}  ${e.provider}${e.model ? `/${e.model}` : ''}  ${e.resolution}px${seed}  ${formatBytes(e.size)}`);
+      console.log(`    ${e.prompt.length > 100 ? `${e.prompt.slice(0, 97)}...` : e.prompt}`);
+    });
+    const total = entries.reduce((sum, e) => sum + e.size, 0);
+    console.log(`\n  ${entries.length} image(s), ${formatBytes(total)}\n`);
+  });
+
+cacheCommand
+  .command('prune')
+  .description('Remove cached images older than a given age')
+  .requiredOption('--older-than <age>', 'Age such as 30d, 12h, 45m or 2w')
+  .action(async (options) => {
+    const age = parseAge(options.olderThan);
+    const removed = await pruneImageCache(age, getImageCacheDir(program.opts().cacheDir));
+    console.log(`Removed ${removed.length} cached image(s) older than ${options.olderThan}`);
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Remove every cached image')
+  .action(async () => {
+    const dir = getImageCacheDir(program.opts().cacheDir);
+    const count = await clearImageCache(dir);
+    console.log(`Removed ${count} cached image(s) from ${dir}`);
+  });
+
 // Check command - verify API keys
 program
   .command('check')
@@ -310,20 +793,57 @@ interface PipelineOptions {
   verbose: boolean;
   jsonOutput: boolean;
   quiet: boolean;
-  imageProvider: ImageProvider;
-  videoProvider: VideoProvider;
-  riggingProvider: RiggingProvider;
+  imageProvider: ImageProvider[];
+  candidates: number;
+  pick: PickMode;
+  postProcess: boolean;
+  cache: boolean;
+  pixelize?: PixelizeOptions;
+  turnaround: boolean;
+  moderation: ModerationAction;
+  providerModeration: boolean;
+  expansion?: ExpansionMode;
+  skeletonFromSheet?: boolean;
+  animationsFromSheet?: boolean;
+  videoProvider: VideoProvider[];
+  riggingProvider: RiggingProvider[];
+  fallback: Record<PipelineStage, FallbackPolicy>;
   skipAnimation: boolean;
   skipRigging: boolean;
+  preview?: AnimatedFormat;
+  spriteSheets?: SpriteSheetMetadataFormat[];
+  atlas?: SpriteSheetMetadataFormat[];
+  loopTrim?: boolean;
+  directions?: Direction[];
+  mirror?: boolean;
+  transitions?: TransitionSpec;
 }
 
 async function runFullPipeline(
   config: GenerationConfig, 
   options: PipelineOptions
 ): Promise<PipelineResult> {
-  const { verbose, quiet, skipAnimation, skipRigging, imageProvider, videoProvider, riggingProvider } = options;
+  const { verbose, quiet, skipAnimation, skipRigging, imageProvider, candidates, pick, postProcess, pixelize, turnaround, videoProvider, riggingProvider, fallback } = options;
   
   const startTime = Date.now();
+
+  // Check the prompt before any paid call so a rejected prompt costs nothing
+  const moderation = await runModerationPreflight(config.prompt, options.moderation, options.providerModeration);
+
+  let characterSheet: CharacterSheet | undefined;
+  if (options.expansion) {
+    characterSheet = await expandPrompt(config.prompt, { mode: options.expansion });
+    if (options.skeletonFromSheet) {
+      config.skeleton = getRiggingSkeleton(characterSheet);
+    }
+    if (options.animationsFromSheet) {
+      config.animations = characterSheet.suggestedAnimations;
+    }
+    if (verbose) {
+      console.log(`Character sheet (${characterSheet.source}): ${characterSheet.name}, ${characterSheet.bodyType}`);
+    }
+  }
+
   const characterName = config.prompt
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '_')
@@ -340,9 +860,9 @@ async function runFullPipeline(
     if (!skipAnimation) console.log(`Animations: ${config.animations.join(', ')}`);
     console.log(`Output: ${outputDir}`);
     if (verbose) {
-      console.log(`Image Provider: ${imageProvider}`);
-      console.log(`Video Provider: ${videoProvider}`);
-      console.log(`Rigging Provider: ${riggingProvider}`);
+      console.log(`Image Provider: ${imageProvider.join(' -> ')}`);
+      console.log(`Video Provider: ${videoProvider.join(' -> ')}`);
+      console.log(`Rigging Provider: ${riggingProvider.join(' -> ')}`);
     }
     console.log('');
   }
@@ -353,21 +873,73 @@ async function runFullPipeline(
   // Step 1: Image Generation
   currentStep++;
   let spinner = ora(`Step ${currentStep}/${totalSteps}: Generating character sprite...`).start();
-  let imageResult;
+  let imageResult: ImageGenResult;
   try {
     imageResult = await generateImage(config.prompt, config.style, outputDir, {
       resolution: config.resolution,
       provider: imageProvider,
+      seed: config.seed,
+      candidates,
+      postProcess,
+      pixelize,
+      characterSheet,
+      cache: cacheOption(options.cache),
+      fallback: fallback.image,
     });
-    spinner.succeed('Sprite generated');
+    if (imageResult.isPlaceholder) {
+      spinner.warn(`Placeholder sprite: ${imageResult.fallbackReason}`);
+    } else {
+      spinner.succeed(candidates > 1 ? `Sprite selected from ${candidates} candidates` : 'Sprite generated');
+    }
     if (verbose) console.log(`  → ${imageResult.imagePath}`);
   } catch (error) {
     spinner.fail('Sprite generation failed');
     throw error;
   }
 
+  // Pick before any animation or rigging money is spent on the sprite
+  imageResult = await pickCandidate(imageResult, pick);
+
+  // Record the seed of the sprite actually used so metadata.json can replay this run
+  const { seed: usedSeed, candidateIndex } = imageResult.metadata;
+  if (typeof usedSeed === 'number') {
+    config.seed = usedSeed;
+    if (candidates > 1 && typeof candidateIndex === 'number') {
+      config.candidateSeed = (usedSeed - candidateIndex + 2 ** 32) % 2 ** 32;
+    }
+  }
+
+  // The other views are generated from the picked sprite so the rig matches it
+  let turnaroundResult: TurnaroundResult | undefined;
+  if (turnaround && !skipRigging) {
+    spinner = ora('Generating turnaround views...').start();
+    try {
+      turnaroundResult = await generateTurnaround(config.prompt, config.style, outputDir, {
+        resolution: config.resolution,
+        provider: imageProvider,
+        postProcess,
+        pixelize,
+        characterSheet,
+        cache: cacheOption(options.cache),
+        fallback: fallback.image,
+        front: imageResult,
+      });
+      spinner.succeed(`Turnaround sheet saved to ${turnaroundResult.sheetPath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // The views are image-stage output, so they follow the image policy
+      if (fallback.image === 'fail') {
+        spinner.fail(`Turnaround generation failed: ${message}`);
+        throw error;
+      }
+      spinner.warn(`Turnaround generation failed (${message}), rigging from the front view only...`);
+    }
+  }
+
   // Step 2: Animation (optional)
   let videoResults: VideoGenResult[] = [];
+  let atlasPaths: string[] | undefined;
+  let blends: { transitions: TransitionResult[]; graph: TransitionGraph } | undefined;
   if (!skipAnimation) {
     currentStep++;
     spinner = ora(`Step ${currentStep}/${totalSteps}: Creating animations...`).start();
@@ -376,18 +948,41 @@ async function runFullPipeline(
         imageResult.imagePath,
         config.animations,
         outputDir,
-        { provider: videoProvider }
+        {
+          provider: videoProvider,
+          characterSheet,
+          trimLoop: options.loopTrim,
+          fallback: fallback.video,
+          directions: options.directions,
+          mirror: options.mirror,
+          // The character prompt is always available to prompt templates
+          variables: { character: config.prompt, style: config.style, ...config.variables },
+          overrides: config.animationOverrides,
+        }
       );
-      spinner.succeed(`${videoResults.length} animations created`);
+      finishAnimationSpinner(spinner, videoResults);
       if (verbose) videoResults.forEach(r => console.log(`  → ${r.videoPath}`));
     } catch (_error) {
       spinner.warn('Animation generation failed, continuing...');
       videoResults = [];
     }
+
+    if (options.preview && videoResults.length > 0) {
+      await writeClipPreviews(videoResults, outputDir, options.preview);
+    }
+    if (options.spriteSheets && videoResults.length > 0) {
+      await writeClipSpriteSheets(videoResults, outputDir, options.spriteSheets);
+    }
+    if (options.atlas && videoResults.length > 0) {
+      atlasPaths = await writeClipAtlas(videoResults, outputDir, options.atlas);
+    }
+    if (options.transitions && videoResults.length > 0) {
+      blends = await writeClipTransitions(videoResults, outputDir, options.transitions, { provider: videoProvider, fallback: fallback.video });
+    }
   }
 
   // Step 3: 3D Rigging (optional)
-  let riggingResult = {
+  let riggingResult: RiggingResult = {
     modelPath: '',
     riggedModelPath: '',
     skeletonType: config.skeleton,
@@ -399,11 +994,15 @@ async function runFullPipeline(
     spinner = ora(`Step ${currentStep}/${totalSteps}: Generating 3D model...`).start();
     try {
       riggingResult = await generateAndRig3DModel(
-        imageResult.imagePath,
+        turnaroundResult ? getRiggingViews(turnaroundResult) : imageResult.imagePath,
         outputDir,
-        { skeletonType: config.skeleton, provider: riggingProvider }
+        { skeletonType: config.skeleton, provider: riggingProvider, fallback: fallback.rigging }
       );
-      spinner.succeed('3D model rigged');
+      if (riggingResult.isPlaceholder) {
+        spinner.warn(`Placeholder 3D model: ${riggingResult.fallbackReason ?? 'placeholder provider'}`);
+      } else {
+        spinner.succeed('3D model rigged');
+      }
       if (verbose) console.log(`  → ${riggingResult.riggedModelPath} (${riggingResult.boneCount} bones)`);
     } catch (error) {
       spinner.fail('3D rigging failed');
@@ -433,12 +1032,17 @@ async function runFullPipeline(
     imageGen: imageResult,
     videoGen: videoResults,
     rigging: riggingResult,
+    ...(turnaroundResult && { turnaround: turnaroundResult }),
     export: {
       glbPath: riggingResult.riggedModelPath,
       previewPath: path.join(outputDir, 'preview.html'),
       fileSize: 0,
       animations: config.animations,
     },
+    moderation,
+    characterSheet,
+    ...(atlasPaths && { atlasPaths }),
+    ...(blends && { transitions: blends.transitions, transitionGraph: blends.graph }),
     metadata: {
       createdAt: new Date().toISOString(),
       totalDuration,
@@ -446,6 +1050,11 @@ async function runFullPipeline(
     },
   };
 
+  const degraded = findDegradedOutputs(result);
+  if (degraded.length > 0) {
+    result.degraded = degraded;
+  }
+
   const metadataPath = path.join(outputDir, 'metadata.json');
   await fs.writeFile(metadataPath, JSON.stringify(result, null, 2));
 
@@ -455,11 +1064,17 @@ async function runFullPipeline(
     console.log(`📁 Output: ${outputDir}`);
     console.log(`🖼️  Sprite: ${imageResult.imagePath}`);
     if (!skipAnimation) console.log(`🎬 Animations: ${videoResults.length} clips`);
+    if (blends) console.log(`🔀 Transitions: ${blends.transitions.length} clips, state machine in ${path.join(outputDir, 'state-machine.json')}`);
     if (!skipRigging) {
       console.log(`🦴 3D Model: ${riggingResult.riggedModelPath}`);
       console.log(`🌐 Preview: ${path.join(outputDir, 'preview.html')}`);
     }
     console.log(`⏱️  Total time: ${totalDuration.toFixed(1)}s`);
+
+    if (degraded.length > 0) {
+      console.log('\n⚠️  Degraded outputs:');
+      degraded.forEach(output => console.log(`  - ${formatDegradedOutput(output)}`));
+    }
     
     if (!skipRigging) {
       console.log('\n📋 Integration code saved to:');
@@ -471,4 +1086,530 @@ async function runFullPipeline(
   return result;
 }
 
-program.parse();
+// Prints violations; exits when the action is 'refuse', otherwise the run continues with a warning
+async function runModerationPreflight(
+  prompt: string,
+  action: ModerationAction,
+  providerCheck: boolean
+): Promise<ModerationResult> {
+  let result: ModerationResult;
+  try {
+    result = await moderatePrompt(prompt, { providerCheck });
+  } catch (error) {
+    console.error(`Prompt moderation failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (!result.allowed) {
+    const log = action === 'refuse' ? console.error : console.warn;
+    log(action === 'refuse' ? 'Prompt rejected by moderation:' : 'Warning: prompt moderation found issues:');
+    result.violations.forEach(v => log(`  - [${v.type}] ${v.message}`));
+    if (action === 'refuse') {
+      log('Rephrase the prompt or pass --moderation warn to continue anyway.');
+      process.exit(1);
+    }
+  }
+  return result;
+}
+
+function cacheOption(enabled: boolean): boolean | { dir: string } {
+  const dir = program.opts().cacheDir;
+  return enabled && dir ? { dir } : enabled;
+}
+
+function parseAge(value: string): number {
+  const units: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([smhdw])$/);
+  if (!match) {
+    console.error(`Invalid age: ${value}. Use a number followed by s, m, h, d or w (e.g. 30d)`);
+    process.exit(1);
+  }
+  return parseFloat(match[1]) * units[match[2]];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Placeholder views are flat stand-ins; a reconstruction would take them for real angles
+function getRiggingViews(turnaround: TurnaroundResult): MultiViewImages {
+  const images: MultiViewImages = { front: turnaround.imagePaths.front };
+  for (const [view, imagePath] of Object.entries(turnaround.imagePaths) as [TurnaroundView, string][]) {
+    if (view === 'front') continue;
+    if (turnaround.views[view]?.isPlaceholder) {
+      console.warn(`[Rigging] Leaving out the ${view} view: it is a placeholder`);
+      continue;
+    }
+    images[view] = imagePath;
+  }
+  return images;
+}
+
+// Placeholder clips are counted separately so they never pass for generated animations
+function finishAnimationSpinner(spinner: Ora, results: VideoGenResult[]): void {
+  const placeholders = results.filter(r => r.isPlaceholder).length;
+  if (placeholders > 0) {
+    spinner.warn(`${results.length} animations created, ${placeholders} of them placeholders`);
+  } else {
+    spinner.succeed(`${results.length} animations created`);
+  }
+}
+
+// Transition clips plus state-machine.json; a failure here never costs the clips already made
+async function writeClipTransitions(
+  clips: VideoGenResult[],
+  outputDir: string,
+  transitions: TransitionSpec,
+  options: { provider: VideoProvider[]; fallback: FallbackPolicy }
+): Promise<{ transitions: TransitionResult[]; graph: TransitionGraph } | undefined> {
+  const spinner = ora('Creating transitions...').start();
+  try {
+    const results = await createTransitionBatch(clips, outputDir, { ...options, transitions });
+    const graph = buildTransitionGraph(clips, results);
+    const machinePath = await writeStateMachine(graph, path.join(outputDir, 'state-machine.json'));
+    const placeholders = results.filter(r => r.isPlaceholder).length;
+    if (placeholders > 0) {
+      spinner.warn(`${results.length} transitions created, ${placeholders} of them placeholders; state machine saved to ${machinePath}`);
+    } else {
+      spinner.succeed(`${results.length} transitions created; state machine saved to ${machinePath}`);
+    }
+    return { transitions: results, graph };
+  } catch (error) {
+    spinner.warn(`Transition generation failed: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+}
+
+// A preview that cannot be made (no ffmpeg, placeholder clip) never fails the run
+async function writeClipPreviews(results: VideoGenResult[], outputDir: string, format: AnimatedFormat): Promise<void> {
+  const spinner = ora(`Writing ${format.toUpperCase()} previews...`).start();
+  let written = 0;
+  for (const result of results) {
+    const name = toDirectionalName(result.animationType, result.direction);
+    if (result.isPlaceholder) {
+      spinner.warn(`No preview for ${name}: placeholder clip`);
+      spinner.start();
+      continue;
+    }
+    try {
+      result.previewPath = await videoToAnimatedPreview(
+        result.videoPath,
+        path.join(outputDir, 'previews'),
+        name,
+        { format }
+      );
+      written++;
+    } catch (error) {
+      spinner.warn(`No preview for ${name}: ${error instanceof Error ? error.message : error}`);
+      spinner.start();
+    }
+  }
+  if (written > 0) {
+    spinner.succeed(`${written} preview(s) saved to ${path.join(outputDir, 'previews')}`);
+  } else {
+    spinner.stop();
+  }
+}
+
+// Sheets sample each clip at its own fps, so frame durations match the generated motion
+async function writeClipSpriteSheets(
+  results: VideoGenResult[],
+  outputDir: string,
+  metadataFormats: SpriteSheetMetadataFormat[]
+): Promise<void> {
+  const sheetsDir = path.join(outputDir, 'spritesheets');
+  const spinner = ora('Writing sprite sheets...').start();
+  let written = 0;
+  for (const result of results) {
+    const name = toDirectionalName(result.animationType, result.direction);
+    try {
+      const sheet = await clipToSpriteSheet(result, path.join(sheetsDir, name), { metadataFormats });
+      result.spriteSheetPath = sheet.spriteSheetPath;
+      written++;
+    } catch (error) {
+      spinner.warn(`No sprite sheet for ${name}: ${error instanceof Error ? error.message : error}`);
+      spinner.start();
+    }
+  }
+  if (written > 0) {
+    spinner.succeed(`${written} sprite sheet(s) saved to ${sheetsDir}`);
+  } else {
+    spinner.stop();
+  }
+}
+
+// One atlas across all clips, so a game loads a single texture for the character
+async function writeClipAtlas(
+  results: VideoGenResult[],
+  outputDir: string,
+  metadataFormats: SpriteSheetMetadataFormat[]
+): Promise<string[] | undefined> {
+  const atlasDir = path.join(outputDir, 'atlas');
+  const spinner = ora('Packing texture atlas...').start();
+  try {
+    const atlas = await clipsToAtlas(results, atlasDir, 'atlas', { metadataFormats });
+    spinner.succeed(`Atlas with ${atlas.frameCount} frames saved to ${atlasDir}`);
+    return atlas.pages.map(page => page.imagePath);
+  } catch (error) {
+    spinner.warn(`No atlas: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+}
+
+function parsePreviewFormat(value: string | boolean | undefined): AnimatedFormat | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === true) {
+    return 'gif';
+  }
+  if (!getAnimatedFormats().includes(value as AnimatedFormat)) {
+    console.error(`Invalid preview format: ${value}. Valid formats: ${getAnimatedFormats().join(', ')}`);
+    process.exit(1);
+  }
+  return value as AnimatedFormat;
+}
+
+function parsePreviewOptions(options: {
+  format: string;
+  fps: string;
+  frameCount?: string;
+  start?: string;
+  end?: string;
+  delay?: string;
+  loop: string;
+  colors: string;
+  dither: string;
+  palette?: string;
+  quality?: string;
+}): AnimatedImageOptions & ExtractFramesOptions {
+  const fps = parseNumberOption(options.fps, 'fps', 0.1, 60)!;
+  return {
+    format: parsePreviewFormat(options.format),
+    fps,
+    frameCount: parseNumberOption(options.frameCount, 'frame count', 1, 1000, true),
+    start: parseNumberOption(options.start, 'start', 0, Infinity),
+    end: parseNumberOption(options.end, 'end', 0, Infinity),
+    delay: parseNumberOption(options.delay, 'delay', 1, 65535) ?? 1000 / fps,
+    loop: parseNumberOption(options.loop, 'loop count', 0, 65535, true),
+    colors: parseNumberOption(options.colors, 'colours', 2, 256, true),
+    dither: parseNumberOption(options.dither, 'dither', 0, 1),
+    palette: options.palette,
+    quality: parseNumberOption(options.quality, 'quality', 1, 100, true),
+  };
+}
+
+function parseNumberOption(
+  value: string | undefined,
+  label: string,
+  min: number,
+  max: number,
+  integer = false
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!(parsed >= min && parsed <= max) || (integer && !Number.isInteger(parsed))) {
+    console.error(`Invalid ${label}: ${value}. Must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function parseMetadataFormats(value: string | true | undefined): SpriteSheetMetadataFormat[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === true) {
+    return ['json-hash'];
+  }
+  const formats = value.split(',').map(f => f.trim()) as SpriteSheetMetadataFormat[];
+  const invalid = formats.filter(f => !getMetadataFormats().includes(f));
+  if (invalid.length > 0) {
+    console.error(`Invalid metadata formats: ${invalid.join(', ')}. Valid formats: ${getMetadataFormats().join(', ')}`);
+    process.exit(1);
+  }
+  return formats;
+}
+
+async function listFrameImages(dir: string): Promise<string[]> {
+  return (await fs.readdir(dir))
+    .filter(file => /\.(png|jpe?g|webp)$/i.test(file))
+    .sort()
+    .map(file => path.join(dir, file));
+}
+
+function parseExpansionMode(value: string | boolean | undefined): ExpansionMode | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === true) {
+    return 'auto';
+  }
+  if (!EXPANSION_MODES.includes(value as ExpansionMode)) {
+    console.error(`Invalid expansion mode: ${value}. Valid modes: ${EXPANSION_MODES.join(', ')}`);
+    process.exit(1);
+  }
+  return value as ExpansionMode;
+}
+
+// Registered animation types, including ones loaded from animation packs
+function parseAnimations(value: string): AnimationType[] {
+  const animations = value.split(',').map(a => a.trim()) as AnimationType[];
+  const invalid = findUnknownAnimations(animations);
+  if (invalid.length > 0) {
+    console.error(`Invalid animations: ${invalid.join(', ')}. Valid: ${getAnimationTypes().join(', ')}`);
+    process.exit(1);
+  }
+  return animations;
+}
+
+// One provider or a comma-separated chain, e.g. 'veo,runway'
+function parseProviders<P extends string>(value: string, valid: P[], kind = ''): P[] {
+  let providers: string[];
+  try {
+    providers = parseProviderChain(value);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  const invalid = providers.filter(provider => !valid.includes(provider as P));
+  if (invalid.length > 0) {
+    console.error(`Invalid ${kind}provider: ${invalid.join(', ')}. Valid providers: ${valid.join(', ')}`);
+    process.exit(1);
+  }
+  return providers as P[];
+}
+
+// 4, 8 or a comma-separated list of facings; undefined keeps one clip per animation
+function parseDirectionsOption(value: string | undefined): Direction[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    return parseDirections(value);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+function parseVariablesOption(values: string[]): PromptVariables {
+  try {
+    return parsePromptVariables(values);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+function parseOverridesOption(values: string[]): AnimationOverrides {
+  try {
+    const overrides = parseAnimationOverrides(values);
+    const unknown = findUnknownAnimations(Object.keys(overrides));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid animations in overrides: ${unknown.join(', ')}. Valid: ${getAnimationTypes().join(', ')}`);
+    }
+    return overrides;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+// A bare --transitions means auto; named animations must be registered
+function parseTransitionsOption(value: string | boolean | undefined): TransitionSpec | undefined {
+  if (value === undefined || value === false) {
+    return undefined;
+  }
+  if (value === true) {
+    return 'auto';
+  }
+  try {
+    const transitions = parseTransitions(value);
+    const unknown = transitions === 'auto' ? [] : findUnknownAnimations(transitions.flat());
+    if (unknown.length > 0) {
+      throw new Error(`Invalid animations in transitions: ${unknown.join(', ')}. Valid: ${getAnimationTypes().join(', ')}`);
+    }
+    return transitions;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+// One policy for every stage, or stage=policy pairs; unset stages keep their defaults
+function parseFallback(value: string | undefined): Record<PipelineStage, FallbackPolicy> {
+  try {
+    return resolveFallbackPolicies(value === undefined ? undefined : parseFallbackPolicies(value));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+function parseModerationAction(value: string): ModerationAction {
+  if (!MODERATION_ACTIONS.includes(value as ModerationAction)) {
+    console.error(`Invalid moderation action: ${value}. Valid actions: ${MODERATION_ACTIONS.join(', ')}`);
+    process.exit(1);
+  }
+  return value as ModerationAction;
+}
+
+function parseCandidates(value: string): number {
+  const candidates = Number(value);
+  if (!Number.isInteger(candidates) || candidates < 1 || candidates > 16) {
+    console.error(`Invalid candidates: ${value}. Must be an integer between 1 and 16`);
+    process.exit(1);
+  }
+  return candidates;
+}
+
+function parsePickMode(value: string, candidates: number): PickMode {
+  if (PICK_MODES.includes(value as typeof PICK_MODES[number])) {
+    return value as PickMode;
+  }
+  const rank = Number(value);
+  if (!Number.isInteger(rank) || rank < 1) {
+    console.error(`Invalid pick mode: ${value}. Valid modes: ${PICK_MODES.join(', ')}, or a candidate rank such as 2`);
+    process.exit(1);
+  }
+  if (rank > candidates) {
+    console.error(`Invalid pick: ${rank}. Only ${candidates} candidate(s) are generated; raise --candidates`);
+    process.exit(1);
+  }
+  return rank;
+}
+
+async function pickCandidate(result: ImageGenResult, pick: PickMode): Promise<ImageGenResult> {
+  if (pick === 'auto') {
+    return result;
+  }
+  if (pick === 'interactive') {
+    return pickCandidateInteractively(result);
+  }
+  const chosen = result.candidates?.find(c => c.rank === pick);
+  if (!chosen) {
+    // A placeholder sprite has no candidates to choose from
+    console.warn(`No candidate ranked ${pick}, keeping the generated sprite`);
+    return result;
+  }
+  return pick === 1 ? result : selectImageCandidate(result, chosen.imagePath);
+}
+
+async function pickCandidateInteractively(result: ImageGenResult): Promise<ImageGenResult> {
+  const candidates = result.candidates;
+  if (!candidates || candidates.length < 2) {
+    return result;
+  }
+  if (!process.stdin.isTTY) {
+    console.warn('Interactive pick needs a terminal, keeping the top-ranked candidate');
+    return result;
+  }
+
+  console.log('\n🖼️  Candidates (best first):');
+  candidates.forEach(c => {
+    const { alphaCoverage, centering, edgeCleanliness, paletteSize } = c.scores;
+    console.log(
+      `  ${c.rank}. ${c.imagePath}  score ${c.score.toFixed(2)} ` +
+      `(coverage ${alphaCoverage.toFixed(2)}, centre ${centering.toFixed(2)}, ` +
+      `edges ${edgeCleanliness.toFixed(2)}, palette ${paletteSize.toFixed(2)})`
+    );
+  });
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await rl.question(`Pick a candidate [1-${candidates.length}] (default 1): `);
+  rl.close();
+
+  const rank = answer.trim() ? parseInt(answer, 10) : 1;
+  const chosen = candidates.find(c => c.rank === rank);
+  if (!chosen) {
+    console.warn(`No candidate ${answer.trim()}, keeping the top-ranked candidate`);
+    return result;
+  }
+
+  return rank === 1 ? result : selectImageCandidate(result, chosen.imagePath);
+}
+
+// Undefined keeps the default: pixel style is pixelized with an adaptive palette
+function parsePixelize(options: {
+  palette?: string;
+  pixelResolution?: string;
+  pixelUpscale: string;
+}): PixelizeOptions | undefined {
+  const upscale = Number(options.pixelUpscale);
+  if (!Number.isInteger(upscale) || upscale < 1 || upscale > 16) {
+    console.error(`Invalid pixel upscale: ${options.pixelUpscale}. Must be an integer between 1 and 16`);
+    process.exit(1);
+  }
+
+  let resolution: number | undefined;
+  if (options.pixelResolution !== undefined) {
+    resolution = Number(options.pixelResolution);
+    if (!Number.isInteger(resolution) || resolution < 8 || resolution > 512) {
+      console.error(`Invalid pixel resolution: ${options.pixelResolution}. Must be an integer between 8 and 512`);
+      process.exit(1);
+    }
+  }
+
+  if (!options.palette && resolution === undefined && upscale === 1) {
+    return undefined;
+  }
+  return { palette: options.palette, resolution, upscale };
+}
+
+function parseReferenceStrength(value: string): number {
+  const strength = Number(value);
+  if (!(strength >= 0 && strength <= 1)) {
+    console.error(`Invalid reference strength: ${value}. Must be a number between 0 and 1`);
+    process.exit(1);
+  }
+  return strength;
+}
+
+function parseViews(front: string, views: string[]): string | MultiViewImages {
+  if (views.length === 0) {
+    return front;
+  }
+
+  const images: MultiViewImages = { front };
+  for (const entry of views) {
+    const [view, imagePath] = entry.split(/=(.*)/s);
+    if (!imagePath || view === 'front' || !TURNAROUND_VIEWS.includes(view as TurnaroundView)) {
+      console.error(`Invalid view: ${entry}. Use <view>=<path> with view one of ${TURNAROUND_VIEWS.filter(v => v !== 'front').join(', ')}`);
+      process.exit(1);
+    }
+    images[view as TurnaroundView] = imagePath;
+  }
+  return images;
+}
+
+function parseStyle(value: string) {
+  const style = getStyle(value);
+  if (!style) {
+    console.error(`Invalid style: ${value}. Valid styles: ${getStyleNames().join(', ')}`);
+    process.exit(1);
+  }
+  return style;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseSeed(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const seed = Number(value);
+  if (!isValidSeed(seed)) {
+    console.error(`Invalid seed: ${value}. Seed must be an integer from 0 to ${2 ** 32 - 1}`);
+    process.exit(1);
+  }
+  return seed;
+}
+
+await program.parseAsync();
@@ -0,0 +1,219 @@
+import { toDirectionalName } from '../animations/index.js';
+import { toTransitionName } from '../video-gen/transitions.js';
+import type {
+  DegradedOutput,
+  FallbackInfo,
+  FallbackPolicies,
+  FallbackPolicy,
+  PipelineResult,
+  PipelineStage,
+  ProviderChain,
+  ProviderChains,
+} from '../types.js';
+
+// Images fail loudly since every later stage builds on them; clips and models keep
+// the run going with a flagged placeholder
+export const DEFAULT_FALLBACK_POLICIES: Record<PipelineStage, FallbackPolicy> = {
+  image: 'fail',
+  video: 'placeholder',
+  rigging: 'placeholder',
+};
+
+export interface FallbackRun<T extends FallbackInfo> {
+  // Log prefix, e.g. 'VideoGen'
+  label: string;
+  // Configured chain, tried in order while providers fail with retryable errors
+  providers: string[];
+  // Further providers, only tried under 'next-provider'
+  alternatives?: string[];
+  policy: FallbackPolicy;
+  generate: (provider: string) => Promise<T>;
+  placeholder: () => Promise<T>;
+}
+
+// The provider cannot be used here at all, e.g. its API key is not set. Retryable in the sense
+// that the next provider in the chain may still serve the stage.
+export class ProviderUnavailableError extends Error {
+  readonly provider: string;
+  readonly retryable = true;
+
+  constructor(message: string, provider: string) {
+    super(message);
+    this.name = 'ProviderUnavailableError';
+    this.provider = provider;
+  }
+}
+
+// Walks the provider chain and applies the stage's policy once it has given up.
+// Only retryable errors (rate limits, quota, outages) move on to the next provider,
+// unless the policy is 'next-provider', which moves on after any error.
+export async function runWithFallback<T extends FallbackInfo>(run: FallbackRun<T>): Promise<T> {
+  const { label, providers, alternatives = [], policy, generate, placeholder } = run;
+  if (!getFallbackPolicies().includes(policy)) {
+    throw new Error(`Invalid fallback policy: ${policy}. Valid policies: ${getFallbackPolicies().join(', ')}`);
+  }
+  if (providers.length === 0) {
+    throw new Error(`No ${label} providers configured`);
+  }
+
+  const chain = policy === 'next-provider' ? [...new Set([...providers, ...alternatives])] : providers;
+  const failures: string[] = [];
+  let lastError: unknown;
+
+  for (const [index, provider] of chain.entries()) {
+    try {
+      const result = await generate(provider);
+      return failures.length > 0 ? { ...result, fallbackReason: failures.join('; ') } : result;
+    } catch (error) {
+      lastError = error;
+      failures.push(`${provider}: ${error instanceof Error ? error.message : error}`);
+      const next = chain[index + 1];
+      if (!next) {
+        break;
+      }
+      if (policy !== 'next-provider' && !isRetryableError(error)) {
+        console.warn(`[${label}] ${provider} failed with a non-retryable error, not trying ${next}`);
+        break;
+      }
+      console.warn(`[${label}] ${provider} failed, trying ${next}`);
+    }
+  }
+
+  const reason = failures.join('; ');
+  if (policy === 'placeholder') {
+    console.warn(`[${label}] Using a placeholder after ${reason}`);
+    return { ...(await placeholder()), isPlaceholder: true, fallbackReason: reason };
+  }
+  // A single provider's typed error is more useful to callers than a summary
+  if (failures.length === 1) {
+    throw lastError;
+  }
+  throw new Error(`All ${label} providers failed: ${reason}`);
+}
+
+// Typed errors say whether they are retryable; otherwise rate limits, quota, 5xx
+// responses, timeouts and network failures are, while bad keys and requests are not
+export function isRetryableError(error: unknown): boolean {
+  if (error && typeof error === 'object' && 'retryable' in error && typeof error.retryable === 'boolean') {
+    return error.retryable;
+  }
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network error/i.test(message);
+}
+
+// HTTP status from SDK errors (status), axios errors (response.status) or messages like 'Tripo API error (503): ...'
+function getErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object') {
+    const { status, response } = error as { status?: unknown; response?: { status?: unknown } };
+    if (typeof status === 'number') {
+      return status;
+    }
+    if (typeof response?.status === 'number') {
+      return response.status;
+    }
+  }
+  const match = (error instanceof Error ? error.message : String(error)).match(/\((\d{3})\)|\bstatus(?: code)? (\d{3})\b|failed: (\d{3})\b/i);
+  return match ? Number(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+// Accepts one provider or a chain per stage; stages left out use the caller's defaults
+export function resolveProviderChains(value: ProviderChains = {}): Partial<Record<PipelineStage, string[]>> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Provider chains must map pipeline stages to providers');
+  }
+  const stages = Object.keys(DEFAULT_FALLBACK_POLICIES);
+  const chains: Partial<Record<PipelineStage, string[]>> = {};
+  for (const [stage, chain] of Object.entries(value) as [PipelineStage, ProviderChain<string> | undefined][]) {
+    if (!stages.includes(stage)) {
+      throw new Error(`Unknown pipeline stage: ${stage}. Valid stages: ${stages.join(', ')}`);
+    }
+    if (chain !== undefined) {
+      chains[stage] = toProviderList(chain, stage);
+    }
+  }
+  return chains;
+}
+
+// Normalises one provider or a chain to a non-empty list without duplicates
+export function toProviderList<P extends string>(chain: ProviderChain<P>, stage?: string): P[] {
+  const list = (Array.isArray(chain) ? chain : [chain]).map(p => (typeof p === 'string' ? p.trim() : p)) as P[];
+  if (list.length === 0 || list.some(p => typeof p !== 'string' || p === '')) {
+    throw new Error(`Invalid ${stage ? `${stage} ` : ''}provider chain: ${JSON.stringify(chain)}`);
+  }
+  return [...new Set(list)];
+}
+
+// Command-line form: 'stability' or 'stability,openai'
+export function parseProviderChain(spec: string): string[] {
+  return toProviderList(spec.split(','));
+}
+
+// Accepts one policy for every stage or a per-stage map; stages left out keep their defaults
+export function resolveFallbackPolicies(value: FallbackPolicy | FallbackPolicies = {}): Record<PipelineStage, FallbackPolicy> {
+  const policies: FallbackPolicies = typeof value === 'string' ? { image: value, video: value, rigging: value } : value;
+  const stages = Object.keys(DEFAULT_FALLBACK_POLICIES);
+  for (const [stage, policy] of Object.entries(policies)) {
+    if (!stages.includes(stage)) {
+      throw new Error(`Unknown pipeline stage: ${stage}. Valid stages: ${stages.join(', ')}`);
+    }
+    if (!getFallbackPolicies().includes(policy)) {
+      throw new Error(`Invalid fallback policy for ${stage}: ${policy}. Valid policies: ${getFallbackPolicies().join(', ')}`);
+    }
+  }
+  return { ...DEFAULT_FALLBACK_POLICIES, ...policies };
+}
+
+// Command-line form: 'fail' for every stage, or 'video=next-provider,rigging=fail'
+export function parseFallbackPolicies(spec: string): FallbackPolicy | FallbackPolicies {
+  if (!spec.includes('=')) {
+    return spec.trim() as FallbackPolicy;
+  }
+  const policies: Record<string, string> = {};
+  for (const entry of spec.split(',')) {
+    const [stage, policy = ''] = entry.split('=').map(part => part.trim());
+    policies[stage] = policy;
+  }
+  return policies as FallbackPolicies;
+}
+
+// Placeholders and substituted providers, in pipeline order
+export function findDegradedOutputs(result: Pick<PipelineResult, 'imageGen' | 'videoGen' | 'rigging' | 'transitions'>): DegradedOutput[] {
+  const outputs: DegradedOutput[] = [];
+  const add = (stage: PipelineStage, name: string, path: string, info: FallbackInfo & { provider?: string }) => {
+    if (info.isPlaceholder || info.fallbackReason) {
+      const isPlaceholder = info.isPlaceholder === true;
+      outputs.push({
+        stage,
+        name,
+        path,
+        isPlaceholder,
+        ...(!isPlaceholder && info.provider && { provider: info.provider }),
+        reason: info.fallbackReason,
+      });
+    }
+  };
+
+  add('image', 'image', result.imageGen.imagePath, result.imageGen);
+  for (const clip of result.videoGen) {
+    add('video', toDirectionalName(clip.animationType, clip.direction), clip.videoPath, clip);
+  }
+  for (const transition of result.transitions ?? []) {
+    add('video', toTransitionName(transition.from, transition.to, transition.direction), transition.videoPath, transition);
+  }
+  add('rigging', 'rigging', result.rigging.riggedModelPath, result.rigging);
+  return outputs;
+}
+
+export function formatDegradedOutput(output: DegradedOutput): string {
+  const kind = output.isPlaceholder ? 'placeholder' : `fallback provider${output.provider ? ` ${output.provider}` : ''}`;
+  const label = output.name === output.stage ? output.stage : `${output.stage} ${output.name}`;
+  return `${label}: ${kind}${output.reason ? ` (${output.reason})` : ''}`;
+}
+
+export function getFallbackPolicies(): FallbackPolicy[] {
+  return ['fail', 'placeholder', 'next-provider'];
+}
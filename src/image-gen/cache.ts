@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { ImageProviderOutput, ImageProviderRequest } from './index.js';
+
+export interface ImageCacheOptions {
+  // Defaults to IMAGE_CACHE_DIR, then .cache/images in the working directory
+  dir?: string;
+}
+
+export interface ImageCacheEntry {
+  key: string;
+  imagePath: string;
+  provider: string;
+  model?: string;
+  prompt: string;
+  resolution: number;
+  seed?: number;
+  size: number;
+  createdAt: string;
+}
+
+interface StoredEntry extends Omit<ImageCacheEntry, 'imagePath' | 'size'> {
+  metadata: Record<string, unknown>;
+}
+
+// Workers in this process asking for the same key share one provider call
+const pending = new Map<string, Promise<ImageProviderOutput>>();
+
+export function getImageCacheDir(dir?: string): string {
+  return path.resolve(dir ?? process.env.IMAGE_CACHE_DIR ?? path.join('.cache', 'images'));
+}
+
+// Everything that changes the pixels the provider returns goes into the key
+export function imageCacheKey(provider: string, request: ImageProviderRequest, candidate = 0): string {
+  const payload = {
+    provider,
+    model: request.providerOptions.model ?? null,
+    prompt: request.prompt,
+    negativePrompt: request.negativePrompt,
+    resolution: request.resolution,
+    seed: request.seed ?? null,
+    // Unseeded providers return a different image per candidate, so the index matters
+    candidate: request.seed === undefined ? candidate : 0,
+    references: (request.referenceImages ?? []).map(sha256),
+    referenceStrength: request.referenceImages?.length ? request.referenceStrength : null,
+    providerOptions: sortKeys(request.providerOptions),
+  };
+  return sha256(JSON.stringify(payload));
+}
+
+export async function cachedGenerate(
+  key: string,
+  provider: string,
+  request: ImageProviderRequest,
+  generate: () => Promise<ImageProviderOutput>,
+  options: ImageCacheOptions = {}
+): Promise<ImageProviderOutput> {
+  const dir = getImageCacheDir(options.dir);
+  const hit = await readImageCache(key, dir);
+  if (hit) {
+    console.log(`[ImageGen] Cache hit ${key.slice(0, 12)}, skipping ${provider}`);
+    return hit;
+  }
+
+  const inFlight = pending.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const promise = (async () => {
+    const output = await generate();
+    await writeImageCache(key, provider, request, output, dir);
+    return output;
+  })();
+  pending.set(key, promise);
+  try {
+    return await promise;
+  } finally {
+    pending.delete(key);
+  }
+}
+
+export async function readImageCache(key: string, dir = getImageCacheDir()): Promise<ImageProviderOutput | null> {
+  const { imagePath, metaPath } = entryPaths(dir, key);
+  try {
+    // The metadata file is written last, so its presence marks a complete entry
+    const stored = JSON.parse(await fs.readFile(metaPath, 'utf-8')) as StoredEntry;
+    const image = await fs.readFile(imagePath);
+    return { image, metadata: { ...stored.metadata, cached: true, cacheKey: key } };
+  } catch {
+    return null;
+  }
+}
+
+async function writeImageCache(
+  key: string,
+  provider: string,
+  request: ImageProviderRequest,
+  output: ImageProviderOutput,
+  dir: string
+): Promise<void> {
+  const { imagePath, metaPath } = entryPaths(dir, key);
+  const stored: StoredEntry = {
+    key,
+    provider,
+    model: typeof output.metadata.model === 'string' ? output.metadata.model : undefined,
+    prompt: request.prompt,
+    resolution: request.resolution,
+    seed: typeof output.metadata.seed === 'number' ? output.metadata.seed : request.seed,
+    createdAt: new Date().toISOString(),
+    metadata: output.metadata,
+  };
+
+  try {
+    await fs.mkdir(path.dirname(imagePath), { recursive: true });
+    await writeAtomic(imagePath, output.image);
+    await writeAtomic(metaPath, JSON.stringify(stored, null, 2));
+  } catch (error) {
+    // A cache that cannot be written should never fail a paid-for generation
+    console.warn(`[ImageGen] Could not write cache entry ${key.slice(0, 12)}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export async function listImageCache(dir = getImageCacheDir()): Promise<ImageCacheEntry[]> {
+  let shards: string[];
+  try {
+    shards = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const entries: ImageCacheEntry[] = [];
+  for (const shard of shards) {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(dir, shard));
+    } catch {
+      continue;
+    }
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const { imagePath, metaPath } = entryPaths(dir, path.basename(file, '.json'));
+      try {
+        const stored = JSON.parse(await fs.readFile(metaPath, 'utf-8')) as StoredEntry;
+        const { size } = await fs.stat(imagePath);
+        const { metadata: _metadata, ...entry } = stored;
+        entries.push({ ...entry, imagePath, size });
+      } catch {
+        // Half-written or hand-edited entries are skipped, prune/clear still remove them
+      }
+    }
+  }
+
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Removes entries created more than olderThanMs ago and returns them
+export async function pruneImageCache(olderThanMs: number, dir = getImageCacheDir()): Promise<ImageCacheEntry[]> {
+  const cutoff = Date.now() - olderThanMs;
+  const expired = (await listImageCache(dir)).filter(entry => Date.parse(entry.createdAt) < cutoff);
+
+  for (const entry of expired) {
+    const { imagePath, metaPath } = entryPaths(dir, entry.key);
+    // Metadata first, so a concurrent reader never sees an entry without its image
+    await fs.rm(metaPath, { force: true });
+    await fs.rm(imagePath, { force: true });
+  }
+  return expired;
+}
+
+export async function clearImageCache(dir = getImageCacheDir()): Promise<number> {
+  const count = (await listImageCache(dir)).length;
+  await fs.rm(dir, { recursive: true, force: true });
+  return count;
+}
+
+function entryPaths(dir: string, key: string): { imagePath: string; metaPath: string } {
+  const shard = path.join(dir, key.slice(0, 2));
+  return {
+    imagePath: path.join(shard, `${key}.png`),
+    metaPath: path.join(shard, `${key}.json`),
+  };
+}
+
+// Write to a unique temp file and rename, so concurrent writers never interleave bytes
+async function writeAtomic(filePath: string, data: Buffer | string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function sortKeys(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+}
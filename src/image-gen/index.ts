@@ -1,39 +1,86 @@
-import OpenAI from 'openai';
+import OpenAI, { toFile } from 'openai';
 import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
-import type { CharacterStyle, ImageGenResult } from '../types.js';
-
-export type ImageProvider = 'openai' | 'stability' | 'pixellab';
-
-const STYLE_PROMPTS: Record<CharacterStyle, { prefix: string; suffix: string }> = {
-  pixel: {
-    prefix: 'pixel art sprite sheet, game asset, transparent background, ',
-    suffix: ', 8-bit style, clean edges, no anti-aliasing, game-ready',
-  },
-  anime: {
-    prefix: 'anime chibi character, game sprite, transparent background, ',
-    suffix: ', cel shaded, cute proportions, high quality',
-  },
-  lowpoly: {
-    prefix: 'low poly 3D character render, game asset, transparent background, ',
-    suffix: ', flat shading, geometric, minimalist style',
-  },
-  painterly: {
-    prefix: 'hand-painted fantasy character, game art, transparent background, ',
-    suffix: ', stylized, vibrant colors, concept art quality',
-  },
-  voxel: {
-    prefix: 'voxel art character, 3D cube style, game asset, transparent background, ',
-    suffix: ', minecraft-like, blocky, isometric view',
-  },
-};
-
-interface GenerateOptions {
+import sharp from 'sharp';
+import { rankCandidates } from './ranking.js';
+import { postProcessSprite, PostProcessOptions } from './post-process.js';
+import { pixelizeSprite, PixelizeOptions } from './pixelize.js';
+import { loadPalette } from './palettes.js';
+import { getStyle, getStyleNames, getStyles, StyleDefinition } from './styles.js';
+import { cachedGenerate, imageCacheKey, ImageCacheOptions } from './cache.js';
+import { describeCharacterSheet } from '../prompt-expansion/index.js';
+import { DEFAULT_FALLBACK_POLICIES, runWithFallback, toProviderList } from '../fallback/index.js';
+import type { CharacterSheet, CharacterStyle, FallbackPolicy, ImageCandidate, ImageGenResult, ProviderChain } from '../types.js';
+
+export type BuiltInImageProvider = 'openai' | 'stability' | 'pixellab' | 'local-sd';
+
+// Any name registered through registerImageProvider() is accepted at runtime
+export type ImageProvider = BuiltInImageProvider | (string & {});
+
+export interface GenerateOptions {
   resolution?: number;
-  provider?: ImageProvider;
+  // One provider or a chain, e.g. ['stability', 'openai'], tried in order on rate limits and outages
+  provider?: ProviderChain<ImageProvider>;
   maxRetries?: number;
   retryDelay?: number;
+  seed?: number;
+  candidates?: number;
+  referenceImages?: string[];
+  // How closely the output follows the references, 0 (loosely) to 1 (nearly a copy)
+  referenceStrength?: number;
+  postProcess?: boolean | PostProcessOptions;
+  // Defaults to on for the pixel style unless post-processing is disabled
+  pixelize?: boolean | PixelizeOptions;
+  // Expanded character details appended to the prompt
+  characterSheet?: CharacterSheet;
+  // Reuse provider output for identical requests instead of paying again
+  cache?: boolean | ImageCacheOptions;
+  providerOptions?: Record<string, unknown>;
+  // Once the chain gives up: throw (default), save a flagged grey placeholder or try the other registered providers
+  fallback?: FallbackPolicy;
+}
+
+export interface ImageProviderRequest {
+  prompt: string;
+  negativePrompt: string;
+  userPrompt: string;
+  style: CharacterStyle;
+  resolution: number;
+  seed?: number;
+  referenceImages?: Buffer[];
+  referenceStrength?: number;
+  providerOptions: Record<string, unknown>;
+}
+
+export interface ImageProviderOutput {
+  image: Buffer;
+  metadata: Record<string, unknown>;
+}
+
+export interface ImageProviderImpl {
+  generate(request: ImageProviderRequest): Promise<ImageProviderOutput>;
+  // Providers that honour request.seed always receive one, so every run can be replayed
+  supportsSeed?: boolean;
+  // Providers without this flag are never sent reference images
+  supportsReferenceImages?: boolean;
+}
+
+const IMAGE_PROVIDERS = new Map<string, ImageProviderImpl>();
+
+export function registerImageProvider(name: string, impl: ImageProviderImpl): void {
+  if (!name.trim()) {
+    throw new Error('Image provider name must not be empty');
+  }
+  IMAGE_PROVIDERS.set(name, impl);
+}
+
+export function unregisterImageProvider(name: string): boolean {
+  return IMAGE_PROVIDERS.delete(name);
+}
+
+export function getImageProvider(name: string): ImageProviderImpl | undefined {
+  return IMAGE_PROVIDERS.get(name);
 }
 
 export async function generateImage(
@@ -42,40 +89,304 @@ export async function generateImage(
   outputDir: string,
   options: GenerateOptions = {}
 ): Promise<ImageGenResult> {
+  const stylePrompt = resolveStyle(style);
   const { 
-    resolution = 512, 
-    provider = 'openai',
+    resolution = stylePrompt.resolution ?? 512, 
+    provider = stylePrompt.provider ?? 'openai',
     maxRetries = 3,
-    retryDelay = 1000
+    retryDelay = 1000,
+    candidates = 1,
+    referenceImages = [],
+    referenceStrength = 0.35,
+    postProcess = true,
+    cache = false,
+    providerOptions = {},
+    fallback = DEFAULT_FALLBACK_POLICIES.image,
   } = options;
+  let { pixelize = defaultPixelize(stylePrompt, postProcess) } = options;
   
-  const stylePrompt = STYLE_PROMPTS[style];
-  const fullPrompt = `${stylePrompt.prefix}${prompt}${stylePrompt.suffix}`;
+  const providers = toProviderList(provider, 'image');
+  for (const name of providers) {
+    const impl = IMAGE_PROVIDERS.get(name);
+    if (!impl) {
+      throw new Error(`Unknown provider: ${name}. Registered: ${getSupportedProviders().join(', ')}`);
+    }
+    if (referenceImages.length > 0 && !impl.supportsReferenceImages) {
+      throw new Error(`Provider ${name} does not support reference images`);
+    }
+  }
+  if (!Number.isInteger(candidates) || candidates < 1) {
+    throw new Error(`Invalid candidate count: ${candidates}`);
+  }
+  if (!(referenceStrength >= 0 && referenceStrength <= 1)) {
+    throw new Error(`Invalid reference strength: ${referenceStrength}. Must be between 0 and 1`);
+  }
+  if (options.seed !== undefined) {
+    validateSeed(options.seed);
+  }
+  const references = await loadReferenceImages(referenceImages);
+
+  // Resolve palette files up front so a typo fails before the provider is paid
+  if (typeof pixelize === 'object' && typeof pixelize.palette === 'string') {
+    pixelize = { ...pixelize, palette: await loadPalette(pixelize.palette) };
+  }
+
+  const fullPrompt = optimizePrompt(prompt, style, options.characterSheet);
 
   console.log(`[ImageGen] Generating ${style} character: "${prompt}"`);
-  console.log(`[ImageGen] Provider: ${provider}, Resolution: ${resolution}`);
 
+  await fs.mkdir(outputDir, { recursive: true });
+  const imagePath = path.join(outputDir, 'sprite.png');
+
+  const generateWith = async (name: string): Promise<ImageGenResult> => {
+    const providerImpl = IMAGE_PROVIDERS.get(name)!;
+    console.log(`[ImageGen] Provider: ${name}, Resolution: ${resolution}`);
+
+    let seed: number | undefined;
+    if (providerImpl.supportsSeed) {
+      seed = options.seed ?? randomSeed();
+      console.log(`[ImageGen] Seed: ${seed}`);
+    } else if (options.seed !== undefined) {
+      console.warn(`[ImageGen] Provider ${name} does not support seeds, ignoring seed ${options.seed}`);
+    }
+
+    const request: ImageProviderRequest = {
+      prompt: fullPrompt,
+      negativePrompt: stylePrompt.negative,
+      userPrompt: prompt,
+      style,
+      resolution,
+      seed,
+      ...(references.length > 0 && { referenceImages: references, referenceStrength }),
+      providerOptions,
+    };
+    const referenceMetadata = references.length > 0 ? { referenceImages, referenceStrength } : {};
+
+    const cacheOptions = cache === true ? {} : cache || undefined;
+    const callProvider = (providerRequest: ImageProviderRequest, candidate: number) => {
+      const generate = () => generateWithRetries(providerImpl, providerRequest, maxRetries, retryDelay);
+      if (!cacheOptions) {
+        return generate();
+      }
+      const key = imageCacheKey(name, providerRequest, candidate);
+      return cachedGenerate(key, name, providerRequest, generate, cacheOptions);
+    };
+
+    if (candidates === 1) {
+      const output = await callProvider(request, 0);
+      await fs.writeFile(imagePath, output.image);
+      const postProcessing = await applyPostProcessing(imagePath, postProcess, pixelize);
+
+      console.log(`[ImageGen] Saved sprite to ${imagePath}`);
+
+      return {
+        imagePath,
+        prompt: fullPrompt,
+        provider: name,
+        metadata: {
+          ...output.metadata,
+          seed: output.metadata.seed ?? seed,
+          ...referenceMetadata,
+          ...postProcessing,
+        },
+      };
+    }
+
+    console.log(`[ImageGen] Generating ${candidates} candidates`);
+
+    const generated: Array<Omit<ImageCandidate, 'rank' | 'score' | 'scores'>> = [];
+    let lastError: Error | null = null;
+
+    for (let index = 0; index < candidates; index++) {
+      // Consecutive seeds keep every candidate individually reproducible
+      const candidateSeed = seed === undefined ? undefined : (seed + index) % 2 ** 32;
+      try {
+        const output = await callProvider({ ...request, seed: candidateSeed }, index);
+        const candidatePath = path.join(outputDir, `sprite_${index}.png`);
+        await fs.writeFile(candidatePath, output.image);
+        generated.push({
+          imagePath: candidatePath,
+          metadata: { ...output.metadata, seed: output.metadata.seed ?? candidateSeed, candidateIndex: index, ...referenceMetadata },
+        });
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        console.warn(`[ImageGen] Candidate ${index} failed: ${lastError.message}`);
+      }
+    }
+
+    if (generated.length === 0) {
+      throw lastError || new Error('Image generation failed for all candidates');
+    }
+
+    // Rank the raw provider output: trimming and re-padding would hide framing problems
+    const ranked = await rankCandidates(generated);
+    for (const candidate of ranked) {
+      Object.assign(candidate.metadata, await applyPostProcessing(candidate.imagePath, postProcess, pixelize));
+    }
+    const best = ranked[0];
+    await fs.copyFile(best.imagePath, imagePath);
+
+    console.log(`[ImageGen] Best candidate: ${path.basename(best.imagePath)} (score ${best.score.toFixed(3)})`);
+    console.log(`[ImageGen] Saved sprite to ${imagePath}`);
+
+    return {
+      imagePath,
+      prompt: fullPrompt,
+      provider: name,
+      metadata: best.metadata,
+      candidates: ranked,
+    };
+  };
+
+  // Fallback providers must honour the same reference images as the requested one
+  const alternatives = getSupportedProviders().filter(
+    p => referenceImages.length === 0 || IMAGE_PROVIDERS.get(p)!.supportsReferenceImages
+  );
+  return runWithFallback({
+    label: 'ImageGen',
+    providers,
+    alternatives,
+    policy: fallback,
+    generate: generateWith,
+    placeholder: async (): Promise<ImageGenResult> => {
+      await createPlaceholderImage(imagePath, resolution);
+      return { imagePath, prompt: fullPrompt, provider: 'placeholder', metadata: {} };
+    },
+  });
+}
+
+export async function selectImageCandidate(
+  result: ImageGenResult,
+  candidatePath: string
+): Promise<ImageGenResult> {
+  const candidate = result.candidates?.find(c => c.imagePath === candidatePath);
+  if (!candidate) {
+    throw new Error(`Not a candidate of this result: ${candidatePath}`);
+  }
+
+  await fs.copyFile(candidate.imagePath, result.imagePath);
+  console.log(`[ImageGen] Promoted ${path.basename(candidate.imagePath)} to ${result.imagePath}`);
+
+  return {
+    ...result,
+    metadata: candidate.metadata,
+  };
+}
+
+function resolveStyle(style: CharacterStyle): StyleDefinition {
+  const definition = getStyle(style);
+  if (!definition) {
+    throw new Error(`Unknown style: ${style}. Registered: ${getStyleNames().join(', ')}`);
+  }
+  return definition;
+}
+
+// A style's palette implies pixelizing; --no-post-process keeps the raw output
+function defaultPixelize(style: StyleDefinition, postProcess: boolean | PostProcessOptions): boolean | PixelizeOptions {
+  if (postProcess === false || !(style.pixelize ?? style.palette !== undefined)) {
+    return false;
+  }
+  return style.palette ? { palette: style.palette } : true;
+}
+
+async function loadReferenceImages(paths: string[]): Promise<Buffer[]> {
+  return Promise.all(
+    paths.map(async (referencePath) => {
+      try {
+        return await fs.readFile(referencePath);
+      } catch {
+        throw new Error(`Reference image not found: ${referencePath}`);
+      }
+    })
+  );
+}
+
+// Flat grey square the size of a real sprite, so later stages still have an image to read
+async function createPlaceholderImage(imagePath: string, resolution: number): Promise<void> {
+  await sharp({
+    create: { width: resolution, height: resolution, channels: 4, background: { r: 128, g: 128, b: 128, alpha: 1 } },
+  })
+    .png()
+    .toFile(imagePath);
+}
+
+// Square, opaque PNG at the generation size; img2img endpoints reject odd sizes and alpha
+async function prepareInitImage(image: Buffer, size: number): Promise<Buffer> {
+  return sharp(image)
+    .resize(size, size, { fit: 'contain', background: { r: 255, g: 255, b: 255, alpha: 1 } })
+    .flatten({ background: { r: 255, g: 255, b: 255 } })
+    .png()
+    .toBuffer();
+}
+
+async function applyPostProcessing(
+  imagePath: string,
+  postProcess: boolean | PostProcessOptions,
+  pixelize: boolean | PixelizeOptions
+): Promise<{ postProcessing?: string[]; pixelArt?: Record<string, unknown> }> {
+  if (postProcess === false && pixelize === false) {
+    return {};
+  }
+
+  const postProcessOptions = postProcess === true ? {} : postProcess;
+  const steps: string[] = [];
+  let pixelArt: Record<string, unknown> | undefined;
+
+  try {
+    if (pixelize === false) {
+      steps.push(...(await postProcessSprite(imagePath, postProcessOptions || {})).steps);
+    } else {
+      // Cut the background before snapping to the grid, but keep alpha hard and the
+      // full canvas so grid offsets still line up; trim and padding happen afterwards
+      if (postProcessOptions) {
+        const cleaned = await postProcessSprite(imagePath, {
+          ...postProcessOptions,
+          feather: 0,
+          trim: false,
+          padSquare: false,
+        });
+        steps.push(...cleaned.steps);
+      }
+
+      const pixelized = await pixelizeSprite(imagePath, pixelize === true ? {} : pixelize);
+      steps.push(...pixelized.steps);
+      pixelArt = {
+        gridSize: pixelized.gridSize,
+        width: pixelized.width,
+        height: pixelized.height,
+        palette: pixelized.palette,
+        colors: pixelized.colors,
+      };
+
+      if (postProcessOptions) {
+        const framed = await postProcessSprite(imagePath, { ...postProcessOptions, removeBackground: false });
+        steps.push(...framed.steps);
+      }
+    }
+
+    if (steps.length > 0) {
+      console.log(`[ImageGen] Post-processed ${path.basename(imagePath)}: ${steps.join(', ')}`);
+    }
+    return { postProcessing: steps, ...(pixelArt && { pixelArt }) };
+  } catch (error) {
+    // The paid-for image is still usable, so a failed clean-up should not fail the run
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[ImageGen] Post-processing skipped for ${imagePath}: ${message}`);
+    return { postProcessing: steps };
+  }
+}
+
+async function generateWithRetries(
+  impl: ImageProviderImpl,
+  request: ImageProviderRequest,
+  maxRetries: number,
+  retryDelay: number
+): Promise<ImageProviderOutput> {
   let lastError: Error | null = null;
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      let result: ImageGenResult;
-      
-      switch (provider) {
-        case 'openai':
-          result = await generateWithOpenAI(fullPrompt, outputDir, resolution);
-          break;
-        case 'stability':
-          result = await generateWithStability(fullPrompt, outputDir, resolution);
-          break;
-        case 'pixellab':
-          result = await generateWithPixelLab(prompt, style, outputDir);
-          break;
-        default:
-          throw new Error(`Unknown provider: ${provider}`);
-      }
-      
-      return result;
+      return await impl.generate(request);
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       console.warn(`[ImageGen] Attempt ${attempt}/${maxRetries} failed: ${lastError.message}`);
@@ -91,11 +402,9 @@ export async function generateImage(
   throw lastError || new Error('Image generation failed after all retries');
 }
 
-async function generateWithOpenAI(
-  prompt: string,
-  outputDir: string,
-  resolution: number
-): Promise<ImageGenResult> {
+async function generateWithOpenAI(request: ImageProviderRequest): Promise<ImageProviderOutput> {
+  const { prompt, resolution, referenceImages } = request;
+
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) {
     throw new Error('OPENAI_API_KEY environment variable is required');
@@ -103,6 +412,10 @@ async function generateWithOpenAI(
 
   const openai = new OpenAI({ apiKey });
 
+  if (referenceImages && referenceImages.length > 0) {
+    return editWithOpenAI(openai, request, referenceImages);
+  }
+
   const response = await openai.images.generate({
     model: 'dall-e-3',
     prompt,
@@ -120,18 +433,8 @@ async function generateWithOpenAI(
     throw new Error('No base64 image data returned from OpenAI');
   }
 
-  await fs.mkdir(outputDir, { recursive: true });
-  const imagePath = path.join(outputDir, 'sprite.png');
-  
-  const buffer = Buffer.from(imageData.b64_json, 'base64');
-  await fs.writeFile(imagePath, buffer);
-
-  console.log(`[ImageGen] Saved sprite to ${imagePath}`);
-
   return {
-    imagePath,
-    prompt,
-    provider: 'openai',
+    image: Buffer.from(imageData.b64_json, 'base64'),
     metadata: {
       model: 'dall-e-3',
       revisedPrompt: imageData.revised_prompt,
@@ -140,65 +443,117 @@ async function generateWithOpenAI(
   };
 }
 
-async function generateWithStability(
-  prompt: string,
-  outputDir: string,
-  resolution: number
-): Promise<ImageGenResult> {
+// DALL-E 3 has no edits endpoint; gpt-image-1 takes up to 16 references but no strength control
+async function editWithOpenAI(
+  openai: OpenAI,
+  request: ImageProviderRequest,
+  referenceImages: Buffer[]
+): Promise<ImageProviderOutput> {
+  const { prompt, resolution } = request;
+
+  const response = await openai.images.edit({
+    model: 'gpt-image-1',
+    image: await Promise.all(
+      referenceImages.slice(0, 16).map((image, index) => toFile(image, `reference_${index}.png`))
+    ),
+    prompt,
+    n: 1,
+    size: '1024x1024',
+    quality: 'high',
+    background: 'transparent',
+  });
+
+  const imageData = response.data?.[0];
+  if (!imageData?.b64_json) {
+    throw new Error('No base64 image data returned from OpenAI edits');
+  }
+
+  return {
+    image: Buffer.from(imageData.b64_json, 'base64'),
+    metadata: {
+      model: 'gpt-image-1',
+      resolution,
+    },
+  };
+}
+
+async function generateWithStability(request: ImageProviderRequest): Promise<ImageProviderOutput> {
+  const { prompt, resolution, seed, referenceImages } = request;
+
   const apiKey = process.env.STABILITY_API_KEY;
   if (!apiKey) {
     throw new Error('STABILITY_API_KEY environment variable is required');
   }
 
-  const response = await axios.post(
-    'https://api.stability.ai/v1/generation/stable-diffusion-xl-1024-v1-0/text-to-image',
-    {
-      text_prompts: [{ text: prompt, weight: 1 }],
-      cfg_scale: 7,
-      height: Math.min(resolution, 1024),
-      width: Math.min(resolution, 1024),
-      samples: 1,
-      steps: 30,
-    },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        Accept: 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
+  const engine = 'stable-diffusion-xl-1024-v1-0';
+  const size = Math.min(resolution, 1024);
+  const headers = {
+    Accept: 'application/json',
+    Authorization: `Bearer ${apiKey}`,
+  };
+
+  let response;
+  if (referenceImages && referenceImages.length > 0) {
+    if (referenceImages.length > 1) {
+      console.warn('[ImageGen] Stability image-to-image uses only the first reference image');
     }
-  );
+
+    const form = new FormData();
+    form.append(
+      'init_image',
+      new Blob([new Uint8Array(await prepareInitImage(referenceImages[0], size))], { type: 'image/png' }),
+      'init.png'
+    );
+    form.append('init_image_mode', 'IMAGE_STRENGTH');
+    form.append('image_strength', String(request.referenceStrength ?? 0.35));
+    form.append('text_prompts[0][text]', prompt);
+    form.append('text_prompts[0][weight]', '1');
+    form.append('cfg_scale', '7');
+    form.append('samples', '1');
+    form.append('steps', '30');
+    if (seed !== undefined) {
+      form.append('seed', String(seed));
+    }
+
+    response = await axios.post(
+      `https://api.stability.ai/v1/generation/${engine}/image-to-image`,
+      form,
+      { headers }
+    );
+  } else {
+    response = await axios.post(
+      `https://api.stability.ai/v1/generation/${engine}/text-to-image`,
+      {
+        text_prompts: [{ text: prompt, weight: 1 }],
+        cfg_scale: 7,
+        height: size,
+        width: size,
+        samples: 1,
+        steps: 30,
+        seed,
+      },
+      { headers: { ...headers, 'Content-Type': 'application/json' } }
+    );
+  }
 
   const artifacts = response.data.artifacts;
   if (!artifacts || artifacts.length === 0) {
     throw new Error('No image data returned from Stability AI');
   }
 
-  await fs.mkdir(outputDir, { recursive: true });
-  const imagePath = path.join(outputDir, 'sprite.png');
-  
-  const buffer = Buffer.from(artifacts[0].base64, 'base64');
-  await fs.writeFile(imagePath, buffer);
-
-  console.log(`[ImageGen] Saved sprite to ${imagePath}`);
-
   return {
-    imagePath,
-    prompt,
-    provider: 'stability',
+    image: Buffer.from(artifacts[0].base64, 'base64'),
     metadata: {
-      model: 'stable-diffusion-xl-1024-v1-0',
+      model: engine,
       seed: artifacts[0].seed,
       resolution,
     },
   };
 }
 
-async function generateWithPixelLab(
-  prompt: string,
-  style: CharacterStyle,
-  outputDir: string
-): Promise<ImageGenResult> {
+async function generateWithPixelLab(request: ImageProviderRequest): Promise<ImageProviderOutput> {
+  const { userPrompt, style, seed } = request;
+
   const apiKey = process.env.PIXELLAB_API_KEY;
   if (!apiKey) {
     throw new Error('PIXELLAB_API_KEY environment variable is required');
@@ -208,11 +563,12 @@ async function generateWithPixelLab(
   const response = await axios.post(
     'https://api.pixellab.ai/v1/generate',
     {
-      prompt,
+      prompt: userPrompt,
       style: style === 'pixel' ? '8bit' : '16bit',
       width: 64,
       height: 64,
       animation: false,
+      seed,
     },
     {
       headers: {
@@ -226,37 +582,392 @@ async function generateWithPixelLab(
     throw new Error('No image data returned from PixelLab');
   }
 
-  await fs.mkdir(outputDir, { recursive: true });
-  const imagePath = path.join(outputDir, 'sprite.png');
-  
-  const buffer = Buffer.from(response.data.image, 'base64');
-  await fs.writeFile(imagePath, buffer);
-
-  console.log(`[ImageGen] Saved sprite to ${imagePath}`);
-
   return {
-    imagePath,
-    prompt,
-    provider: 'pixellab',
+    image: Buffer.from(response.data.image, 'base64'),
     metadata: {
       model: 'pixellab-v1',
       style,
+      seed,
       resolution: 64,
     },
   };
 }
 
-export function optimizePrompt(userPrompt: string, style: CharacterStyle): string {
-  const stylePrompt = STYLE_PROMPTS[style];
-  return `${stylePrompt.prefix}${userPrompt}${stylePrompt.suffix}`;
+export type LocalSDBackend = 'automatic1111' | 'comfyui';
+
+export interface LocalSDLora {
+  name: string;
+  weight?: number;
+}
+
+export interface LocalSDOptions {
+  baseUrl?: string;
+  backend?: LocalSDBackend;
+  steps?: number;
+  sampler?: string;
+  scheduler?: string;
+  cfgScale?: number;
+  checkpoint?: string;
+  loras?: Array<string | LocalSDLora>;
+  pollInterval?: number;
+  timeout?: number;
+}
+
+async function generateWithLocalSD(request: ImageProviderRequest): Promise<ImageProviderOutput> {
+  const options = request.providerOptions as LocalSDOptions;
+  const backend = options.backend
+    || (process.env.LOCAL_SD_BACKEND as LocalSDBackend | undefined)
+    || 'automatic1111';
+  const baseUrl = (options.baseUrl || process.env.LOCAL_SD_URL || defaultLocalSDUrl(backend))
+    .replace(/\/+$/, '');
+
+  if (backend === 'comfyui') {
+    return generateWithComfyUI(request, options, baseUrl);
+  }
+  if (backend === 'automatic1111') {
+    return generateWithAutomatic1111(request, options, baseUrl);
+  }
+  throw new Error(`Unknown local-sd backend: ${backend}`);
+}
+
+function defaultLocalSDUrl(backend: LocalSDBackend): string {
+  return backend === 'comfyui' ? 'http://127.0.0.1:8188' : 'http://127.0.0.1:7860';
+}
+
+function normalizeLoras(loras: LocalSDOptions['loras'] = []): LocalSDLora[] {
+  return loras.map(lora => (typeof lora === 'string' ? { name: lora } : lora));
+}
+
+async function generateWithAutomatic1111(
+  request: ImageProviderRequest,
+  options: LocalSDOptions,
+  baseUrl: string
+): Promise<ImageProviderOutput> {
+  const { prompt, negativePrompt, resolution, seed = -1, referenceImages = [] } = request;
+  const {
+    steps = 30,
+    sampler = 'DPM++ 2M Karras',
+    cfgScale = 7,
+    checkpoint,
+    timeout = 300000,
+  } = options;
+  const loras = normalizeLoras(options.loras);
+
+  // Automatic1111 activates LoRAs through prompt tags rather than a request field
+  const loraTags = loras.map(lora => `<lora:${lora.name}:${lora.weight ?? 1}>`).join(' ');
+  const size = Math.min(resolution, 1024);
+
+  // img2img takes the same payload plus init images; denoising is the inverse of strength
+  const img2img = referenceImages.length > 0 ? {
+    init_images: referenceImages.map(image => image.toString('base64')),
+    denoising_strength: 1 - (request.referenceStrength ?? 0.35),
+  } : null;
+
+  const response = await axios.post(
+    `${baseUrl}/sdapi/v1/${img2img ? 'img2img' : 'txt2img'}`,
+    {
+      ...(img2img ?? {}),
+      prompt: loraTags ? `${prompt} ${loraTags}` : prompt,
+      negative_prompt: negativePrompt,
+      seed,
+      steps,
+      sampler_name: sampler,
+      cfg_scale: cfgScale,
+      width: size,
+      height: size,
+      batch_size: 1,
+      n_iter: 1,
+      ...(checkpoint ? { override_settings: { sd_model_checkpoint: checkpoint } } : {}),
+    },
+    { timeout }
+  );
+
+  const images: string[] | undefined = response.data.images;
+  if (!images || images.length === 0) {
+    throw new Error('No image data returned from Automatic1111');
+  }
+
+  const info = parseAutomatic1111Info(response.data.info);
+
+  return {
+    image: Buffer.from(images[0], 'base64'),
+    metadata: {
+      model: info.sd_model_name ?? checkpoint ?? 'local-sd',
+      seed: info.seed ?? seed,
+      resolution,
+      backend: 'automatic1111',
+      steps,
+      sampler,
+      loras,
+    },
+  };
 }
 
-export function getStylePrompts(): Record<CharacterStyle, { prefix: string; suffix: string }> {
-  return { ...STYLE_PROMPTS };
+function parseAutomatic1111Info(info: unknown): { seed?: number; sd_model_name?: string } {
+  if (typeof info !== 'string') {
+    return {};
+  }
+  try {
+    return JSON.parse(info);
+  } catch {
+    return {};
+  }
+}
+
+interface ComfyUIImageRef {
+  filename: string;
+  subfolder: string;
+  type: string;
+}
+
+async function generateWithComfyUI(
+  request: ImageProviderRequest,
+  options: LocalSDOptions,
+  baseUrl: string
+): Promise<ImageProviderOutput> {
+  const { prompt, negativePrompt, resolution, seed = randomSeed(), referenceImages = [] } = request;
+  const {
+    steps = 30,
+    sampler = 'dpmpp_2m',
+    scheduler = 'karras',
+    cfgScale = 7,
+    checkpoint = 'sd_xl_base_1.0.safetensors',
+    pollInterval = 1000,
+    timeout = 300000,
+  } = options;
+  const loras = normalizeLoras(options.loras);
+  const size = Math.min(resolution, 1024);
+
+  let initImage: string | undefined;
+  if (referenceImages.length > 0) {
+    initImage = await uploadComfyUIImage(baseUrl, await prepareInitImage(referenceImages[0], size));
+  }
+
+  const workflow = buildComfyUIWorkflow({
+    prompt,
+    negativePrompt,
+    seed,
+    steps,
+    sampler,
+    scheduler,
+    cfgScale,
+    checkpoint,
+    loras,
+    size,
+    initImage,
+    denoise: initImage ? 1 - (request.referenceStrength ?? 0.35) : 1,
+  });
+
+  const queued = await axios.post(`${baseUrl}/prompt`, {
+    prompt: workflow,
+    client_id: 'ai-game-character-generator',
+  });
+  const promptId: string | undefined = queued.data.prompt_id;
+  if (!promptId) {
+    throw new Error('ComfyUI did not return a prompt_id');
+  }
+
+  const deadline = Date.now() + timeout;
+  let imageRef: ComfyUIImageRef | undefined;
+
+  while (!imageRef) {
+    const history = await axios.get(`${baseUrl}/history/${promptId}`);
+    const entry = history.data[promptId];
+    if (entry?.status?.status_str === 'error') {
+      throw new Error(`ComfyUI prompt ${promptId} failed`);
+    }
+    imageRef = entry?.outputs?.[COMFYUI_SAVE_NODE]?.images?.[0];
+
+    if (!imageRef) {
+      if (Date.now() >= deadline) {
+        throw new Error(`ComfyUI prompt ${promptId} timed out after ${timeout}ms`);
+      }
+      await sleep(pollInterval);
+    }
+  }
+
+  const imageResponse = await axios.get(`${baseUrl}/view`, {
+    params: imageRef,
+    responseType: 'arraybuffer',
+  });
+
+  return {
+    image: Buffer.from(imageResponse.data),
+    metadata: {
+      model: checkpoint,
+      seed,
+      resolution,
+      backend: 'comfyui',
+      steps,
+      sampler,
+      loras,
+    },
+  };
+}
+
+async function uploadComfyUIImage(baseUrl: string, image: Buffer): Promise<string> {
+  const form = new FormData();
+  form.append('image', new Blob([new Uint8Array(image)], { type: 'image/png' }), 'reference.png');
+  form.append('overwrite', 'true');
+
+  const response = await axios.post(`${baseUrl}/upload/image`, form);
+  const { name, subfolder } = response.data as { name?: string; subfolder?: string };
+  if (!name) {
+    throw new Error('ComfyUI did not return an uploaded image name');
+  }
+  return subfolder ? `${subfolder}/${name}` : name;
+}
+
+const COMFYUI_SAVE_NODE = '9';
+
+interface ComfyUIWorkflowParams {
+  prompt: string;
+  negativePrompt: string;
+  seed: number;
+  steps: number;
+  sampler: string;
+  scheduler: string;
+  cfgScale: number;
+  checkpoint: string;
+  loras: LocalSDLora[];
+  size: number;
+  initImage?: string;
+  denoise: number;
+}
+
+function buildComfyUIWorkflow(params: ComfyUIWorkflowParams): Record<string, unknown> {
+  const workflow: Record<string, { class_type: string; inputs: Record<string, unknown> }> = {
+    '4': {
+      class_type: 'CheckpointLoaderSimple',
+      inputs: { ckpt_name: params.checkpoint },
+    },
+  };
+
+  // Chain LoRA loaders between the checkpoint and everything that consumes model/clip
+  let modelRef: [string, number] = ['4', 0];
+  let clipRef: [string, number] = ['4', 1];
+  params.loras.forEach((lora, index) => {
+    const nodeId = `lora_${index}`;
+    workflow[nodeId] = {
+      class_type: 'LoraLoader',
+      inputs: {
+        lora_name: lora.name,
+        strength_model: lora.weight ?? 1,
+        strength_clip: lora.weight ?? 1,
+        model: modelRef,
+        clip: clipRef,
+      },
+    };
+    modelRef = [nodeId, 0];
+    clipRef = [nodeId, 1];
+  });
+
+  // img2img starts from the encoded reference instead of an empty latent
+  if (params.initImage) {
+    workflow['10'] = {
+      class_type: 'LoadImage',
+      inputs: { image: params.initImage },
+    };
+    workflow['5'] = {
+      class_type: 'VAEEncode',
+      inputs: { pixels: ['10', 0], vae: ['4', 2] },
+    };
+  } else {
+    workflow['5'] = {
+      class_type: 'EmptyLatentImage',
+      inputs: { width: params.size, height: params.size, batch_size: 1 },
+    };
+  }
+  workflow['6'] = {
+    class_type: 'CLIPTextEncode',
+    inputs: { text: params.prompt, clip: clipRef },
+  };
+  workflow['7'] = {
+    class_type: 'CLIPTextEncode',
+    inputs: { text: params.negativePrompt, clip: clipRef },
+  };
+  workflow['3'] = {
+    class_type: 'KSampler',
+    inputs: {
+      seed: params.seed,
+      steps: params.steps,
+      cfg: params.cfgScale,
+      sampler_name: params.sampler,
+      scheduler: params.scheduler,
+      denoise: params.denoise,
+      model: modelRef,
+      positive: ['6', 0],
+      negative: ['7', 0],
+      latent_image: ['5', 0],
+    },
+  };
+  workflow['8'] = {
+    class_type: 'VAEDecode',
+    inputs: { samples: ['3', 0], vae: ['4', 2] },
+  };
+  workflow[COMFYUI_SAVE_NODE] = {
+    class_type: 'SaveImage',
+    inputs: { filename_prefix: 'sprite', images: ['8', 0] },
+  };
+
+  return workflow;
+}
+
+registerImageProvider('openai', { generate: generateWithOpenAI, supportsReferenceImages: true });
+registerImageProvider('stability', { generate: generateWithStability, supportsSeed: true, supportsReferenceImages: true });
+registerImageProvider('pixellab', { generate: generateWithPixelLab, supportsSeed: true });
+registerImageProvider('local-sd', { generate: generateWithLocalSD, supportsSeed: true, supportsReferenceImages: true });
+
+// Providers take unsigned 32-bit seeds, and candidate seeds wrap at 2^32
+export function isValidSeed(seed: unknown): seed is number {
+  return typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32;
+}
+
+export function validateSeed(seed: unknown): number {
+  if (!isValidSeed(seed)) {
+    throw new Error(`Invalid seed: ${JSON.stringify(seed)}. Seed must be an integer from 0 to ${2 ** 32 - 1}`);
+  }
+  return seed;
+}
+
+export function optimizePrompt(userPrompt: string, style: CharacterStyle, characterSheet?: CharacterSheet): string {
+  const stylePrompt = resolveStyle(style);
+  const subject = characterSheet ? `${userPrompt}, ${describeCharacterSheet(characterSheet)}` : userPrompt;
+  return `${stylePrompt.prefix}${subject}${stylePrompt.suffix}`;
+}
+
+export function getStylePrompts(): Record<string, StyleDefinition> {
+  return getStyles();
 }
 
 export function getSupportedProviders(): ImageProvider[] {
-  return ['openai', 'stability', 'pixellab'];
+  return [...IMAGE_PROVIDERS.keys()];
+}
+
+export {
+  registerStyle,
+  unregisterStyle,
+  getStyle,
+  getStyleNames,
+  loadStylePack,
+  loadStylePacksFromEnv,
+  parseStylePack,
+} from './styles.js';
+export type { StyleDefinition, StylePrompt, StylePack } from './styles.js';
+export { getImageCacheDir, listImageCache, pruneImageCache, clearImageCache, readImageCache, imageCacheKey } from './cache.js';
+export type { ImageCacheOptions, ImageCacheEntry } from './cache.js';
+export { generateTurnaround, composeTurnaroundSheet, TURNAROUND_VIEWS } from './turnaround.js';
+export type { TurnaroundOptions } from './turnaround.js';
+export { scoreSprite, rankCandidates } from './ranking.js';
+export { postProcessSprite } from './post-process.js';
+export type { PostProcessOptions, PostProcessResult } from './post-process.js';
+export { pixelizeSprite, detectPixelGrid } from './pixelize.js';
+export type { PixelizeOptions, PixelizeResult } from './pixelize.js';
+export { loadPalette, getBuiltInPalettes, getBuiltInPalette, parseHexPalette, parseGplPalette } from './palettes.js';
+export type { Palette, PaletteColor } from './palettes.js';
+
+function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
 }
 
 function sleep(ms: number): Promise<void> {
@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export type PaletteColor = [number, number, number];
+
+export interface Palette {
+  name: string;
+  colors: PaletteColor[];
+}
+
+const BUILT_IN_PALETTES: Record<string, string[]> = {
+  'pico-8': [
+    '000000', '1d2b53', '7e2553', '008751', 'ab5236', '5f574f', 'c2c3c7', 'fff1e8',
+    'ff004d', 'ffa300', 'ffec27', '00e436', '29adff', '83769c', 'ff77a8', 'ffccaa',
+  ],
+  gameboy: ['0f380f', '306230', '8bac0f', '9bbc0f'],
+  'sweetie-16': [
+    '1a1c2c', '5d275d', 'b13e53', 'ef7d57', 'ffcd75', 'a7f070', '38b764', '257179',
+    '29366f', '3b5dc9', '41a6f6', '73eff7', 'f4f4f4', '94b0c2', '566c86', '333c57',
+  ],
+  'endesga-32': [
+    'be4a2f', 'd77643', 'ead4aa', 'e4a672', 'b86f50', '733e39', '3e2731', 'a22633',
+    'e43b44', 'f77622', 'feae34', 'fee761', '63c74d', '3e8948', '265c42', '193c3e',
+    '124e89', '0099db', '2ce8f5', 'ffffff', 'c0cbdc', '8b9bb4', '5a6988', '3a4466',
+    '262b44', '181425', 'ff0044', '68386c', 'b55088', 'f6757a', 'e8b796', 'c28569',
+  ],
+};
+
+export function getBuiltInPalettes(): string[] {
+  return Object.keys(BUILT_IN_PALETTES);
+}
+
+export function getBuiltInPalette(name: string): Palette | null {
+  const hexColors = BUILT_IN_PALETTES[name.toLowerCase()];
+  if (!hexColors) {
+    return null;
+  }
+  return { name: name.toLowerCase(), colors: hexColors.map(parseHexColor) };
+}
+
+// Accepts a built-in palette name or a path to a Lospec .hex or GIMP .gpl file
+export async function loadPalette(nameOrPath: string): Promise<Palette> {
+  const builtIn = getBuiltInPalette(nameOrPath);
+  if (builtIn) {
+    return builtIn;
+  }
+
+  const ext = path.extname(nameOrPath).toLowerCase();
+  if (ext !== '.hex' && ext !== '.gpl') {
+    throw new Error(
+      `Unknown palette: ${nameOrPath}. Use ${getBuiltInPalettes().join(', ')} or a .hex/.gpl file`
+    );
+  }
+
+  const content = await fs.readFile(nameOrPath, 'utf-8');
+  const colors = ext === '.hex' ? parseHexPalette(content) : parseGplPalette(content);
+
+  if (colors.length === 0) {
+    throw new Error(`Palette file has no colours: ${nameOrPath}`);
+  }
+
+  return { name: path.basename(nameOrPath, ext), colors };
+}
+
+export function parseHexPalette(content: string): PaletteColor[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => /^#?[0-9a-f]{6}$/i.test(line))
+    .map(parseHexColor);
+}
+
+export function parseGplPalette(content: string): PaletteColor[] {
+  const lines = content.split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith('GIMP Palette')) {
+    throw new Error('Invalid GPL palette: missing "GIMP Palette" header');
+  }
+
+  const colors: PaletteColor[] = [];
+  for (const line of lines.slice(1)) {
+    const match = line.trim().match(/^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})(\s|$)/);
+    if (match) {
+      colors.push([Number(match[1]), Number(match[2]), Number(match[3])]);
+    }
+  }
+  return colors;
+}
+
+function parseHexColor(hex: string): PaletteColor {
+  const value = hex.replace(/^#/, '');
+  return [
+    parseInt(value.slice(0, 2), 16),
+    parseInt(value.slice(2, 4), 16),
+    parseInt(value.slice(4, 6), 16),
+  ];
+}
@@ -0,0 +1,303 @@
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import { loadPalette, Palette, PaletteColor } from './palettes.js';
+
+export interface PixelizeOptions {
+  resolution?: number;
+  palette?: string | Palette;
+  maxColors?: number;
+  upscale?: number;
+  alphaThreshold?: number;
+}
+
+export interface PixelizeResult {
+  imagePath: string;
+  steps: string[];
+  gridSize: number | null;
+  width: number;
+  height: number;
+  palette: string;
+  colors: number;
+}
+
+interface PixelGrid {
+  size: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Used when neither a grid is detected nor a resolution is requested
+const DEFAULT_RESOLUTION = 64;
+
+// Per-pixel RGBA change (summed over channels) that counts as an edge
+const EDGE_THRESHOLD = 24;
+
+// Share of edge energy that must sit on the grid lines, and how many lines must carry it
+const MIN_GRID_ENERGY = 0.65;
+const MIN_GRID_LINES = 4;
+
+export async function pixelizeSprite(
+  imagePath: string,
+  options: PixelizeOptions = {}
+): Promise<PixelizeResult> {
+  const { maxColors = 16, upscale = 1, alphaThreshold = 128 } = options;
+
+  const { data, info } = await sharp(imagePath).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const steps: string[] = [];
+
+  const grid = options.resolution ? null : detectPixelGrid(data, info.width, info.height);
+  let pixels: { data: Buffer; width: number; height: number };
+
+  if (grid) {
+    console.log(`[ImageGen] Detected ${grid.size}px pixel grid`);
+    steps.push('pixel-grid');
+    pixels = sampleGrid(data, info.width, info.height, grid);
+  } else {
+    const resolution = options.resolution ?? DEFAULT_RESOLUTION;
+    const scale = Math.max(info.width, info.height) / resolution;
+    const width = Math.max(1, Math.round(info.width / scale));
+    const height = Math.max(1, Math.round(info.height / scale));
+    const resized = await sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } })
+      .resize(width, height, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+    pixels = { data: resized, width, height };
+  }
+  steps.push('downsample');
+
+  thresholdAlpha(pixels.data, alphaThreshold);
+
+  let paletteName: string;
+  if (options.palette) {
+    const palette = typeof options.palette === 'string' ? await loadPalette(options.palette) : options.palette;
+    mapToPalette(pixels.data, palette.colors);
+    paletteName = palette.name;
+  } else {
+    pixels.data = await quantizeAdaptive(pixels.data, pixels.width, pixels.height, maxColors);
+    paletteName = `adaptive-${maxColors}`;
+  }
+  steps.push('quantize');
+
+  let output = sharp(pixels.data, { raw: { width: pixels.width, height: pixels.height, channels: 4 } });
+  let width = pixels.width;
+  let height = pixels.height;
+  if (upscale > 1) {
+    width *= upscale;
+    height *= upscale;
+    output = output.resize(width, height, { kernel: 'nearest' });
+    steps.push('upscale');
+  }
+
+  await fs.writeFile(imagePath, await output.png().toBuffer());
+
+  return {
+    imagePath,
+    steps,
+    gridSize: grid?.size ?? null,
+    width,
+    height,
+    palette: paletteName,
+    colors: countColors(pixels.data),
+  };
+}
+
+export function detectPixelGrid(data: Buffer, width: number, height: number): PixelGrid | null {
+  const columnEdges = new Float64Array(width);
+  const rowEdges = new Float64Array(height);
+
+  // Edge energy at x is the change between pixel x - 1 and pixel x; small steps are
+  // gradient or compression noise and would otherwise form rounding patterns
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (x > 0) {
+        const difference = pixelDifference(data, i, i - 4);
+        if (difference > EDGE_THRESHOLD) columnEdges[x] += difference;
+      }
+      if (y > 0) {
+        const difference = pixelDifference(data, i, i - width * 4);
+        if (difference > EDGE_THRESHOLD) rowEdges[y] += difference;
+      }
+    }
+  }
+
+  // Every divisor of the true grid size also explains the edges, so keep the largest match
+  const maxSize = Math.min(64, Math.floor(Math.min(width, height) / 8));
+  for (let size = maxSize; size >= 2; size--) {
+    const x = alignEdges(columnEdges, size);
+    const y = alignEdges(rowEdges, size);
+    if (x && y) {
+      return { size, offsetX: x.offset, offsetY: y.offset };
+    }
+  }
+
+  return null;
+}
+
+function alignEdges(edges: Float64Array, size: number): { offset: number } | null {
+  const total = edges.reduce((sum, value) => sum + value, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  // Blurry fake pixels smear each edge over two columns, so larger grids use a 2px window
+  const window = size >= 4 ? 2 : 1;
+  const buckets = new Float64Array(size);
+  edges.forEach((value, index) => {
+    buckets[index % size] += value;
+  });
+
+  let offset = 0;
+  let energy = -1;
+  for (let candidate = 0; candidate < size; candidate++) {
+    let candidateEnergy = 0;
+    for (let w = 0; w < window; w++) {
+      candidateEnergy += buckets[(candidate + w) % size];
+    }
+    if (candidateEnergy > energy) {
+      energy = candidateEnergy;
+      offset = candidate;
+    }
+  }
+
+  if (energy / total < MIN_GRID_ENERGY) {
+    return null;
+  }
+
+  // A couple of outlines can line up with almost any spacing; a grid needs repeated lines
+  let activeLines = 0;
+  for (let index = 0; index < edges.length; index++) {
+    const phase = (index - offset + size) % size;
+    if (phase < window && edges[index] > total * 0.01) {
+      activeLines++;
+    }
+  }
+
+  return activeLines >= MIN_GRID_LINES ? { offset } : null;
+}
+
+function sampleGrid(
+  data: Buffer,
+  width: number,
+  height: number,
+  grid: PixelGrid
+): { data: Buffer; width: number; height: number } {
+  const columns = cellBounds(width, grid.size, grid.offsetX);
+  const rows = cellBounds(height, grid.size, grid.offsetY);
+  const output = Buffer.alloc(columns.length * rows.length * 4);
+
+  rows.forEach(([top, bottom], row) => {
+    columns.forEach(([left, right], column) => {
+      // Average only the middle of each cell, away from smeared edges
+      const insetX = Math.floor((right - left) / 4);
+      const insetY = Math.floor((bottom - top) / 4);
+      const sums = [0, 0, 0, 0];
+      let count = 0;
+
+      for (let y = top + insetY; y < bottom - insetY; y++) {
+        for (let x = left + insetX; x < right - insetX; x++) {
+          const i = (y * width + x) * 4;
+          for (let c = 0; c < 4; c++) sums[c] += data[i + c];
+          count++;
+        }
+      }
+
+      const o = (row * columns.length + column) * 4;
+      for (let c = 0; c < 4; c++) output[o + c] = Math.round(sums[c] / Math.max(count, 1));
+    });
+  });
+
+  return { data: output, width: columns.length, height: rows.length };
+}
+
+function cellBounds(length: number, size: number, offset: number): Array<[number, number]> {
+  const bounds: Array<[number, number]> = [];
+  const start = offset % size;
+
+  // Keep a leading partial cell only if it is at least half a pixel wide
+  if (start >= size / 2) {
+    bounds.push([0, start]);
+  }
+  for (let position = start; position < length; position += size) {
+    const end = Math.min(position + size, length);
+    if (end - position >= size / 2) {
+      bounds.push([position, end]);
+    }
+  }
+  return bounds;
+}
+
+function thresholdAlpha(data: Buffer, threshold: number): void {
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= threshold) {
+      data[i + 3] = 255;
+    } else {
+      data[i] = data[i + 1] = data[i + 2] = data[i + 3] = 0;
+    }
+  }
+}
+
+function mapToPalette(data: Buffer, colors: PaletteColor[]): void {
+  const cache = new Map<number, PaletteColor>();
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let nearest = cache.get(key);
+    if (!nearest) {
+      nearest = nearestColor([data[i], data[i + 1], data[i + 2]], colors);
+      cache.set(key, nearest);
+    }
+    [data[i], data[i + 1], data[i + 2]] = nearest;
+  }
+}
+
+function nearestColor(color: PaletteColor, colors: PaletteColor[]): PaletteColor {
+  let best = colors[0];
+  let bestDistance = Infinity;
+
+  for (const candidate of colors) {
+    // "Redmean" weighting tracks perceived difference better than plain RGB distance
+    const meanRed = (color[0] + candidate[0]) / 2;
+    const dr = color[0] - candidate[0];
+    const dg = color[1] - candidate[1];
+    const db = color[2] - candidate[2];
+    const distance =
+      (2 + meanRed / 256) * dr * dr + 4 * dg * dg + (2 + (255 - meanRed) / 256) * db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+async function quantizeAdaptive(
+  data: Buffer,
+  width: number,
+  height: number,
+  maxColors: number
+): Promise<Buffer> {
+  const png = await sharp(data, { raw: { width, height, channels: 4 } })
+    .png({ palette: true, colours: Math.min(Math.max(maxColors, 2), 256), dither: 0 })
+    .toBuffer();
+  return sharp(png).ensureAlpha().raw().toBuffer();
+}
+
+function countColors(data: Buffer): number {
+  const colors = new Set<number>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] > 0) colors.add((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+  }
+  return colors.size;
+}
+
+function pixelDifference(data: Buffer, a: number, b: number): number {
+  return (
+    Math.abs(data[a] - data[b]) +
+    Math.abs(data[a + 1] - data[b + 1]) +
+    Math.abs(data[a + 2] - data[b + 2]) +
+    Math.abs(data[a + 3] - data[b + 3])
+  );
+}
@@ -0,0 +1,317 @@
+import fs from 'fs/promises';
+import sharp from 'sharp';
+
+export interface PostProcessOptions {
+  removeBackground?: boolean;
+  tolerance?: number;
+  feather?: number;
+  trim?: boolean;
+  padSquare?: boolean;
+  padding?: number;
+}
+
+export interface PostProcessResult {
+  imagePath: string;
+  steps: string[];
+  width: number;
+  height: number;
+  background?: { r: number; g: number; b: number };
+}
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Alpha below this counts as already transparent
+const TRANSPARENT_ALPHA = 16;
+
+export async function postProcessSprite(
+  imagePath: string,
+  options: PostProcessOptions = {}
+): Promise<PostProcessResult> {
+  const {
+    removeBackground = true,
+    tolerance = 32,
+    feather = 1,
+    trim = true,
+    padSquare = true,
+    padding = 0.05,
+  } = options;
+
+  const { data, info } = await sharp(imagePath).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  let image: RawImage = { data, width: info.width, height: info.height };
+  const steps: string[] = [];
+  let background: PostProcessResult['background'];
+
+  if (removeBackground && !hasTransparentBorder(image)) {
+    const detected = detectBackground(image, tolerance);
+    const backgroundMask = detected
+      ? floodFillBackground(image, detected.color, detected.seeds, tolerance)
+      : null;
+
+    // A fill that swallows nearly everything means the subject matched the background colour
+    if (detected && backgroundMask && coverage(backgroundMask) < 0.98) {
+      applyBackgroundMask(image, backgroundMask);
+      steps.push('background-removal');
+      background = { r: detected.color[0], g: detected.color[1], b: detected.color[2] };
+
+      if (feather > 0) {
+        featherEdges(image, backgroundMask, feather);
+        steps.push('feather');
+      }
+    } else {
+      console.log('[ImageGen] No uniform background detected, keeping image opaque');
+    }
+  }
+
+  if (trim) {
+    const bounds = opaqueBounds(image);
+    if (bounds && (bounds.width < image.width || bounds.height < image.height)) {
+      image = crop(image, bounds);
+      steps.push('trim');
+    }
+  }
+
+  if (padSquare) {
+    const side = Math.round(Math.max(image.width, image.height) * (1 + padding * 2));
+    if (side !== image.width || side !== image.height) {
+      image = padToSquare(image, side);
+      steps.push('pad-square');
+    }
+  }
+
+  if (steps.length > 0) {
+    const png = await sharp(image.data, {
+      raw: { width: image.width, height: image.height, channels: 4 },
+    })
+      .png()
+      .toBuffer();
+    await fs.writeFile(imagePath, png);
+  }
+
+  return {
+    imagePath,
+    steps,
+    width: image.width,
+    height: image.height,
+    background,
+  };
+}
+
+function hasTransparentBorder(image: RawImage): boolean {
+  const { data, width, height } = image;
+  let transparent = 0;
+  let total = 0;
+
+  forEachBorderPixel(width, height, (i) => {
+    total++;
+    if (data[i * 4 + 3] < TRANSPARENT_ALPHA) transparent++;
+  });
+
+  return transparent / total > 0.5;
+}
+
+function detectBackground(
+  image: RawImage,
+  tolerance: number
+): { color: [number, number, number]; seeds: number[] } | null {
+  const { width, height } = image;
+  const corners = [0, width - 1, (height - 1) * width, width * height - 1];
+  const colors = corners.map(i => pixelColor(image, i));
+
+  // Median per channel so one corner touched by the subject does not skew the estimate
+  const color = [0, 1, 2].map(channel => {
+    const values = colors.map(c => c[channel]).sort((a, b) => a - b);
+    return Math.round((values[1] + values[2]) / 2);
+  }) as [number, number, number];
+
+  const seeds = corners.filter((_, index) => colorDistance(colors[index], color) <= tolerance);
+
+  // Three matching corners are enough to call the background uniform
+  return seeds.length >= 3 ? { color, seeds } : null;
+}
+
+function floodFillBackground(
+  image: RawImage,
+  color: [number, number, number],
+  seeds: number[],
+  tolerance: number
+): Uint8Array {
+  const { width, height } = image;
+  const mask = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  for (const seed of seeds) {
+    if (!mask[seed]) {
+      mask[seed] = 1;
+      queue[tail++] = seed;
+    }
+  }
+
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    const y = (i - x) / width;
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < width - 1 ? i + 1 : -1,
+      y > 0 ? i - width : -1,
+      y < height - 1 ? i + width : -1,
+    ];
+
+    for (const n of neighbours) {
+      if (n >= 0 && !mask[n] && isNearColor(image.data, n, color, tolerance)) {
+        mask[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  return mask;
+}
+
+function coverage(mask: Uint8Array): number {
+  let count = 0;
+  for (let i = 0; i < mask.length; i++) {
+    count += mask[i];
+  }
+  return count / mask.length;
+}
+
+function applyBackgroundMask(image: RawImage, mask: Uint8Array): void {
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) image.data[i * 4 + 3] = 0;
+  }
+}
+
+function featherEdges(image: RawImage, backgroundMask: Uint8Array, radius: number): void {
+  const { width, height, data } = image;
+  const distance = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  for (let i = 0; i < backgroundMask.length; i++) {
+    if (backgroundMask[i]) {
+      distance[i] = 0;
+      queue[tail++] = i;
+    }
+  }
+
+  // Breadth-first distance from the removed background, limited to the feather radius
+  while (head < tail) {
+    const i = queue[head++];
+    if (distance[i] >= radius) continue;
+
+    const x = i % width;
+    const y = (i - x) / width;
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < width - 1 ? i + 1 : -1,
+      y > 0 ? i - width : -1,
+      y < height - 1 ? i + width : -1,
+    ];
+
+    for (const n of neighbours) {
+      if (n >= 0 && distance[n] === -1) {
+        distance[n] = distance[i] + 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  for (let i = 0; i < distance.length; i++) {
+    if (distance[i] > 0) {
+      data[i * 4 + 3] = Math.round(data[i * 4 + 3] * (distance[i] / (radius + 1)));
+    }
+  }
+}
+
+function opaqueBounds(image: RawImage): { left: number; top: number; width: number; height: number } | null {
+  const { data, width, height } = image;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] >= TRANSPARENT_ALPHA) {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  if (maxX < 0) {
+    return null;
+  }
+
+  return { left: minX, top: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+function crop(
+  image: RawImage,
+  bounds: { left: number; top: number; width: number; height: number }
+): RawImage {
+  const data = Buffer.alloc(bounds.width * bounds.height * 4);
+
+  for (let y = 0; y < bounds.height; y++) {
+    const sourceStart = ((bounds.top + y) * image.width + bounds.left) * 4;
+    image.data.copy(data, y * bounds.width * 4, sourceStart, sourceStart + bounds.width * 4);
+  }
+
+  return { data, width: bounds.width, height: bounds.height };
+}
+
+function padToSquare(image: RawImage, side: number): RawImage {
+  const data = Buffer.alloc(side * side * 4);
+  const left = Math.floor((side - image.width) / 2);
+  const top = Math.floor((side - image.height) / 2);
+
+  for (let y = 0; y < image.height; y++) {
+    const sourceStart = y * image.width * 4;
+    image.data.copy(data, ((top + y) * side + left) * 4, sourceStart, sourceStart + image.width * 4);
+  }
+
+  return { data, width: side, height: side };
+}
+
+function forEachBorderPixel(width: number, height: number, callback: (index: number) => void): void {
+  for (let x = 0; x < width; x++) {
+    callback(x);
+    if (height > 1) callback((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    callback(y * width);
+    if (width > 1) callback(y * width + width - 1);
+  }
+}
+
+function pixelColor(image: RawImage, index: number): [number, number, number] {
+  const offset = index * 4;
+  return [image.data[offset], image.data[offset + 1], image.data[offset + 2]];
+}
+
+function isNearColor(
+  data: Buffer,
+  index: number,
+  color: [number, number, number],
+  tolerance: number
+): boolean {
+  const offset = index * 4;
+  const dr = data[offset] - color[0];
+  const dg = data[offset + 1] - color[1];
+  const db = data[offset + 2] - color[2];
+  return dr * dr + dg * dg + db * db <= tolerance * tolerance;
+}
+
+function colorDistance(a: [number, number, number], b: [number, number, number]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
@@ -0,0 +1,195 @@
+import sharp from 'sharp';
+import type { ImageCandidate, SpriteScores } from '../types.js';
+
+// Candidates are compared on a downscaled copy; the heuristics only need coarse shape
+const SCORE_SIZE = 128;
+
+const SCORE_WEIGHTS: Record<keyof SpriteScores, number> = {
+  alphaCoverage: 0.3,
+  centering: 0.25,
+  edgeCleanliness: 0.25,
+  paletteSize: 0.2,
+};
+
+// Share of the canvas a well-framed sprite usually occupies
+const IDEAL_COVERAGE = { min: 0.15, max: 0.65 };
+
+export interface SpriteScoreResult {
+  score: number;
+  scores: SpriteScores;
+}
+
+export async function scoreSprite(imagePath: string): Promise<SpriteScoreResult> {
+  const { data, info } = await sharp(imagePath)
+    .ensureAlpha()
+    .resize(SCORE_SIZE, SCORE_SIZE, { fit: 'fill', kernel: 'nearest' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const mask = foregroundMask(data, width, height);
+
+  const scores: SpriteScores = {
+    alphaCoverage: scoreCoverage(mask),
+    centering: scoreCentering(mask, width, height),
+    edgeCleanliness: scoreEdges(mask, width, height),
+    paletteSize: scorePalette(data, mask),
+  };
+
+  const score = (Object.keys(SCORE_WEIGHTS) as Array<keyof SpriteScores>).reduce(
+    (sum, key) => sum + scores[key] * SCORE_WEIGHTS[key],
+    0
+  );
+
+  return { score, scores };
+}
+
+export async function rankCandidates(
+  candidates: Array<Pick<ImageCandidate, 'imagePath' | 'metadata'>>
+): Promise<ImageCandidate[]> {
+  const scored = await Promise.all(
+    candidates.map(async (candidate) => ({
+      ...candidate,
+      ...(await scoreSprite(candidate.imagePath)),
+    }))
+  );
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+}
+
+function foregroundMask(data: Buffer, width: number, height: number): Uint8Array {
+  const pixelCount = width * height;
+  const mask = new Uint8Array(pixelCount);
+
+  let transparent = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    if (data[i * 4 + 3] < 16) transparent++;
+  }
+
+  if (transparent / pixelCount >= 0.01) {
+    for (let i = 0; i < pixelCount; i++) {
+      mask[i] = data[i * 4 + 3] >= 16 ? 1 : 0;
+    }
+    return mask;
+  }
+
+  // Opaque image: treat pixels close to the average corner colour as background
+  const corners = [0, width - 1, (height - 1) * width, pixelCount - 1];
+  const background = [0, 1, 2].map(
+    channel => corners.reduce((sum, i) => sum + data[i * 4 + channel], 0) / corners.length
+  );
+
+  for (let i = 0; i < pixelCount; i++) {
+    const distance = Math.hypot(
+      data[i * 4] - background[0],
+      data[i * 4 + 1] - background[1],
+      data[i * 4 + 2] - background[2]
+    );
+    mask[i] = distance > 48 ? 1 : 0;
+  }
+  return mask;
+}
+
+function scoreCoverage(mask: Uint8Array): number {
+  const coverage = countForeground(mask) / mask.length;
+
+  if (coverage < IDEAL_COVERAGE.min) {
+    return coverage / IDEAL_COVERAGE.min;
+  }
+  if (coverage > IDEAL_COVERAGE.max) {
+    return clamp((1 - coverage) / (1 - IDEAL_COVERAGE.max));
+  }
+  return 1;
+}
+
+function scoreCentering(mask: Uint8Array, width: number, height: number): number {
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) {
+        count++;
+        sumX += x;
+        sumY += y;
+      }
+    }
+  }
+
+  if (count === 0) {
+    return 0;
+  }
+
+  const offsetX = sumX / count / (width - 1) - 0.5;
+  const offsetY = sumY / count / (height - 1) - 0.5;
+  return clamp(1 - Math.hypot(offsetX, offsetY) / Math.hypot(0.5, 0.5));
+}
+
+function scoreEdges(mask: Uint8Array, width: number, height: number): number {
+  const foreground = countForeground(mask);
+  if (foreground === 0) {
+    return 0;
+  }
+
+  let borderPixels = 0;
+  let borderForeground = 0;
+  let stray = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const onBorder = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+
+      if (onBorder) {
+        borderPixels++;
+        if (mask[i]) borderForeground++;
+      }
+
+      if (mask[i]) {
+        const neighbours =
+          (x > 0 ? mask[i - 1] : 0) +
+          (x < width - 1 ? mask[i + 1] : 0) +
+          (y > 0 ? mask[i - width] : 0) +
+          (y < height - 1 ? mask[i + width] : 0);
+        if (neighbours <= 1) stray++;
+      }
+    }
+  }
+
+  // A subject cut off by the canvas edge or surrounded by speckles needs rework
+  const cropped = borderForeground / borderPixels;
+  const noise = stray / foreground;
+  return clamp(1 - cropped) * clamp(1 - noise * 5);
+}
+
+function scorePalette(data: Buffer, mask: Uint8Array): number {
+  const colours = new Set<number>();
+
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    // 4 bits per channel so dithering noise does not inflate the count
+    colours.add(((data[i * 4] >> 4) << 8) | ((data[i * 4 + 1] >> 4) << 4) | (data[i * 4 + 2] >> 4));
+  }
+
+  if (colours.size === 0) {
+    return 0;
+  }
+
+  // 16 colours or fewer scores 1, a full 4096-bin spread scores 0
+  return clamp(1 - (Math.log2(colours.size) - 4) / 8);
+}
+
+function countForeground(mask: Uint8Array): number {
+  let count = 0;
+  for (let i = 0; i < mask.length; i++) {
+    count += mask[i];
+  }
+  return count;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
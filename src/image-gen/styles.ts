@@ -0,0 +1,160 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import type { CharacterStyle } from '../types.js';
+
+export interface StylePrompt {
+  prefix: string;
+  suffix: string;
+  negative: string;
+}
+
+export interface StyleDefinition extends StylePrompt {
+  description?: string;
+  provider?: string;
+  resolution?: number;
+  // Run pixel-art grid snapping and quantization by default
+  pixelize?: boolean;
+  palette?: string;
+}
+
+const BUILT_IN_STYLES: Record<string, StyleDefinition> = {
+  pixel: {
+    description: '8-bit/16-bit pixel art sprites',
+    prefix: 'pixel art sprite sheet, game asset, transparent background, ',
+    suffix: ', 8-bit style, clean edges, no anti-aliasing, game-ready',
+    negative: 'blurry, anti-aliasing, gradient shading, photorealistic, background scenery, text, watermark',
+    pixelize: true,
+  },
+  anime: {
+    description: 'Chibi/anime style characters',
+    prefix: 'anime chibi character, game sprite, transparent background, ',
+    suffix: ', cel shaded, cute proportions, high quality',
+    negative: 'realistic, photo, extra limbs, deformed hands, background scenery, text, watermark',
+  },
+  lowpoly: {
+    description: 'Low polygon, flat shaded',
+    prefix: 'low poly 3D character render, game asset, transparent background, ',
+    suffix: ', flat shading, geometric, minimalist style',
+    negative: 'smooth shading, high poly, photorealistic, noisy texture, background scenery, text, watermark',
+  },
+  painterly: {
+    description: 'Hand-painted concept art',
+    prefix: 'hand-painted fantasy character, game art, transparent background, ',
+    suffix: ', stylized, vibrant colors, concept art quality',
+    negative: 'photo, 3d render, muddy colors, extra limbs, background scenery, text, watermark',
+  },
+  voxel: {
+    description: 'Minecraft-like 3D cubes',
+    prefix: 'voxel art character, 3D cube style, game asset, transparent background, ',
+    suffix: ', minecraft-like, blocky, isometric view',
+    negative: 'smooth curves, organic shapes, photorealistic, blurry, background scenery, text, watermark',
+  },
+};
+
+const styleDefinitionSchema = z
+  .object({
+    description: z.string().optional(),
+    prefix: z.string(),
+    suffix: z.string().default(''),
+    negative: z.string().default(''),
+    provider: z.string().min(1).optional(),
+    resolution: z.number().int().min(64).max(2048).optional(),
+    pixelize: z.boolean().optional(),
+    palette: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const stylePackSchema = z
+  .object({
+    name: z.string().optional(),
+    styles: z
+      .record(
+        z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Style names may only contain letters, digits, "-" and "_"'),
+        styleDefinitionSchema
+      )
+      .refine(styles => Object.keys(styles).length > 0, 'A style pack needs at least one style'),
+  })
+  .strict();
+
+export type StylePack = z.infer<typeof stylePackSchema>;
+
+const STYLES = new Map<string, StyleDefinition>(Object.entries(BUILT_IN_STYLES));
+
+export function registerStyle(name: string, definition: StyleDefinition): void {
+  if (!name.trim()) {
+    throw new Error('Style name must not be empty');
+  }
+  STYLES.set(name, definition);
+}
+
+// Removing a built-in style restores its default definition
+export function unregisterStyle(name: string): boolean {
+  if (BUILT_IN_STYLES[name]) {
+    STYLES.set(name, BUILT_IN_STYLES[name]);
+    return false;
+  }
+  return STYLES.delete(name);
+}
+
+export function getStyle(name: CharacterStyle): StyleDefinition | undefined {
+  return STYLES.get(name);
+}
+
+export function getStyleNames(): CharacterStyle[] {
+  return [...STYLES.keys()];
+}
+
+export function getStyles(): Record<string, StyleDefinition> {
+  return Object.fromEntries(STYLES);
+}
+
+export function parseStylePack(content: string, format: 'json' | 'yaml', source = 'style pack'): StylePack {
+  let raw: unknown;
+  try {
+    raw = format === 'json' ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = stylePackSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// Registers every style in a JSON or YAML pack and returns their names
+export async function loadStylePack(filePath: string): Promise<string[]> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext !== '.json' && ext !== '.yaml' && ext !== '.yml') {
+    throw new Error(`Unsupported style pack format: ${ext || filePath}. Use .json, .yaml or .yml`);
+  }
+
+  const content = await fs.readFile(filePath, 'utf-8');
+  const pack = parseStylePack(content, ext === '.json' ? 'json' : 'yaml', `style pack ${filePath}`);
+
+  for (const [name, definition] of Object.entries(pack.styles)) {
+    // Palette files are resolved next to the pack, built-in palette names are kept as-is
+    const palette = definition.palette && /\.(hex|gpl)$/i.test(definition.palette)
+      ? path.resolve(path.dirname(filePath), definition.palette)
+      : definition.palette;
+    registerStyle(name, { ...definition, palette });
+  }
+
+  const names = Object.keys(pack.styles);
+  console.log(`[Styles] Loaded ${names.length} style(s) from ${filePath}: ${names.join(', ')}`);
+  return names;
+}
+
+// STYLE_PACKS holds pack paths separated by the platform path delimiter (":" or ";")
+export async function loadStylePacksFromEnv(): Promise<string[]> {
+  const packs = (process.env.STYLE_PACKS || '').split(path.delimiter).filter(Boolean);
+  const names: string[] = [];
+  for (const pack of packs) {
+    names.push(...(await loadStylePack(pack)));
+  }
+  return names;
+}
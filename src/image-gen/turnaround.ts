@@ -0,0 +1,133 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { generateImage, getImageProvider, getSupportedProviders, GenerateOptions } from './index.js';
+import { getStyle } from './styles.js';
+import { toProviderList } from '../fallback/index.js';
+import type {
+  CharacterStyle,
+  ImageGenResult,
+  MultiViewImages,
+  TurnaroundResult,
+  TurnaroundView,
+} from '../types.js';
+
+export const TURNAROUND_VIEWS: TurnaroundView[] = ['front', 'three-quarter', 'side', 'back'];
+
+const VIEW_PROMPTS: Record<TurnaroundView, string> = {
+  front: 'front view, facing the viewer, full body, neutral T-pose',
+  'three-quarter': 'three-quarter view, turned 45 degrees to the left, full body, neutral T-pose',
+  side: 'side view, profile facing left, full body, neutral T-pose',
+  back: 'back view, facing away from the viewer, full body, neutral T-pose',
+};
+
+export interface TurnaroundOptions extends Omit<GenerateOptions, 'candidates' | 'referenceImages'> {
+  views?: TurnaroundView[];
+  // Feed the front view to the other views as a reference when the provider supports it
+  referenceFromFront?: boolean;
+  // Reuse an already generated (e.g. hand-picked) sprite as the front view
+  front?: ImageGenResult;
+}
+
+export async function generateTurnaround(
+  prompt: string,
+  style: CharacterStyle,
+  outputDir: string,
+  options: TurnaroundOptions = {}
+): Promise<TurnaroundResult> {
+  const {
+    views = TURNAROUND_VIEWS,
+    referenceFromFront = true,
+    provider = getStyle(style)?.provider ?? 'openai',
+    front: existingFront,
+    ...generateOptions
+  } = options;
+
+  const invalid = views.filter(view => !TURNAROUND_VIEWS.includes(view));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid turnaround views: ${invalid.join(', ')}. Valid: ${TURNAROUND_VIEWS.join(', ')}`);
+  }
+
+  const providers = toProviderList(provider, 'image');
+  const unknown = providers.find(name => !getImageProvider(name));
+  if (unknown) {
+    throw new Error(`Unknown provider: ${unknown}. Registered: ${getSupportedProviders().join(', ')}`);
+  }
+
+  // Every view shares one seed so the character stays consistent across angles
+  let seed = options.seed;
+  if (typeof existingFront?.metadata.seed === 'number') {
+    seed = existingFront.metadata.seed;
+  } else if (providers.some(name => getImageProvider(name)!.supportsSeed)) {
+    seed ??= Math.floor(Math.random() * 2 ** 32);
+  }
+  const ordered: TurnaroundView[] = ['front', ...views.filter(view => view !== 'front')];
+  const turnaroundDir = path.join(outputDir, 'turnaround');
+
+  console.log(`[ImageGen] Generating turnaround: ${ordered.join(', ')}`);
+
+  const results: Partial<Record<TurnaroundView, ImageGenResult>> = { front: existingFront };
+  // Once a chain provider has served the front view, the other angles stay on it
+  const servedBy = () => (results.front && providers.includes(results.front.provider) ? results.front.provider : undefined);
+  for (const view of ordered) {
+    if (results[view]) continue;
+
+    const served = view === 'front' ? undefined : servedBy();
+    const viewProviders = served ? [served] : providers;
+    const useReference = view !== 'front' && referenceFromFront
+      && viewProviders.every(name => getImageProvider(name)!.supportsReferenceImages);
+    results[view] = await generateImage(`${prompt}, ${VIEW_PROMPTS[view]}`, style, path.join(turnaroundDir, view), {
+      ...generateOptions,
+      provider: viewProviders,
+      seed,
+      referenceImages: useReference ? [results.front!.imagePath] : undefined,
+    });
+  }
+
+  const front = results.front!;
+  const imagePaths: MultiViewImages = { front: front.imagePath };
+  for (const view of ordered.slice(1)) {
+    imagePaths[view] = results[view]!.imagePath;
+  }
+
+  const sheetPath = path.join(outputDir, 'turnaround.png');
+  await composeTurnaroundSheet(
+    ordered.filter(view => views.includes(view)).map(view => imagePaths[view]!),
+    sheetPath
+  );
+  console.log(`[ImageGen] Saved turnaround sheet to ${sheetPath}`);
+
+  return {
+    views: { ...results, front },
+    imagePaths,
+    sheetPath,
+    provider: servedBy() ?? providers[0],
+    seed: typeof front.metadata.seed === 'number' ? front.metadata.seed : seed,
+  };
+}
+
+// Lays the views out left to right in equal cells, each centred on a transparent canvas
+export async function composeTurnaroundSheet(imagePaths: string[], sheetPath: string): Promise<void> {
+  const sizes = await Promise.all(imagePaths.map(imagePath => sharp(imagePath).metadata()));
+  const cellWidth = Math.max(...sizes.map(size => size.width ?? 0));
+  const cellHeight = Math.max(...sizes.map(size => size.height ?? 0));
+
+  const composites = imagePaths.map((imagePath, index) => ({
+    input: imagePath,
+    left: index * cellWidth + Math.floor((cellWidth - (sizes[index].width ?? 0)) / 2),
+    top: Math.floor((cellHeight - (sizes[index].height ?? 0)) / 2),
+  }));
+
+  await fs.mkdir(path.dirname(sheetPath), { recursive: true });
+  await sharp({
+    create: {
+      width: cellWidth * imagePaths.length,
+      height: cellHeight,
+      channels: 4,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    },
+  })
+    .composite(composites)
+    .png()
+    .toFile(sheetPath);
+}
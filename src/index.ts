@@ -1,9 +1,20 @@
 export * from './types.js';
-export { generateImage, optimizePrompt } from './image-gen/index.js';
-export { animateSprite, createAnimationBatch } from './video-gen/index.js';
-export { generateAndRig3DModel } from './rigging/index.js';
+export { generateImage, validateSeed, isValidSeed, optimizePrompt, registerImageProvider, unregisterImageProvider, selectImageCandidate, scoreSprite, postProcessSprite, pixelizeSprite, loadPalette, getBuiltInPalettes, generateTurnaround, getStylePrompts, registerStyle, unregisterStyle, loadStylePack, loadStylePacksFromEnv, listImageCache, pruneImageCache, clearImageCache } from './image-gen/index.js';
+export type { ImageProvider, ImageProviderImpl, ImageProviderRequest, ImageProviderOutput, PixelizeOptions, Palette, TurnaroundOptions, StyleDefinition, StylePack, ImageCacheOptions, ImageCacheEntry } from './image-gen/index.js';
+export { moderatePrompt, checkPrompt, formatViolations } from './moderation/index.js';
+export type { ModerationOptions, ModerationAction } from './moderation/index.js';
+export { expandPrompt, createTemplateCharacterSheet, describeCharacterSheet, getRiggingSkeleton } from './prompt-expansion/index.js';
+export type { ExpandPromptOptions } from './prompt-expansion/index.js';
+export { registerAnimation, unregisterAnimation, getAnimation, getAnimationNames, getAnimations, parseAnimationPack, loadAnimationPack, loadAnimationPacksFromEnv, findUnknownAnimations, renderPromptTemplate, parsePromptVariables, parseAnimationOverrides, validateAnimationOverrides, getDirections, resolveDirections, parseDirections, getMirrorSource, toDirectionalName, parseDirectionalName } from './animations/index.js';
+export type { AnimationDefinition, AnimationPack, AnimationOverride, AnimationOverrides, PromptVariables } from './animations/index.js';
+export { animateSprite, animateSpriteDirections, createAnimationBatch, animateTransition, createTransitionBatch, getDefaultTransitions, parseTransitions, toTransitionName, buildTransitionGraph, toStateMachine, writeStateMachine, generateVeoVideo, VideoGenError, VideoAuthError, VideoQuotaError, VideoRequestError, VideoServerError, VideoTimeoutError } from './video-gen/index.js';
+export type { VeoOptions, TransitionPair, TransitionSpec, StateMachine } from './video-gen/index.js';
+export { generateAndRig3DModel, suggestSkeletonForCharacter, DEFAULT_RIGGING_PROVIDERS } from './rigging/index.js';
+export { runWithFallback, ProviderUnavailableError, isRetryableError, resolveFallbackPolicies, parseFallbackPolicies, resolveProviderChains, parseProviderChain, toProviderList, findDegradedOutputs, formatDegradedOutput, getFallbackPolicies, DEFAULT_FALLBACK_POLICIES } from './fallback/index.js';
+export type { FallbackRun } from './fallback/index.js';
 export { exportForThreeJS, generateThreeJSCode } from './threejs-export/index.js';
-export { createSpriteSheet, videoToSpriteSheet, extractFramesFromVideo } from './sprite-sheet/index.js';
+export { createSpriteSheet, videoToSpriteSheet, clipToSpriteSheet, packAtlas, clipsToAtlas, detectVideoLoop, findLoopPoints, trimVideo, mirrorVideo, extractEdgeFrame, isLoopingAnimation, exportSpriteSheetMetadata, getMetadataFormats, extractFramesFromVideo, findFfmpeg, getVideoDuration, createAnimatedGif, createAnimatedPreview, videoToAnimatedPreview, encodeAnimation, getAnimatedFormats } from './sprite-sheet/index.js';
+export type { SpriteSheetOptions, SpriteSheetResult, SpriteSheetMetadataFormat, SheetLayout, AtlasAnimation, AtlasOptions, AtlasResult, LoopPoints, VideoLoopOptions, ExtractFramesOptions, AnimatedFormat, AnimatedImageOptions } from './sprite-sheet/index.js';
 export { runBatchGeneration, loadBatchConfig, validateBatchConfig, createBatchConfigTemplate } from './batch/index.js';
 export { optimizeGLBModel, generateLODs, getModelStats, getRecommendedOptimizations, estimateOptimizedSize } from './optimization/index.js';
 export { RateLimiter, estimatePipelineCost, estimateBatchCost, formatCost, getRateLimits } from './rate-limit/index.js';
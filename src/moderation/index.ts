@@ -0,0 +1,149 @@
+import type { ModerationResult, ModerationViolation } from '../types.js';
+
+const OPENAI_MODERATION_URL = 'https://api.openai.com/v1/moderations';
+
+export const DEFAULT_MAX_PROMPT_LENGTH = 1000;
+
+// Terms image and video providers reject outright; extend with MODERATION_BLOCKED_TERMS
+export const DEFAULT_BLOCKED_TERMS = ['nsfw', 'nude', 'naked', 'porn', 'hentai', 'explicit sex', 'child abuse'];
+
+// Well-known characters that trip provider IP filters or cannot ship in a game
+export const DEFAULT_TRADEMARKS = [
+  'mario',
+  'luigi',
+  'pikachu',
+  'pokemon',
+  'sonic the hedgehog',
+  'mickey mouse',
+  'zelda',
+  'master chief',
+  'spider-man',
+  'batman',
+  'superman',
+  'darth vader',
+  'lara croft',
+  'kratos',
+];
+
+export type ModerationAction = 'refuse' | 'warn';
+
+export interface ModerationOptions {
+  blockedTerms?: string[];
+  trademarks?: string[];
+  maxLength?: number;
+  // Replace the default term lists instead of extending them
+  replaceDefaults?: boolean;
+  // Also ask the OpenAI moderation endpoint (free, needs OPENAI_API_KEY)
+  providerCheck?: boolean;
+}
+
+export async function moderatePrompt(prompt: string, options: ModerationOptions = {}): Promise<ModerationResult> {
+  const result = checkPrompt(prompt, options);
+  if (!options.providerCheck) {
+    return result;
+  }
+
+  const violations = [...result.violations, ...(await checkWithOpenAI(prompt))];
+  return { allowed: violations.length === 0, violations, providerChecked: true };
+}
+
+// Local checks only: no network, no cost
+export function checkPrompt(prompt: string, options: ModerationOptions = {}): ModerationResult {
+  const config = resolveModerationOptions(options);
+  const violations: ModerationViolation[] = [];
+
+  if (prompt.length > config.maxLength) {
+    violations.push({
+      type: 'max-length',
+      message: `Prompt is ${prompt.length} characters, the limit is ${config.maxLength}`,
+    });
+  }
+
+  for (const term of config.blockedTerms) {
+    if (containsTerm(prompt, term)) {
+      violations.push({ type: 'blocked-term', term, message: `Prompt contains blocked term "${term}"` });
+    }
+  }
+
+  for (const name of config.trademarks) {
+    if (containsTerm(prompt, name)) {
+      violations.push({ type: 'trademark', term: name, message: `Prompt references trademarked character "${name}"` });
+    }
+  }
+
+  return { allowed: violations.length === 0, violations, providerChecked: false };
+}
+
+export function formatViolations(violations: ModerationViolation[]): string {
+  return violations.map(violation => violation.message).join('; ');
+}
+
+function resolveModerationOptions(options: ModerationOptions) {
+  const envTerms = parseList(process.env.MODERATION_BLOCKED_TERMS);
+  const envTrademarks = parseList(process.env.MODERATION_TRADEMARKS);
+  const envMaxLength = Number(process.env.MODERATION_MAX_LENGTH);
+
+  const blockedTerms = options.replaceDefaults
+    ? options.blockedTerms ?? []
+    : [...DEFAULT_BLOCKED_TERMS, ...envTerms, ...(options.blockedTerms ?? [])];
+  const trademarks = options.replaceDefaults
+    ? options.trademarks ?? []
+    : [...DEFAULT_TRADEMARKS, ...envTrademarks, ...(options.trademarks ?? [])];
+
+  return {
+    blockedTerms: [...new Set(blockedTerms.map(term => term.toLowerCase()))],
+    trademarks: [...new Set(trademarks.map(name => name.toLowerCase()))],
+    maxLength: options.maxLength ?? (envMaxLength > 0 ? envMaxLength : DEFAULT_MAX_PROMPT_LENGTH),
+  };
+}
+
+// Whole-word match that treats spaces, hyphens and underscores alike ("spider man" matches "spider-man")
+function containsTerm(prompt: string, term: string): boolean {
+  const pattern = term
+    .trim()
+    .split(/[\s_-]+/)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[\\s_-]*');
+  return new RegExp(`(?<![a-z0-9])${pattern}(?![a-z0-9])`, 'i').test(prompt);
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+async function checkWithOpenAI(prompt: string): Promise<ModerationViolation[]> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable is required for provider moderation');
+  }
+
+  const response = await fetch(OPENAI_MODERATION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({ model: 'omni-moderation-latest', input: prompt }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI moderation failed: ${response.status} ${await response.text()}`);
+  }
+
+  const data = await response.json() as {
+    results: Array<{ flagged: boolean; categories: Record<string, boolean> }>;
+  };
+  const flagged = data.results.filter(result => result.flagged);
+  if (flagged.length === 0) {
+    return [];
+  }
+
+  const categories = [...new Set(flagged.flatMap(result =>
+    Object.entries(result.categories).filter(([, hit]) => hit).map(([category]) => category)
+  ))];
+  return [{
+    type: 'provider-flagged',
+    categories,
+    message: `Prompt flagged by OpenAI moderation: ${categories.join(', ') || 'unspecified'}`,
+  }];
+}
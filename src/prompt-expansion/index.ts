@@ -0,0 +1,230 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { getAllSkeletonTypes, getCompatibleAnimations, getSkeletonTypes, suggestSkeletonForCharacter } from '../rigging/index.js';
+import { getAnimationTypes } from '../video-gen/index.js';
+import type { AnimationType, CharacterSheet, SkeletonType } from '../types.js';
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export interface ExpandPromptOptions {
+  // 'auto' uses the LLM when OPENAI_API_KEY is set and falls back to the template
+  mode?: 'auto' | 'llm' | 'template';
+  model?: string;
+}
+
+const BODY_TYPES: Record<string, string> = {
+  biped: 'humanoid',
+  quadruped: 'four-legged beast',
+  spider: 'eight-legged arachnid',
+  snake: 'serpentine creature',
+  bird: 'winged creature',
+  fish: 'aquatic creature',
+  mech: 'mechanical humanoid',
+  custom: 'amorphous creature',
+};
+
+const DEFAULT_PALETTES: Record<string, string[]> = {
+  biped: ['steel grey', 'deep blue', 'leather brown', 'gold'],
+  quadruped: ['earth brown', 'cream', 'charcoal', 'amber'],
+  spider: ['black', 'dark purple', 'toxic green', 'red'],
+  snake: ['emerald green', 'olive', 'yellow', 'black'],
+  bird: ['sky blue', 'white', 'orange', 'slate grey'],
+  fish: ['ocean blue', 'silver', 'coral', 'white'],
+  mech: ['gunmetal', 'safety orange', 'steel grey', 'cyan'],
+  custom: ['lime green', 'teal', 'white', 'dark green'],
+};
+
+const COLOR_WORDS = [
+  'red', 'crimson', 'orange', 'yellow', 'gold', 'golden', 'green', 'emerald', 'teal', 'cyan', 'blue',
+  'navy', 'purple', 'violet', 'pink', 'magenta', 'brown', 'bronze', 'copper', 'silver', 'white',
+  'black', 'grey', 'gray',
+];
+
+const EQUIPMENT_WORDS = [
+  'sword', 'greatsword', 'shield', 'axe', 'hammer', 'mace', 'dagger', 'spear', 'lance', 'bow',
+  'crossbow', 'staff', 'wand', 'scythe', 'whip', 'gun', 'rifle', 'pistol', 'blaster', 'cannon',
+  'claws', 'armor', 'armour', 'helmet', 'cape', 'cloak', 'robe', 'hood', 'crown', 'backpack',
+  'lantern', 'book', 'potion',
+];
+
+const COMBAT_WORDS = [
+  'knight', 'warrior', 'soldier', 'fighter', 'samurai', 'ninja', 'assassin', 'rogue', 'barbarian',
+  'monster', 'boss', 'guard', 'hunter', 'mech', 'dragon', 'orc', 'goblin', 'skeleton', 'zombie',
+];
+
+// Style and filler words that say nothing about the character itself
+const NAME_STOP_WORDS = new Set([
+  'a', 'an', 'the', 'cute', 'pixel', 'art', 'anime', 'chibi', 'lowpoly', 'low', 'poly', 'voxel',
+  'painterly', 'character', 'sprite', 'game', 'style', '8-bit', '16-bit',
+]);
+
+const sheetResponseSchema = z.object({
+  name: z.string().min(1),
+  silhouette: z.string().min(1),
+  colorPalette: z.array(z.string().min(1)).min(1),
+  equipment: z.array(z.string()),
+  bodyType: z.string().min(1),
+  suggestedSkeleton: z.string(),
+  suggestedAnimations: z.array(z.string()),
+});
+
+export async function expandPrompt(prompt: string, options: ExpandPromptOptions = {}): Promise<CharacterSheet> {
+  const { mode = 'auto', model = process.env.PROMPT_EXPANSION_MODEL || DEFAULT_MODEL } = options;
+
+  if (mode === 'template' || (mode === 'auto' && !process.env.OPENAI_API_KEY)) {
+    return createTemplateCharacterSheet(prompt);
+  }
+
+  try {
+    return await expandWithOpenAI(prompt, model);
+  } catch (error) {
+    if (mode === 'llm') {
+      throw error;
+    }
+    console.warn(`[PromptExpansion] LLM expansion failed, using template: ${error instanceof Error ? error.message : error}`);
+    return createTemplateCharacterSheet(prompt);
+  }
+}
+
+// Deterministic offline sheet built from keywords in the prompt
+export function createTemplateCharacterSheet(prompt: string): CharacterSheet {
+  const lower = prompt.toLowerCase();
+  const words: string[] = lower.match(/[a-z0-9-]+/g) ?? [];
+
+  const suggestedSkeleton = suggestSkeletonForCharacter(prompt);
+  const bodyType = BODY_TYPES[suggestedSkeleton] ?? BODY_TYPES.custom;
+  const equipment = EQUIPMENT_WORDS.filter(item => words.includes(item));
+
+  const colors = [...new Set(words.filter(word => COLOR_WORDS.includes(word)).map(normalizeColor))];
+  const colorPalette = [...colors, ...DEFAULT_PALETTES[suggestedSkeleton].filter(c => !colors.includes(c))].slice(0, 4);
+
+  const proportions = /\b(cute|chibi|tiny|small|little)\b/.test(lower)
+    ? 'chibi proportions with an oversized head'
+    : /\b(giant|huge|massive|towering|boss)\b/.test(lower)
+      ? 'towering, heavy build'
+      : 'balanced proportions';
+  const silhouette = equipment.length > 0
+    ? `${proportions}, ${equipment[0]} clearly readable in outline`
+    : proportions;
+
+  const combat = equipment.length > 0 || COMBAT_WORDS.some(word => words.includes(word));
+  const wanted: AnimationType[] = combat ? ['idle', 'walk', 'attack', 'hurt', 'death'] : ['idle', 'walk', 'jump'];
+
+  return {
+    name: deriveName(words),
+    silhouette,
+    colorPalette,
+    equipment,
+    bodyType,
+    suggestedSkeleton,
+    suggestedAnimations: filterAnimations(wanted, suggestedSkeleton),
+    source: 'template',
+  };
+}
+
+// One-line description used in image and animation prompts
+export function describeCharacterSheet(sheet: CharacterSheet): string {
+  const parts = [sheet.name, sheet.bodyType, sheet.silhouette];
+  if (sheet.equipment.length > 0) {
+    parts.push(`equipped with ${sheet.equipment.join(', ')}`);
+  }
+  parts.push(`colour palette of ${sheet.colorPalette.join(', ')}`);
+  return parts.join(', ');
+}
+
+// Rigging providers only take the core skeletons; specialised ones (spider, bird, ...) rig as custom
+export function getRiggingSkeleton(sheet: CharacterSheet): SkeletonType {
+  const suggested = sheet.suggestedSkeleton as SkeletonType;
+  return getSkeletonTypes().includes(suggested) ? suggested : 'custom';
+}
+
+async function expandWithOpenAI(prompt: string, model: string): Promise<CharacterSheet> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable is required for LLM prompt expansion');
+  }
+
+  const openai = new OpenAI({ apiKey });
+  const response = await openai.chat.completions.create({
+    model,
+    temperature: 0.4,
+    messages: [
+      {
+        role: 'system',
+        content: 'You design characters for 2D and 3D games. Expand the short description into a character ' +
+          'sheet. Keep every field short and concrete, pick the skeleton that fits the body plan, and suggest ' +
+          'the animations a game would need for this character.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'character_sheet', strict: true, schema: characterSheetJsonSchema() },
+    },
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('No character sheet returned from OpenAI');
+  }
+
+  const parsed = sheetResponseSchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(`Invalid character sheet: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+
+  const sheet = parsed.data;
+  const suggestedSkeleton = getAllSkeletonTypes().includes(sheet.suggestedSkeleton)
+    ? sheet.suggestedSkeleton
+    : suggestSkeletonForCharacter(prompt);
+
+  return {
+    ...sheet,
+    suggestedSkeleton,
+    suggestedAnimations: filterAnimations(sheet.suggestedAnimations, suggestedSkeleton),
+    source: 'llm',
+    model,
+  };
+}
+
+function characterSheetJsonSchema(): Record<string, unknown> {
+  return {
+    type: 'object',
+    additionalProperties: false,
+    required: ['name', 'silhouette', 'colorPalette', 'equipment', 'bodyType', 'suggestedSkeleton', 'suggestedAnimations'],
+    properties: {
+      name: { type: 'string', description: 'Short character name' },
+      silhouette: { type: 'string', description: 'Outline and proportions that read at sprite size' },
+      colorPalette: { type: 'array', items: { type: 'string' }, description: '3-6 named colours' },
+      equipment: { type: 'array', items: { type: 'string' }, description: 'Weapons, armour and props' },
+      bodyType: { type: 'string', description: 'Body plan, e.g. humanoid or four-legged beast' },
+      suggestedSkeleton: { type: 'string', enum: getAllSkeletonTypes() },
+      suggestedAnimations: { type: 'array', items: { type: 'string', enum: getAnimationTypes() } },
+    },
+  };
+}
+
+// Keeps known animation types the skeleton can play, always starting with idle
+function filterAnimations(animations: string[], skeleton: string): AnimationType[] {
+  const known = getAnimationTypes();
+  const compatible = getCompatibleAnimations(skeleton);
+  const filtered = animations.filter(
+    (anim): anim is AnimationType => known.includes(anim as AnimationType) && (compatible.length === 0 || compatible.includes(anim))
+  );
+  return [...new Set<AnimationType>(['idle', ...filtered])];
+}
+
+function deriveName(words: string[]): string {
+  const cut = words.findIndex(word => ['with', 'in', 'holding', 'wearing', 'and', 'of'].includes(word));
+  const nameWords = (cut === -1 ? words : words.slice(0, cut))
+    .filter(word => !NAME_STOP_WORDS.has(word) && !COLOR_WORDS.includes(word))
+    .slice(-3);
+  const name = nameWords.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  return name || 'Unnamed Character';
+}
+
+function normalizeColor(color: string): string {
+  if (color === 'golden') return 'gold';
+  if (color === 'gray') return 'grey';
+  return color;
+}
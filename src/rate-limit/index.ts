@@ -1,3 +1,7 @@
+import type { ImageProvider } from '../image-gen/index.js';
+import type { VideoProvider } from '../video-gen/index.js';
+import type { RiggingProvider } from '../rigging/index.js';
+
 export interface APIProviderLimits {
   requestsPerMinute: number;
   requestsPerHour?: number;
@@ -13,6 +17,8 @@ export interface CostEstimate {
   unitPrice: number;
   currency: string;
   estimatedCost: number;
+  // No pricing is known for the provider (e.g. a registered custom one); estimatedCost is 0
+  unknown?: boolean;
 }
 
 export interface PipelineCostEstimate {
@@ -21,6 +27,8 @@ export interface PipelineCostEstimate {
   rigging3D: CostEstimate;
   total: number;
   currency: string;
+  // Providers without known pricing, so the total is a lower bound
+  unknownProviders?: string[];
 }
 
 // Pricing data (as of 2026-01)
@@ -46,6 +54,10 @@ const PRICING = {
     'rigging': 0.10, // per model
     'texturing': 0.05,
   },
+  meshy: {
+    'image-to-3d': 0.20, // per model, estimated from credits
+    'rigging': 0.05,
+  },
 };
 
 // Rate limits
@@ -77,8 +89,12 @@ const RATE_LIMITS: Record<string, APIProviderLimits> = {
   },
 };
 
+// acquire() waits for the requests-per-minute window only. withSlot() also holds one of the
+// provider's concurrent-request slots while the request runs.
 export class RateLimiter {
   private queues: Map<string, number[]> = new Map();
+  private active: Map<string, number> = new Map();
+  private waiting: Map<string, Array<() => void>> = new Map();
   private windowMs: number;
 
   constructor(windowMs: number = 60000) {
@@ -91,6 +107,60 @@ export class RateLimiter {
       return; // No limits defined
     }
 
+    await this.waitForWindow(provider, limits);
+  }
+
+  release(_provider: string): void {
+    // No explicit release needed for time-window rate limiting
+  }
+
+  // Runs the request once both limits allow it; the slot is freed when it settles
+  async withSlot<T>(provider: string, run: () => Promise<T>): Promise<T> {
+    const limits = RATE_LIMITS[provider];
+    if (!limits) {
+      return run();
+    }
+
+    await this.takeSlot(provider, limits.concurrentRequests);
+    try {
+      await this.waitForWindow(provider, limits);
+      return await run();
+    } finally {
+      this.freeSlot(provider, limits.concurrentRequests);
+    }
+  }
+
+  private async takeSlot(provider: string, limit?: number): Promise<void> {
+    if (!limit) {
+      return;
+    }
+    const active = this.active.get(provider) ?? 0;
+    if (active < limit) {
+      this.active.set(provider, active + 1);
+      return;
+    }
+    console.log(`[RateLimit] ${provider}: ${active} requests in flight, waiting for a free slot...`);
+    await new Promise<void>(resolve => {
+      const queue = this.waiting.get(provider) ?? [];
+      queue.push(resolve);
+      this.waiting.set(provider, queue);
+    });
+  }
+
+  private freeSlot(provider: string, limit?: number): void {
+    if (!limit) {
+      return;
+    }
+    // Hand the slot straight to the next waiter so a new caller cannot jump the queue
+    const next = this.waiting.get(provider)?.shift();
+    if (next) {
+      next();
+    } else {
+      this.active.set(provider, Math.max(0, (this.active.get(provider) ?? 0) - 1));
+    }
+  }
+
+  private async waitForWindow(provider: string, limits: APIProviderLimits): Promise<void> {
     const now = Date.now();
     const queue = this.queues.get(provider) || [];
     
@@ -103,21 +173,17 @@ export class RateLimiter {
       const waitTime = this.windowMs - (now - oldestEntry);
       console.log(`[RateLimit] ${provider}: waiting ${(waitTime / 1000).toFixed(1)}s...`);
       await this.sleep(waitTime);
-      return this.acquire(provider);
+      return this.waitForWindow(provider, limits);
     }
     
     validQueue.push(now);
     this.queues.set(provider, validQueue);
   }
 
-  release(_provider: string): void {
-    // No explicit release needed for time-window rate limiting
-  }
-
-  getStatus(provider: string): { used: number; limit: number; resetIn: number } {
+  getStatus(provider: string): { used: number; limit: number; resetIn: number; active: number; concurrentLimit: number } {
     const limits = RATE_LIMITS[provider];
     if (!limits) {
-      return { used: 0, limit: Infinity, resetIn: 0 };
+      return { used: 0, limit: Infinity, resetIn: 0, active: 0, concurrentLimit: Infinity };
     }
 
     const now = Date.now();
@@ -131,6 +197,8 @@ export class RateLimiter {
       used: validQueue.length,
       limit: limits.requestsPerMinute,
       resetIn,
+      active: this.active.get(provider) ?? 0,
+      concurrentLimit: limits.concurrentRequests ?? Infinity,
     };
   }
 
@@ -140,12 +208,13 @@ export class RateLimiter {
 }
 
 export function estimateImageGenCost(
-  provider: 'openai' | 'stability' | 'pixellab',
+  provider: ImageProvider | 'placeholder',
   count: number = 1,
   quality: 'standard' | 'hd' = 'standard'
 ): CostEstimate {
   let unitPrice = 0;
   let operation = 'image-generation';
+  let unknown = false;
 
   switch (provider) {
     case 'openai':
@@ -160,6 +229,16 @@ export function estimateImageGenCost(
       unitPrice = 0.02; // Estimated
       operation = 'pixellab';
       break;
+    // Runs on the user's own GPU
+    case 'local-sd':
+      operation = 'local-sd';
+      break;
+    case 'placeholder':
+      operation = 'placeholder';
+      break;
+    default:
+      unknown = true;
+      break;
   }
 
   return {
@@ -169,11 +248,12 @@ export function estimateImageGenCost(
     unitPrice,
     currency: 'USD',
     estimatedCost: count * unitPrice,
+    ...(unknown && { unknown }),
   };
 }
 
 export function estimateVideoCost(
-  provider: 'veo' | 'runway' | 'placeholder',
+  provider: VideoProvider,
   durationSeconds: number,
   animationCount: number = 1
 ): CostEstimate {
@@ -208,7 +288,7 @@ export function estimateVideoCost(
 }
 
 export function estimateRiggingCost(
-  provider: 'tripo' | 'placeholder'
+  provider: RiggingProvider
 ): CostEstimate {
   let cost = 0;
   let operation = '3d-rigging';
@@ -218,6 +298,10 @@ export function estimateRiggingCost(
       cost = PRICING.tripo['image-to-3d'] + PRICING.tripo['rigging'];
       operation = 'tripo-full';
       break;
+    case 'meshy':
+      cost = PRICING.meshy['image-to-3d'] + PRICING.meshy['rigging'];
+      operation = 'meshy-full';
+      break;
     case 'placeholder':
       cost = 0;
       operation = 'placeholder';
@@ -235,9 +319,9 @@ export function estimateRiggingCost(
 }
 
 export interface PipelineEstimateOptions {
-  imageProvider: 'openai' | 'stability' | 'pixellab';
-  videoProvider: 'veo' | 'runway' | 'placeholder';
-  riggingProvider: 'tripo' | 'placeholder';
+  imageProvider: ImageProvider | 'placeholder';
+  videoProvider: VideoProvider;
+  riggingProvider: RiggingProvider;
   animationCount: number;
   animationDuration: number;
   imageQuality?: 'standard' | 'hd';
@@ -247,6 +331,7 @@ export function estimatePipelineCost(options: PipelineEstimateOptions): Pipeline
   const imageGen = estimateImageGenCost(options.imageProvider, 1, options.imageQuality);
   const videoGen = estimateVideoCost(options.videoProvider, options.animationDuration, options.animationCount);
   const rigging = estimateRiggingCost(options.riggingProvider);
+  const unknownProviders = [imageGen, videoGen, rigging].filter(estimate => estimate.unknown).map(estimate => estimate.provider);
 
   return {
     imageGeneration: imageGen,
@@ -254,6 +339,7 @@ export function estimatePipelineCost(options: PipelineEstimateOptions): Pipeline
     rigging3D: rigging,
     total: imageGen.estimatedCost + videoGen.estimatedCost + rigging.estimatedCost,
     currency: 'USD',
+    ...(unknownProviders.length > 0 && { unknownProviders }),
   };
 }
 
@@ -1,12 +1,22 @@
 import fs from 'fs/promises';
 import path from 'path';
-import type { SkeletonType, RiggingResult } from '../types.js';
+import { DEFAULT_FALLBACK_POLICIES, ProviderUnavailableError, runWithFallback, toProviderList } from '../fallback/index.js';
+import { getAnimation, getAnimationNames } from '../animations/index.js';
+import type { SkeletonType, RiggingResult, MultiViewImages, TurnaroundView, CharacterSheet, FallbackPolicy, ProviderChain } from '../types.js';
 
 const TRIPO_API_BASE = 'https://api.tripo3d.ai/v2/openapi';
 const MESHY_API_BASE = 'https://api.meshy.ai/v2';
+const MESHY_MULTI_IMAGE_API = 'https://api.meshy.ai/openapi/v1/multi-image-to-3d';
+
+// Tripo's multiview task takes four slots ordered front, left, back, right; the side
+// view fills the left slot and three-quarter views have no slot
+const TRIPO_MULTIVIEW_SLOTS: Array<TurnaroundView | null> = ['front', 'side', 'back', null];
 
 export type RiggingProvider = 'tripo' | 'meshy' | 'placeholder';
 
+// Meshy takes over when Tripo is unavailable, e.g. without TRIPO_API_KEY
+export const DEFAULT_RIGGING_PROVIDERS: RiggingProvider[] = ['tripo', 'meshy'];
+
 interface TripoTaskResponse {
   code: number;
   data: {
@@ -31,13 +41,16 @@ interface TripoTaskStatus {
 
 interface RiggingOptions {
   skeletonType?: SkeletonType;
-  provider?: RiggingProvider;
+  // One provider or a chain, e.g. ['tripo', 'meshy'], tried in order on rate limits and outages
+  provider?: ProviderChain<RiggingProvider>;
   faceLimit?: number;
   enableTexture?: boolean;
   enablePBR?: boolean;
   modelVersion?: string;
   maxPollAttempts?: number;
   pollInterval?: number;
+  // Once the chain gives up: throw, save a flagged placeholder (default) or try the other service
+  fallback?: FallbackPolicy;
 }
 
 interface SkeletonConfig {
@@ -45,6 +58,7 @@ interface SkeletonConfig {
   description: string;
   bones: string[];
   rootBone: string;
+  // Core animations tuned for this skeleton; see isAnimationCompatible() for the rest
   compatibility: string[];
 }
 
@@ -169,125 +183,155 @@ export const ADDITIONAL_SKELETON_TYPES = {
 
 export type AdditionalSkeletonType = keyof typeof ADDITIONAL_SKELETON_TYPES;
 
+const CURATED_ANIMATIONS = new Set<string>(
+  [...Object.values(SKELETON_CONFIGS), ...Object.values(ADDITIONAL_SKELETON_TYPES)].flatMap(config => config.compatibility)
+);
+
 export async function generateAndRig3DModel(
-  imagePath: string,
+  input: string | MultiViewImages,
   outputDir: string,
   options: RiggingOptions = {}
 ): Promise<RiggingResult> {
   const {
     skeletonType = 'biped',
-    provider = 'tripo',
+    provider = DEFAULT_RIGGING_PROVIDERS,
     faceLimit = 10000,
     enableTexture = true,
     enablePBR = true,
     modelVersion = 'v2.5-20250117',
     maxPollAttempts = 60,
     pollInterval = 5000,
+    fallback = DEFAULT_FALLBACK_POLICIES.rigging,
   } = options;
 
-  console.log(`[Rigging] Converting ${imagePath} to 3D model`);
-  console.log(`[Rigging] Provider: ${provider}, Skeleton: ${skeletonType}`);
+  const images: MultiViewImages = typeof input === 'string' ? { front: input } : input;
+  const views = Object.keys(images) as TurnaroundView[];
+  const imagePath = images.front;
+
+  console.log(`[Rigging] Converting ${views.length > 1 ? `${views.join(', ')} views` : imagePath} to 3D model`);
+  const providers = toProviderList(provider, 'rigging');
+  const unknown = providers.find(name => !getSupportedProviders().includes(name));
+  if (unknown) {
+    throw new Error(`Unknown rigging provider: ${unknown}. Supported: ${getSupportedProviders().join(', ')}`);
+  }
+  console.log(`[Rigging] Provider: ${providers.join(' -> ')}, Skeleton: ${skeletonType}`);
 
   const modelDir = path.join(outputDir, 'model');
   await fs.mkdir(modelDir, { recursive: true });
 
-  if (provider === 'placeholder') {
-    return createPlaceholderModel(modelDir, skeletonType);
-  }
-
-  // Try Meshy first if selected or as fallback
-  if (provider === 'meshy') {
-    const meshyKey = process.env.MESHY_API_KEY;
-    if (meshyKey) {
-      return generateWithMeshy(imagePath, modelDir, skeletonType, meshyKey);
-    }
-    console.warn('[Rigging] MESHY_API_KEY not set, trying Tripo...');
-  }
+  const savePlaceholder = async (): Promise<RiggingResult> => ({
+    ...(await createPlaceholderModel(modelDir, skeletonType)),
+    isPlaceholder: true,
+    provider: 'placeholder',
+    ...(views.length > 1 && { sourceViews: views }),
+  });
+  const tripoOptions = { faceLimit, enableTexture, enablePBR, modelVersion, maxPollAttempts, pollInterval };
+  return runWithFallback({
+    label: 'Rigging',
+    providers,
+    alternatives: getSupportedProviders().filter(p => p !== 'placeholder'),
+    policy: fallback,
+    generate: async (name): Promise<RiggingResult> => {
+      switch (name) {
+        case 'placeholder':
+          return savePlaceholder();
+        case 'meshy':
+          return { ...(await generateWithMeshy(images, modelDir, skeletonType, requireApiKey('MESHY_API_KEY', name))), provider: name };
+        default:
+          return { ...(await generateWithTripo(images, modelDir, skeletonType, requireApiKey('TRIPO_API_KEY', name), tripoOptions)), provider: name };
+      }
+    },
+    placeholder: savePlaceholder,
+  });
+}
 
-  const apiKey = process.env.TRIPO_API_KEY;
+// A missing key makes the provider unavailable, so the chain moves on to the next one
+function requireApiKey(name: 'TRIPO_API_KEY' | 'MESHY_API_KEY', provider: string): string {
+  const apiKey = process.env[name];
   if (!apiKey) {
-    // Try Meshy as fallback
-    const meshyKey = process.env.MESHY_API_KEY;
-    if (meshyKey) {
-      console.log('[Rigging] TRIPO_API_KEY not set, using Meshy instead');
-      return generateWithMeshy(imagePath, modelDir, skeletonType, meshyKey);
-    }
-    console.warn('[Rigging] No API keys set, using placeholder model');
-    return createPlaceholderModel(modelDir, skeletonType);
+    throw new ProviderUnavailableError(`${name} environment variable is required`, provider);
   }
+  return apiKey;
+}
 
-  try {
-    // Step 1: Create image-to-model task
-    const modelTaskId = await createImageToModelTask(imagePath, apiKey, {
-      faceLimit,
-      enableTexture,
-      enablePBR,
-      modelVersion,
-    });
-    console.log(`[Rigging] Created model task: ${modelTaskId}`);
+interface TripoModelOptions extends ImageToModelOptions {
+  maxPollAttempts: number;
+  pollInterval: number;
+}
 
-    // Step 2: Wait for model generation
-    await waitForTask(modelTaskId, apiKey, maxPollAttempts, pollInterval);
-    const modelUrl = await getTaskOutput(modelTaskId, apiKey);
+async function generateWithTripo(
+  images: MultiViewImages,
+  modelDir: string,
+  skeletonType: SkeletonType,
+  apiKey: string,
+  options: TripoModelOptions
+): Promise<RiggingResult> {
+  const { maxPollAttempts, pollInterval, ...modelOptions } = options;
+  const views = Object.keys(images) as TurnaroundView[];
 
-    // Step 3: Download base model
-    const basePath = path.join(modelDir, 'base.glb');
-    await downloadFile(modelUrl, basePath);
-    console.log(`[Rigging] Downloaded base model to ${basePath}`);
+  // Step 1: Create image-to-model task (multiview when side or back views are available)
+  const modelTaskId = images.side || images.back
+    ? await createMultiviewToModelTask(images, apiKey, modelOptions)
+    : await createImageToModelTask(images.front, apiKey, modelOptions);
+  console.log(`[Rigging] Created model task: ${modelTaskId}`);
 
-    // Step 4: Create rigging task
-    const rigTaskId = await createRiggingTask(modelTaskId, skeletonType, apiKey);
-    console.log(`[Rigging] Created rigging task: ${rigTaskId}`);
+  // Step 2: Wait for model generation
+  await waitForTask(modelTaskId, apiKey, maxPollAttempts, pollInterval);
+  const modelUrl = await getTaskOutput(modelTaskId, apiKey);
 
-    // Step 5: Wait for rigging
-    await waitForTask(rigTaskId, apiKey, maxPollAttempts, pollInterval);
-    const riggedUrl = await getTaskOutput(rigTaskId, apiKey);
+  // Step 3: Download base model
+  const basePath = path.join(modelDir, 'base.glb');
+  await downloadFile(modelUrl, basePath);
+  console.log(`[Rigging] Downloaded base model to ${basePath}`);
 
-    // Step 6: Download rigged model
-    const riggedPath = path.join(modelDir, 'rigged.glb');
-    await downloadFile(riggedUrl, riggedPath);
-    console.log(`[Rigging] Downloaded rigged model to ${riggedPath}`);
+  // Step 4: Create rigging task
+  const rigTaskId = await createRiggingTask(modelTaskId, skeletonType, apiKey);
+  console.log(`[Rigging] Created rigging task: ${rigTaskId}`);
 
-    return {
-      modelPath: basePath,
-      riggedModelPath: riggedPath,
-      skeletonType,
-      boneCount: SKELETON_CONFIGS[skeletonType].boneCount,
-    };
-  } catch (error) {
-    console.error('[Rigging] Error during 3D model generation:', error);
-    console.warn('[Rigging] Falling back to placeholder model');
-    return createPlaceholderModel(modelDir, skeletonType);
-  }
+  // Step 5: Wait for rigging
+  await waitForTask(rigTaskId, apiKey, maxPollAttempts, pollInterval);
+  const riggedUrl = await getTaskOutput(rigTaskId, apiKey);
+
+  // Step 6: Download rigged model
+  const riggedPath = path.join(modelDir, 'rigged.glb');
+  await downloadFile(riggedUrl, riggedPath);
+  console.log(`[Rigging] Downloaded rigged model to ${riggedPath}`);
+
+  return {
+    modelPath: basePath,
+    riggedModelPath: riggedPath,
+    skeletonType,
+    boneCount: SKELETON_CONFIGS[skeletonType].boneCount,
+    ...(views.length > 1 && { sourceViews: views }),
+  };
 }
 
 // Meshy API implementation
 async function generateWithMeshy(
-  imagePath: string,
+  images: MultiViewImages,
   modelDir: string,
   skeletonType: SkeletonType,
   apiKey: string
 ): Promise<RiggingResult> {
   console.log('[Rigging] Using Meshy API for 3D generation');
 
-  const imageBuffer = await fs.readFile(imagePath);
-  const base64Image = imageBuffer.toString('base64');
-  const ext = path.extname(imagePath).toLowerCase();
-  const mimeType = ext === '.jpg' || ext === '.jpeg' ? 'image/jpeg' : 'image/png';
+  const views = Object.keys(images) as TurnaroundView[];
+  const imageUrls = await Promise.all(views.map(view => toDataUri(images[view]!)));
+
+  // Meshy's multi-image endpoint takes up to four angles of the same object
+  const taskUrl = views.length > 1 ? MESHY_MULTI_IMAGE_API : `${MESHY_API_BASE}/image-to-3d`;
+  const body = views.length > 1
+    ? { image_urls: imageUrls.slice(0, 4), ai_model: 'meshy-5', topology: 'quad', target_polycount: 30000 }
+    : { image_url: imageUrls[0], ai_model: 'meshy-4', topology: 'quad', target_polycount: 30000 };
 
   // Create Image-to-3D task
-  const createResponse = await fetch(`${MESHY_API_BASE}/image-to-3d`, {
+  const createResponse = await fetch(taskUrl, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       Authorization: `Bearer ${apiKey}`,
     },
-    body: JSON.stringify({
-      image_url: `data:${mimeType};base64,${base64Image}`,
-      ai_model: 'meshy-4',
-      topology: 'quad',
-      target_polycount: 30000,
-    }),
+    body: JSON.stringify(body),
   });
 
   if (!createResponse.ok) {
@@ -305,7 +349,7 @@ async function generateWithMeshy(
   const pollInterval = 5000;
 
   while (attempts < maxAttempts) {
-    const statusResponse = await fetch(`${MESHY_API_BASE}/image-to-3d/${taskId}`, {
+    const statusResponse = await fetch(`${taskUrl}/${taskId}`, {
       headers: { Authorization: `Bearer ${apiKey}` },
     });
 
@@ -336,6 +380,7 @@ async function generateWithMeshy(
         riggedModelPath: riggedPath,
         skeletonType,
         boneCount: SKELETON_CONFIGS[skeletonType].boneCount,
+        ...(views.length > 1 && { sourceViews: views }),
       };
     }
 
@@ -402,6 +447,56 @@ async function createImageToModelTask(
   return data.data.task_id;
 }
 
+async function createMultiviewToModelTask(
+  images: MultiViewImages,
+  apiKey: string,
+  options: ImageToModelOptions
+): Promise<string> {
+  // Missing angles are sent as empty objects; only the front view is mandatory
+  const files = await Promise.all(
+    TRIPO_MULTIVIEW_SLOTS.map(async (view) => {
+      const imagePath = view ? images[view] : undefined;
+      if (!imagePath) {
+        return {};
+      }
+      const ext = path.extname(imagePath).toLowerCase();
+      return {
+        type: ext === '.jpg' || ext === '.jpeg' ? 'jpeg' : 'png',
+        data: (await fs.readFile(imagePath)).toString('base64'),
+      };
+    })
+  );
+
+  const response = await fetch(`${TRIPO_API_BASE}/task`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      type: 'multiview_to_model',
+      files,
+      model_version: options.modelVersion,
+      face_limit: options.faceLimit,
+      texture: options.enableTexture,
+      pbr: options.enablePBR,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Tripo API error (${response.status}): ${error}`);
+  }
+
+  const data: TripoTaskResponse = await response.json();
+
+  if (data.code !== 0) {
+    throw new Error(`Tripo API returned error code: ${data.code}`);
+  }
+
+  return data.data.task_id;
+}
+
 async function createRiggingTask(
   modelTaskId: string,
   skeletonType: SkeletonType,
@@ -489,6 +584,13 @@ async function getTaskOutput(taskId: string, apiKey: string): Promise<string> {
   return modelUrl;
 }
 
+async function toDataUri(imagePath: string): Promise<string> {
+  const imageBuffer = await fs.readFile(imagePath);
+  const ext = path.extname(imagePath).toLowerCase();
+  const mimeType = ext === '.jpg' || ext === '.jpeg' ? 'image/jpeg' : 'image/png';
+  return `data:${mimeType};base64,${imageBuffer.toString('base64')}`;
+}
+
 async function downloadFile(url: string, destPath: string): Promise<void> {
   const response = await fetch(url);
 
@@ -562,16 +664,24 @@ export function getAnySkeletonConfig(skeletonType: string): SkeletonConfig | nul
   return null;
 }
 
+// Skeletons list the core animations they were tuned for; any other registered
+// animation fits when the skeleton has every bone it requires
 export function isAnimationCompatible(skeletonType: string, animationType: string): boolean {
   const config = getAnySkeletonConfig(skeletonType);
   if (!config) return false;
-  return config.compatibility.includes(animationType);
+  if (config.compatibility.includes(animationType)) return true;
+  if (CURATED_ANIMATIONS.has(animationType)) return false;
+
+  const animation = getAnimation(animationType);
+  if (!animation) return false;
+  const bones = config.bones.map(bone => bone.toLowerCase());
+  return (animation.requiredBones ?? []).every(required =>
+    bones.some(bone => bone.includes(required.toLowerCase()))
+  );
 }
 
 export function getCompatibleAnimations(skeletonType: string): string[] {
-  const config = getAnySkeletonConfig(skeletonType);
-  if (!config) return [];
-  return [...config.compatibility];
+  return getAnimationNames().filter(animation => isAnimationCompatible(skeletonType, animation));
 }
 
 export function getBoneHierarchy(skeletonType: string): { bones: string[]; rootBone: string } | null {
@@ -580,8 +690,16 @@ export function getBoneHierarchy(skeletonType: string): { bones: string[]; rootB
   return { bones: [...config.bones], rootBone: config.rootBone };
 }
 
-export function suggestSkeletonForCharacter(characterDescription: string): string {
-  const desc = characterDescription.toLowerCase();
+export function suggestSkeletonForCharacter(character: string | CharacterSheet): string {
+  // A character sheet already names its skeleton; otherwise read its body plan
+  if (typeof character !== 'string') {
+    if (getAllSkeletonTypes().includes(character.suggestedSkeleton)) {
+      return character.suggestedSkeleton;
+    }
+    return suggestSkeletonForCharacter(`${character.bodyType} ${character.silhouette}`);
+  }
+
+  const desc = character.toLowerCase();
   
   // Check for specific creature types
   if (desc.includes('spider') || desc.includes('arachnid') || desc.includes('tarantula')) {
@@ -2,21 +2,49 @@ import http from 'http';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { generateImage } from '../image-gen/index.js';
-import { createAnimationBatch } from '../video-gen/index.js';
-import { generateAndRig3DModel } from '../rigging/index.js';
+import { generateImage, getStyle, getStyleNames, getStylePrompts, getSupportedProviders as getImageProviders, loadStylePacksFromEnv } from '../image-gen/index.js';
+import { createAnimationBatch, getSupportedProviders as getVideoProviders, VideoProvider } from '../video-gen/index.js';
+import { generateAndRig3DModel, getSupportedProviders as getRiggingProviders, RiggingProvider, DEFAULT_RIGGING_PROVIDERS } from '../rigging/index.js';
 import { exportForThreeJS } from '../threejs-export/index.js';
+import { moderatePrompt, ModerationAction } from '../moderation/index.js';
 import { estimatePipelineCost, formatCost } from '../rate-limit/index.js';
-import type { CharacterStyle, AnimationType, SkeletonType } from '../types.js';
+import { findDegradedOutputs, formatDegradedOutput, resolveFallbackPolicies, resolveProviderChains } from '../fallback/index.js';
+import { findUnknownAnimations, getAnimationNames, getAnimations, loadAnimationPacksFromEnv } from '../animations/index.js';
+import type { CharacterStyle, AnimationType, SkeletonType, FallbackPolicies, FallbackPolicy, PipelineStage, ProviderChains } from '../types.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const OUTPUT_DIR = path.resolve(__dirname, '../../output');
+// MODERATION_ACTION=warn lets flagged prompts through with a warning event
+const MODERATION_ACTION: ModerationAction = process.env.MODERATION_ACTION === 'warn' ? 'warn' : 'refuse';
 
 interface GenerateRequest {
   prompt: string;
   style: CharacterStyle;
   animations: AnimationType[];
   skeleton: SkeletonType;
+  // Same shapes as the batch config: one policy for every stage or per stage,
+  // and one provider or a chain per stage
+  fallback?: FallbackPolicy | FallbackPolicies;
+  providers?: ProviderChains;
+}
+
+type StageProviders = Partial<Record<PipelineStage, string[]>>;
+
+// Chain entries must name providers this server has registered
+function resolveRequestProviders(value: ProviderChains | undefined): StageProviders {
+  const chains = resolveProviderChains(value);
+  const registered: Record<PipelineStage, string[]> = {
+    image: getImageProviders(),
+    video: getVideoProviders(),
+    rigging: getRiggingProviders(),
+  };
+  for (const [stage, chain] of Object.entries(chains) as [PipelineStage, string[]][]) {
+    const unknown = chain.find(provider => !registered[stage].includes(provider));
+    if (unknown) {
+      throw new Error(`Unknown ${stage} provider: ${unknown}. Valid providers: ${registered[stage].join(', ')}`);
+    }
+  }
+  return chains;
 }
 
 interface SSEClient {
@@ -33,18 +61,26 @@ function sendEvent(clientId: string, event: string, data: object) {
   }
 }
 
-async function handleGenerate(clientId: string, body: GenerateRequest) {
+async function handleGenerate(
+  clientId: string,
+  body: GenerateRequest,
+  fallback: Record<PipelineStage, FallbackPolicy>,
+  providers: StageProviders
+) {
   const charName = body.prompt.slice(0, 30).replace(/[^a-z0-9]/gi, '_').toLowerCase();
   const charDir = path.join(OUTPUT_DIR, charName);
   
   try {
     await fs.mkdir(charDir, { recursive: true });
+    const imageProviders = providers.image ?? [getStyle(body.style)?.provider ?? 'openai'];
+    const videoProviders = (providers.video ?? ['veo']) as VideoProvider[];
+    const riggingProviders = (providers.rigging ?? DEFAULT_RIGGING_PROVIDERS) as RiggingProvider[];
     
-    // Cost estimate
+    // Cost estimate, assuming the first provider of each chain serves the stage
     const costEstimate = estimatePipelineCost({
-      imageProvider: 'openai',
-      videoProvider: 'veo',
-      riggingProvider: 'tripo',
+      imageProvider: imageProviders[0],
+      videoProvider: videoProviders[0],
+      riggingProvider: riggingProviders[0],
       animationCount: body.animations.length,
       animationDuration: 4,
     });
@@ -56,8 +92,8 @@ async function handleGenerate(clientId: string, body: GenerateRequest) {
     
     // Stage 1: Image
     sendEvent(clientId, 'progress', { stage: 'image', progress: 10, message: 'Generating sprite...' });
-    const imageResult = await generateImage(body.prompt, body.style, charDir, { provider: 'openai' });
-    sendEvent(clientId, 'progress', { stage: 'image', progress: 25, message: 'Sprite generated' });
+    const imageResult = await generateImage(body.prompt, body.style, charDir, { provider: imageProviders, cache: true, fallback: fallback.image });
+    sendEvent(clientId, 'progress', { stage: 'image', progress: 25, message: imageResult.isPlaceholder ? 'Placeholder sprite saved' : 'Sprite generated' });
     
     // Stage 2: Animation
     sendEvent(clientId, 'progress', { stage: 'video', progress: 30, message: 'Creating animations...' });
@@ -65,18 +101,23 @@ async function handleGenerate(clientId: string, body: GenerateRequest) {
       imageResult.imagePath,
       body.animations,
       charDir,
-      { provider: 'veo' }
+      { provider: videoProviders, fallback: fallback.video }
     );
-    sendEvent(clientId, 'progress', { stage: 'video', progress: 55, message: `Created ${videoResults.length} animations` });
+    const placeholderClips = videoResults.filter(r => r.isPlaceholder).length;
+    sendEvent(clientId, 'progress', {
+      stage: 'video',
+      progress: 55,
+      message: `Created ${videoResults.length} animations${placeholderClips > 0 ? `, ${placeholderClips} of them placeholders` : ''}`,
+    });
     
     // Stage 3: 3D Rigging
     sendEvent(clientId, 'progress', { stage: 'rigging', progress: 60, message: 'Building 3D model...' });
     const riggingResult = await generateAndRig3DModel(
       imageResult.imagePath,
       charDir,
-      { skeletonType: body.skeleton, provider: 'tripo' }
+      { skeletonType: body.skeleton, provider: riggingProviders, fallback: fallback.rigging }
     );
-    sendEvent(clientId, 'progress', { stage: 'rigging', progress: 80, message: '3D model rigged' });
+    sendEvent(clientId, 'progress', { stage: 'rigging', progress: 80, message: riggingResult.isPlaceholder ? 'Placeholder 3D model saved' : '3D model rigged' });
     
     // Stage 4: Export
     sendEvent(clientId, 'progress', { stage: 'export', progress: 85, message: 'Exporting for Three.js...' });
@@ -86,12 +127,24 @@ async function handleGenerate(clientId: string, body: GenerateRequest) {
       { animations: body.animations }
     );
     
+    // Placeholders are reported, never passed off as generated assets
+    const degraded = findDegradedOutputs({ imageGen: imageResult, videoGen: videoResults, rigging: riggingResult });
+    for (const output of degraded) {
+      sendEvent(clientId, 'warning', { stage: output.stage, message: formatDegradedOutput(output), degraded: output });
+    }
+
     sendEvent(clientId, 'complete', {
       characterName: charName,
       imagePath: `/output/${charName}/${path.basename(imageResult.imagePath)}`,
       modelPath: `/output/${charName}/${path.basename(exportResult.glbPath)}`,
       previewPath: `/output/${charName}/${path.basename(exportResult.previewPath)}`,
       animations: body.animations,
+      providers: {
+        image: imageResult.provider,
+        video: Object.fromEntries(videoResults.map(clip => [clip.animationType, clip.provider])),
+        rigging: riggingResult.provider,
+      },
+      degraded,
     });
     
   } catch (error) {
@@ -148,18 +201,74 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
     
     let body = '';
     req.on('data', chunk => body += chunk);
-    req.on('end', () => {
+    req.on('end', async () => {
+      let data: GenerateRequest;
       try {
-        const data = JSON.parse(body) as GenerateRequest;
+        data = JSON.parse(body) as GenerateRequest;
+      } catch (_error) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        return;
+      }
+
+      try {
+        if (typeof data.prompt !== 'string' || !data.prompt.trim()) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Missing prompt' }));
+          return;
+        }
+
+        if (!getStyle(data.style)) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: `Unknown style: ${data.style}. Valid styles: ${getStyleNames().join(', ')}` }));
+          return;
+        }
+
+        if (!Array.isArray(data.animations) || data.animations.length === 0) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Missing animations' }));
+          return;
+        }
+
+        const unknownAnimations = findUnknownAnimations(data.animations);
+        if (unknownAnimations.length > 0) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: `Unknown animations: ${unknownAnimations.join(', ')}. Valid animations: ${getAnimationNames().join(', ')}` }));
+          return;
+        }
+
+        let fallback: Record<PipelineStage, FallbackPolicy>;
+        let providers: StageProviders;
+        try {
+          fallback = resolveFallbackPolicies(data.fallback);
+          providers = resolveRequestProviders(data.providers);
+        } catch (error) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid fallback or providers' }));
+          return;
+        }
+        
+        // Refuse flagged prompts before anything is spent
+        const moderation = await moderatePrompt(data.prompt, {
+          providerCheck: process.env.MODERATION_PROVIDER_CHECK === 'true',
+        });
+        if (!moderation.allowed && MODERATION_ACTION === 'refuse') {
+          res.writeHead(422, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Prompt rejected by moderation', violations: moderation.violations }));
+          return;
+        }
+        if (!moderation.allowed) {
+          sendEvent(clientId, 'warning', { message: 'Prompt moderation found issues', violations: moderation.violations });
+        }
         
         // Start generation in background
-        handleGenerate(clientId, data).catch(console.error);
+        handleGenerate(clientId, data, fallback, providers).catch(console.error);
         
         res.writeHead(202, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ status: 'started' }));
-      } catch (_error) {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        res.end(JSON.stringify({ status: 'started', violations: moderation.violations }));
+      } catch (error) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Moderation failed' }));
       }
     });
     
@@ -195,6 +304,36 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
     return;
   }
   
+  // Available art styles, including ones loaded from style packs
+  if (url.pathname === '/api/styles' && req.method === 'GET') {
+    const styles = Object.entries(getStylePrompts()).map(([name, style]) => ({
+      name,
+      description: style.description,
+      provider: style.provider,
+      resolution: style.resolution,
+      pixelize: style.pixelize,
+      palette: style.palette,
+    }));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ styles }));
+    return;
+  }
+  
+  // Available animation types, including ones loaded from animation packs
+  if (url.pathname === '/api/animations' && req.method === 'GET') {
+    const animations = Object.entries(getAnimations()).map(([name, animation]) => ({
+      name,
+      description: animation.description,
+      duration: animation.duration,
+      fps: animation.fps,
+      loop: animation.loop,
+      requiredBones: animation.requiredBones,
+    }));
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ animations }));
+    return;
+  }
+  
   // Health check
   if (url.pathname === '/api/health') {
     res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -220,5 +359,10 @@ export function startServer(port: number = 3001): http.Server {
 
 // Run directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  startServer();
+  Promise.all([loadStylePacksFromEnv(), loadAnimationPacksFromEnv()])
+    .then(() => startServer())
+    .catch(error => {
+      console.error(`[Server] Failed to load style or animation packs: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    });
 }
@@ -0,0 +1,531 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { loadPalette } from '../image-gen/palettes.js';
+import type { PaletteColor } from '../image-gen/palettes.js';
+
+export type AnimatedFormat = 'gif' | 'apng' | 'webp';
+
+export interface AnimatedImageOptions {
+  format?: AnimatedFormat;
+  // Milliseconds per frame, either one value for every frame or one per frame
+  delay?: number | number[];
+  // true loops forever, false plays once, a number is the total play count (0 = forever)
+  loop?: boolean | number;
+  // Output size, defaults to the first frame; every frame is fitted inside it
+  width?: number;
+  height?: number;
+  // GIF only: palette size, Floyd-Steinberg strength (0-1) and a fixed palette name or .hex/.gpl file
+  colors?: number;
+  dither?: number;
+  palette?: string;
+  // WebP only: lossy quality 1-100, lossless when omitted
+  quality?: number;
+}
+
+interface RawFrames {
+  width: number;
+  height: number;
+  frames: Buffer[];
+}
+
+const DEFAULT_DELAY = 100;
+
+// GIF transparency is on/off, so softer edges are cut at half opacity
+const GIF_ALPHA_THRESHOLD = 128;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export function getAnimatedFormats(): AnimatedFormat[] {
+  return ['gif', 'apng', 'webp'];
+}
+
+export async function encodeAnimation(framePaths: string[], options: AnimatedImageOptions = {}): Promise<Buffer> {
+  const { format = 'gif' } = options;
+
+  if (framePaths.length === 0) {
+    throw new Error('No frames provided for animation');
+  }
+  if (!getAnimatedFormats().includes(format)) {
+    throw new Error(`Unsupported animation format: ${format}. Use ${getAnimatedFormats().join(', ')}`);
+  }
+
+  const delays = resolveDelays(options.delay, framePaths.length);
+  const plays = resolvePlays(options.loop);
+  const frames = await loadFrames(framePaths, options.width, options.height);
+
+  switch (format) {
+    case 'apng':
+      return encodeApng(frames, delays, plays);
+    case 'webp':
+      return encodeWebp(frames, delays, plays, options.quality);
+    default:
+      return encodeGif(frames, delays, plays, options);
+  }
+}
+
+export async function createAnimatedImage(
+  framePaths: string[],
+  outputPath: string,
+  options: AnimatedImageOptions = {}
+): Promise<string> {
+  const data = await encodeAnimation(framePaths, options);
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, data);
+  return outputPath;
+}
+
+function resolveDelays(delay: number | number[] = DEFAULT_DELAY, frameCount: number): number[] {
+  const delays = Array.isArray(delay) ? delay : new Array<number>(frameCount).fill(delay);
+  if (delays.length !== frameCount) {
+    throw new Error(`Got ${delays.length} frame delays for ${frameCount} frames`);
+  }
+  const invalid = delays.find(value => !Number.isFinite(value) || value <= 0);
+  if (invalid !== undefined) {
+    throw new Error(`Frame delays must be positive milliseconds, got ${invalid}`);
+  }
+  return delays;
+}
+
+function resolvePlays(loop: boolean | number = true): number {
+  if (typeof loop === 'boolean') {
+    return loop ? 0 : 1;
+  }
+  if (!Number.isInteger(loop) || loop < 0 || loop > 65535) {
+    throw new Error(`Loop count must be an integer between 0 (forever) and 65535, got ${loop}`);
+  }
+  return loop;
+}
+
+async function loadFrames(framePaths: string[], width?: number, height?: number): Promise<RawFrames> {
+  const first = await sharp(framePaths[0]).metadata();
+  const frameWidth = width || first.width || 64;
+  const frameHeight = height || first.height || 64;
+
+  const frames = await Promise.all(
+    framePaths.map(framePath =>
+      sharp(framePath)
+        .resize(frameWidth, frameHeight, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+        .ensureAlpha()
+        .raw()
+        .toBuffer()
+    )
+  );
+  return { width: frameWidth, height: frameHeight, frames };
+}
+
+// APNG: the first frame is a normal IDAT image, later frames go into fdAT chunks
+async function encodeApng(frames: RawFrames, delays: number[], plays: number): Promise<Buffer> {
+  const { width, height } = frames;
+  const chunks: Buffer[] = [PNG_SIGNATURE];
+  let header: Buffer | undefined;
+  let sequence = 0;
+
+  for (let i = 0; i < frames.frames.length; i++) {
+    const png = await sharp(frames.frames[i], { raw: { width, height, channels: 4 } })
+      .png({ compressionLevel: 9, palette: false })
+      .toBuffer();
+    const pngChunks = readPngChunks(png);
+    const ihdr = pngChunks.find(chunk => chunk.type === 'IHDR')!.data;
+
+    if (!header) {
+      header = ihdr;
+      chunks.push(pngChunk('IHDR', ihdr));
+      chunks.push(pngChunk('acTL', concat(uint32BE(frames.frames.length), uint32BE(plays))));
+    } else if (!ihdr.equals(header)) {
+      throw new Error(`Frame ${i} was encoded with a different PNG header than frame 0`);
+    }
+
+    // Millisecond precision, falling back to centiseconds for delays over 65.5 seconds
+    const [delayNum, delayDen] = delays[i] <= 65535
+      ? [Math.round(delays[i]), 1000]
+      : [Math.min(Math.round(delays[i] / 10), 65535), 100];
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(width, 4);
+    fctl.writeUInt32BE(height, 8);
+    fctl.writeUInt16BE(delayNum, 20);
+    fctl.writeUInt16BE(delayDen, 22);
+    // Offsets, dispose op (none) and blend op (source) stay zero: every frame replaces the whole canvas
+    chunks.push(pngChunk('fcTL', fctl));
+
+    for (const chunk of pngChunks.filter(c => c.type === 'IDAT')) {
+      chunks.push(i === 0 ? pngChunk('IDAT', chunk.data) : pngChunk('fdAT', concat(uint32BE(sequence++), chunk.data)));
+    }
+  }
+
+  chunks.push(pngChunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat(chunks);
+}
+
+// Animated WebP: each frame is encoded by sharp, then its bitstream is wrapped in an ANMF chunk
+async function encodeWebp(frames: RawFrames, delays: number[], plays: number, quality?: number): Promise<Buffer> {
+  const { width, height } = frames;
+  if (quality !== undefined && (!Number.isInteger(quality) || quality < 1 || quality > 100)) {
+    throw new Error(`WebP quality must be an integer between 1 and 100, got ${quality}`);
+  }
+
+  const anmf: Buffer[] = [];
+  let hasAlpha = false;
+
+  for (let i = 0; i < frames.frames.length; i++) {
+    const frame = frames.frames[i];
+    hasAlpha ||= hasTransparency(frame, 255);
+
+    const webp = await sharp(frame, { raw: { width, height, channels: 4 } })
+      .webp(quality === undefined ? { lossless: true } : { quality, alphaQuality: 100 })
+      .toBuffer();
+    const bitstream = readRiffChunks(webp).filter(chunk => ['ALPH', 'VP8 ', 'VP8L'].includes(chunk.type));
+
+    const header = Buffer.alloc(16);
+    writeUInt24LE(header, width - 1, 6);
+    writeUInt24LE(header, height - 1, 9);
+    writeUInt24LE(header, Math.min(Math.round(delays[i]), 0xffffff), 12);
+    // Do not blend with the previous frame, so transparent areas stay transparent
+    header[15] = 0x02;
+    anmf.push(riffChunk('ANMF', concat(header, ...bitstream.map(chunk => riffChunk(chunk.type, chunk.data)))));
+  }
+
+  const vp8x = Buffer.alloc(10);
+  vp8x[0] = 0x02 | (hasAlpha ? 0x10 : 0);
+  writeUInt24LE(vp8x, width - 1, 4);
+  writeUInt24LE(vp8x, height - 1, 7);
+
+  // Transparent background colour, then the loop count
+  const anim = Buffer.alloc(6);
+  anim.writeUInt16LE(plays, 4);
+
+  const body = concat(Buffer.from('WEBP'), riffChunk('VP8X', vp8x), riffChunk('ANIM', anim), ...anmf);
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(body.length, 0);
+  return concat(Buffer.from('RIFF'), size, body);
+}
+
+// GIF: one palette shared by all frames so colours do not flicker between them
+async function encodeGif(
+  frames: RawFrames,
+  delays: number[],
+  plays: number,
+  options: AnimatedImageOptions
+): Promise<Buffer> {
+  const { width, height } = frames;
+  const { colors = 256, dither = 1 } = options;
+  if (!Number.isInteger(colors) || colors < 2 || colors > 256) {
+    throw new Error(`GIF colours must be an integer between 2 and 256, got ${colors}`);
+  }
+  if (!(dither >= 0 && dither <= 1)) {
+    throw new Error(`Dither must be between 0 and 1, got ${dither}`);
+  }
+
+  const transparent = frames.frames.some(frame => hasTransparency(frame, GIF_ALPHA_THRESHOLD));
+  // The transparent pixel takes one palette slot
+  const maxColors = transparent ? colors - 1 : colors;
+
+  const { palette, indexed } = options.palette
+    ? indexWithPalette(frames, (await loadPalette(options.palette)).colors.slice(0, maxColors), dither)
+    : await indexAdaptive(frames, maxColors, dither);
+
+  const transparentIndex = palette.length;
+  if (transparent) {
+    palette.push([0, 0, 0]);
+    for (let f = 0; f < frames.frames.length; f++) {
+      const frame = frames.frames[f];
+      for (let p = 0; p < width * height; p++) {
+        if (frame[p * 4 + 3] < GIF_ALPHA_THRESHOLD) indexed[f][p] = transparentIndex;
+      }
+    }
+  }
+
+  const bits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+  const table = Buffer.alloc((1 << bits) * 3);
+  palette.forEach(([r, g, b], i) => table.set([r, g, b], i * 3));
+
+  const screen = Buffer.alloc(7);
+  screen.writeUInt16LE(width, 0);
+  screen.writeUInt16LE(height, 2);
+  screen[4] = 0x80 | ((bits - 1) << 4) | (bits - 1);
+  screen[5] = transparent ? transparentIndex : 0;
+
+  const parts: Buffer[] = [Buffer.from('GIF89a'), screen, table];
+  if (plays !== 1) {
+    // NETSCAPE2.0 counts repeats after the first play, 0 repeats forever
+    const loop = Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0'), 0x03, 0x01, 0, 0, 0x00]);
+    loop.writeUInt16LE(plays === 0 ? 0 : plays - 1, 16);
+    parts.push(loop);
+  }
+
+  for (let f = 0; f < indexed.length; f++) {
+    const control = Buffer.from([0x21, 0xf9, 0x04, 0, 0, 0, 0, 0x00]);
+    // Restore to background between transparent frames, otherwise leave the frame in place
+    control[3] = transparent ? (2 << 2) | 1 : 1 << 2;
+    // GIF delays are centiseconds; most viewers treat anything under 2 as 10
+    control.writeUInt16LE(Math.min(Math.max(Math.round(delays[f] / 10), 2), 65535), 4);
+    control[6] = transparent ? transparentIndex : 0;
+
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2c;
+    descriptor.writeUInt16LE(width, 5);
+    descriptor.writeUInt16LE(height, 7);
+
+    const minCodeSize = Math.max(2, bits);
+    parts.push(control, descriptor, Buffer.from([minCodeSize]), toSubBlocks(lzwEncode(indexed[f], minCodeSize)));
+  }
+
+  parts.push(Buffer.from([0x3b]));
+  return Buffer.concat(parts);
+}
+
+// libimagequant (via sharp) picks and dithers the palette over all frames stacked into one image
+async function indexAdaptive(
+  frames: RawFrames,
+  maxColors: number,
+  dither: number
+): Promise<{ palette: PaletteColor[]; indexed: Uint8Array[] }> {
+  const { width, height } = frames;
+  const stacked = Buffer.concat(frames.frames);
+  const png = await sharp(stacked, { raw: { width, height: height * frames.frames.length, channels: 4 } })
+    .png({ palette: true, colours: Math.max(maxColors, 2), dither })
+    .toBuffer();
+  const quantized = await sharp(png).ensureAlpha().raw().toBuffer();
+
+  const palette: PaletteColor[] = [];
+  const lookup = new Map<number, number>();
+  const pixels = width * height;
+  const indexed = frames.frames.map((frame, f) => {
+    const indices = new Uint8Array(pixels);
+    for (let p = 0; p < pixels; p++) {
+      // Transparent pixels get the transparent index later and must not take a palette slot
+      if (frame[p * 4 + 3] < GIF_ALPHA_THRESHOLD) continue;
+
+      const offset = (f * pixels + p) * 4;
+      const color: PaletteColor = [quantized[offset], quantized[offset + 1], quantized[offset + 2]];
+      const key = (color[0] << 16) | (color[1] << 8) | color[2];
+      let index = lookup.get(key);
+      if (index === undefined) {
+        if (palette.length < maxColors) {
+          index = palette.push(color) - 1;
+        } else {
+          index = nearestColorIndex(color, palette);
+        }
+        lookup.set(key, index);
+      }
+      indices[p] = index;
+    }
+    return indices;
+  });
+
+  return { palette, indexed };
+}
+
+// Fixed palettes are mapped per frame with Floyd-Steinberg error diffusion scaled by dither
+function indexWithPalette(
+  frames: RawFrames,
+  colors: PaletteColor[],
+  dither: number
+): { palette: PaletteColor[]; indexed: Uint8Array[] } {
+  const { width, height } = frames;
+  const cache = new Map<number, number>();
+  const nearest = (r: number, g: number, b: number): number => {
+    const key = (r << 16) | (g << 8) | b;
+    let index = cache.get(key);
+    if (index === undefined) {
+      index = nearestColorIndex([r, g, b], colors);
+      cache.set(key, index);
+    }
+    return index;
+  };
+
+  const indexed = frames.frames.map(frame => {
+    const indices = new Uint8Array(width * height);
+    const error = new Float32Array(width * height * 3);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        if (frame[p * 4 + 3] < GIF_ALPHA_THRESHOLD) continue;
+
+        const wanted = [0, 1, 2].map(c => clampByte(frame[p * 4 + c] + error[p * 3 + c]));
+        const index = nearest(wanted[0], wanted[1], wanted[2]);
+        indices[p] = index;
+        if (dither === 0) continue;
+
+        for (let c = 0; c < 3; c++) {
+          const diff = (wanted[c] - colors[index][c]) * dither;
+          if (x + 1 < width) error[(p + 1) * 3 + c] += (diff * 7) / 16;
+          if (y + 1 < height) {
+            if (x > 0) error[(p + width - 1) * 3 + c] += (diff * 3) / 16;
+            error[(p + width) * 3 + c] += (diff * 5) / 16;
+            if (x + 1 < width) error[(p + width + 1) * 3 + c] += diff / 16;
+          }
+        }
+      }
+    }
+    return indices;
+  });
+
+  return { palette: colors.map(color => [...color] as PaletteColor), indexed };
+}
+
+function nearestColorIndex(color: PaletteColor, colors: PaletteColor[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+
+  colors.forEach((candidate, index) => {
+    // Same "redmean" weighting as pixel-art palette mapping
+    const meanRed = (color[0] + candidate[0]) / 2;
+    const dr = color[0] - candidate[0];
+    const dg = color[1] - candidate[1];
+    const db = color[2] - candidate[2];
+    const distance =
+      (2 + meanRed / 256) * dr * dr + 4 * dg * dg + (2 + (255 - meanRed) / 256) * db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  });
+  return best;
+}
+
+// Variable-width LZW as used by GIF, resetting the table when it reaches 4096 codes
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Buffer {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  const table = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const write = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    write(prefix);
+    if (nextCode === 4096) {
+      write(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode === 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+
+  write(prefix);
+  write(endCode);
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xff);
+  }
+  return Buffer.from(output);
+}
+
+function toSubBlocks(data: Buffer): Buffer {
+  const blocks: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    blocks.push(Buffer.from([block.length]), block);
+  }
+  blocks.push(Buffer.from([0]));
+  return Buffer.concat(blocks);
+}
+
+function hasTransparency(frame: Buffer, threshold: number): boolean {
+  for (let i = 3; i < frame.length; i += 4) {
+    if (frame[i] < threshold) return true;
+  }
+  return false;
+}
+
+function readPngChunks(png: Buffer): Array<{ type: string; data: Buffer }> {
+  const chunks: Array<{ type: string; data: Buffer }> = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('latin1', offset + 4, offset + 8);
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typeAndData = concat(Buffer.from(type, 'latin1'), data);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+  return concat(uint32BE(data.length), typeAndData, crc);
+}
+
+function readRiffChunks(riff: Buffer): Array<{ type: string; data: Buffer }> {
+  const chunks: Array<{ type: string; data: Buffer }> = [];
+  // Skip "RIFF", the file size and "WEBP"
+  let offset = 12;
+  while (offset + 8 <= riff.length) {
+    const type = riff.toString('latin1', offset, offset + 4);
+    const length = riff.readUInt32LE(offset + 4);
+    chunks.push({ type, data: riff.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+}
+
+function riffChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 0, 'latin1');
+  header.writeUInt32LE(data.length, 4);
+  return concat(header, data, Buffer.alloc(data.length % 2));
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function uint32BE(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value, 0);
+  return buffer;
+}
+
+function writeUInt24LE(buffer: Buffer, value: number, offset: number): void {
+  buffer[offset] = value & 0xff;
+  buffer[offset + 1] = (value >> 8) & 0xff;
+  buffer[offset + 2] = (value >> 16) & 0xff;
+}
+
+function clampByte(value: number): number {
+  return Math.min(255, Math.max(0, Math.round(value)));
+}
+
+function concat(...buffers: Buffer[]): Buffer {
+  return Buffer.concat(buffers);
+}
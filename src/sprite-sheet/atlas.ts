@@ -0,0 +1,411 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { exportSpriteSheetMetadata, getMetadataFileName, getMetadataFormats } from './exporters.js';
+import type { MetadataExportOptions, Rect, SheetFrame, SheetLayout, SpriteSheetMetadataFormat } from './exporters.js';
+import type { Direction } from '../types.js';
+
+export interface AtlasAnimation {
+  name: string;
+  framePaths: string[];
+  // Milliseconds per frame, one value or one per frame (default 100)
+  frameDuration?: number | number[];
+  loop?: boolean;
+  // Facing of a directional clip, tagged in the metadata
+  direction?: Direction;
+}
+
+export interface AtlasOptions extends MetadataExportOptions {
+  // Largest page size; frames that do not fit go onto further pages
+  maxWidth?: number;
+  maxHeight?: number;
+  // Transparent pixels between packed frames
+  padding?: number;
+  // Edge pixels repeated around each frame to stop texture bleeding when filtering
+  extrude?: number;
+  powerOfTwo?: boolean;
+  // Cut fully transparent borders from each frame (default true)
+  trim?: boolean;
+  // Store identical frames once (default true)
+  dedupe?: boolean;
+  format?: 'png' | 'webp';
+  metadataFormats?: SpriteSheetMetadataFormat[];
+}
+
+export interface AtlasPage {
+  imagePath: string;
+  width: number;
+  height: number;
+  // Frame names on this page, including duplicates that share pixels
+  frames: string[];
+  metadataPaths: Partial<Record<SpriteSheetMetadataFormat, string>>;
+}
+
+export interface AtlasResult {
+  pages: AtlasPage[];
+  // The first page's first metadata file, json-hash by default
+  metadataPath?: string;
+  animations: string[];
+  frameCount: number;
+  uniqueFrameCount: number;
+}
+
+interface PreparedFrame {
+  name: string;
+  animation: string;
+  duration: number;
+  sourceSize: { w: number; h: number };
+  spriteSourceSize: Rect;
+  // Trimmed pixels, shared by duplicates
+  image: FrameImage;
+}
+
+interface FrameImage {
+  key: string;
+  width: number;
+  height: number;
+  data: Buffer;
+  // Set once packed
+  page?: number;
+  rect?: Rect;
+}
+
+const DEFAULT_MAX_SIZE = 2048;
+
+export async function packAtlas(
+  animations: AtlasAnimation[],
+  outputDir: string,
+  atlasName: string,
+  options: AtlasOptions = {}
+): Promise<AtlasResult> {
+  const {
+    padding = 2,
+    extrude = 0,
+    powerOfTwo = false,
+    trim = true,
+    dedupe = true,
+    format = 'png',
+    metadataFormats = ['json-hash'],
+  } = options;
+  let maxWidth = options.maxWidth ?? DEFAULT_MAX_SIZE;
+  let maxHeight = options.maxHeight ?? DEFAULT_MAX_SIZE;
+
+  if (animations.length === 0 || animations.every(animation => animation.framePaths.length === 0)) {
+    throw new Error('No frames provided for atlas');
+  }
+  const names = animations.map(animation => animation.name);
+  const duplicates = names.filter((name, i) => names.indexOf(name) !== i);
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate animation names: ${[...new Set(duplicates)].join(', ')}`);
+  }
+  const unknownFormats = metadataFormats.filter(f => !getMetadataFormats().includes(f));
+  if (unknownFormats.length > 0) {
+    throw new Error(`Unknown metadata formats: ${unknownFormats.join(', ')}. Use ${getMetadataFormats().join(', ')}`);
+  }
+  if (!Number.isInteger(padding) || padding < 0 || !Number.isInteger(extrude) || extrude < 0) {
+    throw new Error(`Padding and extrude must be non-negative integers, got ${padding} and ${extrude}`);
+  }
+  if (powerOfTwo) {
+    maxWidth = floorPowerOfTwo(maxWidth);
+    maxHeight = floorPowerOfTwo(maxHeight);
+  }
+
+  console.log(`[SpriteSheet] Packing ${animations.length} animation(s) into atlas ${atlasName}`);
+
+  const frames = await prepareFrames(animations, trim, dedupe);
+  const images = [...new Set(frames.map(frame => frame.image))];
+  const pageCount = packImages(frames, maxWidth, maxHeight, padding, extrude);
+
+  await fs.mkdir(outputDir, { recursive: true });
+  const pages: AtlasPage[] = [];
+
+  for (let page = 0; page < pageCount; page++) {
+    const pageImages = images.filter(image => image.page === page);
+    const pageFrames = frames.filter(frame => frame.image.page === page);
+
+    let width = Math.max(...pageImages.map(image => image.rect!.x + image.rect!.w + extrude));
+    let height = Math.max(...pageImages.map(image => image.rect!.y + image.rect!.h + extrude));
+    if (powerOfTwo) {
+      width = ceilPowerOfTwo(width);
+      height = ceilPowerOfTwo(height);
+    }
+
+    const baseName = pageCount === 1 ? atlasName : `${atlasName}_${page}`;
+    const imagePath = path.join(outputDir, `${baseName}.${format}`);
+    const composites = pageImages.map(image => ({
+      input: extrudeImage(image, extrude),
+      raw: { width: image.width + extrude * 2, height: image.height + extrude * 2, channels: 4 as const },
+      left: image.rect!.x - extrude,
+      top: image.rect!.y - extrude,
+    }));
+    const pageImage = sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+      .composite(composites);
+    await (format === 'webp' ? pageImage.webp({ lossless: true }) : pageImage.png()).toFile(imagePath);
+
+    const layout: SheetLayout = {
+      image: path.basename(imagePath),
+      size: { w: width, h: height },
+      frames: pageFrames.map(toSheetFrame),
+      // Animations that spill over pages are listed on each page with the frames it holds
+      animations: animations
+        .map(animation => ({
+          name: animation.name,
+          frames: pageFrames.filter(frame => frame.animation === animation.name).map(frame => frame.name),
+          loop: animation.loop ?? true,
+          ...(animation.direction && { direction: animation.direction }),
+        }))
+        .filter(animation => animation.frames.length > 0),
+    };
+
+    const metadataPaths: Partial<Record<SpriteSheetMetadataFormat, string>> = {};
+    for (const metadataFormat of metadataFormats) {
+      const filePath = path.join(outputDir, getMetadataFileName(baseName, layout.image, metadataFormat));
+      await fs.writeFile(filePath, exportSpriteSheetMetadata(layout, metadataFormat, options));
+      metadataPaths[metadataFormat] = filePath;
+    }
+
+    pages.push({ imagePath, width, height, frames: layout.frames.map(frame => frame.name), metadataPaths });
+    console.log(`[SpriteSheet] Atlas page ${imagePath}: ${width}x${height}, ${pageImages.length} unique of ${pageFrames.length} frames`);
+  }
+
+  return {
+    pages,
+    metadataPath: Object.values(pages[0].metadataPaths)[0],
+    animations: names,
+    frameCount: frames.length,
+    uniqueFrameCount: images.length,
+  };
+}
+
+async function prepareFrames(animations: AtlasAnimation[], trim: boolean, dedupe: boolean): Promise<PreparedFrame[]> {
+  const images = new Map<string, FrameImage>();
+  const frames: PreparedFrame[] = [];
+
+  for (const animation of animations) {
+    const { framePaths, frameDuration = 100 } = animation;
+    const durations = Array.isArray(frameDuration) ? frameDuration : framePaths.map(() => frameDuration);
+    if (durations.length !== framePaths.length || durations.some(d => !(d > 0))) {
+      throw new Error(`frameDuration for ${animation.name} needs one positive value or ${framePaths.length} of them`);
+    }
+
+    for (let i = 0; i < framePaths.length; i++) {
+      const { data, info } = await sharp(framePaths[i]).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+      const bounds = trim ? opaqueBounds(data, info.width, info.height) : { x: 0, y: 0, w: info.width, h: info.height };
+      const pixels = cropRaw(data, info.width, bounds);
+
+      const key = crypto.createHash('sha1').update(`${bounds.w}x${bounds.h}`).update(pixels).digest('hex');
+      let image = dedupe ? images.get(key) : undefined;
+      if (!image) {
+        image = { key, width: bounds.w, height: bounds.h, data: pixels };
+        images.set(dedupe ? key : `${key}:${frames.length}`, image);
+      }
+
+      frames.push({
+        name: `${animation.name}_${i}`,
+        animation: animation.name,
+        duration: Math.round(durations[i]),
+        sourceSize: { w: info.width, h: info.height },
+        spriteSourceSize: bounds,
+        image,
+      });
+    }
+  }
+
+  return frames;
+}
+
+// Packs whole animations onto one page where possible and returns the number of pages
+function packImages(frames: PreparedFrame[], maxWidth: number, maxHeight: number, padding: number, extrude: number): number {
+  const cell = (image: FrameImage) => ({ w: image.width + extrude * 2 + padding, h: image.height + extrude * 2 + padding });
+  // The trailing padding of the last row or column may hang over the page edge
+  const newBin = () => new MaxRectsBin(maxWidth + padding, maxHeight + padding);
+  const place = (bin: MaxRectsBin, image: FrameImage, page: number): boolean => {
+    const { w, h } = cell(image);
+    const rect = bin.insert(w, h);
+    if (!rect) return false;
+    image.page = page;
+    image.rect = { x: rect.x + extrude, y: rect.y + extrude, w: image.width, h: image.height };
+    return true;
+  };
+
+  for (const frame of frames) {
+    const { w, h } = cell(frame.image);
+    if (w > maxWidth + padding || h > maxHeight + padding) {
+      throw new Error(`Frame ${frame.name} (${frame.image.width}x${frame.image.height}) does not fit in a ${maxWidth}x${maxHeight} page`);
+    }
+  }
+
+  const bins = [newBin()];
+  const animationNames = [...new Set(frames.map(frame => frame.animation))];
+
+  for (const name of animationNames) {
+    // Largest first packs tighter; frames already placed by another animation are skipped
+    const pending = [...new Set(frames.filter(f => f.animation === name).map(f => f.image))]
+      .filter(image => image.page === undefined)
+      .sort((a, b) => Math.max(b.width, b.height) - Math.max(a.width, a.height) || b.width * b.height - a.width * a.height);
+    if (pending.length === 0) continue;
+
+    const current = bins.length - 1;
+    if (!bins[current].isEmpty()) {
+      const snapshot = bins[current].snapshot();
+      if (pending.every(image => place(bins[current], image, current))) continue;
+
+      // Roll back and retry the whole animation on a fresh page
+      bins[current].restore(snapshot);
+      pending.forEach(image => { image.page = undefined; image.rect = undefined; });
+      bins.push(newBin());
+    }
+
+    // An animation bigger than a page spills frame by frame onto further pages
+    for (const image of pending) {
+      if (!place(bins[bins.length - 1], image, bins.length - 1)) {
+        bins.push(newBin());
+        place(bins[bins.length - 1], image, bins.length - 1);
+      }
+    }
+  }
+
+  return bins.length;
+}
+
+// MaxRects bin packing (Jylänki) with the best-short-side-fit heuristic
+class MaxRectsBin {
+  private free: Rect[];
+  private used: Rect[] = [];
+
+  constructor(width: number, height: number) {
+    this.free = [{ x: 0, y: 0, w: width, h: height }];
+  }
+
+  isEmpty(): boolean {
+    return this.used.length === 0;
+  }
+
+  snapshot(): { free: Rect[]; used: Rect[] } {
+    return { free: [...this.free], used: [...this.used] };
+  }
+
+  restore(state: { free: Rect[]; used: Rect[] }): void {
+    this.free = [...state.free];
+    this.used = [...state.used];
+  }
+
+  insert(w: number, h: number): Rect | null {
+    let best: Rect | null = null;
+    let bestShort = Infinity;
+    let bestLong = Infinity;
+
+    for (const free of this.free) {
+      if (free.w < w || free.h < h) continue;
+      const short = Math.min(free.w - w, free.h - h);
+      const long = Math.max(free.w - w, free.h - h);
+      if (short < bestShort || (short === bestShort && long < bestLong)) {
+        best = { x: free.x, y: free.y, w, h };
+        bestShort = short;
+        bestLong = long;
+      }
+    }
+    if (!best) return null;
+
+    const placed = best;
+    this.free = this.free.flatMap(free => (intersects(free, placed) ? splitFree(free, placed) : [free]));
+    this.free = this.free.filter((rect, i) =>
+      !this.free.some((other, j) => i !== j && contains(other, rect) && (!contains(rect, other) || j < i))
+    );
+    this.used.push(placed);
+    return placed;
+  }
+}
+
+function splitFree(free: Rect, used: Rect): Rect[] {
+  const parts: Rect[] = [];
+  if (used.x > free.x) parts.push({ x: free.x, y: free.y, w: used.x - free.x, h: free.h });
+  if (used.x + used.w < free.x + free.w) {
+    parts.push({ x: used.x + used.w, y: free.y, w: free.x + free.w - used.x - used.w, h: free.h });
+  }
+  if (used.y > free.y) parts.push({ x: free.x, y: free.y, w: free.w, h: used.y - free.y });
+  if (used.y + used.h < free.y + free.h) {
+    parts.push({ x: free.x, y: used.y + used.h, w: free.w, h: free.y + free.h - used.y - used.h });
+  }
+  return parts;
+}
+
+function intersects(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.w <= outer.x + outer.w && inner.y + inner.h <= outer.y + outer.h;
+}
+
+function toSheetFrame(frame: PreparedFrame): SheetFrame {
+  const { sourceSize, spriteSourceSize } = frame;
+  return {
+    name: frame.name,
+    frame: frame.image.rect!,
+    spriteSourceSize,
+    sourceSize,
+    trimmed: spriteSourceSize.w !== sourceSize.w || spriteSourceSize.h !== sourceSize.h,
+    duration: frame.duration,
+  };
+}
+
+// Bounding box of pixels with any opacity; an empty frame keeps a single transparent pixel
+function opaqueBounds(data: Buffer, width: number, height: number): Rect {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+
+  if (right < 0) {
+    return { x: 0, y: 0, w: 1, h: 1 };
+  }
+  return { x: left, y: top, w: right - left + 1, h: bottom - top + 1 };
+}
+
+function cropRaw(data: Buffer, width: number, bounds: Rect): Buffer {
+  const cropped = Buffer.alloc(bounds.w * bounds.h * 4);
+  for (let y = 0; y < bounds.h; y++) {
+    const start = ((bounds.y + y) * width + bounds.x) * 4;
+    data.copy(cropped, y * bounds.w * 4, start, start + bounds.w * 4);
+  }
+  return cropped;
+}
+
+// Repeats the outermost pixels outward by amount on every side
+function extrudeImage(image: FrameImage, amount: number): Buffer {
+  if (amount === 0) {
+    return image.data;
+  }
+  const width = image.width + amount * 2;
+  const height = image.height + amount * 2;
+  const out = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(Math.max(y - amount, 0), image.height - 1);
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(Math.max(x - amount, 0), image.width - 1);
+      image.data.copy(out, (y * width + x) * 4, (sourceY * image.width + sourceX) * 4, (sourceY * image.width + sourceX) * 4 + 4);
+    }
+  }
+  return out;
+}
+
+function ceilPowerOfTwo(value: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(value, 1)));
+}
+
+function floorPowerOfTwo(value: number): number {
+  return 2 ** Math.floor(Math.log2(Math.max(value, 1)));
+}
@@ -0,0 +1,289 @@
+import crypto from 'crypto';
+import type { Direction } from '../types.js';
+
+export type SpriteSheetMetadataFormat = 'json-hash' | 'json-array' | 'godot' | 'unity' | 'aseprite';
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface SheetFrame {
+  name: string;
+  // Position of the frame in the sheet image
+  frame: Rect;
+  // Where the stored pixels sit inside the original, untrimmed frame
+  spriteSourceSize: Rect;
+  sourceSize: { w: number; h: number };
+  trimmed: boolean;
+  // Milliseconds
+  duration: number;
+}
+
+export interface SheetAnimation {
+  name: string;
+  // Frame names in playback order
+  frames: string[];
+  loop: boolean;
+  // Facing of a directional clip such as walk_NE
+  direction?: Direction;
+}
+
+export interface SheetLayout {
+  image: string;
+  size: { w: number; h: number };
+  frames: SheetFrame[];
+  animations: SheetAnimation[];
+}
+
+export interface MetadataExportOptions {
+  // Texture path written into Godot .tres files (default res://<image>)
+  godotTexturePath?: string;
+  // Unity pixels-per-unit for the sliced sprites (default 100)
+  pixelsPerUnit?: number;
+}
+
+const METADATA_FORMATS: SpriteSheetMetadataFormat[] = ['json-hash', 'json-array', 'godot', 'unity', 'aseprite'];
+
+const APP = 'ai-game-character-generator';
+
+export function getMetadataFormats(): SpriteSheetMetadataFormat[] {
+  return [...METADATA_FORMATS];
+}
+
+// File name for a format, next to the sheet; Unity needs "<image>.meta" exactly
+export function getMetadataFileName(baseName: string, image: string, format: SpriteSheetMetadataFormat): string {
+  switch (format) {
+    case 'json-array':
+      return `${baseName}.array.json`;
+    case 'godot':
+      return `${baseName}.tres`;
+    case 'unity':
+      return `${image}.meta`;
+    case 'aseprite':
+      return `${baseName}.aseprite.json`;
+    default:
+      return `${baseName}.json`;
+  }
+}
+
+export function exportSpriteSheetMetadata(
+  layout: SheetLayout,
+  format: SpriteSheetMetadataFormat,
+  options: MetadataExportOptions = {}
+): string {
+  switch (format) {
+    case 'json-hash':
+      return JSON.stringify(toJsonHash(layout), null, 2);
+    case 'json-array':
+      return JSON.stringify(toJsonArray(layout), null, 2);
+    case 'godot':
+      return toGodotSpriteFrames(layout, options.godotTexturePath ?? `res://${layout.image}`);
+    case 'unity':
+      return toUnityMeta(layout, options.pixelsPerUnit ?? 100);
+    case 'aseprite':
+      return JSON.stringify(toAseprite(layout), null, 2);
+    default:
+      throw new Error(`Unknown sprite sheet metadata format: ${format}. Use ${METADATA_FORMATS.join(', ')}`);
+  }
+}
+
+function frameEntry(frame: SheetFrame) {
+  return {
+    frame: frame.frame,
+    rotated: false,
+    trimmed: frame.trimmed,
+    spriteSourceSize: frame.spriteSourceSize,
+    sourceSize: frame.sourceSize,
+    duration: frame.duration,
+  };
+}
+
+function jsonMeta(layout: SheetLayout) {
+  const directions = layout.animations.filter(animation => animation.direction);
+  return {
+    app: APP,
+    image: layout.image,
+    size: layout.size,
+    frameCount: layout.frames.length,
+    scale: 1,
+    format: 'RGBA8888',
+    // The animation lists hold frame names only, so facings are tagged here
+    ...(directions.length > 0 && {
+      directions: Object.fromEntries(directions.map(animation => [animation.name, animation.direction])),
+    }),
+  };
+}
+
+// TexturePacker "JSON (Hash)", read by Phaser and PixiJS; Pixi plays the "animations" lists directly
+function toJsonHash(layout: SheetLayout) {
+  return {
+    frames: Object.fromEntries(layout.frames.map(frame => [frame.name, frameEntry(frame)])),
+    animations: Object.fromEntries(layout.animations.map(animation => [animation.name, animation.frames])),
+    meta: jsonMeta(layout),
+  };
+}
+
+// TexturePacker "JSON (Array)", Phaser's default atlas loader format
+function toJsonArray(layout: SheetLayout) {
+  return {
+    frames: layout.frames.map(frame => ({ filename: frame.name, ...frameEntry(frame) })),
+    animations: Object.fromEntries(layout.animations.map(animation => [animation.name, animation.frames])),
+    meta: jsonMeta(layout),
+  };
+}
+
+// Aseprite "--format json-hash" with one frame tag per animation
+function toAseprite(layout: SheetLayout) {
+  const index = new Map(layout.frames.map((frame, i) => [frame.name, i]));
+  return {
+    frames: Object.fromEntries(layout.frames.map(frame => [frame.name, frameEntry(frame)])),
+    meta: {
+      app: 'https://www.aseprite.org/',
+      version: '1.3',
+      image: layout.image,
+      format: 'RGBA8888',
+      size: layout.size,
+      scale: '1',
+      frameTags: layout.animations.map(animation => ({
+        name: animation.name,
+        from: index.get(animation.frames[0]) ?? 0,
+        to: index.get(animation.frames[animation.frames.length - 1]) ?? 0,
+        direction: 'forward',
+        // Aseprite plays a tag once when repeat is set, forever when it is absent
+        ...(animation.loop ? {} : { repeat: '1' }),
+        // "direction" is the playback order, so the facing goes into the tag's user data
+        ...(animation.direction && { data: `direction=${animation.direction}` }),
+      })),
+      layers: [],
+      slices: [],
+    },
+  };
+}
+
+// Godot 4 SpriteFrames resource; frame durations are multipliers of 1 / speed
+function toGodotSpriteFrames(layout: SheetLayout, texturePath: string): string {
+  const frames = new Map(layout.frames.map((frame, i) => [frame.name, { frame, id: `AtlasTexture_${i}` }]));
+  const lines = [
+    `[gd_resource type="SpriteFrames" load_steps=${layout.frames.length + 2} format=3]`,
+    '',
+    `[ext_resource type="Texture2D" path="${texturePath}" id="1_sheet"]`,
+    '',
+  ];
+
+  for (const { frame, id } of frames.values()) {
+    const { x, y, w, h } = frame.frame;
+    lines.push(`[sub_resource type="AtlasTexture" id="${id}"]`, 'atlas = ExtResource("1_sheet")', `region = Rect2(${x}, ${y}, ${w}, ${h})`);
+    if (frame.trimmed) {
+      const { x: left, y: top, w: width, h: height } = frame.spriteSourceSize;
+      const right = frame.sourceSize.w - left - width;
+      const bottom = frame.sourceSize.h - top - height;
+      lines.push(`margin = Rect2(${left}, ${top}, ${left + right}, ${top + bottom})`);
+    }
+    lines.push('');
+  }
+
+  const animations = layout.animations.map(animation => {
+    const durations = animation.frames.map(name => frames.get(name)!.frame.duration);
+    // Speed follows the shortest frame so every relative duration is at least 1
+    const base = Math.min(...durations);
+    const entries = animation.frames.map((name, i) => `{\n"duration": ${godotFloat(durations[i] / base)},\n"texture": SubResource("${frames.get(name)!.id}")\n}`);
+    return `{\n"frames": [${entries.join(', ')}],\n"loop": ${animation.loop},\n"name": &"${animation.name}",\n"speed": ${godotFloat(1000 / base)}\n}`;
+  });
+
+  lines.push('[resource]', `animations = [${animations.join(', ')}]`, '');
+  return lines.join('\n');
+}
+
+// Unity TextureImporter settings that slice the sheet into one sprite per frame
+function toUnityMeta(layout: SheetLayout, pixelsPerUnit: number): string {
+  const sprites = layout.frames.flatMap(frame => [
+    '    - serializedVersion: 2',
+    `      name: ${frame.name}`,
+    '      rect:',
+    '        serializedVersion: 2',
+    `        x: ${frame.frame.x}`,
+    // Unity measures rects from the bottom-left corner of the texture
+    `        y: ${layout.size.h - frame.frame.y - frame.frame.h}`,
+    `        width: ${frame.frame.w}`,
+    `        height: ${frame.frame.h}`,
+    ...unityPivot(frame),
+    '      border: {x: 0, y: 0, z: 0, w: 0}',
+    '      outline: []',
+    '      physicsShape: []',
+    '      tessellationDetail: 0',
+    '      bones: []',
+    `      spriteID: ${unityGuid(`${layout.image}/${frame.name}`)}`,
+    `      internalID: ${unityInternalId(layout.image, frame.name)}`,
+    '      vertices: []',
+    '      indices: ',
+    '      edges: []',
+    '      weights: []',
+  ]);
+
+  return [
+    'fileFormatVersion: 2',
+    // Derived from the image name so regenerating a sheet keeps existing Unity references
+    `guid: ${unityGuid(layout.image)}`,
+    'TextureImporter:',
+    '  serializedVersion: 12',
+    '  mipmaps:',
+    '    enableMipMap: 0',
+    '  textureSettings:',
+    '    serializedVersion: 2',
+    // Point filtering keeps pixel-art edges sharp
+    '    filterMode: 0',
+    '    wrapU: 1',
+    '    wrapV: 1',
+    '  textureType: 8',
+    '  textureShape: 1',
+    '  spriteMode: 2',
+    `  spritePixelsToUnits: ${pixelsPerUnit}`,
+    '  alphaUsage: 1',
+    '  alphaIsTransparency: 1',
+    '  spriteSheet:',
+    '    serializedVersion: 2',
+    '    sprites:',
+    ...sprites,
+    '    outline: []',
+    '    physicsShape: []',
+    '    nameFileIdTable:',
+    ...layout.frames.map(frame => `      ${frame.name}: ${unityInternalId(layout.image, frame.name)}`),
+    '  userData: ',
+    '  assetBundleName: ',
+    '  assetBundleVariant: ',
+    '',
+  ].join('\n');
+}
+
+// Trimmed sprites pivot on the centre of the untrimmed frame so they stay anchored in place
+function unityPivot(frame: SheetFrame): string[] {
+  if (!frame.trimmed) {
+    return ['      alignment: 0', '      pivot: {x: 0.5, y: 0.5}'];
+  }
+  const { x, y, w, h } = frame.spriteSourceSize;
+  const pivotX = (frame.sourceSize.w / 2 - x) / w;
+  // Pivots are measured from the bottom of the sprite
+  const pivotY = (frame.sourceSize.h / 2 - (frame.sourceSize.h - y - h)) / h;
+  return ['      alignment: 9', `      pivot: {x: ${roundPivot(pivotX)}, y: ${roundPivot(pivotY)}}`];
+}
+
+function roundPivot(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function unityGuid(seed: string): string {
+  return crypto.createHash('md5').update(seed).digest('hex');
+}
+
+// Stable positive 60-bit id per sprite, so prefabs referencing a frame survive re-export
+function unityInternalId(image: string, frameName: string): string {
+  return BigInt(`0x${unityGuid(`${image}/${frameName}`).slice(0, 15)}`).toString();
+}
+
+function godotFloat(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Number.isInteger(rounded) ? `${rounded}.0` : String(rounded);
+}
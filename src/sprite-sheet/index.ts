@@ -1,111 +1,273 @@
+import { execFile } from 'child_process';
+import { constants as fsConstants } from 'fs';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import sharp from 'sharp';
+import { createAnimatedImage } from './animated.js';
+import type { AnimatedImageOptions } from './animated.js';
+import { exportSpriteSheetMetadata, getMetadataFileName, getMetadataFormats } from './exporters.js';
+import type { MetadataExportOptions, SheetLayout, SpriteSheetMetadataFormat } from './exporters.js';
+import { packAtlas } from './atlas.js';
+import type { AtlasAnimation, AtlasOptions, AtlasResult } from './atlas.js';
+import { findLoopPoints } from './loop.js';
+import { getAnimation, parseDirectionalName, toDirectionalName } from '../animations/index.js';
+import type { LoopPoints, LoopSearchOptions } from './loop.js';
+import type { Direction, LoopAnalysis, VideoGenResult } from '../types.js';
 
 export type SpriteSheetFormat = 'png' | 'gif' | 'webp';
 
-interface SpriteSheetOptions {
+// Sampling rate for animated previews of a video clip
+const DEFAULT_PREVIEW_FPS = 12;
+// Sampling rate when comparing frames for loop points
+const DEFAULT_LOOP_FPS = 12;
+
+export interface SpriteSheetOptions extends MetadataExportOptions {
   frameCount?: number;
   columns?: number;
   frameWidth?: number;
   frameHeight?: number;
   format?: SpriteSheetFormat;
   includeMetadata?: boolean;
+  // Engine formats to write next to the sheet (default json-hash)
+  metadataFormats?: SpriteSheetMetadataFormat[];
+  // Milliseconds per frame, one value for all frames or one per frame (default 100)
+  frameDuration?: number | number[];
+  // Whether engines should loop the animation (default true)
+  loop?: boolean;
+  // Cut a looping animation to its most seamless frame range before packing
+  trimLoop?: boolean;
+  // Facing of a directional clip, tagged in the metadata
+  direction?: Direction;
 }
 
-interface SpriteSheetResult {
+export interface SpriteSheetResult {
   spriteSheetPath: string;
+  // The first metadata file written, json-hash by default
   metadataPath?: string;
+  metadataPaths?: Partial<Record<SpriteSheetMetadataFormat, string>>;
   frameCount: number;
   columns: number;
   rows: number;
   frameWidth: number;
   frameHeight: number;
   format: SpriteSheetFormat;
+  // Frame range kept by trimLoop, in the frames passed in
+  loop?: LoopPoints;
 }
 
-interface FrameMetadata {
-  frame: {
-    x: number;
-    y: number;
-    w: number;
-    h: number;
-  };
-  sourceSize: {
-    w: number;
-    h: number;
-  };
-  duration: number;
+export interface VideoLoopOptions extends LoopSearchOptions {
+  // Sampling rate for the frame comparison (default 12)
+  fps?: number;
+  // Cut the clip down to the loop (default false, only report it)
+  trim?: boolean;
+  // Where the trimmed clip goes (default: replace the input)
+  outputPath?: string;
 }
 
-interface SpriteSheetMetadata {
-  frames: Record<string, FrameMetadata>;
-  meta: {
-    image: string;
-    size: {
-      w: number;
-      h: number;
-    };
-    frameCount: number;
-    scale: number;
-    format: string;
-  };
+export interface ExtractFramesOptions {
+  // Frames spread evenly across the window, or the cap on frames when fps is also set
+  frameCount?: number;
+  // Sample at a fixed rate instead of spreading frameCount frames
+  fps?: number;
+  // Window in seconds; end defaults to the end of the video
+  start?: number;
+  end?: number;
+}
+
+// FFMPEG_PATH wins over whatever ffmpeg is first on PATH
+export async function findFfmpeg(): Promise<string | null> {
+  if (process.env.FFMPEG_PATH) {
+    return (await isExecutable(process.env.FFMPEG_PATH)) ? process.env.FFMPEG_PATH : null;
+  }
+
+  const names = process.platform === 'win32' ? ['ffmpeg.exe', 'ffmpeg'] : ['ffmpeg'];
+  for (const dir of (process.env.PATH || '').split(path.delimiter).filter(Boolean)) {
+    for (const name of names) {
+      const candidate = path.join(dir, name);
+      if (await isExecutable(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+export async function getVideoDuration(videoPath: string, ffmpegPath?: string): Promise<number> {
+  const ffmpeg = ffmpegPath ?? (await requireFfmpeg());
+  // ffmpeg exits non-zero without an output file, but still prints the container info
+  const { stderr } = await runFfmpeg(ffmpeg, ['-hide_banner', '-i', videoPath], true);
+  const match = stderr.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!match) {
+    throw new Error(`Could not read duration of ${videoPath}: ${lastLine(stderr)}`);
+  }
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
 }
 
 export async function extractFramesFromVideo(
   videoPath: string,
   outputDir: string,
-  options: { frameCount?: number; fps?: number } = {}
+  options: ExtractFramesOptions = {}
 ): Promise<string[]> {
-  const { frameCount = 8 } = options;
-  
-  console.log(`[SpriteSheet] Extracting ${frameCount} frames from ${videoPath}`);
-  
-  // For now, create placeholder frames
-  // In production, use ffmpeg to extract frames
+  return (await decodeFrames(videoPath, outputDir, options)).framePaths;
+}
+
+// Also reports the sampling rate, which sets how long each frame is shown
+async function decodeFrames(
+  videoPath: string,
+  outputDir: string,
+  options: ExtractFramesOptions
+): Promise<{ framePaths: string[]; fps: number }> {
+  const { fps, start = 0 } = options;
+  const frameCount = options.frameCount ?? (fps ? undefined : 8);
+
+  if (frameCount !== undefined && (!Number.isInteger(frameCount) || frameCount < 1)) {
+    throw new Error(`frameCount must be a positive integer, got ${frameCount}`);
+  }
+  if (fps !== undefined && !(fps > 0)) {
+    throw new Error(`fps must be greater than 0, got ${fps}`);
+  }
+  if (!(start >= 0) || (options.end !== undefined && !(options.end > start))) {
+    throw new Error(`Invalid time window: start ${start}s, end ${options.end}s`);
+  }
+
+  try {
+    await fs.access(videoPath);
+  } catch {
+    throw new Error(`Video not found: ${videoPath}`);
+  }
+
+  const ffmpeg = await requireFfmpeg();
+  const duration = await getVideoDuration(videoPath, ffmpeg);
+  if (start >= duration) {
+    throw new Error(`Start time ${start}s is past the end of ${videoPath} (${duration.toFixed(2)}s)`);
+  }
+  const end = Math.min(options.end ?? duration, duration);
+  const windowLength = end - start;
+
+  // Without fps, pick the rate that spreads frameCount frames over the whole window
+  const rate = fps ?? frameCount! / windowLength;
+  console.log(
+    `[SpriteSheet] Extracting ${frameCount ?? 'all'} frames at ${rate.toFixed(2)} fps ` +
+    `from ${videoPath} (${start.toFixed(2)}s-${end.toFixed(2)}s)`
+  );
+
   const framesDir = path.join(outputDir, 'frames');
   await fs.mkdir(framesDir, { recursive: true });
-  
-  const framePaths: string[] = [];
-  
-  for (let i = 0; i < frameCount; i++) {
-    const framePath = path.join(framesDir, `frame_${i.toString().padStart(4, '0')}.png`);
-    
-    // Create placeholder frame image
-    const frameImage = await sharp({
-      create: {
-        width: 64,
-        height: 64,
-        channels: 4,
-        background: { r: 100, g: 100, b: 200, alpha: 1 },
-      },
-    })
-      .png()
-      .toBuffer();
-    
-    await fs.writeFile(framePath, frameImage);
-    framePaths.push(framePath);
+  // Frames left by an earlier, longer extraction would otherwise end up in the sheet
+  const stale = (await fs.readdir(framesDir)).filter(file => /^frame_\d+\.png$/.test(file));
+  await Promise.all(stale.map(file => fs.rm(path.join(framesDir, file), { force: true })));
+
+  const args = [
+    '-hide_banner', '-loglevel', 'error', '-y',
+    '-ss', start.toFixed(3), '-t', windowLength.toFixed(3),
+    '-i', videoPath,
+    '-vf', `fps=${rate}`,
+    // rgba keeps the alpha channel of transparent WebM sprites
+    '-pix_fmt', 'rgba',
+    '-start_number', '0',
+  ];
+  if (frameCount !== undefined) {
+    args.push('-frames:v', String(frameCount));
   }
-  
+  args.push(path.join(framesDir, 'frame_%04d.png'));
+  await runFfmpeg(ffmpeg, args);
+
+  const framePaths = (await fs.readdir(framesDir))
+    .filter(file => /^frame_\d+\.png$/.test(file))
+    .sort()
+    .map(file => path.join(framesDir, file));
+
+  if (framePaths.length === 0) {
+    throw new Error(`ffmpeg produced no frames for ${videoPath}`);
+  }
+
   console.log(`[SpriteSheet] Extracted ${framePaths.length} frames`);
-  return framePaths;
+  return { framePaths, fps: rate };
+}
+
+async function hasAudioStream(ffmpeg: string, videoPath: string): Promise<boolean> {
+  const { stderr } = await runFfmpeg(ffmpeg, ['-hide_banner', '-i', videoPath], true);
+  return /Stream #.*: Audio:/.test(stderr);
+}
+
+async function requireFfmpeg(): Promise<string> {
+  const ffmpeg = await findFfmpeg();
+  if (!ffmpeg) {
+    throw new Error(
+      process.env.FFMPEG_PATH
+        ? `FFMPEG_PATH is set to ${process.env.FFMPEG_PATH}, but that file is not executable`
+        : 'ffmpeg is required for frame extraction. Install it (https://ffmpeg.org) or set FFMPEG_PATH'
+    );
+  }
+  return ffmpeg;
+}
+
+function runFfmpeg(
+  ffmpeg: string,
+  args: string[],
+  allowFailure = false
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    execFile(ffmpeg, args, { maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error && !allowFailure) {
+        reject(new Error(`ffmpeg failed: ${lastLine(stderr) || error.message}`));
+        return;
+      }
+      resolve({ stdout, stderr });
+    });
+  });
+}
+
+async function isExecutable(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath, fsConstants.X_OK);
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function lastLine(text: string): string {
+  return text.trim().split('\n').pop() ?? '';
 }
 
 export async function createSpriteSheet(
-  framePaths: string[],
+  inputFrames: string[],
   outputDir: string,
   animationName: string,
   options: SpriteSheetOptions = {}
 ): Promise<SpriteSheetResult> {
   const {
-    columns = Math.ceil(Math.sqrt(framePaths.length)),
     format = 'png',
     includeMetadata = true,
+    metadataFormats = ['json-hash'],
+    frameDuration = 100,
+    loop = true,
   } = options;
   
-  if (framePaths.length === 0) {
+  if (inputFrames.length === 0) {
     throw new Error('No frames provided for sprite sheet');
   }
+
+  const unknownFormats = metadataFormats.filter(f => !getMetadataFormats().includes(f));
+  if (unknownFormats.length > 0) {
+    throw new Error(`Unknown metadata formats: ${unknownFormats.join(', ')}. Use ${getMetadataFormats().join(', ')}`);
+  }
+  let durations = Array.isArray(frameDuration) ? frameDuration : inputFrames.map(() => frameDuration);
+  if (durations.length !== inputFrames.length || durations.some(d => !(d > 0))) {
+    throw new Error(`frameDuration needs one positive value or ${inputFrames.length} of them`);
+  }
+
+  let framePaths = inputFrames;
+  let loopPoints: LoopPoints | undefined;
+  if (options.trimLoop && loop && inputFrames.length > 1) {
+    loopPoints = await findLoopPoints(inputFrames);
+    framePaths = inputFrames.slice(loopPoints.start, loopPoints.end + 1);
+    durations = durations.slice(loopPoints.start, loopPoints.end + 1);
+    console.log(`[SpriteSheet] Loop frames ${loopPoints.start}-${loopPoints.end} of ${inputFrames.length}, score ${loopPoints.score}`);
+  }
+  const columns = options.columns ?? Math.ceil(Math.sqrt(framePaths.length));
   
   console.log(`[SpriteSheet] Creating sprite sheet with ${framePaths.length} frames`);
   
@@ -169,122 +331,310 @@ export async function createSpriteSheet(
   
   // Generate metadata if requested
   let metadataPath: string | undefined;
+  const metadataPaths: Partial<Record<SpriteSheetMetadataFormat, string>> = {};
   if (includeMetadata) {
-    const metadata = generateSpriteSheetMetadata(
+    const layout = buildGridLayout(
       path.basename(spriteSheetPath),
-      framePaths.length,
+      animationName,
+      durations,
       columns,
       rows,
       frameWidth,
-      frameHeight
+      frameHeight,
+      loop,
+      options.direction
     );
     
-    metadataPath = path.join(outputDir, `${animationName}_spritesheet.json`);
-    await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
-    console.log(`[SpriteSheet] Created metadata at ${metadataPath}`);
+    for (const metadataFormat of metadataFormats) {
+      const filePath = path.join(outputDir, getMetadataFileName(`${animationName}_spritesheet`, layout.image, metadataFormat));
+      await fs.writeFile(filePath, exportSpriteSheetMetadata(layout, metadataFormat, options));
+      metadataPaths[metadataFormat] = filePath;
+      metadataPath ??= filePath;
+      console.log(`[SpriteSheet] Created ${metadataFormat} metadata at ${filePath}`);
+    }
   }
   
   return {
     spriteSheetPath,
     metadataPath,
+    ...(includeMetadata && { metadataPaths }),
     frameCount: framePaths.length,
     columns,
     rows,
     frameWidth,
     frameHeight,
     format,
+    ...(loopPoints && { loop: loopPoints }),
   };
 }
 
-function generateSpriteSheetMetadata(
+function buildGridLayout(
   imageName: string,
-  frameCount: number,
+  animationName: string,
+  durations: number[],
   columns: number,
   rows: number,
   frameWidth: number,
-  frameHeight: number
-): SpriteSheetMetadata {
-  const frames: Record<string, FrameMetadata> = {};
-  const frameDuration = 100; // 10 FPS default
-  
-  for (let i = 0; i < frameCount; i++) {
-    const col = i % columns;
-    const row = Math.floor(i / columns);
-    
-    frames[`frame_${i}`] = {
-      frame: {
-        x: col * frameWidth,
-        y: row * frameHeight,
-        w: frameWidth,
-        h: frameHeight,
-      },
-      sourceSize: {
-        w: frameWidth,
-        h: frameHeight,
-      },
-      duration: frameDuration,
-    };
-  }
+  frameHeight: number,
+  loop: boolean,
+  direction?: Direction
+): SheetLayout {
+  const frames = durations.map((duration, i) => ({
+    name: `${animationName}_${i}`,
+    frame: {
+      x: (i % columns) * frameWidth,
+      y: Math.floor(i / columns) * frameHeight,
+      w: frameWidth,
+      h: frameHeight,
+    },
+    spriteSourceSize: { x: 0, y: 0, w: frameWidth, h: frameHeight },
+    sourceSize: { w: frameWidth, h: frameHeight },
+    trimmed: false,
+    duration: Math.round(duration),
+  }));
   
   return {
+    image: imageName,
+    size: { w: columns * frameWidth, h: rows * frameHeight },
     frames,
-    meta: {
-      image: imageName,
-      size: {
-        w: columns * frameWidth,
-        h: rows * frameHeight,
-      },
-      frameCount,
-      scale: 1,
-      format: 'RGBA8888',
-    },
+    animations: [{ name: animationName, frames: frames.map(frame => frame.name), loop, ...(direction && { direction }) }],
   };
 }
 
+// Finds the most seamless loop in a clip; with trim, the clip is cut down to it
+export async function detectVideoLoop(videoPath: string, options: VideoLoopOptions = {}): Promise<LoopAnalysis> {
+  const { fps = DEFAULT_LOOP_FPS, trim = false, outputPath = videoPath, ...searchOptions } = options;
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sprite-loop-'));
+
+  let loop: LoopAnalysis;
+  let wholeClip: boolean;
+  try {
+    const decoded = await decodeFrames(videoPath, workDir, { fps });
+    const points = await findLoopPoints(decoded.framePaths, searchOptions);
+    wholeClip = points.start === 0 && points.end === decoded.framePaths.length - 1;
+    loop = {
+      start: points.start / decoded.fps,
+      end: (points.end + 1) / decoded.fps,
+      score: points.score,
+      trimmed: false,
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+
+  console.log(`[SpriteSheet] Best loop in ${videoPath}: ${loop.start.toFixed(2)}s-${loop.end.toFixed(2)}s, score ${loop.score}`);
+  if (!trim || wholeClip) {
+    if (trim && outputPath !== videoPath) {
+      await fs.copyFile(videoPath, outputPath);
+    }
+    return loop;
+  }
+
+  await trimVideo(videoPath, loop.start, loop.end, outputPath);
+  return { ...loop, trimmed: true };
+}
+
+// Re-encodes the start-end window (seconds); writing next to the output first keeps the input intact on failure
+export async function trimVideo(videoPath: string, start: number, end: number, outputPath = videoPath): Promise<string> {
+  if (!(start >= 0) || !(end > start)) {
+    throw new Error(`Invalid trim window: start ${start}s, end ${end}s`);
+  }
+  const ffmpeg = await requireFfmpeg();
+  const extension = path.extname(outputPath);
+  const tempPath = path.join(path.dirname(outputPath), `.${path.basename(outputPath, extension)}.trim${extension}`);
+  // Generated clips are usually silent, and an audio filter on a video-only input fails
+  const audio = await hasAudioStream(ffmpeg, videoPath)
+    ? ['-af', `atrim=start=${start.toFixed(3)}:end=${end.toFixed(3)},asetpts=PTS-STARTPTS`]
+    : ['-an'];
+
+  try {
+    await runFfmpeg(ffmpeg, [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', videoPath,
+      // Filter trimming is frame-accurate, unlike seeking with -ss before the input
+      '-vf', `trim=start=${start.toFixed(3)}:end=${end.toFixed(3)},setpts=PTS-STARTPTS`,
+      ...audio,
+      tempPath,
+    ]);
+    await fs.rename(tempPath, outputPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  console.log(`[SpriteSheet] Trimmed ${videoPath} to ${start.toFixed(2)}s-${end.toFixed(2)}s`);
+  return outputPath;
+}
+
+// Flips a clip horizontally, e.g. to derive a west-facing walk from the east-facing one
+export async function mirrorVideo(videoPath: string, outputPath: string): Promise<string> {
+  const ffmpeg = await requireFfmpeg();
+  const extension = path.extname(outputPath);
+  const tempPath = path.join(path.dirname(outputPath), `.${path.basename(outputPath, extension)}.mirror${extension}`);
+
+  try {
+    await runFfmpeg(ffmpeg, ['-hide_banner', '-loglevel', 'error', '-y', '-i', videoPath, '-vf', 'hflip', tempPath]);
+    await fs.rename(tempPath, outputPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  console.log(`[SpriteSheet] Mirrored ${videoPath} to ${outputPath}`);
+  return outputPath;
+}
+
+// Saves the first or last frame of a clip as a PNG, e.g. to condition a transition on it
+export async function extractEdgeFrame(videoPath: string, outputPath: string, edge: 'first' | 'last'): Promise<string> {
+  try {
+    await fs.access(videoPath);
+  } catch {
+    throw new Error(`Video not found: ${videoPath}`);
+  }
+  const ffmpeg = await requireFfmpeg();
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+  // For the last frame, decode the final second and keep overwriting the same image
+  const input = edge === 'first' ? ['-i', videoPath, '-frames:v', '1'] : ['-sseof', '-1', '-i', videoPath, '-update', '1'];
+  await runFfmpeg(ffmpeg, ['-hide_banner', '-loglevel', 'error', '-y', ...input, outputPath]);
+  try {
+    await fs.access(outputPath);
+  } catch {
+    throw new Error(`ffmpeg produced no ${edge} frame for ${videoPath}`);
+  }
+  return outputPath;
+}
+
 export async function createAnimatedGif(
   framePaths: string[],
   outputDir: string,
   animationName: string,
-  options: { delay?: number; loop?: boolean } = {}
+  options: Omit<AnimatedImageOptions, 'format'> = {}
 ): Promise<string> {
-  const { delay: _delay = 100, loop: _loop = true } = options;
-  
-  console.log(`[SpriteSheet] Creating animated GIF with ${framePaths.length} frames`);
-  
-  await fs.mkdir(outputDir, { recursive: true });
-  const gifPath = path.join(outputDir, `${animationName}.gif`);
-  
-  // TODO: For proper animated GIF, would need gifenc or similar library
-  // For now, create a static placeholder using first frame
-  await sharp(framePaths[0])
-    .resize(64, 64)
-    .gif()
-    .toFile(gifPath);
-  
-  console.log(`[SpriteSheet] Created GIF at ${gifPath}`);
-  return gifPath;
+  return createAnimatedPreview(framePaths, outputDir, animationName, { ...options, format: 'gif' });
+}
+
+// Writes <animationName>.gif, .apng or .webp into outputDir
+export async function createAnimatedPreview(
+  framePaths: string[],
+  outputDir: string,
+  animationName: string,
+  options: AnimatedImageOptions = {}
+): Promise<string> {
+  const { format = 'gif' } = options;
+  console.log(`[SpriteSheet] Creating animated ${format.toUpperCase()} with ${framePaths.length} frames`);
+
+  const previewPath = await createAnimatedImage(framePaths, path.join(outputDir, `${animationName}.${format}`), options);
+
+  console.log(`[SpriteSheet] Created ${format.toUpperCase()} at ${previewPath}`);
+  return previewPath;
+}
+
+// Frames are decoded into a temporary directory, so only the preview is left in outputDir
+export async function videoToAnimatedPreview(
+  videoPath: string,
+  outputDir: string,
+  animationName: string,
+  options: AnimatedImageOptions & ExtractFramesOptions = {}
+): Promise<string> {
+  const { frameCount, fps = DEFAULT_PREVIEW_FPS, start, end, ...previewOptions } = options;
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sprite-preview-'));
+
+  try {
+    const framePaths = await extractFramesFromVideo(videoPath, workDir, { frameCount, fps, start, end });
+    return await createAnimatedPreview(framePaths, outputDir, animationName, {
+      delay: 1000 / fps,
+      ...previewOptions,
+    });
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
 }
 
 export async function videoToSpriteSheet(
   videoPath: string,
   outputDir: string,
   animationName: string,
-  options: SpriteSheetOptions & { fps?: number } = {}
+  options: SpriteSheetOptions & Omit<ExtractFramesOptions, 'frameCount'> = {}
 ): Promise<SpriteSheetResult> {
-  const { frameCount = 8, fps = 8, ...sheetOptions } = options;
+  const { frameCount, fps, start, end, ...sheetOptions } = options;
   
   console.log(`[SpriteSheet] Converting video to sprite sheet: ${videoPath}`);
   
   // Extract frames from video
-  const framePaths = await extractFramesFromVideo(videoPath, outputDir, { frameCount, fps });
-  
-  // Create sprite sheet
-  const result = await createSpriteSheet(framePaths, outputDir, animationName, sheetOptions);
-  
-  // Optionally clean up individual frames
-  // await Promise.all(framePaths.map(fp => fs.unlink(fp)));
+  const decoded = await decodeFrames(videoPath, outputDir, { frameCount, fps, start, end });
   
-  return result;
+  // Each frame covers one sampling interval, so the sheet plays back at the clip's real speed
+  return createSpriteSheet(decoded.framePaths, outputDir, animationName, {
+    ...sheetOptions,
+    frameDuration: sheetOptions.frameDuration ?? 1000 / decoded.fps,
+  });
+}
+
+// Sheet for a generated clip: samples at the clip's own fps unless fps or frameCount is given
+export async function clipToSpriteSheet(
+  clip: VideoGenResult,
+  outputDir: string,
+  options: SpriteSheetOptions & Omit<ExtractFramesOptions, 'frameCount'> = {}
+): Promise<SpriteSheetResult> {
+  const name = toDirectionalName(clip.animationType, clip.direction);
+  if (clip.isPlaceholder) {
+    throw new Error(`${name} is a placeholder clip${clip.fallbackReason ? ` (${clip.fallbackReason})` : ''}`);
+  }
+  const fps = options.fps ?? (options.frameCount ? undefined : clip.fps);
+  return videoToSpriteSheet(clip.videoPath, outputDir, name, {
+    ...options,
+    fps,
+    loop: options.loop ?? isLoopingAnimation(clip.animationType),
+    direction: options.direction ?? clip.direction,
+  });
+}
+
+// One atlas for every clip; frames are decoded into a temporary directory at each clip's fps
+export async function clipsToAtlas(
+  clips: VideoGenResult[],
+  outputDir: string,
+  atlasName: string,
+  options: AtlasOptions & Pick<ExtractFramesOptions, 'fps' | 'frameCount'> = {}
+): Promise<AtlasResult> {
+  const { fps, frameCount, ...atlasOptions } = options;
+  const placeholders = clips.filter(clip => clip.isPlaceholder).map(clip => toDirectionalName(clip.animationType, clip.direction));
+  if (placeholders.length > 0) {
+    console.warn(`[SpriteSheet] Leaving placeholder clips out of the atlas: ${placeholders.join(', ')}`);
+  }
+  const usable = clips.filter(clip => !clip.isPlaceholder);
+  if (usable.length === 0 && placeholders.length > 0) {
+    throw new Error('No clips to pack: every clip is a placeholder');
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sprite-atlas-'));
+
+  try {
+    const animations: AtlasAnimation[] = [];
+    for (const clip of usable) {
+      const name = toDirectionalName(clip.animationType, clip.direction);
+      const decoded = await decodeFrames(clip.videoPath, path.join(workDir, name), {
+        fps: fps ?? (frameCount ? undefined : clip.fps),
+        frameCount,
+      });
+      animations.push({
+        name,
+        framePaths: decoded.framePaths,
+        frameDuration: 1000 / decoded.fps,
+        loop: isLoopingAnimation(clip.animationType),
+        ...(clip.direction && { direction: clip.direction }),
+      });
+    }
+    return await packAtlas(animations, outputDir, atlasName, atlasOptions);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// One-shot clips such as attacks and deaths stop on their last frame; unregistered names loop.
+// Directional names such as walk_NE follow their animation.
+export function isLoopingAnimation(name: string): boolean {
+  return getAnimation(parseDirectionalName(name).animationType)?.loop ?? true;
 }
 
 export function getSpriteSheetFormats(): SpriteSheetFormat[] {
@@ -295,3 +645,12 @@ export function calculateOptimalColumns(frameCount: number): number {
   // Try to make a roughly square sheet
   return Math.ceil(Math.sqrt(frameCount));
 }
+
+export { encodeAnimation, createAnimatedImage, getAnimatedFormats } from './animated.js';
+export type { AnimatedFormat, AnimatedImageOptions } from './animated.js';
+export { packAtlas } from './atlas.js';
+export { findLoopPoints } from './loop.js';
+export type { LoopPoints, LoopSearchOptions } from './loop.js';
+export type { AtlasAnimation, AtlasOptions, AtlasPage, AtlasResult } from './atlas.js';
+export { exportSpriteSheetMetadata, getMetadataFormats, getMetadataFileName } from './exporters.js';
+export type { SpriteSheetMetadataFormat, SheetLayout, SheetFrame, SheetAnimation, MetadataExportOptions, Rect } from './exporters.js';
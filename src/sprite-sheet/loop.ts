@@ -0,0 +1,86 @@
+import sharp from 'sharp';
+
+export interface LoopSearchOptions {
+  // Shortest loop worth keeping, as a fraction of the frames (default 0.5)
+  minLength?: number;
+  // Frames are compared at this size (default 32)
+  sampleSize?: number;
+}
+
+export interface LoopPoints {
+  // First and last frame of the loop, inclusive
+  start: number;
+  end: number;
+  // 1 when wrapping from end back to start looks like any other step, lower for a visible pop
+  score: number;
+}
+
+// Candidates scoring this close to the best count as equally seamless, and the longest wins
+const SCORE_TOLERANCE = 0.02;
+// Keeps near-static clips from dividing by zero, on the 0-255 channel scale
+const EPSILON = 0.5;
+
+// Picks the frame range whose wrap-around jump is closest to an ordinary frame step
+export async function findLoopPoints(framePaths: string[], options: LoopSearchOptions = {}): Promise<LoopPoints> {
+  const { minLength = 0.5, sampleSize = 32 } = options;
+
+  if (framePaths.length < 2) {
+    throw new Error(`Loop detection needs at least 2 frames, got ${framePaths.length}`);
+  }
+  if (!(minLength > 0 && minLength <= 1)) {
+    throw new Error(`minLength must be between 0 and 1, got ${minLength}`);
+  }
+
+  const samples = await Promise.all(framePaths.map(framePath => sampleFrame(framePath, sampleSize)));
+  const count = samples.length;
+
+  let totalStep = 0;
+  for (let i = 1; i < count; i++) {
+    totalStep += difference(samples[i - 1], samples[i]);
+  }
+  const meanStep = totalStep / (count - 1);
+
+  const minFrames = Math.max(2, Math.ceil(count * minLength));
+  let best: LoopPoints | null = null;
+
+  for (let length = count; length >= minFrames; length--) {
+    for (let start = 0; start + length <= count; start++) {
+      const end = start + length - 1;
+      const score = Math.min(1, (meanStep + EPSILON) / (difference(samples[end], samples[start]) + EPSILON));
+      // Lengths are visited longest first, so a shorter loop must be clearly better to win
+      if (!best || score > best.score + SCORE_TOLERANCE) {
+        best = { start, end, score };
+      }
+    }
+  }
+
+  return { ...best!, score: Math.round(best!.score * 1000) / 1000 };
+}
+
+// Premultiplied RGBA thumbnail, so differences in fully transparent pixels are ignored
+async function sampleFrame(framePath: string, size: number): Promise<Float32Array> {
+  const data = await sharp(framePath)
+    .resize(size, size, { fit: 'fill' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+
+  const sample = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    sample[i] = data[i] * alpha;
+    sample[i + 1] = data[i + 1] * alpha;
+    sample[i + 2] = data[i + 2] * alpha;
+    sample[i + 3] = data[i + 3];
+  }
+  return sample;
+}
+
+// Mean absolute channel difference, 0-255
+function difference(a: Float32Array, b: Float32Array): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / a.length;
+}
@@ -1,6 +1,14 @@
-export type CharacterStyle = 'pixel' | 'anime' | 'lowpoly' | 'painterly' | 'voxel';
+export type BuiltInCharacterStyle = 'pixel' | 'anime' | 'lowpoly' | 'painterly' | 'voxel';
 
-export type AnimationType = 'idle' | 'walk' | 'run' | 'attack' | 'jump' | 'death' | 'hurt';
+// Any style registered from a style pack is accepted at runtime
+export type CharacterStyle = BuiltInCharacterStyle | (string & {});
+
+export type BuiltInAnimationType =
+  | 'idle' | 'walk' | 'run' | 'attack' | 'jump' | 'death' | 'hurt'
+  | 'cast' | 'block' | 'dodge' | 'emote' | 'crouch' | 'climb' | 'swim' | 'fly';
+
+// Any animation registered from an animation pack is accepted at runtime
+export type AnimationType = BuiltInAnimationType | (string & {});
 
 export type SkeletonType = 'biped' | 'quadruped' | 'custom';
 
@@ -11,27 +19,151 @@ export interface GenerationConfig {
   resolution: number;
   skeleton: SkeletonType;
   outputDir: string;
+  // Seed of the sprite that was used; it alone replays that sprite with one candidate
+  seed?: number;
+  // Number of ranked candidates; candidate i used candidateSeed + i
+  candidates?: number;
+  candidateSeed?: number;
+  palette?: string;
+  turnaround?: boolean;
+  // Values for {{name}} placeholders in animation prompts
+  variables?: Record<string, string>;
+  // Per-animation prompt, duration and fps replacing the registered definitions
+  animationOverrides?: Record<string, { prompt?: string; duration?: string; fps?: number }>;
+}
+
+export interface SpriteScores {
+  alphaCoverage: number;
+  centering: number;
+  edgeCleanliness: number;
+  paletteSize: number;
+}
+
+export interface ImageCandidate {
+  imagePath: string;
+  rank: number;
+  score: number;
+  scores: SpriteScores;
+  metadata: Record<string, unknown>;
+}
+
+// What a stage does once its provider has failed every retry
+export type FallbackPolicy = 'fail' | 'placeholder' | 'next-provider';
+
+export type PipelineStage = 'image' | 'video' | 'rigging';
+
+export type FallbackPolicies = Partial<Record<PipelineStage, FallbackPolicy>>;
+
+// One provider, or several to try in order when the earlier ones hit rate limits or outages
+export type ProviderChain<P extends string = string> = P | P[];
+
+export type ProviderChains = Partial<Record<PipelineStage, ProviderChain>>;
+
+// Set on results that are not what the requested provider would have produced
+export interface FallbackInfo {
+  // The file is a stand-in, not a usable asset
+  isPlaceholder?: boolean;
+  // Provider failures that led to a placeholder or a different provider
+  fallbackReason?: string;
 }
 
-export interface ImageGenResult {
+export interface ImageGenResult extends FallbackInfo {
   imagePath: string;
   prompt: string;
-  provider: 'openai' | 'stability' | 'pixellab';
+  provider: string;
   metadata: Record<string, unknown>;
+  candidates?: ImageCandidate[];
 }
 
-export interface VideoGenResult {
+// Compass facing of a directional clip; N faces away from the camera, toward the top of the screen
+export type Direction = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+// 4 (N, E, S, W), 8 (plus the diagonals) or an explicit list of facings
+export type DirectionSet = 4 | 8 | Direction[];
+
+export interface VideoGenResult extends FallbackInfo {
   videoPath: string;
   animationType: AnimationType;
+  // Facing of a directional clip, saved as <animation>_<direction>.mp4
+  direction?: Direction;
+  // Set when the clip is another facing flipped horizontally instead of a generated one
+  mirroredFrom?: Direction;
+  // Seconds rendered, which can exceed the request: Veo rounds up to 4, 6 or 8s
+  duration: number;
+  fps: number;
+  // Provider that served the clip, 'placeholder' for stand-ins
+  provider?: string;
+  // Animated GIF/APNG/WebP of the clip, when one was requested
+  previewPath?: string;
+  spriteSheetPath?: string;
+  // Seamless-loop check, only for looping animations
+  loop?: LoopAnalysis;
+}
+
+// Short clip that blends the end of one animation into the start of another
+export interface TransitionResult extends FallbackInfo {
+  videoPath: string;
+  from: AnimationType;
+  to: AnimationType;
+  // Facing shared by both clips, for directional sets
+  direction?: Direction;
+  // Seconds rendered; at least 4 on Veo whatever was requested
   duration: number;
   fps: number;
+  // Provider that served the clip, 'placeholder' for stand-ins
+  provider?: string;
 }
 
-export interface RiggingResult {
+// Clips as states and transition clips as edges, ready to export as an animation state machine
+export interface TransitionGraph {
+  // The idle clip when there is one, otherwise the first clip
+  initial?: string;
+  states: Array<{
+    // Clip name, e.g. walk or walk_NE
+    name: string;
+    videoPath: string;
+    loop: boolean;
+  }>;
+  transitions: Array<{
+    // State names
+    from: string;
+    to: string;
+    videoPath: string;
+    duration: number;
+  }>;
+}
+
+export interface LoopAnalysis {
+  // Seconds into the clip as generated
+  start: number;
+  end: number;
+  // 1 when wrapping from end to start looks like any other frame step, lower for a visible pop
+  score: number;
+  // Whether the saved clip was cut down to start-end
+  trimmed: boolean;
+}
+
+export type TurnaroundView = 'front' | 'three-quarter' | 'side' | 'back';
+
+// Image paths per view; rigging providers that reconstruct from several angles accept this
+export type MultiViewImages = { front: string } & Partial<Record<TurnaroundView, string>>;
+
+export interface TurnaroundResult {
+  views: { front: ImageGenResult } & Partial<Record<TurnaroundView, ImageGenResult>>;
+  imagePaths: MultiViewImages;
+  sheetPath: string;
+  provider: string;
+  seed?: number;
+}
+
+export interface RiggingResult extends FallbackInfo {
   modelPath: string;
   riggedModelPath: string;
   skeletonType: SkeletonType;
   boneCount: number;
+  sourceViews?: TurnaroundView[];
+  // Provider that served the model, 'placeholder' for stand-ins
+  provider?: string;
 }
 
 export interface ExportResult {
@@ -41,12 +173,53 @@ export interface ExportResult {
   animations: string[];
 }
 
+// Structured expansion of a short prompt, from an LLM or the offline template
+export interface CharacterSheet {
+  name: string;
+  silhouette: string;
+  colorPalette: string[];
+  equipment: string[];
+  bodyType: string;
+  suggestedSkeleton: string;
+  suggestedAnimations: AnimationType[];
+  source: 'llm' | 'template';
+  model?: string;
+}
+
+export type ModerationViolationType = 'blocked-term' | 'trademark' | 'max-length' | 'provider-flagged';
+
+export interface ModerationViolation {
+  type: ModerationViolationType;
+  message: string;
+  // The matched blocked term or trademark
+  term?: string;
+  // Categories reported by provider-side moderation
+  categories?: string[];
+}
+
+export interface ModerationResult {
+  allowed: boolean;
+  violations: ModerationViolation[];
+  providerChecked: boolean;
+}
+
 export interface PipelineResult {
   characterName: string;
   imageGen: ImageGenResult;
   videoGen: VideoGenResult[];
   rigging: RiggingResult;
   export: ExportResult;
+  turnaround?: TurnaroundResult;
+  // Pre-flight prompt moderation; any violations listed were only warned about
+  moderation?: ModerationResult;
+  characterSheet?: CharacterSheet;
+  // Page images of the texture atlas packing every clip (--atlas)
+  atlasPaths?: string[];
+  // Transition clips between animations and the state graph they form (--transitions)
+  transitions?: TransitionResult[];
+  transitionGraph?: TransitionGraph;
+  // Placeholders and provider substitutions, absent when every stage succeeded as requested
+  degraded?: DegradedOutput[];
   metadata: {
     createdAt: string;
     totalDuration: number;
@@ -54,6 +227,17 @@ export interface PipelineResult {
   };
 }
 
+export interface DegradedOutput {
+  stage: PipelineStage;
+  // Clip name for clips and transitions, otherwise the stage name
+  name: string;
+  path: string;
+  isPlaceholder: boolean;
+  // Provider that served the output instead
+  provider?: string;
+  reason?: string;
+}
+
 export interface TripoTask {
   task_id: string;
   type: string;
@@ -69,18 +253,35 @@ export interface VeoRequest {
   model: string;
   prompt: string;
   image?: string;
+  // Base64 PNG the clip must end on; with image, Veo interpolates between the two frames
+  lastFrame?: string;
   duration: string;
   aspectRatio: string;
 }
 
+// Long-running operation returned by predictLongRunning and polled until done
 export interface VeoResponse {
   name: string;
-  done: boolean;
-  response?: {
-    generatedSamples: Array<{
-      video: {
-        uri: string;
-      };
-    }>;
+  // Absent until the operation finishes
+  done?: boolean;
+  response?: VeoGeneratedVideos & {
+    // The Gemini API nests the samples one level deeper
+    generateVideoResponse?: VeoGeneratedVideos;
+  };
+  error?: {
+    code: number;
+    message: string;
+    status?: string;
   };
 }
+
+export interface VeoGeneratedVideos {
+  generatedSamples?: Array<{
+    video: {
+      uri: string;
+    };
+  }>;
+  // Set when safety filters removed every sample
+  raiMediaFilteredCount?: number;
+  raiMediaFilteredReasons?: string[];
+}
@@ -0,0 +1,62 @@
+// Typed failures from video providers; retryable errors may succeed on a later attempt
+export class VideoGenError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, provider: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'VideoGenError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// Missing, invalid or unauthorised API key
+export class VideoAuthError extends VideoGenError {
+  constructor(message: string, provider: string, status?: number) {
+    super(message, provider, { status, retryable: false });
+    this.name = 'VideoAuthError';
+  }
+}
+
+// Rate limit or quota exhausted; retryAfterMs comes from the Retry-After header when sent
+export class VideoQuotaError extends VideoGenError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, provider: string, status?: number, retryAfterMs?: number) {
+    super(message, provider, { status, retryable: true });
+    this.name = 'VideoQuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The request itself was rejected (bad parameters, unknown model, safety filters)
+export class VideoRequestError extends VideoGenError {
+  constructor(message: string, provider: string, status?: number) {
+    super(message, provider, { status, retryable: false });
+    this.name = 'VideoRequestError';
+  }
+}
+
+// Provider outage, 5xx response or network failure
+export class VideoServerError extends VideoGenError {
+  constructor(message: string, provider: string, status?: number) {
+    super(message, provider, { status, retryable: true });
+    this.name = 'VideoServerError';
+  }
+}
+
+// The generation did not finish before the polling deadline. Not retryable: the operation is
+// already paid for and may still finish, so resubmitting would pay for the clip again.
+// operationName lets a caller resume polling it instead.
+export class VideoTimeoutError extends VideoGenError {
+  readonly operationName?: string;
+
+  constructor(message: string, provider: string, operationName?: string) {
+    super(message, provider, { retryable: false });
+    this.name = 'VideoTimeoutError';
+    this.operationName = operationName;
+  }
+}
@@ -1,60 +1,88 @@
 import fs from 'fs/promises';
 import path from 'path';
-import type { AnimationType, VideoGenResult } from '../types.js';
+import { detectVideoLoop, extractEdgeFrame, mirrorVideo } from '../sprite-sheet/index.js';
+import { AnimationDefinition, AnimationOverrides, getAnimation, getAnimationNames, getMirrorSource, PromptVariables, renderPromptTemplate, resolveDirections, toDirectionalName } from '../animations/index.js';
+import { DEFAULT_FALLBACK_POLICIES, runWithFallback, toProviderList } from '../fallback/index.js';
+import { RateLimiter } from '../rate-limit/index.js';
+import type { AnimationType, CharacterSheet, Direction, DirectionSet, FallbackPolicy, ProviderChain, TransitionResult, VideoGenResult } from '../types.js';
+import { VideoGenError, VideoQuotaError } from './errors.js';
+import { getDefaultTransitions, toTransitionName, TransitionSpec } from './transitions.js';
+import { DEFAULT_VEO_MODEL, generateVeoVideo, toVeoDuration } from './veo.js';
 
 export type VideoProvider = 'veo' | 'runway' | 'placeholder';
 
-interface AnimationConfig {
-  prompt: string;
-  duration: string;
-  fps: number;
-}
-
-const ANIMATION_PROMPTS: Record<AnimationType, AnimationConfig> = {
-  idle: {
-    prompt: 'subtle idle breathing animation, gentle swaying motion, seamless loop, character stays in place',
-    duration: '4s',
-    fps: 24,
-  },
-  walk: {
-    prompt: 'walking animation cycle, smooth footsteps, 8-frame walk cycle, seamless loop, side view movement',
-    duration: '4s',
-    fps: 24,
-  },
-  run: {
-    prompt: 'running animation, fast movement, dynamic pose, seamless loop, energetic motion',
-    duration: '3s',
-    fps: 30,
-  },
-  attack: {
-    prompt: 'attack swing animation, weapon slash motion, return to idle pose, powerful strike',
-    duration: '2s',
-    fps: 30,
-  },
-  jump: {
-    prompt: 'jumping animation, crouch to leap to landing, smooth arc, natural gravity',
-    duration: '2s',
-    fps: 24,
-  },
-  death: {
-    prompt: 'death animation, dramatic fall, fade out effect, final pose',
-    duration: '3s',
-    fps: 24,
-  },
-  hurt: {
-    prompt: 'hurt reaction animation, flinch backwards, brief recovery, return to stance',
-    duration: '1s',
-    fps: 24,
-  },
-};
-
 interface AnimateOptions {
   duration?: string;
-  provider?: VideoProvider;
+  // Replaces the animation's prompt; may use {{name}} placeholders, e.g. '{{character}} swings {{weapon}}'
+  prompt?: string;
+  // Frame rate recorded for the clip, which sets sprite-sheet and preview timing
+  fps?: number;
+  // Values for prompt placeholders; animation, and name, bodyType, weapon and equipment from
+  // the character sheet, are filled in unless set here
+  variables?: PromptVariables;
+  // One provider or a chain, e.g. ['veo', 'runway'], tried in order on rate limits, quota and outages
+  provider?: ProviderChain<VideoProvider>;
   maxRetries?: number;
   retryDelay?: number;
+  // Adds the character's body type and equipment to each animation prompt
+  characterSheet?: CharacterSheet;
+  // Cut looping clips to their most seamless loop (default true); false only reports the score
+  trimLoop?: boolean;
+  // Veo operation polling: milliseconds between polls and before giving up
+  pollInterval?: number;
+  timeout?: number;
+  aspectRatio?: '16:9' | '9:16';
+  // Once the chain gives up: throw, save a flagged placeholder (default) or try the other providers
+  fallback?: FallbackPolicy;
+  // Facing for top-down and isometric games; the clip is saved as <animation>_<direction>.mp4
+  direction?: Direction;
+  // Gates provider requests by requests per minute and concurrent requests; defaults to one
+  // limiter shared by every call in the process
+  rateLimiter?: RateLimiter;
+}
+
+interface DirectionalAnimateOptions extends AnimateOptions {
+  // One clip per facing for each animation: 4, 8 or an explicit list
+  directions?: DirectionSet;
+  // Derive W, NW and SW by flipping E, NE and SE (default true); turn off for asymmetric
+  // characters, such as one holding a sword in the right hand
+  mirror?: boolean;
+  // Per-animation prompt, duration and fps, applied over each animation's definition
+  overrides?: AnimationOverrides;
+}
+
+// Character sheet hints and loop trimming only apply to animation clips
+type TransitionOptions = Omit<AnimateOptions, 'prompt' | 'fps' | 'variables' | 'characterSheet' | 'trimLoop' | 'direction'>;
+
+interface TransitionBatchOptions extends TransitionOptions {
+  // Pairs to blend between, or 'auto' (default) for the usual idle, walk and run changes
+  transitions?: TransitionSpec;
 }
 
+const sharedRateLimiter = new RateLimiter();
+
+// Transitions only bridge two poses, so they are kept short. Veo cannot go below 4s, so its
+// transitions are recorded at 4s and engines should blend over that length
+const DEFAULT_TRANSITION_DURATION = '1s';
+
+// Provider names in the rate-limit table; placeholders make no requests
+const RATE_LIMIT_PROVIDERS: Partial<Record<VideoProvider, string>> = {
+  veo: 'google',
+  runway: 'runway',
+};
+
+// How each facing is described to the video model
+const DIRECTION_PROMPTS: Record<Direction, string> = {
+  N: 'back view, facing away from the camera toward the top of the screen',
+  NE: 'three-quarter back view, facing toward the top right of the screen',
+  E: 'side view, facing right',
+  SE: 'three-quarter front view, facing toward the bottom right of the screen',
+  S: 'front view, facing the camera toward the bottom of the screen',
+  SW: 'three-quarter front view, facing toward the bottom left of the screen',
+  W: 'side view, facing left',
+  NW: 'three-quarter back view, facing toward the top left of the screen',
+};
+
 export async function animateSprite(
   spritePath: string,
   animationType: AnimationType,
@@ -63,16 +91,31 @@ export async function animateSprite(
 ): Promise<VideoGenResult> {
   const {
     duration,
+    prompt: promptTemplate,
+    fps,
+    variables,
     provider = 'veo',
     maxRetries = 3,
     retryDelay = 2000,
+    characterSheet,
+    trimLoop = true,
+    pollInterval,
+    timeout,
+    aspectRatio = '16:9',
+    fallback = DEFAULT_FALLBACK_POLICIES.video,
+    direction,
+    rateLimiter = sharedRateLimiter,
   } = options;
 
-  const animConfig = ANIMATION_PROMPTS[animationType];
+  const providers = resolveVideoProviders(provider);
+  const animConfig = { ...getAnimationConfig(animationType), ...(promptTemplate && { prompt: promptTemplate }), ...(fps && { fps }) };
   const finalDuration = duration || animConfig.duration;
+  const clipName = toDirectionalName(animationType, direction);
+  // Rendered first so a missing variable fails before anything is written or paid for
+  const prompt = buildAnimationPrompt(animationType, animConfig, characterSheet, direction, variables);
 
-  console.log(`[VideoGen] Creating ${animationType} animation from ${spritePath}`);
-  console.log(`[VideoGen] Provider: ${provider}, Duration: ${finalDuration}`);
+  console.log(`[VideoGen] Creating ${clipName} animation from ${spritePath}`);
+  console.log(`[VideoGen] Provider: ${providers.join(' -> ')}, Duration: ${finalDuration}`);
 
   const imageBuffer = await fs.readFile(spritePath);
   const base64Image = imageBuffer.toString('base64');
@@ -80,139 +123,379 @@ export async function animateSprite(
   const animationDir = path.join(outputDir, 'animations');
   await fs.mkdir(animationDir, { recursive: true });
 
-  const prompt = buildAnimationPrompt(animationType, animConfig);
-
-  let lastError: Error | null = null;
+  const videoPath = path.join(animationDir, `${clipName}.mp4`);
+
+  const saveClip = async (clip: GeneratedVideo, servedBy: VideoProvider): Promise<VideoGenResult> => {
+    await fs.writeFile(videoPath, clip.video);
+    console.log(`[VideoGen] Saved ${clipName} animation to ${videoPath}`);
+    return {
+      videoPath,
+      animationType,
+      ...(direction && { direction }),
+      duration: clip.duration,
+      fps: animConfig.fps,
+      provider: servedBy,
+    };
+  };
+  const savePlaceholder = async (): Promise<VideoGenResult> => ({
+    ...(await saveClip({ video: createPlaceholderVideo(clipName), duration: parseDuration(finalDuration) }, 'placeholder')),
+    isPlaceholder: true,
+  });
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      let videoBuffer: Buffer;
-
-      switch (provider) {
-        case 'veo':
-          videoBuffer = await generateWithVeo({
-            prompt,
-            image: base64Image,
-            duration: finalDuration,
-          });
-          break;
-        case 'runway':
-          videoBuffer = await generateWithRunway({
-            prompt,
-            image: base64Image,
-            duration: finalDuration,
-          });
-          break;
-        case 'placeholder':
-        default:
-          videoBuffer = createPlaceholderVideo(animationType);
-          break;
+  const request: VideoRequest = { prompt, image: base64Image, duration: finalDuration, aspectRatio, pollInterval, timeout };
+  const result = await runWithFallback({
+    label: 'VideoGen',
+    providers,
+    alternatives: getSupportedProviders().filter(p => p !== 'placeholder'),
+    policy: fallback,
+    generate: async (name) => {
+      // The placeholder provider needs no API, so there is nothing to retry
+      if (name === 'placeholder') {
+        return savePlaceholder();
       }
+      return saveClip(await generateWithRetries(name as VideoProvider, request, maxRetries, retryDelay, rateLimiter), name as VideoProvider);
+    },
+    placeholder: savePlaceholder,
+  });
 
-      const videoPath = path.join(animationDir, `${animationType}.mp4`);
-      await fs.writeFile(videoPath, videoBuffer);
+  if (animConfig.loop && !result.isPlaceholder) {
+    await checkLoop(result, trimLoop);
+  }
+  return result;
+}
 
-      console.log(`[VideoGen] Saved ${animationType} animation to ${videoPath}`);
+// One clip per facing, in the order the directions are given. Left-facing clips are flipped
+// copies of the right-facing ones when mirroring is on and that facing is also requested.
+export async function animateSpriteDirections(
+  spritePath: string,
+  animationType: AnimationType,
+  outputDir: string,
+  options: DirectionalAnimateOptions = {}
+): Promise<VideoGenResult[]> {
+  const { directions = 8, mirror = true, ...animateOptions } = options;
+  const clips = await settleDirections(spritePath, animationType, outputDir, resolveDirections(directions), mirror, animateOptions);
+  const failed = clips.find((clip): clip is PromiseRejectedResult => clip.status === 'rejected');
+  if (failed) {
+    throw failed.reason;
+  }
+  return clips.map(clip => (clip as PromiseFulfilledResult<VideoGenResult>).value);
+}
 
-      return {
-        videoPath,
-        animationType,
-        duration: parseDuration(finalDuration),
-        fps: animConfig.fps,
-      };
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      console.warn(`[VideoGen] Attempt ${attempt}/${maxRetries} failed: ${lastError.message}`);
+// Generated facings run concurrently; each mirrored facing waits for its source
+function settleDirections(
+  spritePath: string,
+  animationType: AnimationType,
+  outputDir: string,
+  facings: Direction[],
+  mirror: boolean,
+  options: AnimateOptions
+): Promise<PromiseSettledResult<VideoGenResult>[]> {
+  const generate = (direction: Direction) => animateSprite(spritePath, animationType, outputDir, { ...options, direction });
+  const mirrorSourceOf = (direction: Direction): Direction | undefined => {
+    const source = getMirrorSource(direction);
+    return mirror && source && facings.includes(source) ? source : undefined;
+  };
 
-      if (attempt < maxRetries) {
-        const delay = retryDelay * Math.pow(2, attempt - 1);
-        console.log(`[VideoGen] Retrying in ${delay}ms...`);
-        await sleep(delay);
-      }
-    }
+  const clips = new Map<Direction, Promise<VideoGenResult>>();
+  for (const direction of facings.filter(d => !mirrorSourceOf(d))) {
+    clips.set(direction, generate(direction));
+  }
+  for (const direction of facings.filter(d => mirrorSourceOf(d))) {
+    clips.set(direction, clips.get(mirrorSourceOf(direction)!)!.then(source =>
+      mirrorClip(source, direction).catch(error => {
+        // Without ffmpeg the facing is generated like any other
+        console.warn(`[VideoGen] Could not mirror ${toDirectionalName(animationType, source.direction)}, generating ${direction} instead: ${error instanceof Error ? error.message : error}`);
+        return generate(direction);
+      })
+    ));
   }
 
-  // Fallback to placeholder on failure
-  console.warn('[VideoGen] All attempts failed, using placeholder video');
-  const videoBuffer = createPlaceholderVideo(animationType);
-  const videoPath = path.join(animationDir, `${animationType}.mp4`);
-  await fs.writeFile(videoPath, videoBuffer);
+  return Promise.allSettled(facings.map(direction => clips.get(direction)!));
+}
 
-  return {
-    videoPath,
-    animationType,
-    duration: parseDuration(finalDuration),
-    fps: animConfig.fps,
+// Blends the last frame of one clip into the first frame of another. Both clips must share a
+// facing; the result is saved as animations/transitions/<from>_to_<to>.mp4.
+export async function animateTransition(
+  from: VideoGenResult,
+  to: VideoGenResult,
+  outputDir: string,
+  options: TransitionOptions = {}
+): Promise<TransitionResult> {
+  const {
+    duration = DEFAULT_TRANSITION_DURATION,
+    provider = 'veo',
+    maxRetries = 3,
+    retryDelay = 2000,
+    pollInterval,
+    timeout,
+    aspectRatio = '16:9',
+    fallback = DEFAULT_FALLBACK_POLICIES.video,
+    rateLimiter = sharedRateLimiter,
+  } = options;
+
+  const fromName = toDirectionalName(from.animationType, from.direction);
+  const toName = toDirectionalName(to.animationType, to.direction);
+  if (from.direction !== to.direction) {
+    throw new Error(`Cannot blend ${fromName} into ${toName}: both clips must face the same direction`);
+  }
+  const providers = resolveVideoProviders(provider);
+  const clipName = toTransitionName(from.animationType, to.animationType, from.direction);
+
+  console.log(`[VideoGen] Creating ${clipName} transition`);
+  const transitionDir = path.join(outputDir, 'animations', 'transitions');
+  await fs.mkdir(transitionDir, { recursive: true });
+  const videoPath = path.join(transitionDir, `${clipName}.mp4`);
+
+  const saveClip = async (clip: GeneratedVideo, servedBy: VideoProvider): Promise<TransitionResult> => {
+    await fs.writeFile(videoPath, clip.video);
+    console.log(`[VideoGen] Saved ${clipName} transition to ${videoPath}`);
+    return {
+      videoPath,
+      from: from.animationType,
+      to: to.animationType,
+      ...(from.direction && { direction: from.direction }),
+      duration: clip.duration,
+      fps: to.fps,
+      provider: servedBy,
+    };
   };
+  const savePlaceholder = async (): Promise<TransitionResult> => ({
+    ...(await saveClip({ video: createPlaceholderVideo(clipName), duration: parseDuration(duration) }, 'placeholder')),
+    isPlaceholder: true,
+  });
+
+  // A placeholder clip has no frames to blend from
+  const placeholderClip = [from, to].find(clip => clip.isPlaceholder);
+  if (placeholderClip) {
+    return { ...(await savePlaceholder()), fallbackReason: `${placeholderClip === from ? fromName : toName} is a placeholder` };
+  }
+
+  const [startFrame, endFrame] = await readEdgeFrames(from.videoPath, to.videoPath, path.join(transitionDir, `.${clipName}-frames`));
+  const request: VideoRequest = {
+    prompt: buildTransitionPrompt(from.animationType, to.animationType, from.direction),
+    image: startFrame,
+    lastFrame: endFrame,
+    duration,
+    aspectRatio,
+    pollInterval,
+    timeout,
+  };
+  return runWithFallback({
+    label: 'VideoGen',
+    providers,
+    alternatives: getSupportedProviders().filter(p => p !== 'placeholder'),
+    policy: fallback,
+    generate: async (name) => {
+      if (name === 'placeholder') {
+        return savePlaceholder();
+      }
+      return saveClip(await generateWithRetries(name as VideoProvider, request, maxRetries, retryDelay, rateLimiter), name as VideoProvider);
+    },
+    placeholder: savePlaceholder,
+  });
 }
 
-function buildAnimationPrompt(animationType: AnimationType, config: AnimationConfig): string {
-  const basePrompt = `Animate this character sprite: ${config.prompt}`;
-  const constraints = 'Maintain character consistency, smooth motion, game-ready animation.';
-  const style = `Animation type: ${animationType}, seamless looping required.`;
-  
-  return `${basePrompt}. ${constraints} ${style}`;
+// Last frame of the clip being left and first frame of the clip being entered, as base64 PNGs
+async function readEdgeFrames(fromPath: string, toPath: string, workDir: string): Promise<[string, string]> {
+  try {
+    const last = await extractEdgeFrame(fromPath, path.join(workDir, 'from_last.png'), 'last');
+    const first = await extractEdgeFrame(toPath, path.join(workDir, 'to_first.png'), 'first');
+    return [(await fs.readFile(last)).toString('base64'), (await fs.readFile(first)).toString('base64')];
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function mirrorClip(source: VideoGenResult, direction: Direction): Promise<VideoGenResult> {
+  const clipName = toDirectionalName(source.animationType, direction);
+  const videoPath = path.join(path.dirname(source.videoPath), `${clipName}.mp4`);
+
+  if (source.isPlaceholder) {
+    await fs.writeFile(videoPath, createPlaceholderVideo(clipName));
+  } else {
+    await mirrorVideo(source.videoPath, videoPath);
+  }
+  console.log(`[VideoGen] Saved ${clipName} animation to ${videoPath}, mirrored from ${source.direction}`);
+  return { ...source, videoPath, direction, mirroredFrom: source.direction };
+}
+
+// Providers round the requested length to what they can render, e.g. Veo only renders 4, 6 or 8s
+interface GeneratedVideo {
+  video: Buffer;
+  // Seconds actually rendered
+  duration: number;
 }
 
-interface VeoGenerateParams {
+interface VideoRequest {
   prompt: string;
+  // Base64 PNG of the sprite, or the frame a transition starts on
   image: string;
+  // Base64 PNG a transition must end on
+  lastFrame?: string;
   duration: string;
+  aspectRatio: '16:9' | '9:16';
+  pollInterval?: number;
+  timeout?: number;
 }
 
-async function generateWithVeo(params: VeoGenerateParams): Promise<Buffer> {
-  const { prompt, image, duration } = params;
+async function generateWithRetries(
+  provider: VideoProvider,
+  request: VideoRequest,
+  maxRetries: number,
+  retryDelay: number,
+  rateLimiter: RateLimiter
+): Promise<GeneratedVideo> {
+  let lastError: Error | null = null;
 
-  const apiKey = process.env.GOOGLE_API_KEY;
-  if (!apiKey) {
-    throw new Error('GOOGLE_API_KEY environment variable is required for Veo');
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await withRateLimit(rateLimiter, provider, () => generateWithProvider(provider, request));
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      console.warn(`[VideoGen] Attempt ${attempt}/${maxRetries} failed: ${lastError.message}`);
+
+      // A rejected key or request fails the same way every time
+      if (lastError instanceof VideoGenError && !lastError.retryable) {
+        break;
+      }
+
+      if (attempt < maxRetries) {
+        const backoff = retryDelay * Math.pow(2, attempt - 1);
+        const delay = lastError instanceof VideoQuotaError ? Math.max(backoff, lastError.retryAfterMs ?? 0) : backoff;
+        console.log(`[VideoGen] Retrying in ${delay}ms...`);
+        await sleep(delay);
+      }
+    }
   }
 
-  // Veo 3.1 via Gemini API
-  const endpoint = 'https://generativelanguage.googleapis.com/v1beta/models/veo-3.1:generateContent';
+  throw lastError || new Error('Video generation failed after all retries');
+}
 
-  const requestBody = {
-    contents: [{
-      parts: [
-        { text: prompt },
+// The slot is held for the whole Veo operation and released before any retry backoff
+async function withRateLimit<T>(rateLimiter: RateLimiter, provider: VideoProvider, run: () => Promise<T>): Promise<T> {
+  const key = RATE_LIMIT_PROVIDERS[provider];
+  if (!key) {
+    return run();
+  }
+  return rateLimiter.withSlot(key, run);
+}
+
+async function generateWithProvider(provider: VideoProvider, request: VideoRequest): Promise<GeneratedVideo> {
+  switch (provider) {
+    case 'veo': {
+      const video = await generateVeoVideo(
         {
-          inlineData: {
-            mimeType: 'image/png',
-            data: image,
-          },
+          model: process.env.VEO_MODEL || DEFAULT_VEO_MODEL,
+          prompt: request.prompt,
+          image: request.image,
+          lastFrame: request.lastFrame,
+          duration: request.duration,
+          aspectRatio: request.aspectRatio,
         },
-      ],
-    }],
-    generationConfig: {
-      responseModalities: ['VIDEO'],
-      videoDuration: duration,
-    },
-  };
+        { pollInterval: request.pollInterval, timeout: request.timeout }
+      );
+      return { video, duration: toVeoDuration(request.duration) };
+    }
+    case 'runway': {
+      const video = await generateWithRunway({
+        prompt: request.prompt,
+        image: request.image,
+        lastFrame: request.lastFrame,
+        duration: request.duration,
+      });
+      return { video, duration: parseDuration(request.duration) };
+    }
+    default:
+      throw new Error(`Unknown video provider: ${provider}. Supported: ${getSupportedProviders().join(', ')}`);
+  }
+}
 
-  const response = await fetch(`${endpoint}?key=${apiKey}`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(requestBody),
-  });
+// Prompts ask for a seamless loop, but generated clips usually pop where they wrap around
+async function checkLoop(result: VideoGenResult, trim: boolean): Promise<void> {
+  try {
+    result.loop = await detectVideoLoop(result.videoPath, { fps: result.fps, trim });
+    if (result.loop.trimmed) {
+      result.duration = Math.round((result.loop.end - result.loop.start) * 1000) / 1000;
+    }
+    console.log(`[VideoGen] ${result.animationType} loop score ${result.loop.score}${result.loop.trimmed ? `, trimmed to ${result.duration}s` : ''}`);
+  } catch (error) {
+    // Missing ffmpeg or an undecodable clip should not cost the paid-for video
+    console.warn(`[VideoGen] Loop check skipped for ${result.animationType}: ${error instanceof Error ? error.message : error}`);
+  }
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Veo API error (${response.status}): ${errorText}`);
+function buildAnimationPrompt(
+  animationType: AnimationType,
+  config: AnimationDefinition,
+  sheet?: CharacterSheet,
+  direction?: Direction,
+  variables: PromptVariables = {}
+): string {
+  // A requested facing replaces the "side view" framing of prompts such as walk
+  const template = direction ? config.prompt.replace(/,\s*side view[^,]*/gi, '') : config.prompt;
+  const motion = renderPromptTemplate(template, { animation: animationType, ...(sheet && getSheetVariables(sheet)), ...variables });
+  const basePrompt = `Animate this character sprite: ${motion}`;
+  const facing = describeFacing(direction);
+  const constraints = 'Maintain character consistency, smooth motion, game-ready animation.';
+  const style = config.loop
+    ? `Animation type: ${animationType}, seamless looping required.`
+    : `Animation type: ${animationType}, plays once from start to finish, no looping.`;
+  
+  if (!sheet) {
+    return `${basePrompt}.${facing} ${constraints} ${style}`;
   }
+  return `${basePrompt}.${facing} ${describeCharacterMotion(animationType, sheet)} ${constraints} ${style}`;
+}
 
-  const data = await response.json();
+function buildTransitionPrompt(from: AnimationType, to: AnimationType, direction?: Direction): string {
+  const motion = `Animate this character sprite: a short transition from its ${from} animation into its ${to} animation, ` +
+    'starting on the given first frame and ending exactly on the given last frame.';
+  const constraints = 'Maintain character consistency, smooth motion, game-ready animation.';
+  return `${motion}${describeFacing(direction)} ${constraints} Animation type: ${from}_to_${to}, plays once with no loop.`;
+}
+
+function getSheetVariables(sheet: CharacterSheet): PromptVariables {
+  const [weapon] = sheet.equipment;
+  return {
+    name: sheet.name,
+    bodyType: sheet.bodyType,
+    equipment: sheet.equipment.join(', '),
+    ...(weapon && { weapon }),
+  };
+}
+
+function describeFacing(direction?: Direction): string {
+  return direction ? ` Top-down game camera, ${DIRECTION_PROMPTS[direction]} (${direction}); keep this facing throughout.` : '';
+}
 
-  // Extract video from response
-  const videoData = data.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!videoData) {
-    throw new Error('No video data in Veo response');
+// Per-animation hints so a quadruped gallops and a knight swings the sword it actually carries
+function describeCharacterMotion(animationType: AnimationType, sheet: CharacterSheet): string {
+  const character = `The character is ${sheet.name}, a ${sheet.bodyType} (${sheet.silhouette}).`;
+  const [mainItem] = sheet.equipment;
+
+  switch (animationType) {
+    case 'attack':
+      return mainItem ? `${character} It attacks with its ${mainItem}.` : `${character} It attacks with its natural weapons.`;
+    case 'walk':
+    case 'run':
+    case 'jump':
+      return `${character} Movement follows a natural ${sheet.bodyType} gait.`;
+    default:
+      return sheet.equipment.length > 0
+        ? `${character} Keep the ${sheet.equipment.join(', ')} visible throughout.`
+        : character;
   }
+}
 
-  return Buffer.from(videoData, 'base64');
+interface RunwayGenerateParams {
+  prompt: string;
+  image: string;
+  lastFrame?: string;
+  duration: string;
 }
 
-async function generateWithRunway(params: VeoGenerateParams): Promise<Buffer> {
-  const { prompt, image, duration } = params;
+async function generateWithRunway(params: RunwayGenerateParams): Promise<Buffer> {
+  const { prompt, image, lastFrame, duration } = params;
 
   const apiKey = process.env.RUNWAY_API_KEY;
   if (!apiKey) {
@@ -230,6 +513,7 @@ async function generateWithRunway(params: VeoGenerateParams): Promise<Buffer> {
       model: 'gen3a_turbo',
       prompt,
       init_image: `data:image/png;base64,${image}`,
+      ...(lastFrame && { end_image: `data:image/png;base64,${lastFrame}` }),
       duration: parseDuration(duration),
     }),
   });
@@ -273,31 +557,103 @@ export async function createAnimationBatch(
   spritePath: string,
   animations: AnimationType[],
   outputDir: string,
-  options: AnimateOptions = {}
+  options: DirectionalAnimateOptions = {}
 ): Promise<VideoGenResult[]> {
-  const results: VideoGenResult[] = [];
+  const { directions, mirror = true, overrides = {}, ...batchOptions } = options;
+  // A bad direction list is a config error, not a failed animation
+  const facings = directions ? resolveDirections(directions) : undefined;
+
+  // Every clip starts at once; the rate limiter queues requests beyond each provider's
+  // concurrent-request limit
+  const batches = await Promise.all(animations.map(async animationType => {
+    const animateOptions = { ...batchOptions, ...overrides[animationType] };
+    if (!facings) {
+      const [clip] = await Promise.allSettled([animateSprite(spritePath, animationType, outputDir, animateOptions)]);
+      return [{ name: animationType, clip }];
+    }
+    const clips = await settleDirections(spritePath, animationType, outputDir, facings, mirror, animateOptions);
+    return clips.map((clip, i) => ({ name: toDirectionalName(animationType, facings[i]), clip }));
+  }));
 
-  for (const animationType of animations) {
-    try {
-      const result = await animateSprite(spritePath, animationType, outputDir, options);
-      results.push(result);
-    } catch (error) {
-      console.error(`[VideoGen] Failed to create ${animationType} animation:`, error);
-      // Continue with other animations
+  // Results keep the requested order; a failed clip is logged and the others are kept
+  const results: VideoGenResult[] = [];
+  for (const { name, clip } of batches.flat()) {
+    if (clip.status === 'fulfilled') {
+      results.push(clip.value);
+    } else {
+      console.error(`[VideoGen] Failed to create ${name} animation:`, clip.reason);
     }
   }
+  return results;
+}
 
+// One transition per pair and facing, from the clips of createAnimationBatch. Pairs whose clips
+// are missing are skipped, and a failed transition is logged without dropping the others.
+export async function createTransitionBatch(
+  clips: VideoGenResult[],
+  outputDir: string,
+  options: TransitionBatchOptions = {}
+): Promise<TransitionResult[]> {
+  const { transitions = 'auto', ...transitionOptions } = options;
+  const pairs = transitions === 'auto' ? getDefaultTransitions([...new Set(clips.map(clip => clip.animationType))]) : transitions;
+  const facings = [...new Set(clips.map(clip => clip.direction))];
+  const findClip = (animationType: AnimationType, direction?: Direction) =>
+    clips.find(clip => clip.animationType === animationType && clip.direction === direction);
+
+  const jobs = pairs.flatMap(([from, to]) => facings.map(direction => ({
+    name: toTransitionName(from, to, direction),
+    from: findClip(from, direction),
+    to: findClip(to, direction),
+    missing: findClip(from, direction) ? toDirectionalName(to, direction) : toDirectionalName(from, direction),
+  }))).filter((job): job is typeof job & { from: VideoGenResult; to: VideoGenResult } => {
+    if (!job.from || !job.to) {
+      console.warn(`[VideoGen] Skipping ${job.name} transition: no ${job.missing} clip`);
+      return false;
+    }
+    return true;
+  });
+  const settled = await Promise.allSettled(jobs.map(job => animateTransition(job.from, job.to, outputDir, transitionOptions)));
+
+  const results: TransitionResult[] = [];
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      results.push(result.value);
+    } else {
+      console.error(`[VideoGen] Failed to create ${jobs[i].name} transition:`, result.reason);
+    }
+  });
   return results;
 }
 
+// Built-in animations plus any registered from animation packs
 export function getAnimationTypes(): AnimationType[] {
-  return Object.keys(ANIMATION_PROMPTS) as AnimationType[];
+  return getAnimationNames();
 }
 
-export function getAnimationConfig(animationType: AnimationType): AnimationConfig {
-  return { ...ANIMATION_PROMPTS[animationType] };
+export function getAnimationConfig(animationType: AnimationType): AnimationDefinition {
+  const definition = getAnimation(animationType);
+  if (!definition) {
+    throw new Error(`Unknown animation type: ${animationType}. Registered: ${getAnimationTypes().join(', ')}`);
+  }
+  return { ...definition };
 }
 
 export function getSupportedProviders(): VideoProvider[] {
   return ['veo', 'runway', 'placeholder'];
 }
+
+function resolveVideoProviders(provider: ProviderChain<VideoProvider>): VideoProvider[] {
+  const providers = toProviderList(provider, 'video');
+  const unknown = providers.find(name => !getSupportedProviders().includes(name));
+  if (unknown) {
+    throw new Error(`Unknown video provider: ${unknown}. Supported: ${getSupportedProviders().join(', ')}`);
+  }
+  return providers;
+}
+
+export { getDefaultTransitions, parseTransitions, toTransitionName, buildTransitionGraph, toStateMachine, writeStateMachine } from './transitions.js';
+export type { TransitionPair, TransitionSpec, StateMachine } from './transitions.js';
+
+export { generateVeoVideo, submitVeoOperation, waitForVeoOperation, downloadVeoVideo, getVeoVideoUri, DEFAULT_VEO_MODEL } from './veo.js';
+export type { VeoOptions } from './veo.js';
+export { VideoGenError, VideoAuthError, VideoQuotaError, VideoRequestError, VideoServerError, VideoTimeoutError } from './errors.js';
@@ -0,0 +1,115 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getAnimation, toDirectionalName } from '../animations/index.js';
+import type { AnimationType, Direction, TransitionGraph, TransitionResult, VideoGenResult } from '../types.js';
+
+export type TransitionPair = [from: AnimationType, to: AnimationType];
+
+// 'auto' picks the usual state changes among the generated animations
+export type TransitionSpec = 'auto' | TransitionPair[];
+
+// Engine-neutral state machine: each state plays its clip and lists the clips leading to other states
+export interface StateMachine {
+  initial?: string;
+  states: Record<string, {
+    clip: string;
+    loop: boolean;
+    transitions: Record<string, { clip: string; duration: number }>;
+  }>;
+}
+
+// Idle to and from every other looping animation, walk and run both ways, and every
+// one-shot back to idle except death, which ends on its final pose
+export function getDefaultTransitions(animations: readonly AnimationType[]): TransitionPair[] {
+  const pairs: TransitionPair[] = [];
+  const add = (from: AnimationType, to: AnimationType) => {
+    if (animations.includes(from) && animations.includes(to) && !pairs.some(([f, t]) => f === from && t === to)) {
+      pairs.push([from, to]);
+    }
+  };
+
+  for (const animation of animations) {
+    if (animation === 'idle' || animation === 'death') {
+      continue;
+    }
+    if (getAnimation(animation)?.loop) {
+      add('idle', animation);
+      add(animation, 'idle');
+    } else {
+      add(animation, 'idle');
+    }
+  }
+  add('walk', 'run');
+  add('run', 'walk');
+  return pairs;
+}
+
+// 'auto', or comma-separated from:to pairs such as idle:walk,walk:run
+export function parseTransitions(spec: string): TransitionSpec {
+  if (spec.trim().toLowerCase() === 'auto') {
+    return 'auto';
+  }
+  const pairs = spec.split(',').map(part => part.trim()).filter(Boolean).map((part): TransitionPair => {
+    const [from, to, ...rest] = part.split(':').map(name => name.trim());
+    if (!from || !to || rest.length > 0) {
+      throw new Error(`Invalid transition: ${part}. Use from:to pairs, e.g. idle:walk,walk:run`);
+    }
+    if (from === to) {
+      throw new Error(`Invalid transition: ${part}. A transition needs two different animations`);
+    }
+    return [from, to];
+  });
+  if (pairs.length === 0) {
+    throw new Error('Invalid transitions: expected auto or from:to pairs, e.g. idle:walk,walk:run');
+  }
+  return pairs;
+}
+
+// idle_to_walk, or idle_to_walk_NE for a directional set
+export function toTransitionName(from: AnimationType, to: AnimationType, direction?: Direction): string {
+  return toDirectionalName(`${from}_to_${to}`, direction);
+}
+
+export function buildTransitionGraph(clips: VideoGenResult[], transitions: TransitionResult[]): TransitionGraph {
+  const states = clips.map(clip => ({
+    name: toDirectionalName(clip.animationType, clip.direction),
+    videoPath: clip.videoPath,
+    loop: getAnimation(clip.animationType)?.loop ?? false,
+  }));
+  const initial = clips.find(clip => clip.animationType === 'idle') ?? clips[0];
+
+  return {
+    ...(initial && { initial: toDirectionalName(initial.animationType, initial.direction) }),
+    states,
+    transitions: transitions.map(transition => ({
+      from: toDirectionalName(transition.from, transition.direction),
+      to: toDirectionalName(transition.to, transition.direction),
+      videoPath: transition.videoPath,
+      duration: transition.duration,
+    })),
+  };
+}
+
+// Clip paths are made relative to baseDir when one is given
+export function toStateMachine(graph: TransitionGraph, baseDir?: string): StateMachine {
+  const clipPath = (videoPath: string) => baseDir ? path.relative(baseDir, videoPath).split(path.sep).join('/') : videoPath;
+  const states: StateMachine['states'] = {};
+  for (const state of graph.states) {
+    states[state.name] = { clip: clipPath(state.videoPath), loop: state.loop, transitions: {} };
+  }
+  for (const transition of graph.transitions) {
+    const from = states[transition.from];
+    if (from && states[transition.to]) {
+      from.transitions[transition.to] = { clip: clipPath(transition.videoPath), duration: transition.duration };
+    }
+  }
+  return { ...(graph.initial && { initial: graph.initial }), states };
+}
+
+// Writes the state machine as JSON with clip paths relative to the file
+export async function writeStateMachine(graph: TransitionGraph, outputPath: string): Promise<string> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, JSON.stringify(toStateMachine(graph, path.dirname(outputPath)), null, 2));
+  console.log(`[VideoGen] Saved state machine with ${graph.states.length} states and ${graph.transitions.length} transitions to ${outputPath}`);
+  return outputPath;
+}
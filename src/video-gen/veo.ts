@@ -0,0 +1,242 @@
+import type { VeoGeneratedVideos, VeoRequest, VeoResponse } from '../types.js';
+import { VideoAuthError, VideoGenError, VideoQuotaError, VideoRequestError, VideoServerError, VideoTimeoutError } from './errors.js';
+
+export interface VeoOptions {
+  // Defaults to GOOGLE_API_KEY
+  apiKey?: string;
+  // Defaults to VEO_BASE_URL, then the Gemini API
+  baseUrl?: string;
+  // Milliseconds between operation polls (default 10000)
+  pollInterval?: number;
+  // Milliseconds to wait for the operation, and then its download, before giving up (default 600000)
+  timeout?: number;
+}
+
+export const DEFAULT_VEO_MODEL = 'veo-3.1-generate-preview';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const PROVIDER = 'veo';
+// Veo only renders clips of these lengths
+const VEO_DURATIONS = [4, 6, 8];
+
+// Submit, poll until done, then download the first generated sample. Polling and the download
+// share one deadline and retry transient failures in place, so a flaky GET never pays for a
+// second generation
+export async function generateVeoVideo(request: VeoRequest, options: VeoOptions = {}): Promise<Buffer> {
+  const { timeout = 600000 } = options;
+  const deadline = Date.now() + timeout;
+  const operation = await submitVeoOperation(request, options);
+  const finished = await waitForVeoOperation(operation.name, options);
+  return downloadVeoVideo(getVeoVideoUri(finished), { ...options, timeout: Math.max(0, deadline - Date.now()) }, operation.name);
+}
+
+export async function submitVeoOperation(request: VeoRequest, options: VeoOptions = {}): Promise<VeoResponse> {
+  const { apiKey, baseUrl } = resolveOptions(options);
+  const body = {
+    instances: [{
+      prompt: request.prompt,
+      ...(request.image && { image: { bytesBase64Encoded: request.image, mimeType: 'image/png' } }),
+      ...(request.lastFrame && { lastFrame: { bytesBase64Encoded: request.lastFrame, mimeType: 'image/png' } }),
+    }],
+    parameters: {
+      aspectRatio: request.aspectRatio,
+      durationSeconds: toVeoDuration(request.duration),
+    },
+  };
+
+  const operation = await veoFetch<VeoResponse>(`${baseUrl}/models/${request.model}:predictLongRunning`, apiKey, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  if (!operation.name) {
+    throw new VideoServerError('Veo did not return an operation name', PROVIDER);
+  }
+
+  console.log(`[VideoGen] Veo operation ${operation.name} submitted`);
+  return operation;
+}
+
+export async function waitForVeoOperation(name: string, options: VeoOptions = {}): Promise<VeoResponse> {
+  const { apiKey, baseUrl } = resolveOptions(options);
+  const { pollInterval = 10000, timeout = 600000 } = options;
+  const deadline = Date.now() + timeout;
+  let operation: VeoResponse | undefined;
+  let failures = 0;
+  let lastError: VideoGenError | undefined;
+
+  while (!operation?.done) {
+    if (Date.now() >= deadline) {
+      const cause = lastError ? ` (last poll: ${lastError.message})` : '';
+      throw new VideoTimeoutError(`Veo operation ${name} did not finish within ${timeout}ms${cause}`, PROVIDER, name);
+    }
+    await sleep(Math.min(retryDelay(pollInterval, failures, lastError), Math.max(0, deadline - Date.now())));
+    try {
+      operation = await veoFetch<VeoResponse>(`${baseUrl}/${name}`, apiKey);
+      failures = 0;
+      lastError = undefined;
+    } catch (error) {
+      // The operation is still running on Veo's side; a failed poll is retried, never resubmitted
+      if (!(error instanceof VideoGenError && error.retryable)) {
+        throw error;
+      }
+      failures++;
+      lastError = error;
+      console.warn(`[VideoGen] Polling Veo operation ${name} failed, retrying: ${error.message}`);
+      continue;
+    }
+    if (operation.error) {
+      throw operationError(name, operation.error);
+    }
+  }
+
+  console.log(`[VideoGen] Veo operation ${name} finished`);
+  return operation;
+}
+
+// Transient failures are retried with backoff until the timeout; operationName is set on the
+// resulting VideoTimeoutError so the finished clip can still be fetched later
+export async function downloadVeoVideo(uri: string, options: VeoOptions = {}, operationName?: string): Promise<Buffer> {
+  const { apiKey, baseUrl } = resolveOptions(options);
+  const { pollInterval = 10000, timeout = 600000 } = options;
+  const deadline = Date.now() + timeout;
+  // Generated files live behind the API key; never send it to any other host
+  const headers: Record<string, string> = new URL(uri).origin === new URL(baseUrl).origin ? { 'x-goog-api-key': apiKey } : {};
+
+  for (let failures = 0; ; failures++) {
+    try {
+      return await fetchVideo(uri, headers);
+    } catch (error) {
+      if (!(error instanceof VideoGenError && error.retryable)) {
+        throw error;
+      }
+      const delay = retryDelay(pollInterval, failures + 1, error);
+      if (Date.now() + delay >= deadline) {
+        throw new VideoTimeoutError(`Veo video could not be downloaded within ${timeout}ms: ${error.message}`, PROVIDER, operationName);
+      }
+      console.warn(`[VideoGen] Veo download failed, retrying in ${delay}ms: ${error.message}`);
+      await sleep(delay);
+    }
+  }
+}
+
+async function fetchVideo(uri: string, headers: Record<string, string>): Promise<Buffer> {
+  let response: Response;
+  try {
+    response = await fetch(uri, { headers });
+  } catch (error) {
+    throw new VideoServerError(`Veo download failed: ${error instanceof Error ? error.message : error}`, PROVIDER);
+  }
+  if (!response.ok) {
+    throw await httpError(response);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export function getVeoVideoUri(operation: VeoResponse): string {
+  const videos: VeoGeneratedVideos = operation.response?.generateVideoResponse ?? operation.response ?? {};
+  const uri = videos.generatedSamples?.[0]?.video?.uri;
+  if (uri) {
+    return uri;
+  }
+  if (videos.raiMediaFilteredCount) {
+    const reasons = videos.raiMediaFilteredReasons?.join('; ') || 'no reason given';
+    throw new VideoRequestError(`Veo safety filters blocked the video: ${reasons}`, PROVIDER);
+  }
+  throw new VideoServerError(`Veo operation ${operation.name} finished without a video`, PROVIDER);
+}
+
+function resolveOptions(options: VeoOptions): { apiKey: string; baseUrl: string } {
+  const apiKey = options.apiKey ?? process.env.GOOGLE_API_KEY;
+  if (!apiKey) {
+    throw new VideoAuthError('GOOGLE_API_KEY environment variable is required for Veo', PROVIDER);
+  }
+  const baseUrl = (options.baseUrl || process.env.VEO_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  return { apiKey, baseUrl };
+}
+
+async function veoFetch<T>(url: string, apiKey: string, init: { method?: string; body?: string } = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+    });
+  } catch (error) {
+    throw new VideoServerError(`Veo request failed: ${error instanceof Error ? error.message : error}`, PROVIDER);
+  }
+  if (!response.ok) {
+    throw await httpError(response);
+  }
+  return await response.json() as T;
+}
+
+async function httpError(response: Response): Promise<VideoGenError> {
+  const text = await response.text();
+  let message = text;
+  try {
+    message = JSON.parse(text).error?.message ?? text;
+  } catch {
+    // Not JSON, keep the raw body
+  }
+
+  const { status } = response;
+  const description = `Veo API error (${status}): ${message}`;
+  if (status === 401 || status === 403) {
+    return new VideoAuthError(description, PROVIDER, status);
+  }
+  if (status === 429) {
+    return new VideoQuotaError(description, PROVIDER, status, parseRetryAfter(response.headers.get('retry-after')));
+  }
+  if (status >= 500) {
+    return new VideoServerError(description, PROVIDER, status);
+  }
+  return new VideoRequestError(description, PROVIDER, status);
+}
+
+// Operations report failures with google.rpc.Status codes rather than HTTP statuses
+function operationError(name: string, error: NonNullable<VeoResponse['error']>): VideoGenError {
+  const description = `Veo operation ${name} failed (${error.status ?? error.code}): ${error.message}`;
+  switch (error.code) {
+    case 7:
+    case 16:
+      return new VideoAuthError(description, PROVIDER);
+    case 8:
+      return new VideoQuotaError(description, PROVIDER);
+    case 3:
+    case 5:
+    case 9:
+    case 11:
+      return new VideoRequestError(description, PROVIDER);
+    default:
+      return new VideoServerError(description, PROVIDER);
+  }
+}
+
+// Doubles the wait after each consecutive failure, honouring Retry-After on quota errors
+function retryDelay(interval: number, failures: number, error?: VideoGenError): number {
+  const backoff = interval * 2 ** failures;
+  return error instanceof VideoQuotaError ? Math.max(backoff, error.retryAfterMs ?? 0) : backoff;
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Rounds up to the nearest length Veo can render, e.g. a 1s hurt clip is rendered at 4s
+export function toVeoDuration(duration: string): number {
+  const match = duration.match(/(\d+(?:\.\d+)?)\s*s/i);
+  const seconds = match ? parseFloat(match[1]) : VEO_DURATIONS[0];
+  return VEO_DURATIONS.find(length => length >= seconds) ?? VEO_DURATIONS[VEO_DURATIONS.length - 1];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
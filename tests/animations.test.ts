@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  getAnimation,
+  getAnimationNames,
+  registerAnimation,
+  unregisterAnimation,
+  parseAnimationPack,
+  loadAnimationPack,
+  loadAnimationPacksFromEnv,
+  findUnknownAnimations,
+  resolveDirections,
+  parseDirections,
+  getMirrorSource,
+  toDirectionalName,
+  parseDirectionalName,
+  renderPromptTemplate,
+  parsePromptVariables,
+  parseAnimationOverrides,
+} from '../src/animations/index.js';
+import { getAnimationConfig } from '../src/video-gen/index.js';
+import { isLoopingAnimation } from '../src/sprite-sheet/index.js';
+
+describe('Animations Module', () => {
+  const tempDir = path.join(__dirname, '.temp-animation-pack-test');
+
+  beforeEach(async () => {
+    await fs.mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    unregisterAnimation('moonwalk');
+    unregisterAnimation('idle');
+    delete process.env.ANIMATION_PACKS;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('built-in animations', () => {
+    it('should include combat, movement and emote animations', () => {
+      expect(getAnimationNames()).toEqual(expect.arrayContaining(['cast', 'block', 'dodge', 'emote', 'crouch', 'climb', 'swim', 'fly']));
+      expect(getAnimation('fly')).toMatchObject({ loop: true, requiredBones: ['Wing'] });
+      expect(getAnimation('dodge')).toMatchObject({ loop: false, fps: 30 });
+    });
+
+    it('should restore a built-in when its override is unregistered', () => {
+      registerAnimation('idle', { prompt: 'house idle', duration: '2s', fps: 12, loop: true });
+      expect(getAnimationConfig('idle').prompt).toBe('house idle');
+
+      expect(unregisterAnimation('idle')).toBe(false);
+      expect(getAnimationConfig('idle').fps).toBe(24);
+    });
+  });
+
+  describe('animation packs', () => {
+    it('should parse JSON and YAML packs and fill in defaults', () => {
+      const fromJson = parseAnimationPack('{"animations": {"moonwalk": {"prompt": "moonwalk", "duration": "4s", "fps": 24}}}', 'json');
+      const fromYaml = parseAnimationPack('animations:\n  moonwalk:\n    prompt: moonwalk\n    duration: 4s\n    fps: 24\n', 'yaml');
+
+      expect(fromJson).toEqual(fromYaml);
+      expect(fromJson.animations.moonwalk).toEqual({ prompt: 'moonwalk', duration: '4s', fps: 24, loop: false });
+    });
+
+    it('should report every invalid field', () => {
+      expect(() =>
+        parseAnimationPack('{"animations": {"bad": {"prompt": "", "duration": "4", "fps": 24, "speed": 2}}}', 'json', 'moves.json')
+      ).toThrow(/Invalid moves\.json: animations\.bad\.prompt: .*; animations\.bad\.duration: .*; animations\.bad: Unrecognized key/);
+      expect(() => parseAnimationPack('animations: {}', 'yaml')).toThrow('An animation pack needs at least one animation');
+    });
+
+    it('should register pack animations for video generation and sprite sheets', async () => {
+      const packPath = path.join(tempDir, 'moves.yaml');
+      await fs.writeFile(packPath, [
+        'animations:',
+        '  moonwalk:',
+        '    description: Backwards glide',
+        '    prompt: "moonwalk dance, seamless loop"',
+        '    duration: 4s',
+        '    fps: 24',
+        '    loop: true',
+      ].join('\n'));
+
+      expect(await loadAnimationPack(packPath)).toEqual(['moonwalk']);
+      expect(getAnimationConfig('moonwalk')).toMatchObject({ duration: '4s', loop: true });
+      expect(isLoopingAnimation('moonwalk')).toBe(true);
+      expect(findUnknownAnimations(['idle', 'moonwalk', 'backflip', 'backflip'])).toEqual(['backflip']);
+    });
+
+    it('should load packs listed in ANIMATION_PACKS', async () => {
+      const packPath = path.join(tempDir, 'moves.json');
+      await fs.writeFile(packPath, JSON.stringify({ animations: { moonwalk: { prompt: 'moonwalk', duration: '2s', fps: 24 } } }));
+      process.env.ANIMATION_PACKS = packPath;
+
+      expect(await loadAnimationPacksFromEnv()).toEqual(['moonwalk']);
+      expect(getAnimationNames()).toContain('moonwalk');
+    });
+
+    it('should reject unsupported pack formats', async () => {
+      await expect(loadAnimationPack(path.join(tempDir, 'moves.txt'))).rejects.toThrow('Unsupported animation pack format: .txt');
+    });
+  });
+
+  describe('directions', () => {
+    it('should expand 4- and 8-way sets', () => {
+      expect(resolveDirections(4)).toEqual(['N', 'E', 'S', 'W']);
+      expect(resolveDirections(8)).toEqual(['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW']);
+      expect(resolveDirections(['S', 'N', 'S'])).toEqual(['S', 'N']);
+      expect(parseDirections('8')).toHaveLength(8);
+      expect(parseDirections('n, se')).toEqual(['N', 'SE']);
+    });
+
+    it('should reject unknown directions', () => {
+      expect(() => parseDirections('N,UP')).toThrow('Invalid direction: UP');
+      expect(() => resolveDirections([])).toThrow('Invalid directions');
+      expect(() => resolveDirections(6 as never)).toThrow('Use 4, 8 or a list');
+    });
+
+    it('should only mirror left-facing directions', () => {
+      expect(getMirrorSource('W')).toBe('E');
+      expect(getMirrorSource('NW')).toBe('NE');
+      expect(getMirrorSource('SW')).toBe('SE');
+      expect(getMirrorSource('N')).toBeUndefined();
+      expect(getMirrorSource('E')).toBeUndefined();
+    });
+
+    it('should name directional clips and split the names again', () => {
+      expect(toDirectionalName('walk', 'NE')).toBe('walk_NE');
+      expect(toDirectionalName('walk')).toBe('walk');
+      expect(parseDirectionalName('walk_NE')).toEqual({ animationType: 'walk', direction: 'NE' });
+      expect(parseDirectionalName('walk')).toEqual({ animationType: 'walk' });
+
+      registerAnimation('moonwalk_N', { prompt: 'moonwalk', duration: '2s', fps: 24, loop: true });
+      try {
+        expect(parseDirectionalName('moonwalk_N')).toEqual({ animationType: 'moonwalk_N' });
+      } finally {
+        unregisterAnimation('moonwalk_N');
+      }
+    });
+  });
+
+  describe('prompt templates', () => {
+    it('should fill variables and fallbacks', () => {
+      const variables = { character: 'a pixel knight', weapon: 'longsword' };
+      expect(renderPromptTemplate('{{character}} swings {{ weapon }}', variables)).toBe('a pixel knight swings longsword');
+      expect(renderPromptTemplate('{{character}} raises {{shield|its shield}}', variables)).toBe('a pixel knight raises its shield');
+      expect(renderPromptTemplate('no placeholders here')).toBe('no placeholders here');
+    });
+
+    it('should name every missing variable', () => {
+      expect(() => renderPromptTemplate('{{character}} swings {{weapon}} at {{target}}', { character: 'knight' }))
+        .toThrow('Missing prompt variables: weapon, target. Available: character');
+    });
+
+    it('should parse variables and per-animation overrides', () => {
+      expect(parsePromptVariables(['weapon=flaming sword', 'mood=a=b'])).toEqual({ weapon: 'flaming sword', mood: 'a=b' });
+      expect(() => parsePromptVariables(['weapon'])).toThrow('Invalid prompt variable: weapon');
+
+      expect(parseAnimationOverrides(['attack.prompt={{character}} swings {{weapon}}', 'attack.fps=12', 'idle.duration=2s'])).toEqual({
+        attack: { prompt: '{{character}} swings {{weapon}}', fps: 12 },
+        idle: { duration: '2s' },
+      });
+      expect(() => parseAnimationOverrides(['attack.speed=2'])).toThrow('Invalid animation override: attack.speed=2');
+      expect(() => parseAnimationOverrides(['attack.fps=fast'])).toThrow('Invalid animation overrides: attack.fps');
+    });
+  });
+});
@@ -1,8 +1,13 @@
 import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
 import { 
   validateBatchConfig, 
   createBatchConfigTemplate,
+  runBatchGeneration,
 } from '../src/batch/index.js';
+import { registerImageProvider, unregisterImageProvider } from '../src/image-gen/index.js';
 
 describe('Batch Module', () => {
   describe('validateBatchConfig', () => {
@@ -51,6 +56,19 @@ describe('Batch Module', () => {
       expect(validateBatchConfig('string')).toBe(false);
       expect(validateBatchConfig(123)).toBe(false);
     });
+
+    it('should reject seeds providers cannot take', () => {
+      const withSeed = (seed: unknown) => ({
+        characters: [{ name: 'knight', prompt: 'pixel knight', seed }],
+        outputDir: './output',
+      });
+
+      expect(validateBatchConfig(withSeed(42))).toBe(true);
+      expect(validateBatchConfig(withSeed(2 ** 32 - 1))).toBe(true);
+      for (const seed of ['42', 1.5, -1, 2 ** 32, 2 ** 40]) {
+        expect(validateBatchConfig(withSeed(seed))).toBe(false);
+      }
+    });
   });
 
   describe('createBatchConfigTemplate', () => {
@@ -144,4 +162,101 @@ describe('Batch Module', () => {
       expect(validateBatchConfig(fullConfig)).toBe(true);
     });
   });
+
+  describe('runBatchGeneration', () => {
+    it('should reject unknown styles before generating anything', async () => {
+      await expect(runBatchGeneration({
+        characters: [{ name: 'knight', prompt: 'knight', style: 'gameboy' }],
+        outputDir: './output/never-created',
+      })).rejects.toThrow('Unknown styles: gameboy');
+    });
+
+    it('should reject unknown animations before generating anything', async () => {
+      await expect(runBatchGeneration({
+        characters: [{ name: 'knight', prompt: 'knight', animations: ['idle', 'moonwalk'] }],
+        outputDir: './output/never-created',
+      })).rejects.toThrow('Unknown animations: moonwalk');
+    });
+
+    it('should reject invalid animation overrides before generating anything', async () => {
+      await expect(runBatchGeneration({
+        characters: [{ name: 'knight', prompt: 'knight', animationOverrides: { attack: { fps: 0 } } }],
+        outputDir: './output/never-created',
+      })).rejects.toThrow('Invalid animationOverrides for knight: attack.fps');
+      await expect(runBatchGeneration({
+        characters: [{ name: 'knight', prompt: 'knight', animationOverrides: { moonwalk: { fps: 12 } } }],
+        outputDir: './output/never-created',
+      })).rejects.toThrow('Unknown animations: moonwalk');
+    });
+
+    it('should reject invalid seeds before generating anything', async () => {
+      await expect(runBatchGeneration({
+        characters: [{ name: 'knight', prompt: 'knight', seed: 2 ** 40 }],
+        outputDir: './output/never-created',
+      })).rejects.toThrow('Invalid seed for knight: 1099511627776');
+    });
+
+    it('should reject transitions between unknown animations', async () => {
+      await expect(runBatchGeneration({
+        characters: [{ name: 'knight', prompt: 'knight', animations: ['idle', 'walk'], transitions: [['idle', 'moonwalk']] }],
+        outputDir: './output/never-created',
+      })).rejects.toThrow('Unknown animations: moonwalk');
+    });
+
+    it('should refuse flagged prompts without generating them', async () => {
+      const outputDir = path.join(__dirname, '.temp-batch-moderation-test');
+      try {
+        const result = await runBatchGeneration({
+          characters: [{ name: 'plumber', prompt: 'mario in a red cap' }],
+          outputDir,
+        });
+
+        expect(result).toMatchObject({ total: 1, successful: 0, failed: 1 });
+        expect(result.results[0].error).toContain('trademarked character "mario"');
+        expect(result.results[0].violations?.[0]).toMatchObject({ type: 'trademark', term: 'mario' });
+      } finally {
+        await fs.rm(outputDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should stop before generating anything when continueOnError is off', async () => {
+      await expect(runBatchGeneration({
+        characters: [{ name: 'plumber', prompt: 'mario in a red cap' }],
+        outputDir: './output/never-created',
+        options: { continueOnError: false },
+      })).rejects.toThrow('Prompt moderation failed for plumber');
+    });
+
+    it('should reject invalid fallback policies before generating anything', async () => {
+      await expect(runBatchGeneration({
+        characters: [{ name: 'knight', prompt: 'knight' }],
+        outputDir: './output/never-created',
+        fallback: { video: 'retry' as never },
+      })).rejects.toThrow('Invalid fallback policy for video: retry');
+    });
+
+    it('should report placeholder clips as degraded outputs', async () => {
+      const outputDir = path.join(__dirname, '.temp-batch-fallback-test');
+      const image = await sharp({ create: { width: 8, height: 8, channels: 4, background: { r: 200, g: 0, b: 0, alpha: 1 } } }).png().toBuffer();
+      registerImageProvider('in-house', { generate: async () => ({ image, metadata: {} }) });
+      try {
+        const result = await runBatchGeneration({
+          characters: [{ name: 'knight', prompt: 'knight', animations: ['idle'] }],
+          outputDir,
+          providers: { image: 'in-house', video: 'placeholder' },
+          options: { skipRigging: true, cache: false },
+        });
+
+        expect(result).toMatchObject({ total: 1, successful: 1, failed: 0, degraded: 1 });
+        expect(result.results[0].degraded).toEqual([
+          { stage: 'video', name: 'idle', path: path.join(outputDir, 'knight', 'animations', 'idle.mp4'), isPlaceholder: true },
+        ]);
+        const report = JSON.parse(await fs.readFile(path.join(outputDir, 'batch-report.json'), 'utf-8'));
+        expect(report.degraded).toBe(1);
+      } finally {
+        unregisterImageProvider('in-house');
+        await fs.rm(outputDir, { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeAll } from 'vitest';
-import { execSync } from 'child_process';
+import { exec, execSync } from 'child_process';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
 import path from 'path';
+import sharp from 'sharp';
 
 const CLI_PATH = path.join(__dirname, '../src/cli/index.ts');
 const runCli = (args: string) => {
@@ -10,6 +14,40 @@ const runCli = (args: string) => {
   });
 };
 
+// Runs the CLI without blocking, so a mock server in this process can answer it
+const runCliAsync = (args: string, env: Record<string, string>) => {
+  return new Promise<void>((resolve, reject) => {
+    exec(`npx tsx ${CLI_PATH} ${args}`, { env: { ...process.env, NODE_ENV: 'test', ...env } }, error => (error ? reject(error) : resolve()));
+  });
+};
+
+// Stands in for Automatic1111: each seed gets its own solid colour and is echoed back in info.
+// Prompts matching failOn get a 500 instead. Every request's endpoint and prompt is recorded.
+const startMockAutomatic1111 = async (failOn?: RegExp) => {
+  const requests: { endpoint: string; prompt: string }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const { seed, prompt } = JSON.parse(body);
+      requests.push({ endpoint: path.basename(req.url ?? ''), prompt });
+      if (failOn?.test(prompt)) {
+        res.statusCode = 500;
+        res.end('backend crashed');
+        return;
+      }
+      const image = await sharp({
+        create: { width: 64, height: 64, channels: 3, background: { r: (seed * 40) % 256, g: 80, b: 120 } },
+      }).png().toBuffer();
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ images: [image.toString('base64')], info: JSON.stringify({ seed }) }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+  return { server, url: `http://127.0.0.1:${port}`, requests };
+};
+
 describe('CLI', () => {
   describe('help command', () => {
     it('should display help information', () => {
@@ -70,6 +108,36 @@ describe('CLI', () => {
       expect(output).toContain('veo');
       expect(output).toContain('tripo');
     });
+
+    it('should list styles from a style pack', () => {
+      const packPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'style-pack-')), 'house.json');
+      fs.writeFileSync(packPath, JSON.stringify({
+        styles: { 'dark-souls-like': { description: 'Grim dark fantasy', prefix: 'grim dark fantasy, ' } },
+      }));
+
+      const output = runCli(`--style-pack ${packPath} list --styles`);
+      expect(output).toContain('dark-souls-like: Grim dark fantasy');
+      expect(output).toContain('pixel');
+      fs.rmSync(path.dirname(packPath), { recursive: true, force: true });
+    });
+
+    it('should list animations from an animation pack', () => {
+      const packPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'animation-pack-')), 'moves.json');
+      fs.writeFileSync(packPath, JSON.stringify({
+        animations: { moonwalk: { description: 'Backwards glide', prompt: 'moonwalk dance, seamless loop', duration: '4s', fps: 24, loop: true } },
+      }));
+
+      const output = runCli(`--animation-pack ${packPath} list --animations`);
+      expect(output).toContain('moonwalk (loop): Backwards glide');
+      expect(output).toContain('cast (one-shot)');
+      fs.rmSync(path.dirname(packPath), { recursive: true, force: true });
+    });
+
+    it('should list pixel-art palettes', () => {
+      const output = runCli('list --palettes');
+      expect(output).toContain('pico-8');
+      expect(output).toContain('gameboy');
+    });
   });
 
   describe('check command', () => {
@@ -90,9 +158,246 @@ describe('CLI', () => {
       expect(output).toContain('--animations');
       expect(output).toContain('--skeleton');
       expect(output).toContain('--output');
+      expect(output).toContain('--seed');
+    });
+
+    it('should display image-gen seed option', () => {
+      const output = runCli('image-gen --help');
+      expect(output).toContain('--seed');
+    });
+
+    it('should display pixel-art options', () => {
+      const output = runCli('image-gen --help');
+      expect(output).toContain('--palette');
+      expect(output).toContain('--pixel-resolution');
+    });
+
+    it('should display image-gen reference options', () => {
+      const output = runCli('image-gen --help');
+      expect(output).toContain('--reference <path>');
+      expect(output).toContain('--reference-strength');
+    });
+
+    it('should display turnaround options', () => {
+      expect(runCli('image-gen --help')).toContain('--turnaround');
+      expect(runCli('generate --help')).toContain('--turnaround');
+      expect(runCli('rig-3d --help')).toContain('--view <view=path>');
+    });
+  });
+
+  describe('cache command', () => {
+    it('should list and clear an empty cache', () => {
+      const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-cache-'));
+
+      expect(runCli(`--cache-dir ${cacheDir} cache ls`)).toContain('(empty)');
+      expect(runCli(`--cache-dir ${cacheDir} cache clear`)).toContain('Removed 0 cached image(s)');
+      expect(fs.existsSync(cacheDir)).toBe(false);
+    });
+
+    it('should reject an invalid prune age', () => {
+      try {
+        runCli('cache prune --older-than soon');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid age');
+      }
+    });
+  });
+
+  describe('preview command', () => {
+    it('should write an animated GIF from a folder of frames', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'preview-'));
+      const framesDir = path.join(dir, 'walk');
+      fs.mkdirSync(framesDir);
+      for (let i = 0; i < 3; i++) {
+        await sharp({ create: { width: 16, height: 16, channels: 4, background: { r: 80 * i, g: 0, b: 0, alpha: 1 } } })
+          .png()
+          .toFile(path.join(framesDir, `frame_${i}.png`));
+      }
+
+      runCli(`preview -i ${framesDir} -o ${dir} --delay 50`);
+      const previewPath = path.join(dir, 'walk.gif');
+
+      const metadata = await sharp(previewPath, { animated: true }).metadata();
+      expect(metadata.pages).toBe(3);
+      expect(metadata.delay).toEqual([50, 50, 50]);
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should reject an unknown preview format', () => {
+      try {
+        runCli('preview -i missing.mp4 -f bmp');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid preview format');
+      }
+    });
+  });
+
+  describe('sprite-sheet command', () => {
+    it('should pack a folder of frames with engine metadata', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sprite-sheet-'));
+      const framesDir = path.join(dir, 'jump');
+      fs.mkdirSync(framesDir);
+      for (let i = 0; i < 4; i++) {
+        await sharp({ create: { width: 16, height: 16, channels: 4, background: { r: 0, g: 60 * i, b: 0, alpha: 1 } } })
+          .png()
+          .toFile(path.join(framesDir, `frame_${i}.png`));
+      }
+
+      const output = runCli(`sprite-sheet -i ${framesDir} -o ${dir} -m json-array,godot --frame-duration 80 --no-loop`);
+      expect(output).toContain('godot:');
+
+      const array = JSON.parse(fs.readFileSync(path.join(dir, 'jump_spritesheet.array.json'), 'utf-8'));
+      expect(array.frames).toHaveLength(4);
+      expect(array.frames[0].duration).toBe(80);
+      expect(fs.readFileSync(path.join(dir, 'jump_spritesheet.tres'), 'utf-8')).toContain('"loop": false');
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should reject unknown metadata formats', () => {
+      try {
+        runCli('sprite-sheet -i missing.mp4 -m cocos');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid metadata formats: cocos');
+      }
+    });
+  });
+
+  describe('atlas command', () => {
+    it('should pack several frame folders into one atlas', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'atlas-'));
+      for (const name of ['idle', 'attack']) {
+        fs.mkdirSync(path.join(dir, name));
+        for (let i = 0; i < 3; i++) {
+          await sharp({ create: { width: 32, height: 32, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+            .composite([{ input: { create: { width: 8 + i, height: 12, channels: 4, background: { r: 200, g: 40 * i, b: 0, alpha: 1 } } }, left: 4, top: 4 }])
+            .png()
+            .toFile(path.join(dir, name, `frame_${i}.png`));
+        }
+      }
+
+      const output = runCli(`atlas -i ${path.join(dir, 'idle')} swing=${path.join(dir, 'attack')} -o ${dir} -n hero -m json-hash,aseprite --pot --one-shot swing`);
+      expect(output).toContain('6 frames');
+
+      const hash = JSON.parse(fs.readFileSync(path.join(dir, 'hero.json'), 'utf-8'));
+      expect(Object.keys(hash.animations)).toEqual(['idle', 'swing']);
+      expect(hash.frames.swing_2.trimmed).toBe(true);
+      expect(hash.meta.size.w & (hash.meta.size.w - 1)).toBe(0);
+      const aseprite = JSON.parse(fs.readFileSync(path.join(dir, 'hero.aseprite.json'), 'utf-8'));
+      expect(aseprite.meta.frameTags[1]).toMatchObject({ name: 'swing', repeat: '1' });
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should reject unknown atlas image formats', () => {
+      try {
+        runCli('atlas -i missing -f gif');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid atlas format: gif');
+      }
     });
   });
 
+  describe('candidate pick', () => {
+    it('should record the seed of the picked candidate', async () => {
+      const { server, url } = await startMockAutomatic1111();
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-pick-'));
+
+      try {
+        await runCliAsync(
+          `--quiet generate -p "test knight" --image-provider local-sd --seed 100 --candidates 3 --pick 2 --skip-animation --skip-rigging --no-post-process --no-cache -o ${outputDir}`,
+          { LOCAL_SD_URL: url }
+        );
+
+        const [characterDir] = fs.readdirSync(outputDir);
+        const metadata = JSON.parse(fs.readFileSync(path.join(outputDir, characterDir, 'metadata.json'), 'utf-8'));
+        const rankTwo = metadata.imageGen.candidates.find((candidate: { rank: number }) => candidate.rank === 2);
+        expect(metadata.imageGen.metadata.seed).toBe(rankTwo.metadata.seed);
+        expect(metadata.metadata.config.seed).toBe(rankTwo.metadata.seed);
+        expect(metadata.metadata.config.candidates).toBe(3);
+        expect(metadata.metadata.config.candidateSeed).toBe(100);
+      } finally {
+        server.close();
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    }, 60000);
+  });
+
+  describe('image-gen turnaround', () => {
+    it('should generate the front view from the references and candidates', async () => {
+      const { server, url, requests } = await startMockAutomatic1111();
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-turnaround-'));
+      const referencePath = path.join(outputDir, 'concept.png');
+      await sharp({ create: { width: 32, height: 32, channels: 3, background: { r: 200, g: 0, b: 0 } } }).png().toFile(referencePath);
+
+      try {
+        await runCliAsync(
+          `--quiet image-gen -p "test knight" --provider local-sd --turnaround --reference ${referencePath} --candidates 2 --seed 100 --no-post-process --no-cache -o ${outputDir}`,
+          { LOCAL_SD_URL: url }
+        );
+
+        const frontRequests = requests.filter(request => !request.prompt.includes(' view,'));
+        expect(frontRequests).toHaveLength(2);
+        expect(frontRequests.every(request => request.endpoint === 'img2img')).toBe(true);
+        // The picked front is reused, so only the other angles are generated afterwards
+        expect(requests.some(request => request.prompt.includes('front view'))).toBe(false);
+        expect(requests.filter(request => request.prompt.includes(' view,'))).toHaveLength(3);
+        expect(fs.existsSync(path.join(outputDir, 'sprite_1.png'))).toBe(true);
+        expect(fs.existsSync(path.join(outputDir, 'turnaround.png'))).toBe(true);
+      } finally {
+        server.close();
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    }, 60000);
+  });
+
+  describe('turnaround in the pipeline', () => {
+    it('should apply the image fallback policy to the extra views', async () => {
+      const { server, url } = await startMockAutomatic1111(/back view/);
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-turnaround-'));
+
+      try {
+        await runCliAsync(
+          `--quiet generate -p "test knight" --image-provider local-sd --turnaround --skip-animation --rigging-provider placeholder --fallback image=placeholder --no-post-process --no-cache -o ${outputDir}`,
+          { LOCAL_SD_URL: url }
+        );
+
+        const [characterDir] = fs.readdirSync(outputDir);
+        const metadata = JSON.parse(fs.readFileSync(path.join(outputDir, characterDir, 'metadata.json'), 'utf-8'));
+        expect(metadata.turnaround.views.side.provider).toBe('local-sd');
+        expect(metadata.turnaround.views.back).toMatchObject({ isPlaceholder: true, provider: 'placeholder' });
+        // The placeholder back view is left out of the reconstruction
+        expect(metadata.rigging.sourceViews).toEqual(['front', 'three-quarter', 'side']);
+      } finally {
+        server.close();
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    }, 60000);
+
+    it('should fail the run when a view fails under the fail policy', async () => {
+      const { server, url } = await startMockAutomatic1111(/back view/);
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-turnaround-'));
+
+      try {
+        const error = await runCliAsync(
+          `generate -p "test knight" --image-provider local-sd --turnaround --skip-animation --rigging-provider placeholder --fallback image=fail --no-post-process --no-cache -o ${outputDir}`,
+          { LOCAL_SD_URL: url }
+        ).catch(e => e);
+
+        expect(error).toBeInstanceOf(Error);
+        expect(String(error.stderr ?? error)).toContain('Turnaround generation failed: ');
+        expect(String(error.stderr ?? error)).toContain('500');
+        const [characterDir] = fs.readdirSync(outputDir);
+        expect(fs.existsSync(path.join(outputDir, characterDir, 'metadata.json'))).toBe(false);
+      } finally {
+        server.close();
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    }, 60000);
+  });
+
   describe('validation', () => {
     it('should reject invalid style', () => {
       try {
@@ -103,6 +408,34 @@ describe('CLI', () => {
       }
     });
 
+    it('should reject invalid seed', () => {
+      try {
+        runCli('image-gen -p "test" --seed -5');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid seed');
+      }
+    });
+
+    it('should reject seeds of 2^32 and above', () => {
+      try {
+        runCli('image-gen -p "test" --seed 4294967296');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid seed: 4294967296. Seed must be an integer from 0 to 4294967295');
+      }
+    });
+
+    it('should refuse flagged prompts before generating', () => {
+      try {
+        runCli('image-gen -p "pikachu with a sword"');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Prompt rejected by moderation');
+        expect(String(error)).toContain('[trademark]');
+      }
+    });
+
     it('should reject invalid animation type', () => {
       try {
         runCli('generate -p "test" -a invalid-anim');
@@ -111,5 +444,50 @@ describe('CLI', () => {
         expect(String(error)).toContain('Invalid animation');
       }
     });
+
+    it('should reject an unknown fallback policy', () => {
+      try {
+        runCli('generate -p "test" --fallback video=retry');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid fallback policy for video: retry');
+      }
+    });
+
+    it('should reject unknown providers in a chain', () => {
+      try {
+        runCli('generate -p "test" --video-provider veo,sora');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid video provider: sora');
+      }
+    });
+
+    it('should reject unknown directions', () => {
+      try {
+        runCli('animate -i sprite.png -t walk --directions N,UP');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid direction: UP');
+      }
+    });
+
+    it('should reject unknown animation override fields', () => {
+      try {
+        runCli('animate -i sprite.png -t attack --animation-override attack.speed=2');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid animation override: attack.speed=2');
+      }
+    });
+
+    it('should reject transitions between unknown animations', () => {
+      try {
+        runCli('animate -i sprite.png -t idle,walk --transitions idle:moonwalk');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(String(error)).toContain('Invalid animations in transitions: moonwalk');
+      }
+    });
   });
 });
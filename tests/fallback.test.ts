@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_FALLBACK_POLICIES,
+  findDegradedOutputs,
+  formatDegradedOutput,
+  getFallbackPolicies,
+  isRetryableError,
+  parseFallbackPolicies,
+  parseProviderChain,
+  ProviderUnavailableError,
+  resolveFallbackPolicies,
+  resolveProviderChains,
+  runWithFallback,
+} from '../src/fallback/index.js';
+import type { FallbackInfo } from '../src/types.js';
+
+interface Output extends FallbackInfo {
+  provider: string;
+}
+
+describe('Fallback Module', () => {
+  const failing = (...names: string[]) => vi.fn(async (provider: string): Promise<Output> => {
+    if (names.includes(provider)) {
+      throw new Error(`${provider} is down`);
+    }
+    return { provider };
+  });
+  const placeholder = async (): Promise<Output> => ({ provider: 'placeholder' });
+
+  describe('runWithFallback', () => {
+    it('should return the requested provider output untouched', async () => {
+      const result = await runWithFallback({ label: 'Test', providers: ['a', 'b'], policy: 'placeholder', generate: failing(), placeholder });
+
+      expect(result).toEqual({ provider: 'a' });
+    });
+
+    it('should rethrow the provider error under fail', async () => {
+      const generate = failing('a');
+      await expect(runWithFallback({ label: 'Test', providers: ['a', 'b'], policy: 'fail', generate, placeholder }))
+        .rejects.toThrow('a is down');
+      expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flag placeholders with the failure reason', async () => {
+      const result = await runWithFallback({ label: 'Test', providers: ['a', 'b'], policy: 'placeholder', generate: failing('a'), placeholder });
+
+      expect(result).toEqual({ provider: 'placeholder', isPlaceholder: true, fallbackReason: 'a: a is down' });
+    });
+
+    it('should try the next provider and record why', async () => {
+      const result = await runWithFallback({ label: 'Test', providers: ['a', 'b', 'c'], policy: 'next-provider', generate: failing('a'), placeholder });
+
+      expect(result).toEqual({ provider: 'b', fallbackReason: 'a: a is down' });
+    });
+
+    it('should move along the chain on retryable errors only', async () => {
+      const generate = vi.fn(async (provider: string): Promise<Output> => {
+        if (provider === 'a') throw Object.assign(new Error('rate limited'), { status: 429 });
+        if (provider === 'b') throw new Error('Invalid API key');
+        return { provider };
+      });
+
+      const result = await runWithFallback({ label: 'Test', providers: ['a', 'b', 'c'], policy: 'placeholder', generate, placeholder });
+
+      expect(generate.mock.calls.map(([provider]) => provider)).toEqual(['a', 'b']);
+      expect(result).toEqual({ provider: 'placeholder', isPlaceholder: true, fallbackReason: 'a: rate limited; b: Invalid API key' });
+    });
+
+    it('should try alternatives after the chain only under next-provider', async () => {
+      const generate = failing('a');
+
+      await expect(runWithFallback({ label: 'Test', providers: ['a'], alternatives: ['a', 'b'], policy: 'fail', generate, placeholder }))
+        .rejects.toThrow('a is down');
+      expect(await runWithFallback({ label: 'Test', providers: ['a'], alternatives: ['a', 'b'], policy: 'next-provider', generate, placeholder }))
+        .toEqual({ provider: 'b', fallbackReason: 'a: a is down' });
+    });
+
+    it('should list every failure once all providers are exhausted', async () => {
+      await expect(runWithFallback({ label: 'Test', providers: ['a', 'b'], policy: 'next-provider', generate: failing('a', 'b'), placeholder }))
+        .rejects.toThrow('All Test providers failed: a: a is down; b: b is down');
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should trust typed errors', () => {
+      expect(isRetryableError(Object.assign(new Error('quota'), { retryable: true, status: 400 }))).toBe(true);
+      expect(isRetryableError(Object.assign(new Error('bad key'), { retryable: false }))).toBe(false);
+    });
+
+    it('should move past unavailable providers', () => {
+      expect(isRetryableError(new ProviderUnavailableError('TRIPO_API_KEY environment variable is required', 'tripo'))).toBe(true);
+    });
+
+    it('should classify by HTTP status from SDK, axios and message formats', () => {
+      expect(isRetryableError(Object.assign(new Error('x'), { status: 503 }))).toBe(true);
+      expect(isRetryableError(Object.assign(new Error('x'), { response: { status: 401 } }))).toBe(false);
+      expect(isRetryableError(new Error('Tripo API error (429): slow down'))).toBe(true);
+      expect(isRetryableError(new Error('Request failed with status code 400'))).toBe(false);
+    });
+
+    it('should treat timeouts and network failures as retryable', () => {
+      expect(isRetryableError(new Error('Task abc timed out after 60 attempts'))).toBe(true);
+      expect(isRetryableError(new Error('connect ECONNREFUSED 127.0.0.1:7860'))).toBe(true);
+      expect(isRetryableError(new Error('TRIPO_API_KEY environment variable is required'))).toBe(false);
+    });
+  });
+
+  describe('provider chains', () => {
+    it('should accept one provider or a chain per stage', () => {
+      expect(resolveProviderChains({ image: 'openai', video: ['veo', 'runway', 'veo'] }))
+        .toEqual({ image: ['openai'], video: ['veo', 'runway'] });
+      expect(parseProviderChain('stability, openai')).toEqual(['stability', 'openai']);
+    });
+
+    it('should reject unknown stages and empty chains', () => {
+      expect(() => resolveProviderChains({ audio: 'elevenlabs' } as never)).toThrow('Unknown pipeline stage: audio');
+      expect(() => resolveProviderChains({ video: [] })).toThrow('Invalid video provider chain: []');
+      expect(() => parseProviderChain('veo,,runway')).toThrow('Invalid provider chain');
+    });
+  });
+
+  describe('policies', () => {
+    it('should apply one policy to every stage', () => {
+      expect(resolveFallbackPolicies('fail')).toEqual({ image: 'fail', video: 'fail', rigging: 'fail' });
+    });
+
+    it('should keep defaults for stages left out', () => {
+      expect(resolveFallbackPolicies({ video: 'next-provider' })).toEqual({ ...DEFAULT_FALLBACK_POLICIES, video: 'next-provider' });
+      expect(resolveFallbackPolicies()).toEqual(DEFAULT_FALLBACK_POLICIES);
+    });
+
+    it('should reject unknown stages and policies', () => {
+      expect(() => resolveFallbackPolicies({ audio: 'fail' } as never)).toThrow('Unknown pipeline stage: audio');
+      expect(() => resolveFallbackPolicies('retry' as never)).toThrow('Invalid fallback policy for image: retry');
+    });
+
+    it('should parse the command-line form', () => {
+      expect(parseFallbackPolicies('placeholder')).toBe('placeholder');
+      expect(parseFallbackPolicies('video=next-provider, rigging=fail')).toEqual({ video: 'next-provider', rigging: 'fail' });
+      expect(getFallbackPolicies()).toEqual(['fail', 'placeholder', 'next-provider']);
+    });
+  });
+
+  describe('findDegradedOutputs', () => {
+    it('should list placeholders and substituted providers in pipeline order', () => {
+      const degraded = findDegradedOutputs({
+        imageGen: { imagePath: 'sprite.png', prompt: '', provider: 'openai', metadata: {} },
+        videoGen: [
+          { videoPath: 'idle.mp4', animationType: 'idle', duration: 4, fps: 24, provider: 'runway', fallbackReason: 'veo: quota' },
+          { videoPath: 'walk.mp4', animationType: 'walk', duration: 4, fps: 24 },
+        ],
+        rigging: { modelPath: 'base.glb', riggedModelPath: 'rigged.glb', skeletonType: 'biped', boneCount: 25, isPlaceholder: true, fallbackReason: 'tripo: timeout' },
+      });
+
+      expect(degraded).toEqual([
+        { stage: 'video', name: 'idle', path: 'idle.mp4', isPlaceholder: false, provider: 'runway', reason: 'veo: quota' },
+        { stage: 'rigging', name: 'rigging', path: 'rigged.glb', isPlaceholder: true, reason: 'tripo: timeout' },
+      ]);
+      expect(degraded.map(formatDegradedOutput)).toEqual([
+        'video idle: fallback provider runway (veo: quota)',
+        'rigging: placeholder (tripo: timeout)',
+      ]);
+    });
+
+    it('should name transition clips', () => {
+      const degraded = findDegradedOutputs({
+        imageGen: { imagePath: 'sprite.png', prompt: '', provider: 'openai', metadata: {} },
+        videoGen: [],
+        transitions: [{ videoPath: 'idle_to_walk_N.mp4', from: 'idle', to: 'walk', direction: 'N', duration: 1, fps: 24, isPlaceholder: true, fallbackReason: 'idle_N is a placeholder' }],
+        rigging: { modelPath: 'base.glb', riggedModelPath: 'rigged.glb', skeletonType: 'biped', boneCount: 25 },
+      });
+
+      expect(degraded.map(formatDegradedOutput)).toEqual(['video idle_to_walk_N: placeholder (idle_N is a placeholder)']);
+    });
+  });
+});
@@ -1,5 +1,36 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { optimizePrompt, getStylePrompts, getSupportedProviders } from '../src/image-gen/index.js';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import sharp from 'sharp';
+import {
+  optimizePrompt,
+  getStylePrompts,
+  getSupportedProviders,
+  generateImage,
+  validateSeed,
+  registerImageProvider,
+  unregisterImageProvider,
+  scoreSprite,
+  selectImageCandidate,
+  postProcessSprite,
+  pixelizeSprite,
+  detectPixelGrid,
+  loadPalette,
+  getBuiltInPalette,
+  parseHexPalette,
+  parseGplPalette,
+  generateTurnaround,
+  registerStyle,
+  unregisterStyle,
+  getStyle,
+  parseStylePack,
+  loadStylePack,
+  listImageCache,
+  pruneImageCache,
+  clearImageCache,
+} from '../src/image-gen/index.js';
 
 describe('Image Generation', () => {
   describe('optimizePrompt', () => {
@@ -38,6 +69,21 @@ describe('Image Generation', () => {
       expect(result).toContain('minecraft-like');
     });
 
+    it('should add character sheet details after the user prompt', () => {
+      const result = optimizePrompt('knight', 'pixel', {
+        name: 'Sir Pixel',
+        silhouette: 'stocky',
+        colorPalette: ['silver', 'blue'],
+        equipment: ['sword'],
+        bodyType: 'humanoid',
+        suggestedSkeleton: 'biped',
+        suggestedAnimations: ['idle'],
+        source: 'template',
+      });
+      expect(result).toContain('knight, Sir Pixel, humanoid, stocky, equipped with sword, colour palette of silver, blue');
+      expect(result).toContain('8-bit style');
+    });
+
     it('should always include transparent background', () => {
       const styles = ['pixel', 'anime', 'lowpoly', 'painterly', 'voxel'] as const;
       styles.forEach(style => {
@@ -67,6 +113,13 @@ describe('Image Generation', () => {
         expect(typeof prompt.suffix).toBe('string');
       });
     });
+
+    it('should include a negative prompt for every style', () => {
+      const prompts = getStylePrompts();
+      Object.values(prompts).forEach(prompt => {
+        expect(prompt.negative).toContain('watermark');
+      });
+    });
   });
 
   describe('getSupportedProviders', () => {
@@ -75,7 +128,8 @@ describe('Image Generation', () => {
       expect(providers).toContain('openai');
       expect(providers).toContain('stability');
       expect(providers).toContain('pixellab');
-      expect(providers).toHaveLength(3);
+      expect(providers).toContain('local-sd');
+      expect(providers).toHaveLength(4);
     });
   });
 
@@ -108,4 +162,922 @@ describe('Image Generation', () => {
       });
     });
   });
+
+  describe('provider registry', () => {
+    const tempDir = path.join(__dirname, '.temp-image-gen-test');
+
+    beforeEach(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      unregisterImageProvider('in-house');
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should list registered third-party providers', () => {
+      registerImageProvider('in-house', {
+        generate: async () => ({ image: Buffer.from('png'), metadata: {} }),
+      });
+
+      expect(getSupportedProviders()).toContain('in-house');
+      expect(unregisterImageProvider('in-house')).toBe(true);
+      expect(getSupportedProviders()).not.toContain('in-house');
+    });
+
+    it('should write sprite.png for a registered provider', async () => {
+      const generate = vi.fn(async () => ({
+        image: Buffer.from('fake-png'),
+        metadata: { model: 'house-model' },
+      }));
+      registerImageProvider('in-house', { generate });
+
+      const result = await generateImage('knight', 'pixel', tempDir, { provider: 'in-house' });
+
+      expect(result.provider).toBe('in-house');
+      expect(result.imagePath).toBe(path.join(tempDir, 'sprite.png'));
+      expect(result.metadata.model).toBe('house-model');
+      expect(await fs.readFile(result.imagePath, 'utf-8')).toBe('fake-png');
+      expect(generate).toHaveBeenCalledWith(
+        expect.objectContaining({ userPrompt: 'knight', style: 'pixel', resolution: 512 })
+      );
+    });
+
+    it('should retry a failing registered provider', async () => {
+      const generate = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('model warming up'))
+        .mockResolvedValue({ image: Buffer.from('ok'), metadata: {} });
+      registerImageProvider('in-house', { generate });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        retryDelay: 1,
+      });
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      expect(result.provider).toBe('in-house');
+    });
+
+    it('should fail by default once retries run out', async () => {
+      registerImageProvider('in-house', { generate: vi.fn().mockRejectedValue(new Error('model offline')) });
+
+      await expect(generateImage('knight', 'pixel', tempDir, { provider: 'in-house', maxRetries: 1 }))
+        .rejects.toThrow('model offline');
+    });
+
+    it('should save a flagged placeholder sprite under the placeholder policy', async () => {
+      registerImageProvider('in-house', { generate: vi.fn().mockRejectedValue(new Error('model offline')) });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        maxRetries: 1,
+        resolution: 64,
+        fallback: 'placeholder',
+      });
+
+      expect(result).toMatchObject({ provider: 'placeholder', isPlaceholder: true, fallbackReason: 'in-house: model offline' });
+      expect(await sharp(result.imagePath).metadata()).toMatchObject({ width: 64, height: 64, format: 'png' });
+    });
+
+    it('should move along the provider chain when a provider is rate limited', async () => {
+      const rateLimited = Object.assign(new Error('Too many requests'), { status: 429 });
+      registerImageProvider('in-house', { generate: vi.fn().mockRejectedValue(rateLimited) });
+      registerImageProvider('backup', { generate: async () => ({ image: Buffer.from('png'), metadata: {} }) });
+
+      try {
+        const result = await generateImage('knight', 'pixel', tempDir, {
+          provider: ['in-house', 'backup'],
+          maxRetries: 1,
+          postProcess: false,
+        });
+
+        expect(result).toMatchObject({ provider: 'backup', fallbackReason: 'in-house: Too many requests' });
+        expect(result.isPlaceholder).toBeUndefined();
+      } finally {
+        unregisterImageProvider('backup');
+      }
+    });
+
+    it('should pass the requested seed to seed-capable providers', async () => {
+      const generate = vi.fn(async () => ({ image: Buffer.from('png'), metadata: {} }));
+      registerImageProvider('in-house', { generate, supportsSeed: true });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        seed: 1234,
+      });
+
+      expect(generate).toHaveBeenCalledWith(expect.objectContaining({ seed: 1234 }));
+      expect(result.metadata.seed).toBe(1234);
+    });
+
+    it('should pick and record a seed when none is given', async () => {
+      const generate = vi.fn(async () => ({ image: Buffer.from('png'), metadata: {} }));
+      registerImageProvider('in-house', { generate, supportsSeed: true });
+
+      const result = await generateImage('knight', 'pixel', tempDir, { provider: 'in-house' });
+
+      expect(Number.isInteger(result.metadata.seed)).toBe(true);
+      expect(generate).toHaveBeenCalledWith(expect.objectContaining({ seed: result.metadata.seed }));
+    });
+
+    it('should prefer the seed reported by the provider', async () => {
+      registerImageProvider('in-house', {
+        generate: async () => ({ image: Buffer.from('png'), metadata: { seed: 99 } }),
+        supportsSeed: true,
+      });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        seed: 1,
+      });
+
+      expect(result.metadata.seed).toBe(99);
+    });
+
+    it('should not send seeds to providers without seed support', async () => {
+      const generate = vi.fn(async () => ({ image: Buffer.from('png'), metadata: {} }));
+      registerImageProvider('in-house', { generate });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        seed: 1234,
+      });
+
+      expect(generate).toHaveBeenCalledWith(expect.objectContaining({ seed: undefined }));
+      expect(result.metadata.seed).toBeUndefined();
+    });
+
+    it('should reject seeds that are not unsigned 32-bit integers', async () => {
+      const generate = vi.fn(async () => ({ image: Buffer.from('png'), metadata: {} }));
+      registerImageProvider('in-house', { generate, supportsSeed: true });
+
+      for (const seed of ['42', 1.5, -1, 2 ** 40]) {
+        await expect(generateImage('knight', 'pixel', tempDir, {
+          provider: 'in-house',
+          seed: seed as number,
+        })).rejects.toThrow(`Invalid seed: ${JSON.stringify(seed)}`);
+      }
+      expect(generate).not.toHaveBeenCalled();
+      expect(validateSeed(2 ** 32 - 1)).toBe(2 ** 32 - 1);
+    });
+
+    it('should pass reference images to providers that support them', async () => {
+      const referencePath = path.join(tempDir, 'concept.png');
+      await fs.writeFile(referencePath, Buffer.from('concept'));
+      const generate = vi.fn(async () => ({ image: Buffer.from('sprite'), metadata: {} }));
+      registerImageProvider('in-house', { generate, supportsReferenceImages: true });
+
+      await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        referenceImages: [referencePath],
+        referenceStrength: 0.6,
+        postProcess: false,
+      });
+
+      expect(generate).toHaveBeenCalledWith(
+        expect.objectContaining({ referenceImages: [Buffer.from('concept')], referenceStrength: 0.6 })
+      );
+    });
+
+    it('should reject reference images for providers without support', async () => {
+      const generate = vi.fn();
+      registerImageProvider('in-house', { generate });
+
+      await expect(
+        generateImage('knight', 'pixel', tempDir, { provider: 'in-house', referenceImages: ['concept.png'] })
+      ).rejects.toThrow('does not support reference images');
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('should reject missing reference images before generating', async () => {
+      const generate = vi.fn();
+      registerImageProvider('in-house', { generate, supportsReferenceImages: true });
+
+      await expect(
+        generateImage('knight', 'pixel', tempDir, {
+          provider: 'in-house',
+          referenceImages: [path.join(tempDir, 'missing.png')],
+        })
+      ).rejects.toThrow('Reference image not found');
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(
+        generateImage('knight', 'pixel', tempDir, { provider: 'missing', maxRetries: 1 })
+      ).rejects.toThrow('Unknown provider: missing');
+    });
+  });
+
+  describe('local-sd provider', () => {
+    const tempDir = path.join(__dirname, '.temp-local-sd-test');
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: Array<{ method?: string; url?: string; body: Record<string, unknown> }>;
+    let pngBase64: string;
+
+    beforeAll(async () => {
+      const png = await sharp({
+        create: { width: 8, height: 8, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+      })
+        .png()
+        .toBuffer();
+      pngBase64 = png.toString('base64');
+
+      server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => (raw += chunk));
+        req.on('end', () => {
+          const body = raw && req.headers['content-type']?.includes('json') ? JSON.parse(raw) : {};
+          requests.push({ method: req.method, url: req.url, body });
+          res.setHeader('Content-Type', 'application/json');
+
+          if (req.url === '/sdapi/v1/txt2img' || req.url === '/sdapi/v1/img2img') {
+            res.end(JSON.stringify({
+              images: [pngBase64],
+              info: JSON.stringify({ seed: body.seed, sd_model_name: 'sdxl_base' }),
+            }));
+          } else if (req.url === '/upload/image') {
+            res.end(JSON.stringify({ name: 'reference.png', subfolder: '', type: 'input' }));
+          } else if (req.url === '/prompt') {
+            res.end(JSON.stringify({ prompt_id: 'abc' }));
+          } else if (req.url === '/history/abc') {
+            res.end(JSON.stringify({
+              abc: { outputs: { '9': { images: [{ filename: 'sprite_0001.png', subfolder: '', type: 'output' }] } } },
+            }));
+          } else if (req.url?.startsWith('/view')) {
+            res.setHeader('Content-Type', 'image/png');
+            res.end(Buffer.from(pngBase64, 'base64'));
+          } else {
+            res.statusCode = 404;
+            res.end('{}');
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+      requests = [];
+    });
+
+    it('should call the Automatic1111 txt2img endpoint', async () => {
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'local-sd',
+        maxRetries: 1,
+        seed: 42,
+        providerOptions: {
+          baseUrl,
+          steps: 20,
+          sampler: 'Euler a',
+          loras: ['pixel-art-xl', { name: 'knight-armor', weight: 0.6 }],
+        },
+      });
+
+      const body = requests[0].body;
+      expect(requests[0].url).toBe('/sdapi/v1/txt2img');
+      expect(body.prompt).toContain('knight');
+      expect(body.prompt).toContain('<lora:pixel-art-xl:1>');
+      expect(body.prompt).toContain('<lora:knight-armor:0.6>');
+      expect(body.negative_prompt).toContain('blurry');
+      expect(body.seed).toBe(42);
+      expect(body.steps).toBe(20);
+      expect(body.sampler_name).toBe('Euler a');
+
+      expect(result.provider).toBe('local-sd');
+      expect(result.imagePath).toBe(path.join(tempDir, 'sprite.png'));
+      expect(result.metadata).toMatchObject({ model: 'sdxl_base', seed: 42, resolution: 512 });
+      expect((await sharp(result.imagePath).metadata()).format).toBe('png');
+    });
+
+    it('should queue a ComfyUI workflow and download the output', async () => {
+      const result = await generateImage('knight', 'anime', tempDir, {
+        provider: 'local-sd',
+        maxRetries: 1,
+        seed: 7,
+        providerOptions: {
+          baseUrl,
+          backend: 'comfyui',
+          sampler: 'euler',
+          loras: ['chibi'],
+          pollInterval: 1,
+        },
+      });
+
+      expect(requests.map(r => r.url?.split('?')[0])).toEqual(['/prompt', '/history/abc', '/view']);
+
+      const workflow = requests[0].body.prompt as Record<string, { class_type: string; inputs: Record<string, unknown> }>;
+      expect(workflow['3'].inputs).toMatchObject({ seed: 7, sampler_name: 'euler' });
+      expect(workflow['3'].inputs.model).toEqual(['lora_0', 0]);
+      expect(workflow.lora_0.inputs.lora_name).toBe('chibi');
+      expect(workflow['7'].inputs.text).toContain('realistic');
+
+      expect(result.metadata).toMatchObject({ seed: 7, backend: 'comfyui' });
+      expect((await sharp(result.imagePath).metadata()).format).toBe('png');
+    });
+
+    it('should send reference images to the Automatic1111 img2img endpoint', async () => {
+      const referencePath = path.join(tempDir, 'concept.png');
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(referencePath, Buffer.from(pngBase64, 'base64'));
+
+      const result = await generateImage('knight', 'anime', tempDir, {
+        provider: 'local-sd',
+        maxRetries: 1,
+        referenceImages: [referencePath],
+        referenceStrength: 0.75,
+        providerOptions: { baseUrl },
+      });
+
+      expect(requests[0].url).toBe('/sdapi/v1/img2img');
+      expect(requests[0].body.init_images).toEqual([pngBase64]);
+      expect(requests[0].body.denoising_strength).toBeCloseTo(0.25);
+      expect(result.metadata).toMatchObject({ referenceImages: [referencePath], referenceStrength: 0.75 });
+    });
+
+    it('should upload the reference and encode it in the ComfyUI workflow', async () => {
+      const referencePath = path.join(tempDir, 'concept.png');
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(referencePath, Buffer.from(pngBase64, 'base64'));
+
+      await generateImage('knight', 'anime', tempDir, {
+        provider: 'local-sd',
+        maxRetries: 1,
+        referenceImages: [referencePath],
+        providerOptions: { baseUrl, backend: 'comfyui', pollInterval: 1 },
+      });
+
+      expect(requests.map(r => r.url?.split('?')[0])).toEqual(['/upload/image', '/prompt', '/history/abc', '/view']);
+
+      const workflow = requests[1].body.prompt as Record<string, { class_type: string; inputs: Record<string, unknown> }>;
+      expect(workflow['10']).toEqual({ class_type: 'LoadImage', inputs: { image: 'reference.png' } });
+      expect(workflow['5'].class_type).toBe('VAEEncode');
+      expect(workflow['3'].inputs.denoise).toBeCloseTo(0.65);
+    });
+  });
+
+  describe('candidate ranking', () => {
+    const tempDir = path.join(__dirname, '.temp-candidates-test');
+
+    // A 64x64 transparent canvas with a solid 24x24 square at the given offset
+    const squareSprite = (left: number, top: number) =>
+      sharp({
+        create: { width: 64, height: 64, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+      })
+        .composite([{
+          input: {
+            create: { width: 24, height: 24, channels: 4, background: { r: 200, g: 40, b: 40, alpha: 1 } },
+          },
+          left,
+          top,
+        }])
+        .png()
+        .toBuffer();
+
+    beforeEach(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      unregisterImageProvider('in-house');
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should score a centred sprite above an off-centre one', async () => {
+      const centred = path.join(tempDir, 'centred.png');
+      const corner = path.join(tempDir, 'corner.png');
+      await fs.writeFile(centred, await squareSprite(20, 20));
+      await fs.writeFile(corner, await squareSprite(0, 0));
+
+      const centredScore = await scoreSprite(centred);
+      const cornerScore = await scoreSprite(corner);
+
+      expect(centredScore.scores.centering).toBeGreaterThan(cornerScore.scores.centering);
+      expect(centredScore.scores.edgeCleanliness).toBeGreaterThan(cornerScore.scores.edgeCleanliness);
+      expect(centredScore.score).toBeGreaterThan(cornerScore.score);
+    });
+
+    it('should generate, rank and promote the best candidate', async () => {
+      const images = [await squareSprite(0, 0), await squareSprite(20, 20), await squareSprite(40, 0)];
+      const generate = vi.fn(async (request: { seed?: number }) => ({
+        image: images[(request.seed ?? 0) - 10],
+        metadata: {},
+      }));
+      registerImageProvider('in-house', { generate, supportsSeed: true });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        seed: 10,
+        candidates: 3,
+        postProcess: false,
+      });
+
+      expect(generate).toHaveBeenCalledTimes(3);
+      expect(result.candidates).toHaveLength(3);
+      expect(result.candidates?.map(c => c.rank)).toEqual([1, 2, 3]);
+      expect(result.candidates?.[0].imagePath).toBe(path.join(tempDir, 'sprite_1.png'));
+      expect(result.metadata.seed).toBe(11);
+
+      const sprite = await fs.readFile(result.imagePath);
+      expect(sprite.equals(images[1])).toBe(true);
+    });
+
+    it('should promote a manually selected candidate', async () => {
+      const images = [await squareSprite(20, 20), await squareSprite(0, 0)];
+      let call = 0;
+      registerImageProvider('in-house', {
+        generate: async () => ({ image: images[call++], metadata: { call } }),
+      });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        candidates: 2,
+        postProcess: false,
+      });
+      const runnerUp = result.candidates![1];
+      const picked = await selectImageCandidate(result, runnerUp.imagePath);
+
+      expect(picked.metadata).toEqual(runnerUp.metadata);
+      expect((await fs.readFile(picked.imagePath)).equals(images[1])).toBe(true);
+    });
+  });
+
+  describe('post-processing', () => {
+    const tempDir = path.join(__dirname, '.temp-post-process-test');
+
+    // 100x60 canvas in the given background colour with a red 30x40 subject off to the left
+    const opaqueSprite = (background: { r: number; g: number; b: number }) =>
+      sharp({ create: { width: 100, height: 60, channels: 4, background: { ...background, alpha: 1 } } })
+        .composite([{
+          input: { create: { width: 30, height: 40, channels: 4, background: { r: 220, g: 20, b: 20, alpha: 1 } } },
+          left: 10,
+          top: 10,
+        }])
+        .png()
+        .toBuffer();
+
+    beforeEach(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      unregisterImageProvider('in-house');
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should remove a uniform background, trim and re-pad to a square', async () => {
+      const imagePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(imagePath, await opaqueSprite({ r: 255, g: 255, b: 255 }));
+
+      const result = await postProcessSprite(imagePath, { padding: 0.1 });
+
+      expect(result.steps).toEqual(['background-removal', 'feather', 'trim', 'pad-square']);
+      expect(result.background).toEqual({ r: 255, g: 255, b: 255 });
+      expect(result.width).toBe(48);
+      expect(result.height).toBe(48);
+
+      const { data, info } = await sharp(imagePath).raw().toBuffer({ resolveWithObject: true });
+      expect(info.channels).toBe(4);
+      expect(data[3]).toBe(0);
+      const centre = (24 * info.width + 24) * 4;
+      expect(data[centre]).toBe(220);
+      expect(data[centre + 3]).toBe(255);
+    });
+
+    it('should tolerate near-uniform backgrounds', async () => {
+      const imagePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(imagePath, await opaqueSprite({ r: 250, g: 244, b: 252 }));
+
+      const result = await postProcessSprite(imagePath, { feather: 0 });
+
+      expect(result.steps).toEqual(['background-removal', 'trim', 'pad-square']);
+    });
+
+    it('should keep images whose corners disagree opaque', async () => {
+      const imagePath = path.join(tempDir, 'sprite.png');
+      const split = await sharp({
+        create: { width: 64, height: 64, channels: 4, background: { r: 0, g: 0, b: 255, alpha: 1 } },
+      })
+        .composite([{
+          input: { create: { width: 32, height: 64, channels: 4, background: { r: 0, g: 255, b: 0, alpha: 1 } } },
+          left: 0,
+          top: 0,
+        }])
+        .png()
+        .toBuffer();
+      await fs.writeFile(imagePath, split);
+
+      const result = await postProcessSprite(imagePath);
+
+      expect(result.steps).not.toContain('background-removal');
+      expect(result.width).toBe(70);
+    });
+
+    it('should record applied steps in the generation metadata', async () => {
+      const image = await opaqueSprite({ r: 255, g: 255, b: 255 });
+      registerImageProvider('in-house', { generate: async () => ({ image, metadata: {} }) });
+
+      const result = await generateImage('knight', 'anime', tempDir, { provider: 'in-house' });
+
+      expect(result.metadata.postProcessing).toEqual(['background-removal', 'feather', 'trim', 'pad-square']);
+      const metadata = await sharp(result.imagePath).metadata();
+      expect(metadata.width).toBe(metadata.height);
+    });
+
+    it('should skip post-processing when disabled', async () => {
+      const image = await opaqueSprite({ r: 255, g: 255, b: 255 });
+      registerImageProvider('in-house', { generate: async () => ({ image, metadata: {} }) });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        postProcess: false,
+      });
+
+      expect(result.metadata.postProcessing).toBeUndefined();
+      expect((await fs.readFile(result.imagePath)).equals(image)).toBe(true);
+    });
+  });
+
+  describe('pixel art', () => {
+    const tempDir = path.join(__dirname, '.temp-pixelize-test');
+
+    // Deterministic 16x16 art scaled up as an image model would, optionally with soft edges
+    const fakePixelArt = async (scale: number, blur?: number) => {
+      const data = Buffer.alloc(16 * 16 * 4);
+      for (let i = 0; i < 16 * 16; i++) {
+        data[i * 4] = (i * 37) % 256;
+        data[i * 4 + 1] = (i * 91) % 256;
+        data[i * 4 + 2] = (i * 53) % 256;
+        data[i * 4 + 3] = 255;
+      }
+      const upscaled = sharp(data, { raw: { width: 16, height: 16, channels: 4 } })
+        .resize(16 * scale, 16 * scale, { kernel: 'nearest' });
+      return (blur ? sharp(await upscaled.png().toBuffer()).blur(blur) : upscaled).png().toBuffer();
+    };
+
+    const uniqueColors = (data: Buffer) => {
+      const colors = new Set<string>();
+      for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] > 0) colors.add(`${data[i]},${data[i + 1]},${data[i + 2]}`);
+      }
+      return colors;
+    };
+
+    beforeEach(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      unregisterImageProvider('in-house');
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should detect the grid of upscaled pixel art', async () => {
+      const { data, info } = await sharp(await fakePixelArt(8)).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+
+      expect(detectPixelGrid(data, info.width, info.height)?.size).toBe(8);
+    });
+
+    it('should detect the grid through resampling blur', async () => {
+      const { data, info } = await sharp(await fakePixelArt(6, 0.8)).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+
+      expect(detectPixelGrid(data, info.width, info.height)?.size).toBe(6);
+    });
+
+    it('should not find a grid in a smooth gradient', async () => {
+      const { data, info } = await sharp({
+        create: { width: 2, height: 2, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 1 } },
+      })
+        .composite([{ input: Buffer.from([255, 0, 0, 255]), raw: { width: 1, height: 1, channels: 4 }, left: 1, top: 1 }])
+        .resize(128, 128, { kernel: 'linear' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      expect(detectPixelGrid(data, info.width, info.height)).toBeNull();
+    });
+
+    it('should downsample to the true resolution and snap to a palette', async () => {
+      const imagePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(imagePath, await fakePixelArt(8));
+
+      const result = await pixelizeSprite(imagePath, { palette: 'gameboy' });
+
+      expect(result.gridSize).toBe(8);
+      expect(result.steps).toEqual(['pixel-grid', 'downsample', 'quantize']);
+      expect(result.width).toBe(16);
+      expect(result.height).toBe(16);
+      expect(result.palette).toBe('gameboy');
+
+      const gameboy = getBuiltInPalette('gameboy')!.colors.map(c => c.join(','));
+      const { data } = await sharp(imagePath).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+      for (const color of uniqueColors(data)) {
+        expect(gameboy).toContain(color);
+      }
+    });
+
+    it('should limit colours and upscale with nearest neighbour', async () => {
+      const imagePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(imagePath, await fakePixelArt(8));
+
+      const result = await pixelizeSprite(imagePath, { maxColors: 8, upscale: 4 });
+
+      expect(result.steps).toEqual(['pixel-grid', 'downsample', 'quantize', 'upscale']);
+      expect(result.colors).toBeLessThanOrEqual(8);
+      const metadata = await sharp(imagePath).metadata();
+      expect(metadata.width).toBe(64);
+      expect(metadata.height).toBe(64);
+    });
+
+    it('should fall back to the requested resolution', async () => {
+      const imagePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(imagePath, await fakePixelArt(8));
+
+      const result = await pixelizeSprite(imagePath, { resolution: 32 });
+
+      expect(result.gridSize).toBeNull();
+      expect(result.width).toBe(32);
+      expect(result.height).toBe(32);
+    });
+
+    it('should parse Lospec .hex and GIMP .gpl palettes', async () => {
+      expect(parseHexPalette('ff0000\n#00ff00\n\nnot a colour\n')).toEqual([[255, 0, 0], [0, 255, 0]]);
+      expect(parseGplPalette('GIMP Palette\nName: test\n#\n  0   0 255\tBlue\n255 255 255 White\n')).toEqual([
+        [0, 0, 255],
+        [255, 255, 255],
+      ]);
+      expect(() => parseGplPalette('0 0 0')).toThrow('GIMP Palette');
+
+      const palettePath = path.join(tempDir, 'custom.hex');
+      await fs.writeFile(palettePath, '000000\nffffff\n');
+      expect(await loadPalette(palettePath)).toEqual({ name: 'custom', colors: [[0, 0, 0], [255, 255, 255]] });
+      await expect(loadPalette('not-a-palette')).rejects.toThrow('Unknown palette');
+    });
+
+    it('should pixelize pixel-style sprites and record the result', async () => {
+      const image = await fakePixelArt(8);
+      registerImageProvider('in-house', { generate: async () => ({ image, metadata: {} }) });
+
+      const result = await generateImage('knight', 'pixel', tempDir, {
+        provider: 'in-house',
+        pixelize: { palette: 'pico-8' },
+      });
+
+      expect(result.metadata.postProcessing).toEqual(['pixel-grid', 'downsample', 'quantize', 'pad-square']);
+      expect(result.metadata.pixelArt).toMatchObject({ gridSize: 8, width: 16, height: 16, palette: 'pico-8' });
+    });
+
+    it('should reject an unknown palette before calling the provider', async () => {
+      const generate = vi.fn();
+      registerImageProvider('in-house', { generate });
+
+      await expect(
+        generateImage('knight', 'pixel', tempDir, { provider: 'in-house', pixelize: { palette: 'missing.txt' } })
+      ).rejects.toThrow('Unknown palette');
+      expect(generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('turnaround', () => {
+    const tempDir = path.join(__dirname, '.temp-turnaround-test');
+
+    const solidSprite = (width: number, height: number) =>
+      sharp({ create: { width, height, channels: 4, background: { r: 40, g: 80, b: 200, alpha: 1 } } })
+        .png()
+        .toBuffer();
+
+    beforeEach(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      unregisterImageProvider('in-house');
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should generate every view from one seed and save a combined sheet', async () => {
+      const image = await solidSprite(32, 48);
+      const generate = vi.fn(async () => ({ image, metadata: {} }));
+      registerImageProvider('in-house', { generate, supportsSeed: true, supportsReferenceImages: true });
+
+      const result = await generateTurnaround('knight', 'anime', tempDir, {
+        provider: 'in-house',
+        seed: 99,
+        postProcess: false,
+      });
+
+      expect(generate).toHaveBeenCalledTimes(4);
+      const requests = generate.mock.calls.map(([request]) => request as { userPrompt: string; seed: number; referenceImages?: Buffer[] });
+      expect(requests.map(r => r.seed)).toEqual([99, 99, 99, 99]);
+      expect(requests[0].userPrompt).toContain('front view');
+      expect(requests[3].userPrompt).toContain('back view');
+      expect(requests[0].referenceImages).toBeUndefined();
+      expect(requests[1].referenceImages).toEqual([image]);
+
+      expect(Object.keys(result.views)).toEqual(['front', 'three-quarter', 'side', 'back']);
+      expect(result.imagePaths.back).toBe(path.join(tempDir, 'turnaround', 'back', 'sprite.png'));
+      expect(result.seed).toBe(99);
+
+      const sheet = await sharp(result.sheetPath).metadata();
+      expect(sheet.width).toBe(32 * 4);
+      expect(sheet.height).toBe(48);
+    });
+
+    it('should reuse a picked front view and skip references when unsupported', async () => {
+      const image = await solidSprite(32, 32);
+      const generate = vi.fn(async () => ({ image, metadata: {} }));
+      registerImageProvider('in-house', { generate });
+
+      const frontPath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(frontPath, image);
+      const front = { imagePath: frontPath, prompt: 'knight', provider: 'in-house', metadata: { seed: 5 } };
+
+      const result = await generateTurnaround('knight', 'anime', tempDir, {
+        provider: 'in-house',
+        views: ['front', 'side'],
+        front,
+        postProcess: false,
+      });
+
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(generate.mock.calls[0][0]).not.toHaveProperty('referenceImages');
+      expect(result.views.front).toBe(front);
+      expect(result.imagePaths).toEqual({ front: frontPath, side: path.join(tempDir, 'turnaround', 'side', 'sprite.png') });
+      expect((await sharp(result.sheetPath).metadata()).width).toBe(64);
+    });
+
+    it('should reject unknown views', async () => {
+      await expect(
+        generateTurnaround('knight', 'anime', tempDir, { views: ['top' as never] })
+      ).rejects.toThrow('Invalid turnaround views: top');
+    });
+  });
+
+  describe('style packs', () => {
+    const tempDir = path.join(__dirname, '.temp-style-pack-test');
+
+    beforeEach(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      unregisterImageProvider('in-house');
+      unregisterStyle('gameboy');
+      unregisterStyle('dark-souls-like');
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should parse JSON and YAML packs and fill in defaults', () => {
+      const fromJson = parseStylePack('{"styles": {"gameboy": {"prefix": "gameboy sprite, "}}}', 'json');
+      const fromYaml = parseStylePack('styles:\n  gameboy:\n    prefix: "gameboy sprite, "\n', 'yaml');
+
+      expect(fromJson).toEqual(fromYaml);
+      expect(fromJson.styles.gameboy).toEqual({ prefix: 'gameboy sprite, ', suffix: '', negative: '' });
+    });
+
+    it('should report every invalid field', () => {
+      expect(() =>
+        parseStylePack('{"styles": {"bad": {"prefix": 1, "resolution": 10, "colour": "red"}}}', 'json', 'house.json')
+      ).toThrow(/Invalid house\.json: styles\.bad\.prefix: .*; styles\.bad\.resolution: .*; styles\.bad: Unrecognized key/);
+      expect(() => parseStylePack('styles: {}', 'yaml')).toThrow('A style pack needs at least one style');
+    });
+
+    it('should register pack styles with palettes resolved next to the pack', async () => {
+      await fs.writeFile(path.join(tempDir, 'dmg.hex'), '0f380f\n306230\n8bac0f\n9bbc0f\n');
+      const packPath = path.join(tempDir, 'house.yaml');
+      await fs.writeFile(packPath, [
+        'styles:',
+        '  gameboy:',
+        '    description: Four-shade handheld sprites',
+        '    prefix: "gameboy sprite, "',
+        '    pixelize: true',
+        '    palette: dmg.hex',
+        '  dark-souls-like:',
+        '    prefix: "grim dark fantasy knight, "',
+        '    negative: cartoon',
+        '    provider: in-house',
+        '    resolution: 256',
+      ].join('\n'));
+
+      expect(await loadStylePack(packPath)).toEqual(['gameboy', 'dark-souls-like']);
+      expect(getStyle('gameboy')?.palette).toBe(path.join(tempDir, 'dmg.hex'));
+      expect(getStylePrompts()).toHaveProperty('dark-souls-like');
+      expect(optimizePrompt('knight', 'dark-souls-like')).toContain('grim dark fantasy knight, knight');
+    });
+
+    it('should use the style default provider, resolution and palette', async () => {
+      const image = await sharp({ create: { width: 64, height: 64, channels: 4, background: { r: 200, g: 30, b: 30, alpha: 1 } } })
+        .png()
+        .toBuffer();
+      const generate = vi.fn(async () => ({ image, metadata: {} }));
+      registerImageProvider('in-house', { generate });
+      registerStyle('gameboy', { prefix: 'gameboy sprite, ', suffix: '', negative: 'color', provider: 'in-house', resolution: 256, palette: 'gameboy' });
+
+      const result = await generateImage('knight', 'gameboy', tempDir);
+
+      expect(result.provider).toBe('in-house');
+      expect(generate.mock.calls[0][0]).toMatchObject({ resolution: 256, negativePrompt: 'color' });
+      expect(result.metadata.pixelArt).toMatchObject({ palette: 'gameboy' });
+    });
+
+    it('should restore built-in styles when unregistered', () => {
+      registerStyle('pixel', { prefix: 'house pixel, ', suffix: '', negative: '' });
+      expect(unregisterStyle('pixel')).toBe(false);
+      expect(getStyle('pixel')?.prefix).toContain('pixel art sprite sheet');
+    });
+
+    it('should reject unknown styles', async () => {
+      await expect(generateImage('knight', 'gameboy', tempDir)).rejects.toThrow('Unknown style: gameboy');
+    });
+  });
+
+  describe('image cache', () => {
+    const tempDir = path.join(__dirname, '.temp-image-cache-test');
+    const cacheDir = path.join(tempDir, 'cache');
+
+    const solidSprite = (r: number) =>
+      sharp({ create: { width: 16, height: 16, channels: 4, background: { r, g: 0, b: 0, alpha: 1 } } }).png().toBuffer();
+
+    beforeEach(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      unregisterImageProvider('in-house');
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should reuse the cached image for an identical request', async () => {
+      const image = await solidSprite(200);
+      const generate = vi.fn(async () => ({ image, metadata: { model: 'house-v1' } }));
+      registerImageProvider('in-house', { generate, supportsSeed: true });
+      const options = { provider: 'in-house', seed: 7, postProcess: false, cache: { dir: cacheDir } } as const;
+
+      const first = await generateImage('knight', 'anime', path.join(tempDir, 'a'), options);
+      const second = await generateImage('knight', 'anime', path.join(tempDir, 'b'), options);
+
+      expect(generate).toHaveBeenCalledTimes(1);
+      expect(first.metadata.cached).toBeUndefined();
+      expect(second.metadata).toMatchObject({ cached: true, model: 'house-v1', seed: 7 });
+      expect(await fs.readFile(second.imagePath)).toEqual(image);
+    });
+
+    it('should miss when the seed, prompt or resolution changes', async () => {
+      const generate = vi.fn(async () => ({ image: await solidSprite(10), metadata: {} }));
+      registerImageProvider('in-house', { generate, supportsSeed: true });
+      const options = { provider: 'in-house', seed: 1, postProcess: false, cache: { dir: cacheDir } } as const;
+
+      await generateImage('knight', 'anime', tempDir, options);
+      await generateImage('knight', 'anime', tempDir, { ...options, seed: 2 });
+      await generateImage('wizard', 'anime', tempDir, options);
+      await generateImage('knight', 'anime', tempDir, { ...options, resolution: 1024 });
+      await generateImage('knight', 'anime', tempDir, { ...options, cache: false });
+
+      expect(generate).toHaveBeenCalledTimes(5);
+      expect(await listImageCache(cacheDir)).toHaveLength(4);
+    });
+
+    it('should keep unseeded candidates apart and share concurrent requests', async () => {
+      let calls = 0;
+      const generate = vi.fn(async () => ({ image: await solidSprite(++calls * 40), metadata: {} }));
+      registerImageProvider('in-house', { generate });
+      const options = { provider: 'in-house', postProcess: false, cache: { dir: cacheDir } } as const;
+
+      await Promise.all([1, 2, 3].map(i =>
+        generateImage('knight', 'anime', path.join(tempDir, `worker_${i}`), { ...options, candidates: 2 })
+      ));
+
+      expect(generate).toHaveBeenCalledTimes(2);
+      const entries = await listImageCache(cacheDir);
+      expect(entries).toHaveLength(2);
+      expect(entries.every(entry => entry.provider === 'in-house' && entry.resolution === 512)).toBe(true);
+    });
+
+    it('should prune old entries and clear the cache', async () => {
+      registerImageProvider('in-house', { generate: async () => ({ image: await solidSprite(90), metadata: {} }) });
+      const options = { provider: 'in-house', postProcess: false, cache: { dir: cacheDir } } as const;
+      await generateImage('knight', 'anime', tempDir, options);
+      await generateImage('wizard', 'anime', tempDir, options);
+
+      // Age one entry by two days
+      const [old] = await listImageCache(cacheDir);
+      const metaPath = old.imagePath.replace(/\.png$/, '.json');
+      const stored = JSON.parse(await fs.readFile(metaPath, 'utf-8'));
+      await fs.writeFile(metaPath, JSON.stringify({ ...stored, createdAt: new Date(Date.now() - 2 * 86_400_000).toISOString() }));
+
+      const removed = await pruneImageCache(86_400_000, cacheDir);
+      expect(removed.map(entry => entry.key)).toEqual([old.key]);
+      expect(await listImageCache(cacheDir)).toHaveLength(1);
+
+      expect(await clearImageCache(cacheDir)).toBe(1);
+      expect(await listImageCache(cacheDir)).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  checkPrompt,
+  moderatePrompt,
+  formatViolations,
+  DEFAULT_MAX_PROMPT_LENGTH,
+} from '../src/moderation/index.js';
+
+describe('Moderation Module', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  describe('checkPrompt', () => {
+    it('should allow ordinary prompts', () => {
+      expect(checkPrompt('cute pixel knight with sword')).toEqual({ allowed: true, violations: [], providerChecked: false });
+    });
+
+    it('should flag blocked terms and trademarks as whole words', () => {
+      const result = checkPrompt('NSFW Spider Man fighting Mario');
+
+      expect(result.allowed).toBe(false);
+      expect(result.violations.map(v => [v.type, v.term])).toEqual([
+        ['blocked-term', 'nsfw'],
+        ['trademark', 'mario'],
+        ['trademark', 'spider-man'],
+      ]);
+      expect(checkPrompt('marionette puppet with batmanesque cape').allowed).toBe(true);
+    });
+
+    it('should flag prompts over the maximum length', () => {
+      const result = checkPrompt('knight '.repeat(200));
+
+      expect(result.violations).toEqual([
+        { type: 'max-length', message: `Prompt is 1400 characters, the limit is ${DEFAULT_MAX_PROMPT_LENGTH}` },
+      ]);
+      expect(checkPrompt('a long knight', { maxLength: 5 }).allowed).toBe(false);
+    });
+
+    it('should extend the term lists from options and the environment', () => {
+      vi.stubEnv('MODERATION_BLOCKED_TERMS', 'skull, blood');
+      vi.stubEnv('MODERATION_TRADEMARKS', 'Geralt');
+
+      const result = checkPrompt('geralt with a bloody skull', { blockedTerms: ['bloody'] });
+      expect(result.violations.map(v => v.term)).toEqual(['skull', 'bloody', 'geralt']);
+    });
+
+    it('should replace the defaults when asked', () => {
+      const result = checkPrompt('mario with a lantern', { replaceDefaults: true, blockedTerms: ['lantern'] });
+      expect(result.violations.map(v => v.term)).toEqual(['lantern']);
+    });
+
+    it('should format violations into one message', () => {
+      expect(formatViolations(checkPrompt('pikachu nude').violations)).toBe(
+        'Prompt contains blocked term "nude"; Prompt references trademarked character "pikachu"'
+      );
+    });
+  });
+
+  describe('moderatePrompt', () => {
+    it('should skip the provider check by default', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect((await moderatePrompt('pixel knight')).providerChecked).toBe(false);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should add provider-flagged categories', async () => {
+      vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+        results: [{ flagged: true, categories: { violence: true, harassment: false } }],
+      }), { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await moderatePrompt('knight', { providerCheck: true });
+
+      expect(result).toMatchObject({ allowed: false, providerChecked: true });
+      expect(result.violations).toEqual([{
+        type: 'provider-flagged',
+        categories: ['violence'],
+        message: 'Prompt flagged by OpenAI moderation: violence',
+      }]);
+      expect(JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string)).toMatchObject({ input: 'knight' });
+    });
+
+    it('should require an API key for the provider check', async () => {
+      vi.stubEnv('OPENAI_API_KEY', '');
+      await expect(moderatePrompt('knight', { providerCheck: true })).rejects.toThrow('OPENAI_API_KEY');
+    });
+  });
+});
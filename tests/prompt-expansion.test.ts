@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  expandPrompt,
+  createTemplateCharacterSheet,
+  describeCharacterSheet,
+  getRiggingSkeleton,
+} from '../src/prompt-expansion/index.js';
+
+describe('Prompt Expansion Module', () => {
+  describe('createTemplateCharacterSheet', () => {
+    it('should build a sheet from keywords in the prompt', () => {
+      const sheet = createTemplateCharacterSheet('cute pixel knight with sword and golden shield');
+
+      expect(sheet).toEqual({
+        name: 'Knight',
+        silhouette: 'chibi proportions with an oversized head, sword clearly readable in outline',
+        colorPalette: ['gold', 'steel grey', 'deep blue', 'leather brown'],
+        equipment: ['sword', 'shield'],
+        bodyType: 'humanoid',
+        suggestedSkeleton: 'biped',
+        suggestedAnimations: ['idle', 'walk', 'attack', 'hurt', 'death'],
+        source: 'template',
+      });
+    });
+
+    it('should be deterministic', () => {
+      expect(createTemplateCharacterSheet('giant red wolf boss')).toEqual(createTemplateCharacterSheet('giant red wolf boss'));
+    });
+
+    it('should only suggest animations the skeleton supports', () => {
+      const sheet = createTemplateCharacterSheet('giant red wolf boss');
+
+      expect(sheet.suggestedSkeleton).toBe('quadruped');
+      expect(sheet.bodyType).toBe('four-legged beast');
+      expect(sheet.colorPalette[0]).toBe('red');
+      expect(sheet.suggestedAnimations).toEqual(['idle', 'walk', 'attack', 'death']);
+    });
+
+    it('should map specialised skeletons to a rigging skeleton', () => {
+      expect(getRiggingSkeleton(createTemplateCharacterSheet('giant spider boss'))).toBe('custom');
+      expect(getRiggingSkeleton(createTemplateCharacterSheet('wolf'))).toBe('quadruped');
+    });
+  });
+
+  describe('describeCharacterSheet', () => {
+    it('should summarise the sheet in one line', () => {
+      const description = describeCharacterSheet(createTemplateCharacterSheet('pixel wizard with staff'));
+      expect(description).toBe(
+        'Wizard, humanoid, balanced proportions, staff clearly readable in outline, ' +
+        'equipped with staff, colour palette of steel grey, deep blue, leather brown, gold'
+      );
+    });
+  });
+
+  describe('expandPrompt', () => {
+    let server: http.Server;
+    let content: string;
+    let requests: Array<Record<string, unknown>>;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => (raw += chunk));
+        req.on('end', () => {
+          requests.push(JSON.parse(raw));
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 0,
+            model: 'gpt-4o-mini',
+            choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+          }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    const useMockOpenAI = () => {
+      requests = [];
+      vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+      vi.stubEnv('OPENAI_BASE_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`);
+    };
+
+    it('should use the template without an API key', async () => {
+      vi.stubEnv('OPENAI_API_KEY', '');
+      expect(await expandPrompt('pixel knight')).toEqual(createTemplateCharacterSheet('pixel knight'));
+    });
+
+    it('should request a JSON-schema sheet from the LLM', async () => {
+      useMockOpenAI();
+      content = JSON.stringify({
+        name: 'Sir Pixel',
+        silhouette: 'stocky knight with a kite shield',
+        colorPalette: ['silver', 'royal blue'],
+        equipment: ['longsword', 'kite shield'],
+        bodyType: 'humanoid',
+        suggestedSkeleton: 'biped',
+        suggestedAnimations: ['walk', 'attack', 'dance'],
+      });
+
+      const sheet = await expandPrompt('pixel knight', { mode: 'llm' });
+
+      expect(sheet).toMatchObject({
+        name: 'Sir Pixel',
+        equipment: ['longsword', 'kite shield'],
+        suggestedSkeleton: 'biped',
+        suggestedAnimations: ['idle', 'walk', 'attack'],
+        source: 'llm',
+        model: 'gpt-4o-mini',
+      });
+      expect(requests[0]).toMatchObject({
+        model: 'gpt-4o-mini',
+        response_format: { type: 'json_schema', json_schema: { name: 'character_sheet', strict: true } },
+      });
+    });
+
+    it('should fall back to the template when the LLM answer is invalid', async () => {
+      useMockOpenAI();
+      content = JSON.stringify({ name: 'Sir Pixel' });
+
+      expect(await expandPrompt('pixel knight')).toMatchObject({ source: 'template', name: 'Knight' });
+      await expect(expandPrompt('pixel knight', { mode: 'llm' })).rejects.toThrow('Invalid character sheet');
+    });
+  });
+});
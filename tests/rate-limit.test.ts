@@ -40,6 +40,48 @@ describe('Rate Limiting Module', () => {
       const status = limiter.getStatus('unknown-provider');
       
       expect(status.limit).toBe(Infinity);
+      expect(status.concurrentLimit).toBe(Infinity);
+    });
+
+    it('should hold requests beyond the concurrent limit until a slot is freed', async () => {
+      const limiter = new RateLimiter();
+      const releases: Array<() => void> = [];
+      const request = () => limiter.withSlot('runway', () => new Promise<void>(resolve => releases.push(resolve)));
+      // Runway allows 3 concurrent requests
+      const running = [request(), request(), request()];
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      let fourthStarted = false;
+      const fourth = limiter.withSlot('runway', async () => { fourthStarted = true; });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(fourthStarted).toBe(false);
+      expect(limiter.getStatus('runway')).toMatchObject({ active: 3, concurrentLimit: 3 });
+
+      releases[0]();
+      await fourth;
+      expect(fourthStarted).toBe(true);
+      expect(limiter.getStatus('runway').active).toBe(2);
+
+      releases.slice(1).forEach(release => release());
+      await Promise.all(running);
+      expect(limiter.getStatus('runway').active).toBe(0);
+    });
+
+    it('should free the slot when the request fails', async () => {
+      const limiter = new RateLimiter();
+
+      await expect(limiter.withSlot('runway', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+      expect(limiter.getStatus('runway').active).toBe(0);
+    });
+
+    it('should not hold slots for acquire() callers', async () => {
+      const limiter = new RateLimiter();
+
+      // More acquires than Runway's 3 concurrent slots, none of them released
+      for (let i = 0; i < 5; i++) {
+        await limiter.acquire('runway');
+      }
+      expect(limiter.getStatus('runway')).toMatchObject({ used: 5, active: 0 });
     });
   });
 
@@ -72,6 +114,19 @@ describe('Rate Limiting Module', () => {
       expect(estimate.provider).toBe('pixellab');
       expect(estimate.estimatedCost).toBeGreaterThan(0);
     });
+
+    it('should estimate local Stable Diffusion as free', () => {
+      const estimate = estimateImageGenCost('local-sd', 4);
+
+      expect(estimate).toMatchObject({ operation: 'local-sd', estimatedCost: 0 });
+      expect(estimate.unknown).toBeUndefined();
+    });
+
+    it('should flag registered providers without pricing as unknown', () => {
+      const estimate = estimateImageGenCost('my-studio-model', 2);
+
+      expect(estimate).toMatchObject({ provider: 'my-studio-model', estimatedCost: 0, unknown: true });
+    });
   });
 
   describe('estimateVideoCost', () => {
@@ -106,6 +161,13 @@ describe('Rate Limiting Module', () => {
       expect(estimate.estimatedCost).toBe(0.25); // 0.15 + 0.10
     });
 
+    it('should estimate Meshy cost', () => {
+      const estimate = estimateRiggingCost('meshy');
+
+      expect(estimate.operation).toBe('meshy-full');
+      expect(estimate.estimatedCost).toBeCloseTo(0.25, 5); // 0.20 + 0.05
+    });
+
     it('should estimate placeholder as free', () => {
       const estimate = estimateRiggingCost('placeholder');
       
@@ -140,6 +202,20 @@ describe('Rate Limiting Module', () => {
       });
       
       expect(estimate.total).toBe(0.04); // Only image generation
+      expect(estimate.unknownProviders).toBeUndefined();
+    });
+
+    it('should list providers without pricing', () => {
+      const estimate = estimatePipelineCost({
+        imageProvider: 'my-studio-model',
+        videoProvider: 'veo',
+        riggingProvider: 'meshy',
+        animationCount: 1,
+        animationDuration: 4,
+      });
+
+      expect(estimate.unknownProviders).toEqual(['my-studio-model']);
+      expect(estimate.total).toBeCloseTo(0.20 + 0.25, 5);
     });
   });
 
@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
 import { 
+  generateAndRig3DModel,
   getSkeletonTypes, 
   getSkeletonConfig, 
   getSupportedProviders,
@@ -11,6 +14,7 @@ import {
   suggestSkeletonForCharacter,
   ADDITIONAL_SKELETON_TYPES,
 } from '../src/rigging/index.js';
+import { registerAnimation, unregisterAnimation } from '../src/animations/index.js';
 
 describe('Rigging Module', () => {
   describe('getSkeletonTypes', () => {
@@ -135,6 +139,24 @@ describe('Rigging Module', () => {
     it('should return false for unknown skeletons', () => {
       expect(isAnimationCompatible('unknown', 'walk')).toBe(false);
     });
+
+    it('should match new animations against skeleton bones', () => {
+      expect(isAnimationCompatible('biped', 'cast')).toBe(true);
+      expect(isAnimationCompatible('biped', 'fly')).toBe(false);
+      expect(isAnimationCompatible('bird', 'fly')).toBe(true);
+      expect(isAnimationCompatible('snake', 'dodge')).toBe(false);
+    });
+
+    it('should accept registered animations with matching bones', () => {
+      registerAnimation('tail-whip', { prompt: 'tail whip', duration: '1s', fps: 24, loop: false, requiredBones: ['tail'] });
+      try {
+        expect(isAnimationCompatible('quadruped', 'tail-whip')).toBe(true);
+        expect(isAnimationCompatible('biped', 'tail-whip')).toBe(false);
+        expect(getCompatibleAnimations('quadruped')).toContain('tail-whip');
+      } finally {
+        unregisterAnimation('tail-whip');
+      }
+    });
   });
 
   describe('getCompatibleAnimations', () => {
@@ -203,6 +225,21 @@ describe('Rigging Module', () => {
       expect(suggestSkeletonForCharacter('giant robot mech')).toBe('mech');
     });
 
+    it('should prefer the skeleton named in a character sheet', () => {
+      const sheet = {
+        name: 'Gravewing',
+        silhouette: 'ragged outline',
+        colorPalette: ['black'],
+        equipment: [],
+        bodyType: 'winged creature',
+        suggestedSkeleton: 'bird',
+        suggestedAnimations: ['idle' as const],
+        source: 'llm' as const,
+      };
+      expect(suggestSkeletonForCharacter(sheet)).toBe('bird');
+      expect(suggestSkeletonForCharacter({ ...sheet, suggestedSkeleton: 'dragon', bodyType: 'four-legged beast' })).toBe('quadruped');
+    });
+
     it('should suggest snake for serpents', () => {
       expect(suggestSkeletonForCharacter('giant snake boss')).toBe('snake');
     });
@@ -217,4 +254,204 @@ describe('Rigging Module', () => {
       expect(providers).toHaveLength(3);
     });
   });
+
+  describe('multi-view input', () => {
+    const tempDir = path.join(__dirname, '.temp-rigging-test');
+
+    afterEach(async () => {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should send a Tripo multiview task when side or back views are given', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      for (const view of ['front', 'side', 'back']) {
+        await fs.writeFile(path.join(tempDir, `${view}.png`), view);
+      }
+      vi.stubEnv('TRIPO_API_KEY', 'test-key');
+
+      const bodies: Array<Record<string, unknown>> = [];
+      vi.stubGlobal('fetch', vi.fn(async (url: string, init?: { method?: string; body?: string }) => {
+        if (init?.method === 'POST') {
+          const body = JSON.parse(init.body!);
+          bodies.push(body);
+          const taskId = body.type === 'rig' ? 'rig-task' : 'model-task';
+          return new Response(JSON.stringify({ code: 0, data: { task_id: taskId } }));
+        }
+        if (url.includes('/task/')) {
+          return new Response(JSON.stringify({
+            code: 0,
+            data: { status: 'success', progress: 100, output: { model: 'https://models.test/model.glb' } },
+          }));
+        }
+        return new Response('glb');
+      }));
+
+      const result = await generateAndRig3DModel(
+        {
+          front: path.join(tempDir, 'front.png'),
+          side: path.join(tempDir, 'side.png'),
+          back: path.join(tempDir, 'back.png'),
+        },
+        tempDir,
+        { pollInterval: 1 }
+      );
+
+      expect(bodies[0].type).toBe('multiview_to_model');
+      expect(bodies[0].files).toEqual([
+        { type: 'png', data: Buffer.from('front').toString('base64') },
+        { type: 'png', data: Buffer.from('side').toString('base64') },
+        { type: 'png', data: Buffer.from('back').toString('base64') },
+        {},
+      ]);
+      expect(bodies[1]).toMatchObject({ type: 'rig', original_model_task_id: 'model-task' });
+      expect(result.sourceViews).toEqual(['front', 'side', 'back']);
+      expect(await fs.readFile(result.riggedModelPath, 'utf-8')).toBe('glb');
+    });
+
+    it('should keep single-image input on the image-to-model task', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'front.png'), 'front');
+      vi.stubEnv('TRIPO_API_KEY', 'test-key');
+
+      const bodies: Array<Record<string, unknown>> = [];
+      vi.stubGlobal('fetch', vi.fn(async (url: string, init?: { method?: string; body?: string }) => {
+        if (init?.method === 'POST') {
+          bodies.push(JSON.parse(init.body!));
+          return new Response(JSON.stringify({ code: 0, data: { task_id: 'task' } }));
+        }
+        if (url.includes('/task/')) {
+          return new Response(JSON.stringify({
+            code: 0,
+            data: { status: 'success', progress: 100, output: { model: 'https://models.test/model.glb' } },
+          }));
+        }
+        return new Response('glb');
+      }));
+
+      const result = await generateAndRig3DModel({ front: path.join(tempDir, 'front.png') }, tempDir, { pollInterval: 1 });
+
+      expect(bodies[0].type).toBe('image_to_model');
+      expect(result.sourceViews).toBeUndefined();
+    });
+
+    it('should flag the placeholder model when no service is configured', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'front.png'), 'front');
+      vi.stubEnv('TRIPO_API_KEY', '');
+      vi.stubEnv('MESHY_API_KEY', '');
+
+      const result = await generateAndRig3DModel(path.join(tempDir, 'front.png'), tempDir);
+
+      expect(result.isPlaceholder).toBe(true);
+      expect(result.fallbackReason).toBe('tripo: TRIPO_API_KEY environment variable is required; meshy: MESHY_API_KEY environment variable is required');
+      expect(await fs.readFile(result.riggedModelPath, 'utf-8')).toContain('PLACEHOLDER_GLB:biped');
+    });
+
+    it('should throw instead of writing a placeholder under the fail policy', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'front.png'), 'front');
+      vi.stubEnv('TRIPO_API_KEY', '');
+      vi.stubEnv('MESHY_API_KEY', '');
+
+      await expect(generateAndRig3DModel(path.join(tempDir, 'front.png'), tempDir, { fallback: 'fail' }))
+        .rejects.toThrow('TRIPO_API_KEY environment variable is required');
+      await expect(fs.access(path.join(tempDir, 'model', 'rigged.glb'))).rejects.toThrow();
+    });
+
+    it('should fall through to Meshy under the next-provider policy', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'front.png'), 'front');
+      vi.stubEnv('TRIPO_API_KEY', 'tripo-key');
+      vi.stubEnv('MESHY_API_KEY', 'meshy-key');
+
+      vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+        if (url.includes('tripo3d.ai')) {
+          return new Response('Service Unavailable', { status: 503 });
+        }
+        if (url.endsWith('/image-to-3d')) {
+          return new Response(JSON.stringify({ result: 'meshy-task' }));
+        }
+        if (url.endsWith('/meshy-task')) {
+          return new Response(JSON.stringify({ status: 'SUCCEEDED', progress: 100, model_urls: { glb: 'https://models.test/meshy.glb' } }));
+        }
+        return new Response('meshy-glb');
+      }));
+
+      const result = await generateAndRig3DModel(path.join(tempDir, 'front.png'), tempDir, { fallback: 'next-provider' });
+
+      expect(result.isPlaceholder).toBeUndefined();
+      expect(result.fallbackReason).toMatch(/^tripo: /);
+      expect(await fs.readFile(result.riggedModelPath, 'utf-8')).toBe('meshy-glb');
+    });
+
+    it('should record which provider of the chain served the model', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'front.png'), 'front');
+      vi.stubEnv('TRIPO_API_KEY', 'tripo-key');
+      vi.stubEnv('MESHY_API_KEY', 'meshy-key');
+
+      vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+        if (url.includes('tripo3d.ai')) {
+          return new Response('Service Unavailable', { status: 503 });
+        }
+        if (url.endsWith('/image-to-3d')) {
+          return new Response(JSON.stringify({ result: 'meshy-task' }));
+        }
+        if (url.endsWith('/meshy-task')) {
+          return new Response(JSON.stringify({ status: 'SUCCEEDED', progress: 100, model_urls: { glb: 'https://models.test/meshy.glb' } }));
+        }
+        return new Response('meshy-glb');
+      }));
+
+      const result = await generateAndRig3DModel(path.join(tempDir, 'front.png'), tempDir, {
+        provider: ['tripo', 'meshy'],
+        fallback: 'fail',
+      });
+
+      expect(result.provider).toBe('meshy');
+      expect(result.fallbackReason).toBe('tripo: Tripo API error (503): Service Unavailable');
+    });
+
+    it('should use Meshy by default when TRIPO_API_KEY is not set', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'front.png'), 'front');
+      vi.stubEnv('TRIPO_API_KEY', '');
+      vi.stubEnv('MESHY_API_KEY', 'meshy-key');
+      const fetch = vi.fn(async (url: string) => {
+        if (url.endsWith('/image-to-3d')) {
+          return new Response(JSON.stringify({ result: 'meshy-task' }));
+        }
+        if (url.endsWith('/meshy-task')) {
+          return new Response(JSON.stringify({ status: 'SUCCEEDED', progress: 100, model_urls: { glb: 'https://models.test/meshy.glb' } }));
+        }
+        return new Response('meshy-glb');
+      });
+      vi.stubGlobal('fetch', fetch);
+
+      const result = await generateAndRig3DModel(path.join(tempDir, 'front.png'), tempDir);
+
+      expect(fetch.mock.calls.some(([url]) => String(url).includes('tripo3d.ai'))).toBe(false);
+      expect(result.provider).toBe('meshy');
+      expect(result.isPlaceholder).toBeUndefined();
+      expect(result.fallbackReason).toBe('tripo: TRIPO_API_KEY environment variable is required');
+      expect(await fs.readFile(result.riggedModelPath, 'utf-8')).toBe('meshy-glb');
+    });
+
+    it('should not move along the chain after a non-retryable error', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'front.png'), 'front');
+      vi.stubEnv('TRIPO_API_KEY', 'revoked-key');
+      vi.stubEnv('MESHY_API_KEY', 'meshy-key');
+      const fetch = vi.fn(async () => new Response('Invalid API key', { status: 401 }));
+      vi.stubGlobal('fetch', fetch);
+
+      const result = await generateAndRig3DModel(path.join(tempDir, 'front.png'), tempDir, { provider: ['tripo', 'meshy'] });
+
+      expect(fetch.mock.calls.every(([url]) => String(url).includes('tripo3d.ai'))).toBe(true);
+      expect(result).toMatchObject({ provider: 'placeholder', isPlaceholder: true });
+      expect(result.fallbackReason).toMatch(/^tripo: .*401/);
+    });
+  });
 });
@@ -1,18 +1,64 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { execFileSync, spawnSync } from 'child_process';
 import fs from 'fs/promises';
 import path from 'path';
+import sharp from 'sharp';
 import { 
   getSpriteSheetFormats, 
   calculateOptimalColumns,
+  clipToSpriteSheet,
+  clipsToAtlas,
+  packAtlas,
+  detectVideoLoop,
+  findLoopPoints,
   createSpriteSheet,
+  createAnimatedGif,
+  createAnimatedPreview,
+  encodeAnimation,
   extractFramesFromVideo,
+  findFfmpeg,
+  getVideoDuration,
+  getMetadataFormats,
+  isLoopingAnimation,
+  trimVideo,
 } from '../src/sprite-sheet/index.js';
 
+// Real decoding needs an ffmpeg binary; those tests are skipped on machines without one
+const ffmpegPath = await findFfmpeg();
+
+async function createFrames(dir: string, count: number): Promise<string[]> {
+  await fs.mkdir(dir, { recursive: true });
+  const framePaths: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const framePath = path.join(dir, `frame_${i.toString().padStart(4, '0')}.png`);
+    await sharp({
+      create: { width: 64, height: 64, channels: 4, background: { r: 100, g: 100, b: 200 + i, alpha: 1 } },
+    })
+      .png()
+      .toFile(framePath);
+    framePaths.push(framePath);
+  }
+  return framePaths;
+}
+
 describe('Sprite Sheet Module', () => {
   const tempDir = path.join(__dirname, '.temp-sprite-test');
+  const videoPath = path.join(tempDir, 'clip.mp4');
 
   beforeAll(async () => {
     await fs.mkdir(tempDir, { recursive: true });
+    if (ffmpegPath) {
+      // 2 seconds at 10 fps of ffmpeg's built-in test pattern
+      execFileSync(ffmpegPath, [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-f', 'lavfi', '-i', 'testsrc=size=96x64:rate=10:duration=2',
+        '-c:v', 'mpeg4', videoPath,
+      ]);
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
   });
 
   afterAll(async () => {
@@ -51,31 +97,65 @@ describe('Sprite Sheet Module', () => {
   });
 
   describe('extractFramesFromVideo', () => {
-    it('should extract requested number of frames', async () => {
-      const framePaths = await extractFramesFromVideo(
-        'placeholder.mp4',
-        tempDir,
-        { frameCount: 4 }
-      );
-      
+    it('should reject a missing video', async () => {
+      await expect(
+        extractFramesFromVideo(path.join(tempDir, 'missing.mp4'), tempDir, { frameCount: 4 })
+      ).rejects.toThrow('Video not found');
+    });
+
+    it('should reject invalid options before decoding', async () => {
+      await expect(extractFramesFromVideo(videoPath, tempDir, { frameCount: 0 })).rejects.toThrow('frameCount');
+      await expect(extractFramesFromVideo(videoPath, tempDir, { fps: -1 })).rejects.toThrow('fps');
+      await expect(extractFramesFromVideo(videoPath, tempDir, { start: 2, end: 1 })).rejects.toThrow('time window');
+    });
+
+    it('should explain how to provide ffmpeg when it is missing', async () => {
+      const fakeVideo = path.join(tempDir, 'fake.mp4');
+      await fs.writeFile(fakeVideo, 'not a video');
+      vi.stubEnv('FFMPEG_PATH', path.join(tempDir, 'no-ffmpeg-here'));
+
+      await expect(extractFramesFromVideo(fakeVideo, tempDir)).rejects.toThrow('FFMPEG_PATH');
+    });
+
+    it.skipIf(!ffmpegPath)('should read the video duration', async () => {
+      expect(await getVideoDuration(videoPath)).toBeCloseTo(2, 1);
+    });
+
+    it.skipIf(!ffmpegPath)('should extract requested number of frames', async () => {
+      const framePaths = await extractFramesFromVideo(videoPath, tempDir, { frameCount: 4 });
+
       expect(framePaths).toHaveLength(4);
-      
-      // Verify frames exist
-      for (const framePath of framePaths) {
-        const exists = await fs.access(framePath).then(() => true).catch(() => false);
-        expect(exists).toBe(true);
-      }
+      expect(path.basename(framePaths[0])).toBe('frame_0000.png');
+      expect(path.basename(framePaths[3])).toBe('frame_0003.png');
+
+      const meta = await sharp(framePaths[0]).metadata();
+      expect(meta.width).toBe(96);
+      expect(meta.height).toBe(64);
+      expect(meta.channels).toBe(4);
+    });
+
+    it.skipIf(!ffmpegPath)('should sample at a fixed fps within a time window', async () => {
+      const framePaths = await extractFramesFromVideo(videoPath, tempDir, { fps: 5, start: 0.5, end: 1.5 });
+
+      expect(framePaths).toHaveLength(5);
+    });
+
+    it.skipIf(!ffmpegPath)('should cap fps sampling at frameCount and drop stale frames', async () => {
+      await extractFramesFromVideo(videoPath, tempDir, { frameCount: 8 });
+      const framePaths = await extractFramesFromVideo(videoPath, tempDir, { fps: 10, frameCount: 3 });
+
+      expect(framePaths).toHaveLength(3);
+      expect(await fs.readdir(path.join(tempDir, 'frames'))).toHaveLength(3);
+    });
+
+    it.skipIf(!ffmpegPath)('should reject a start time past the end of the video', async () => {
+      await expect(extractFramesFromVideo(videoPath, tempDir, { start: 5 })).rejects.toThrow('past the end');
     });
   });
 
   describe('createSpriteSheet', () => {
     it('should create sprite sheet from frames', async () => {
-      // First extract frames
-      const framePaths = await extractFramesFromVideo(
-        'placeholder.mp4',
-        tempDir,
-        { frameCount: 4 }
-      );
+      const framePaths = await createFrames(path.join(tempDir, 'frames-4'), 4);
       
       // Create sprite sheet
       const result = await createSpriteSheet(
@@ -108,11 +188,7 @@ describe('Sprite Sheet Module', () => {
     });
 
     it('should support custom columns', async () => {
-      const framePaths = await extractFramesFromVideo(
-        'placeholder.mp4',
-        tempDir,
-        { frameCount: 6 }
-      );
+      const framePaths = await createFrames(path.join(tempDir, 'frames-6'), 6);
       
       const result = await createSpriteSheet(
         framePaths,
@@ -125,4 +201,556 @@ describe('Sprite Sheet Module', () => {
       expect(result.rows).toBe(2);
     });
   });
+
+  describe('engine metadata', () => {
+    it('should list the supported metadata formats', () => {
+      expect(getMetadataFormats()).toEqual(['json-hash', 'json-array', 'godot', 'unity', 'aseprite']);
+    });
+
+    it('should write every requested format next to the sheet', async () => {
+      const framePaths = await createFrames(path.join(tempDir, 'frames-engine'), 4);
+      const result = await createSpriteSheet(framePaths, tempDir, 'run', {
+        metadataFormats: ['json-hash', 'json-array', 'godot', 'unity', 'aseprite'],
+        frameDuration: [50, 50, 100, 200],
+      });
+
+      expect(result.metadataPath).toBe(path.join(tempDir, 'run_spritesheet.json'));
+      expect(result.metadataPaths).toEqual({
+        'json-hash': path.join(tempDir, 'run_spritesheet.json'),
+        'json-array': path.join(tempDir, 'run_spritesheet.array.json'),
+        godot: path.join(tempDir, 'run_spritesheet.tres'),
+        unity: path.join(tempDir, 'run_spritesheet.png.meta'),
+        aseprite: path.join(tempDir, 'run_spritesheet.aseprite.json'),
+      });
+
+      const hash = JSON.parse(await fs.readFile(result.metadataPaths!['json-hash']!, 'utf-8'));
+      expect(hash.frames.run_3.duration).toBe(200);
+      expect(hash.frames.run_1.frame).toEqual({ x: 64, y: 0, w: 64, h: 64 });
+      expect(hash.animations.run).toEqual(['run_0', 'run_1', 'run_2', 'run_3']);
+
+      const array = JSON.parse(await fs.readFile(result.metadataPaths!['json-array']!, 'utf-8'));
+      expect(array.frames.map((f: { filename: string }) => f.filename)).toEqual(['run_0', 'run_1', 'run_2', 'run_3']);
+      expect(array.meta.image).toBe('run_spritesheet.png');
+    });
+
+    it('should write a Godot SpriteFrames resource with relative durations', async () => {
+      const framePaths = await createFrames(path.join(tempDir, 'frames-engine'), 4);
+      const result = await createSpriteSheet(framePaths, tempDir, 'attack', {
+        metadataFormats: ['godot'],
+        frameDuration: [50, 50, 100, 200],
+        loop: false,
+        godotTexturePath: 'res://sprites/attack.png',
+      });
+
+      const tres = await fs.readFile(result.metadataPath!, 'utf-8');
+      expect(tres).toContain('[gd_resource type="SpriteFrames" load_steps=6 format=3]');
+      expect(tres).toContain('path="res://sprites/attack.png"');
+      expect(tres).toContain('region = Rect2(0, 64, 64, 64)');
+      expect(tres).toContain('"speed": 20.0');
+      expect(tres).toContain('"duration": 4.0');
+      expect(tres).toContain('"loop": false');
+      expect(tres).toContain('"name": &"attack"');
+    });
+
+    it('should slice a Unity sprite sheet with bottom-left rects and stable ids', async () => {
+      const framePaths = await createFrames(path.join(tempDir, 'frames-engine'), 4);
+      const first = await fs.readFile(
+        (await createSpriteSheet(framePaths, tempDir, 'idle', { metadataFormats: ['unity'] })).metadataPath!,
+        'utf-8'
+      );
+      const second = await fs.readFile(
+        (await createSpriteSheet(framePaths, tempDir, 'idle', { metadataFormats: ['unity'] })).metadataPath!,
+        'utf-8'
+      );
+
+      expect(first).toBe(second);
+      expect(first).toMatch(/^guid: [0-9a-f]{32}$/m);
+      expect(first).toContain('spriteMode: 2');
+      // idle_0 sits in the top row, which Unity counts from the bottom
+      expect(first).toMatch(/name: idle_0\n {6}rect:\n {8}serializedVersion: 2\n {8}x: 0\n {8}y: 64/);
+      expect(first).toMatch(/name: idle_2\n {6}rect:\n {8}serializedVersion: 2\n {8}x: 0\n {8}y: 0/);
+    });
+
+    it('should tag Aseprite frames and mark one-shot animations', async () => {
+      const framePaths = await createFrames(path.join(tempDir, 'frames-engine'), 4);
+      const result = await createSpriteSheet(framePaths, tempDir, 'death', {
+        metadataFormats: ['aseprite'],
+        frameDuration: 125,
+        loop: false,
+      });
+
+      const aseprite = JSON.parse(await fs.readFile(result.metadataPath!, 'utf-8'));
+      expect(aseprite.meta.frameTags).toEqual([{ name: 'death', from: 0, to: 3, direction: 'forward', repeat: '1' }]);
+      expect(aseprite.frames.death_2.duration).toBe(125);
+    });
+
+    it('should tag directional animations with their facing', async () => {
+      const framePaths = await createFrames(path.join(tempDir, 'frames-engine'), 4);
+      const result = await createSpriteSheet(framePaths, tempDir, 'walk_NE', {
+        metadataFormats: ['json-hash', 'aseprite'],
+        direction: 'NE',
+      });
+
+      const hash = JSON.parse(await fs.readFile(result.metadataPaths!['json-hash']!, 'utf-8'));
+      expect(hash.meta.directions).toEqual({ walk_NE: 'NE' });
+      expect(hash.animations.walk_NE).toHaveLength(4);
+      const aseprite = JSON.parse(await fs.readFile(result.metadataPaths!.aseprite!, 'utf-8'));
+      expect(aseprite.meta.frameTags[0]).toEqual({ name: 'walk_NE', from: 0, to: 3, direction: 'forward', data: 'direction=NE' });
+    });
+
+    it('should loop directional names like their animation', () => {
+      expect(isLoopingAnimation('walk_SW')).toBe(true);
+      expect(isLoopingAnimation('attack_N')).toBe(false);
+    });
+
+    it('should reject unknown metadata formats and mismatched durations', async () => {
+      const framePaths = await createFrames(path.join(tempDir, 'frames-engine'), 4);
+
+      await expect(
+        createSpriteSheet(framePaths, tempDir, 'bad', { metadataFormats: ['cocos' as never] })
+      ).rejects.toThrow('Unknown metadata formats: cocos');
+      await expect(
+        createSpriteSheet(framePaths, tempDir, 'bad', { frameDuration: [100, 100] })
+      ).rejects.toThrow('frameDuration');
+    });
+
+    it.skipIf(!ffmpegPath)('should time clip frames from the clip fps', async () => {
+      const result = await clipToSpriteSheet(
+        { videoPath, animationType: 'death', duration: 2, fps: 10 },
+        path.join(tempDir, 'clip-sheet'),
+        { metadataFormats: ['json-hash', 'aseprite'] }
+      );
+
+      expect(result.frameCount).toBe(20);
+      const hash = JSON.parse(await fs.readFile(result.metadataPaths!['json-hash']!, 'utf-8'));
+      expect(hash.frames.death_0.duration).toBe(100);
+      const aseprite = JSON.parse(await fs.readFile(result.metadataPaths!.aseprite!, 'utf-8'));
+      expect(aseprite.meta.frameTags[0].repeat).toBe('1');
+    });
+  });
+
+  describe('texture atlas', () => {
+    // A transparent canvas with one opaque block, so trimming has borders to remove
+    async function createSprite(filePath: string, block: { x: number; y: number; w: number; h: number }, green = 0): Promise<string> {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await sharp({ create: { width: 64, height: 64, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+        .composite([{
+          input: { create: { width: block.w, height: block.h, channels: 4, background: { r: 255, g: green, b: 0, alpha: 1 } } },
+          left: block.x,
+          top: block.y,
+        }])
+        .png()
+        .toFile(filePath);
+      return filePath;
+    }
+
+    async function createClip(name: string, count: number, size: number): Promise<string[]> {
+      const framePaths: string[] = [];
+      for (let i = 0; i < count; i++) {
+        framePaths.push(await createSprite(path.join(tempDir, 'atlas-frames', name, `${i}.png`), { x: 8, y: 4, w: size, h: size }, 40 * i));
+      }
+      return framePaths;
+    }
+
+    type PackedFrame = { frame: { x: number; y: number; w: number; h: number } };
+
+    function overlaps(a: PackedFrame['frame'], b: PackedFrame['frame'], gap: number): boolean {
+      return a.x < b.x + b.w + gap && b.x < a.x + a.w + gap && a.y < b.y + b.h + gap && b.y < a.y + a.h + gap;
+    }
+
+    it('should trim frames and pack every animation into one image and metadata file', async () => {
+      const outputDir = path.join(tempDir, 'atlas-single');
+      const result = await packAtlas(
+        [
+          { name: 'idle', framePaths: await createClip('idle', 2, 20), frameDuration: 200 },
+          { name: 'attack', framePaths: await createClip('attack', 3, 30), loop: false },
+        ],
+        outputDir,
+        'knight',
+        { metadataFormats: ['json-hash', 'aseprite'] }
+      );
+
+      expect(result.pages).toHaveLength(1);
+      expect(result.pages[0].imagePath).toBe(path.join(outputDir, 'knight.png'));
+      expect(result.metadataPath).toBe(path.join(outputDir, 'knight.json'));
+      expect(result.frameCount).toBe(5);
+
+      const hash = JSON.parse(await fs.readFile(result.metadataPath!, 'utf-8'));
+      expect(hash.animations).toEqual({ idle: ['idle_0', 'idle_1'], attack: ['attack_0', 'attack_1', 'attack_2'] });
+      expect(hash.frames.idle_0).toMatchObject({
+        trimmed: true,
+        spriteSourceSize: { x: 8, y: 4, w: 20, h: 20 },
+        sourceSize: { w: 64, h: 64 },
+        duration: 200,
+      });
+      expect(hash.frames.attack_1.frame).toMatchObject({ w: 30, h: 30 });
+
+      // Packed far tighter than five untrimmed 64x64 frames
+      const { width, height } = await sharp(result.pages[0].imagePath).metadata();
+      expect(width! * height!).toBeLessThan(5 * 64 * 64);
+
+      const frames = Object.values(hash.frames) as PackedFrame[];
+      frames.forEach((a, i) => frames.slice(i + 1).forEach(b => expect(overlaps(a.frame, b.frame, 2)).toBe(false)));
+
+      const aseprite = JSON.parse(await fs.readFile(result.pages[0].metadataPaths.aseprite!, 'utf-8'));
+      expect(aseprite.meta.frameTags).toEqual([
+        { name: 'idle', from: 0, to: 1, direction: 'forward' },
+        { name: 'attack', from: 2, to: 4, direction: 'forward', repeat: '1' },
+      ]);
+    });
+
+    it('should store identical frames once', async () => {
+      const frame = await createSprite(path.join(tempDir, 'atlas-frames', 'same.png'), { x: 10, y: 10, w: 16, h: 16 });
+      const shifted = await createSprite(path.join(tempDir, 'atlas-frames', 'shifted.png'), { x: 20, y: 30, w: 16, h: 16 });
+      const result = await packAtlas(
+        [{ name: 'idle', framePaths: [frame, frame, shifted] }],
+        path.join(tempDir, 'atlas-dedupe'),
+        'atlas'
+      );
+
+      expect(result.uniqueFrameCount).toBe(1);
+      const hash = JSON.parse(await fs.readFile(result.metadataPath!, 'utf-8'));
+      expect(hash.frames.idle_2.frame).toEqual(hash.frames.idle_0.frame);
+      // Shared pixels keep each frame's own offset into the source frame
+      expect(hash.frames.idle_2.spriteSourceSize).toEqual({ x: 20, y: 30, w: 16, h: 16 });
+
+      const separate = await packAtlas(
+        [{ name: 'idle', framePaths: [frame, frame] }],
+        path.join(tempDir, 'atlas-dedupe'),
+        'separate',
+        { dedupe: false }
+      );
+      expect(separate.uniqueFrameCount).toBe(2);
+    });
+
+    it('should extrude edges and round pages up to powers of two', async () => {
+      const framePaths = await createClip('extrude', 3, 20);
+      const result = await packAtlas(
+        [{ name: 'walk', framePaths }],
+        path.join(tempDir, 'atlas-extrude'),
+        'atlas',
+        { padding: 3, extrude: 2, powerOfTwo: true }
+      );
+
+      const { width, height } = result.pages[0];
+      expect(Math.log2(width) % 1).toBe(0);
+      expect(Math.log2(height) % 1).toBe(0);
+
+      const hash = JSON.parse(await fs.readFile(result.metadataPath!, 'utf-8'));
+      const frames = Object.values(hash.frames) as PackedFrame[];
+      // Extruded borders on both frames plus the padding separate every pair
+      frames.forEach((a, i) => frames.slice(i + 1).forEach(b => expect(overlaps(a.frame, b.frame, 2 * 2 + 3)).toBe(false)));
+
+      const { data, info } = await sharp(result.pages[0].imagePath).raw().toBuffer({ resolveWithObject: true });
+      const { x, y } = hash.frames.walk_0.frame;
+      const pixel = (px: number, py: number) => [...data.subarray((py * info.width + px) * 4, (py * info.width + px) * 4 + 4)];
+      expect(pixel(x - 2, y - 2)).toEqual(pixel(x, y));
+      expect(pixel(x - 1, y)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('should spill onto more pages while keeping animations together', async () => {
+      // A page holds four frames, so run moves to a new page rather than splitting
+      const outputDir = path.join(tempDir, 'atlas-pages');
+      const result = await packAtlas(
+        [
+          { name: 'idle', framePaths: await createClip('page-idle', 3, 30) },
+          { name: 'run', framePaths: await createClip('page-run', 3, 28) },
+        ],
+        outputDir,
+        'atlas',
+        { maxWidth: 128, maxHeight: 32, metadataFormats: ['json-hash', 'unity'] }
+      );
+
+      expect(result.pages.map(page => path.basename(page.imagePath))).toEqual(['atlas_0.png', 'atlas_1.png']);
+      expect(result.pages[0].frames).toEqual(['idle_0', 'idle_1', 'idle_2']);
+      expect(result.pages[1].frames).toEqual(['run_0', 'run_1', 'run_2']);
+      expect(result.pages[1].metadataPaths.unity).toBe(path.join(outputDir, 'atlas_1.png.meta'));
+
+      const second = JSON.parse(await fs.readFile(result.pages[1].metadataPaths['json-hash']!, 'utf-8'));
+      expect(second.meta.image).toBe('atlas_1.png');
+      expect(second.animations).toEqual({ run: ['run_0', 'run_1', 'run_2'] });
+      for (const page of result.pages) {
+        expect(page.width).toBeLessThanOrEqual(128);
+        expect(page.height).toBeLessThanOrEqual(32);
+      }
+    });
+
+    it('should keep trimmed frames anchored in Godot and Unity metadata', async () => {
+      const framePath = await createSprite(path.join(tempDir, 'atlas-frames', 'anchored.png'), { x: 16, y: 8, w: 16, h: 32 });
+      const result = await packAtlas(
+        [{ name: 'idle', framePaths: [framePath] }],
+        path.join(tempDir, 'atlas-engines'),
+        'atlas',
+        { metadataFormats: ['godot', 'unity'] }
+      );
+
+      const tres = await fs.readFile(result.pages[0].metadataPaths.godot!, 'utf-8');
+      expect(tres).toContain('margin = Rect2(16, 8, 48, 32)');
+      const meta = await fs.readFile(result.pages[0].metadataPaths.unity!, 'utf-8');
+      expect(meta).toContain('alignment: 9');
+      // The source centre (32, 32) is the block's right edge, 8px up from its bottom
+      expect(meta).toContain('pivot: {x: 1, y: 0.25}');
+    });
+
+    it('should reject frames larger than a page and duplicate animation names', async () => {
+      const framePaths = await createClip('large', 1, 40);
+
+      await expect(
+        packAtlas([{ name: 'idle', framePaths }], path.join(tempDir, 'atlas-bad'), 'atlas', { maxWidth: 32, maxHeight: 32 })
+      ).rejects.toThrow('does not fit in a 32x32 page');
+      await expect(
+        packAtlas([{ name: 'idle', framePaths }, { name: 'idle', framePaths }], path.join(tempDir, 'atlas-bad'), 'atlas')
+      ).rejects.toThrow('Duplicate animation names: idle');
+      await expect(packAtlas([], path.join(tempDir, 'atlas-bad'), 'atlas')).rejects.toThrow('No frames');
+    });
+
+    it('should tag the facing of each directional animation in the atlas', async () => {
+      const framePaths = await createFrames(path.join(tempDir, 'frames-atlas-directions'), 2);
+      const result = await packAtlas(
+        [
+          { name: 'walk_E', framePaths, direction: 'E' },
+          { name: 'walk_W', framePaths, direction: 'W' },
+          { name: 'idle', framePaths },
+        ],
+        path.join(tempDir, 'atlas-directions'),
+        'atlas'
+      );
+
+      const hash = JSON.parse(await fs.readFile(result.metadataPath!, 'utf-8'));
+      expect(hash.meta.directions).toEqual({ walk_E: 'E', walk_W: 'W' });
+    });
+
+    it.skipIf(!ffmpegPath)('should pack generated clips at their own fps', async () => {
+      const result = await clipsToAtlas(
+        [
+          { videoPath, animationType: 'idle', duration: 2, fps: 10 },
+          { videoPath, animationType: 'hurt', duration: 2, fps: 5 },
+        ],
+        path.join(tempDir, 'atlas-clips'),
+        'atlas',
+        { metadataFormats: ['json-hash', 'aseprite'] }
+      );
+
+      expect(result.frameCount).toBe(30);
+      expect(result.animations).toEqual(['idle', 'hurt']);
+      const hash = JSON.parse(await fs.readFile(result.metadataPath!, 'utf-8'));
+      expect(hash.frames.idle_0.duration).toBe(100);
+      expect(hash.frames.hurt_0.duration).toBe(200);
+      const aseprite = JSON.parse(await fs.readFile(result.pages[0].metadataPaths.aseprite!, 'utf-8'));
+      expect(aseprite.meta.frameTags[1]).toMatchObject({ name: 'hurt', repeat: '1' });
+    });
+  });
+
+  describe('loop detection', () => {
+    // An 8px square at each x position, with y lifting the intro frames off the cycle's path
+    async function createPathFrames(dir: string, positions: Array<[number, number]>): Promise<string[]> {
+      await fs.mkdir(dir, { recursive: true });
+      const framePaths: string[] = [];
+      for (const [i, [x, y]] of positions.entries()) {
+        const framePath = path.join(dir, `frame_${i.toString().padStart(4, '0')}.png`);
+        await sharp({ create: { width: 64, height: 32, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+          .composite([{ input: { create: { width: 8, height: 8, channels: 4, background: { r: 255, g: 255, b: 255, alpha: 1 } } }, left: x, top: y }])
+          .png()
+          .toFile(framePath);
+        framePaths.push(framePath);
+      }
+      return framePaths;
+    }
+
+    // Three intro frames, then two passes of a six-step cycle
+    const cycle: Array<[number, number]> = [0, 4, 8, 12, 8, 4].map(x => [x + 20, 12]);
+    const cyclePositions: Array<[number, number]> = [[0, 0], [20, 0], [40, 0], ...cycle, ...cycle];
+
+    it('should find the cycle after an intro and score its wrap as seamless', async () => {
+      const framePaths = await createPathFrames(path.join(tempDir, 'loop-cycle'), cyclePositions);
+      const loop = await findLoopPoints(framePaths);
+
+      expect(loop.start).toBe(3);
+      expect(loop.end).toBe(14);
+      expect(loop.score).toBeGreaterThan(0.9);
+    });
+
+    it('should give a clip that never returns to its start a low score', async () => {
+      const positions: Array<[number, number]> = Array.from({ length: 12 }, (_, i) => [i * 4, 12]);
+      const framePaths = await createPathFrames(path.join(tempDir, 'loop-drift'), positions);
+      const loop = await findLoopPoints(framePaths);
+
+      expect(loop.score).toBeLessThan(0.6);
+      expect(loop.end - loop.start + 1).toBeGreaterThanOrEqual(6);
+    });
+
+    it('should trim sprite sheet frames to the loop', async () => {
+      const framePaths = await createPathFrames(path.join(tempDir, 'loop-cycle'), cyclePositions);
+      const result = await createSpriteSheet(framePaths, path.join(tempDir, 'loop-sheet'), 'walk', { trimLoop: true });
+
+      expect(result.frameCount).toBe(12);
+      expect(result.loop).toMatchObject({ start: 3, end: 14 });
+
+      const oneShot = await createSpriteSheet(framePaths, path.join(tempDir, 'loop-sheet'), 'attack', { trimLoop: true, loop: false });
+      expect(oneShot.frameCount).toBe(15);
+      expect(oneShot.loop).toBeUndefined();
+    });
+
+    it('should reject too few frames', async () => {
+      const framePaths = await createPathFrames(path.join(tempDir, 'loop-single'), [[0, 0]]);
+      await expect(findLoopPoints(framePaths)).rejects.toThrow('at least 2 frames');
+    });
+
+    it.skipIf(!ffmpegPath)('should cut a clip down to its loop', async () => {
+      const framesDir = path.join(tempDir, 'loop-cycle');
+      await createPathFrames(framesDir, cyclePositions);
+      const clipPath = path.join(tempDir, 'loop-clip.mp4');
+      execFileSync(ffmpegPath!, [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-framerate', '10', '-i', path.join(framesDir, 'frame_%04d.png'),
+        '-c:v', 'mpeg4', '-q:v', '2', '-pix_fmt', 'yuv420p', clipPath,
+      ]);
+
+      const reported = await detectVideoLoop(clipPath, { fps: 10 });
+      expect(reported).toMatchObject({ start: 0.3, end: 1.5, trimmed: false });
+      expect(await getVideoDuration(clipPath)).toBeCloseTo(1.5, 1);
+
+      const trimmedPath = path.join(tempDir, 'loop-clip-trimmed.mp4');
+      const trimmed = await detectVideoLoop(clipPath, { fps: 10, trim: true, outputPath: trimmedPath });
+      expect(trimmed.trimmed).toBe(true);
+      expect(await getVideoDuration(trimmedPath)).toBeCloseTo(1.2, 1);
+    });
+  });
+
+  describe('trimVideo', () => {
+    // ffmpeg lists the streams on stderr when run without an output
+    const streamsOf = (clipPath: string) => spawnSync(ffmpegPath!, ['-hide_banner', '-i', clipPath], { encoding: 'utf-8' }).stderr;
+
+    it.skipIf(!ffmpegPath)('should trim a silent clip and keep it video-only', async () => {
+      const trimmedPath = path.join(tempDir, 'silent-trimmed.mp4');
+      await trimVideo(videoPath, 0.5, 1.5, trimmedPath);
+
+      expect(await getVideoDuration(trimmedPath)).toBeCloseTo(1, 1);
+      expect(streamsOf(trimmedPath)).toContain('Video:');
+      expect(streamsOf(trimmedPath)).not.toContain('Audio:');
+    });
+
+    it.skipIf(!ffmpegPath)('should trim the audio of a clip that has some', async () => {
+      const soundPath = path.join(tempDir, 'sound.mp4');
+      execFileSync(ffmpegPath!, [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-f', 'lavfi', '-i', 'testsrc=size=96x64:rate=10:duration=2',
+        '-f', 'lavfi', '-i', 'sine=frequency=440:duration=2',
+        '-c:v', 'mpeg4', '-c:a', 'aac', soundPath,
+      ]);
+      const trimmedPath = path.join(tempDir, 'sound-trimmed.mp4');
+      await trimVideo(soundPath, 0.5, 1.5, trimmedPath);
+
+      expect(await getVideoDuration(trimmedPath)).toBeCloseTo(1, 1);
+      expect(streamsOf(trimmedPath)).toContain('Audio:');
+    });
+
+    it('should reject an empty trim window', async () => {
+      await expect(trimVideo(videoPath, 1, 1)).rejects.toThrow('Invalid trim window');
+    });
+  });
+
+  describe('animated previews', () => {
+    // A square moving right over a transparent background, one position per frame
+    async function createMovingFrames(dir: string, count: number): Promise<string[]> {
+      await fs.mkdir(dir, { recursive: true });
+      const square = await sharp({
+        create: { width: 8, height: 8, channels: 4, background: { r: 220, g: 40, b: 40, alpha: 1 } },
+      }).png().toBuffer();
+      const framePaths: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const framePath = path.join(dir, `frame_${i}.png`);
+        await sharp({ create: { width: 32, height: 16, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+          .composite([{ input: square, left: i * 8, top: 4 }])
+          .png()
+          .toFile(framePath);
+        framePaths.push(framePath);
+      }
+      return framePaths;
+    }
+
+    async function pixel(image: Buffer, page: number, x: number, y: number): Promise<number[]> {
+      const { data, info } = await sharp(image, { page }).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+      const offset = (y * info.width + x) * 4;
+      return [...data.subarray(offset, offset + 4)];
+    }
+
+    it('should encode a looping GIF with per-frame delays and transparency', async () => {
+      const frames = await createMovingFrames(path.join(tempDir, 'moving'), 4);
+      const gif = await encodeAnimation(frames, { format: 'gif', delay: [100, 200, 100, 50] });
+
+      const metadata = await sharp(gif, { animated: true }).metadata();
+      expect(metadata.pages).toBe(4);
+      expect(metadata.pageHeight).toBe(16);
+      expect(metadata.delay).toEqual([100, 200, 100, 50]);
+      expect(metadata.loop).toBe(0);
+
+      expect(await pixel(gif, 2, 20, 8)).toEqual([220, 40, 40, 255]);
+      expect((await pixel(gif, 2, 4, 8))[3]).toBe(0);
+    });
+
+    it('should honour the loop count and a fixed GIF palette', async () => {
+      const frames = await createMovingFrames(path.join(tempDir, 'moving'), 2);
+      const gif = await encodeAnimation(frames, { format: 'gif', loop: 3, palette: 'gameboy', dither: 0 });
+
+      expect((await sharp(gif, { animated: true }).metadata()).loop).toBe(3);
+      // Red maps to the nearest Game Boy green
+      expect((await pixel(gif, 0, 2, 8)).slice(0, 3)).toEqual([0x30, 0x62, 0x30]);
+    });
+
+    it('should encode an animated WebP', async () => {
+      const frames = await createMovingFrames(path.join(tempDir, 'moving'), 3);
+      const webp = await encodeAnimation(frames, { format: 'webp', delay: 80, loop: false });
+
+      const metadata = await sharp(webp, { animated: true }).metadata();
+      expect(metadata.pages).toBe(3);
+      expect(metadata.delay).toEqual([80, 80, 80]);
+      expect(metadata.loop).toBe(1);
+      expect(metadata.hasAlpha).toBe(true);
+      expect(await pixel(webp, 1, 12, 8)).toEqual([220, 40, 40, 255]);
+    });
+
+    it('should encode an APNG with animation control chunks', async () => {
+      const frames = await createMovingFrames(path.join(tempDir, 'moving'), 3);
+      const apng = await encodeAnimation(frames, { format: 'apng', delay: 40 });
+
+      const chunkTypes: string[] = [];
+      for (let offset = 8; offset < apng.length; offset += apng.readUInt32BE(offset) + 12) {
+        chunkTypes.push(apng.toString('latin1', offset + 4, offset + 8));
+      }
+      expect(chunkTypes[0]).toBe('IHDR');
+      expect(chunkTypes[1]).toBe('acTL');
+      expect(chunkTypes.filter(type => type === 'fcTL')).toHaveLength(3);
+      expect(chunkTypes).toContain('fdAT');
+      expect(chunkTypes.at(-1)).toBe('IEND');
+
+      const actl = apng.subarray(apng.indexOf('acTL') + 4);
+      expect(actl.readUInt32BE(0)).toBe(3);
+      expect(actl.readUInt32BE(4)).toBe(0);
+
+      // Viewers without APNG support still show the first frame
+      expect(await pixel(apng, 0, 2, 8)).toEqual([220, 40, 40, 255]);
+    });
+
+    it('should write previews named after the animation', async () => {
+      const frames = await createMovingFrames(path.join(tempDir, 'moving'), 2);
+
+      const gifPath = await createAnimatedGif(frames, tempDir, 'walk', { delay: 100, loop: true });
+      const webpPath = await createAnimatedPreview(frames, tempDir, 'walk', { format: 'webp' });
+
+      expect(gifPath).toBe(path.join(tempDir, 'walk.gif'));
+      expect(webpPath).toBe(path.join(tempDir, 'walk.webp'));
+      expect((await sharp(gifPath, { animated: true }).metadata()).pages).toBe(2);
+    });
+
+    it('should validate animation options', async () => {
+      const frames = await createMovingFrames(path.join(tempDir, 'moving'), 2);
+
+      await expect(encodeAnimation([], {})).rejects.toThrow('No frames');
+      await expect(encodeAnimation(frames, { delay: [100] })).rejects.toThrow('1 frame delays for 2 frames');
+      await expect(encodeAnimation(frames, { loop: -1 })).rejects.toThrow('Loop count');
+      await expect(encodeAnimation(frames, { colors: 1 })).rejects.toThrow('colours');
+      await expect(encodeAnimation(frames, { format: 'bmp' as never })).rejects.toThrow('Unsupported animation format');
+    });
+  });
 });
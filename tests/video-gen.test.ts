@@ -1,5 +1,35 @@
-import { describe, it, expect } from 'vitest';
-import { getAnimationTypes, getAnimationConfig, getSupportedProviders } from '../src/video-gen/index.js';
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import sharp from 'sharp';
+import {
+  animateSprite,
+  animateSpriteDirections,
+  createAnimationBatch,
+  animateTransition,
+  createTransitionBatch,
+  getDefaultTransitions,
+  parseTransitions,
+  buildTransitionGraph,
+  writeStateMachine,
+  generateVeoVideo,
+  getAnimationTypes,
+  getAnimationConfig,
+  getSupportedProviders,
+  VideoAuthError,
+  VideoQuotaError,
+  VideoRequestError,
+  VideoServerError,
+  VideoTimeoutError,
+} from '../src/video-gen/index.js';
+import { findFfmpeg, getVideoDuration } from '../src/sprite-sheet/index.js';
+import { RateLimiter } from '../src/rate-limit/index.js';
+
+// Loop trimming decodes real video; those tests are skipped on machines without ffmpeg
+const ffmpegPath = await findFfmpeg();
 
 describe('Video Generation', () => {
   describe('getAnimationTypes', () => {
@@ -12,7 +42,9 @@ describe('Video Generation', () => {
       expect(types).toContain('jump');
       expect(types).toContain('death');
       expect(types).toContain('hurt');
-      expect(types).toHaveLength(7);
+      expect(types).toContain('cast');
+      expect(types).toContain('fly');
+      expect(types).toHaveLength(15);
     });
   });
 
@@ -45,8 +77,12 @@ describe('Video Generation', () => {
       expect(config.fps).toBe(30);
     });
 
+    it('should mark cycles as looping and actions as one-shot', () => {
+      expect(getAnimationTypes().filter(type => getAnimationConfig(type).loop)).toEqual(['idle', 'walk', 'run', 'crouch', 'climb', 'swim', 'fly']);
+    });
+
     it('should have loop mention in looping animations', () => {
-      const loopingTypes = ['idle', 'walk', 'run'] as const;
+      const loopingTypes = ['idle', 'walk', 'run', 'crouch', 'climb', 'swim', 'fly'] as const;
       loopingTypes.forEach(type => {
         const config = getAnimationConfig(type);
         expect(config.prompt.toLowerCase()).toContain('loop');
@@ -102,4 +138,758 @@ describe('Video Generation', () => {
       });
     });
   });
+
+  describe('Veo operations', () => {
+    const tempDir = path.join(__dirname, '.temp-veo-test');
+    const request = { model: 'veo-test', prompt: 'walk cycle', image: 'c3ByaXRl', duration: '1s', aspectRatio: '16:9' };
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: Array<{ method?: string; url?: string; apiKey?: string; body: Record<string, unknown> }>;
+    // Each test sets how the mock API answers; polls counts operation GETs
+    let respond: (url: string, res: http.ServerResponse, polls: number) => void;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => (raw += chunk));
+        req.on('end', () => {
+          requests.push({
+            method: req.method,
+            url: req.url,
+            apiKey: req.headers['x-goog-api-key'] as string | undefined,
+            body: raw ? JSON.parse(raw) : {},
+          });
+          res.setHeader('Content-Type', 'application/json');
+          respond(req.url!, res, requests.filter(r => r.url?.includes('/operations/')).length);
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta`;
+    });
+
+    beforeEach(() => {
+      requests = [];
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    function operationFlow(videoUri: string, pollsUntilDone = 1) {
+      return (url: string, res: http.ServerResponse, polls: number) => {
+        if (url.endsWith(':predictLongRunning')) {
+          res.end(JSON.stringify({ name: 'models/veo-test/operations/op1' }));
+        } else if (url.includes('/operations/op1')) {
+          res.end(JSON.stringify(polls < pollsUntilDone
+            ? { name: 'models/veo-test/operations/op1' }
+            : {
+              name: 'models/veo-test/operations/op1',
+              done: true,
+              response: { generateVideoResponse: { generatedSamples: [{ video: { uri: videoUri } }] } },
+            }));
+        } else {
+          res.setHeader('Content-Type', 'video/mp4');
+          res.end('mp4-bytes');
+        }
+      };
+    }
+
+    function failWith(status: number, message: string, headers: Record<string, string> = {}) {
+      return (_url: string, res: http.ServerResponse) => {
+        res.statusCode = status;
+        Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+        res.end(JSON.stringify({ error: { code: status, message } }));
+      };
+    }
+
+    it('should submit, poll until done and download the video', async () => {
+      respond = operationFlow(`${baseUrl}/files/abc:download?alt=media`, 3);
+      const video = await generateVeoVideo(request, { apiKey: 'test-key', baseUrl, pollInterval: 1 });
+
+      expect(video.toString()).toBe('mp4-bytes');
+      expect(requests.map(r => `${r.method} ${r.url}`)).toEqual([
+        'POST /v1beta/models/veo-test:predictLongRunning',
+        'GET /v1beta/models/veo-test/operations/op1',
+        'GET /v1beta/models/veo-test/operations/op1',
+        'GET /v1beta/models/veo-test/operations/op1',
+        'GET /v1beta/files/abc:download?alt=media',
+      ]);
+      expect(requests.every(r => r.apiKey === 'test-key')).toBe(true);
+      expect(requests[0].body).toEqual({
+        instances: [{ prompt: 'walk cycle', image: { bytesBase64Encoded: 'c3ByaXRl', mimeType: 'image/png' } }],
+        // A 1s request is rounded up to Veo's shortest clip
+        parameters: { aspectRatio: '16:9', durationSeconds: 4 },
+      });
+    });
+
+    it('should send the last frame to interpolate between two frames', async () => {
+      respond = operationFlow(`${baseUrl}/files/abc:download?alt=media`);
+      await generateVeoVideo({ ...request, lastFrame: 'ZW5k' }, { apiKey: 'test-key', baseUrl, pollInterval: 1 });
+
+      expect((requests[0].body.instances as unknown[])[0]).toMatchObject({
+        image: { bytesBase64Encoded: 'c3ByaXRl' },
+        lastFrame: { bytesBase64Encoded: 'ZW5k', mimeType: 'image/png' },
+      });
+    });
+
+    it('should not send the API key to another host', async () => {
+      const otherHost = baseUrl.replace('127.0.0.1', 'localhost');
+      respond = operationFlow(`${otherHost}/files/abc:download?alt=media`);
+      await generateVeoVideo(request, { apiKey: 'test-key', baseUrl, pollInterval: 1 });
+
+      expect(requests[requests.length - 1].apiKey).toBeUndefined();
+    });
+
+    it('should map HTTP errors to typed errors', async () => {
+      const options = { apiKey: 'test-key', baseUrl, pollInterval: 1 };
+
+      respond = failWith(429, 'Quota exceeded', { 'Retry-After': '7' });
+      const quota = await generateVeoVideo(request, options).catch(error => error);
+      expect(quota).toBeInstanceOf(VideoQuotaError);
+      expect(quota).toMatchObject({ status: 429, retryable: true, retryAfterMs: 7000, provider: 'veo' });
+      expect(quota.message).toContain('Quota exceeded');
+
+      respond = failWith(403, 'API key not valid');
+      await expect(generateVeoVideo(request, options)).rejects.toBeInstanceOf(VideoAuthError);
+      respond = failWith(400, 'durationSeconds is out of bounds');
+      await expect(generateVeoVideo(request, options)).rejects.toBeInstanceOf(VideoRequestError);
+      respond = failWith(503, 'The model is overloaded');
+      await expect(generateVeoVideo(request, options)).rejects.toBeInstanceOf(VideoServerError);
+    });
+
+    it('should map failed and filtered operations', async () => {
+      const options = { apiKey: 'test-key', baseUrl, pollInterval: 1 };
+
+      respond = (url, res) => res.end(JSON.stringify(url.endsWith(':predictLongRunning')
+        ? { name: 'models/veo-test/operations/op1' }
+        : { name: 'models/veo-test/operations/op1', done: true, error: { code: 8, message: 'Resource exhausted', status: 'RESOURCE_EXHAUSTED' } }));
+      await expect(generateVeoVideo(request, options)).rejects.toThrow(VideoQuotaError);
+
+      respond = (url, res) => res.end(JSON.stringify(url.endsWith(':predictLongRunning')
+        ? { name: 'models/veo-test/operations/op1' }
+        : {
+          name: 'models/veo-test/operations/op1',
+          done: true,
+          response: { generateVideoResponse: { raiMediaFilteredCount: 1, raiMediaFilteredReasons: ['Contains a celebrity'] } },
+        }));
+      await expect(generateVeoVideo(request, options)).rejects.toThrow(/safety filters blocked the video: Contains a celebrity/);
+    });
+
+    it('should time out operations that never finish', async () => {
+      respond = operationFlow('unused', Infinity);
+      const error = await generateVeoVideo(request, { apiKey: 'test-key', baseUrl, pollInterval: 5, timeout: 30 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(VideoTimeoutError);
+      expect(error.message).toContain('did not finish within 30ms');
+      expect(error.operationName).toBe('models/veo-test/operations/op1');
+    });
+
+    it('should not resubmit an operation that timed out', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      const spritePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(spritePath, 'png');
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      vi.stubEnv('VEO_BASE_URL', baseUrl);
+      respond = operationFlow('unused', Infinity);
+
+      const error = await animateSprite(spritePath, 'attack', tempDir, { maxRetries: 3, retryDelay: 1, pollInterval: 5, timeout: 30, fallback: 'fail' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(VideoTimeoutError);
+      expect(requests.filter(r => r.method === 'POST')).toHaveLength(1);
+    });
+
+    it('should require an API key', async () => {
+      vi.stubEnv('GOOGLE_API_KEY', '');
+      await expect(generateVeoVideo(request, { baseUrl })).rejects.toThrow(VideoAuthError);
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should not retry rejected requests before falling back', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      const spritePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(spritePath, 'png');
+      vi.stubEnv('GOOGLE_API_KEY', 'bad-key');
+      vi.stubEnv('VEO_BASE_URL', baseUrl);
+      respond = failWith(403, 'API key not valid');
+
+      const result = await animateSprite(spritePath, 'attack', tempDir, { maxRetries: 3, retryDelay: 1 });
+
+      expect(requests).toHaveLength(1);
+      expect(await fs.readFile(result.videoPath, 'utf-8')).toContain('PLACEHOLDER_VIDEO:attack');
+      expect(result.isPlaceholder).toBe(true);
+      expect(result.fallbackReason).toContain('veo: Veo API error (403): API key not valid');
+    });
+
+    it('should throw the provider error under the fail policy', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      const spritePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(spritePath, 'png');
+      const outputDir = path.join(tempDir, 'fail-policy');
+      vi.stubEnv('GOOGLE_API_KEY', 'bad-key');
+      vi.stubEnv('VEO_BASE_URL', baseUrl);
+      respond = failWith(403, 'API key not valid');
+
+      await expect(animateSprite(spritePath, 'attack', outputDir, { maxRetries: 3, retryDelay: 1, fallback: 'fail' }))
+        .rejects.toThrow(VideoAuthError);
+      await expect(fs.access(path.join(outputDir, 'animations', 'attack.mp4'))).rejects.toThrow();
+    });
+
+    it('should try Runway after Veo under the next-provider policy', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      const spritePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(spritePath, 'png');
+      vi.stubEnv('GOOGLE_API_KEY', 'bad-key');
+      vi.stubEnv('VEO_BASE_URL', baseUrl);
+      vi.stubEnv('RUNWAY_API_KEY', '');
+      respond = failWith(403, 'API key not valid');
+
+      const error = await animateSprite(spritePath, 'attack', tempDir, { maxRetries: 1, retryDelay: 1, fallback: 'next-provider' }).catch(e => e);
+
+      expect(error.message).toContain('veo: Veo API error (403)');
+      expect(error.message).toContain('runway: RUNWAY_API_KEY environment variable is required');
+    });
+
+    it('should move along the provider chain when Veo is out of quota', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      const spritePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(spritePath, 'png');
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      vi.stubEnv('VEO_BASE_URL', baseUrl);
+      vi.stubEnv('RUNWAY_API_KEY', '');
+      respond = failWith(429, 'Quota exceeded');
+
+      const error = await animateSprite(spritePath, 'attack', tempDir, {
+        provider: ['veo', 'runway'],
+        maxRetries: 1,
+        retryDelay: 1,
+        fallback: 'fail',
+      }).catch(e => e);
+
+      expect(error.message).toContain('All VideoGen providers failed: veo: Veo API error (429): Quota exceeded');
+      expect(error.message).toContain('runway: RUNWAY_API_KEY environment variable is required');
+    });
+
+    it('should stop the provider chain on a rejected key', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      const spritePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(spritePath, 'png');
+      vi.stubEnv('GOOGLE_API_KEY', 'bad-key');
+      vi.stubEnv('VEO_BASE_URL', baseUrl);
+      respond = failWith(403, 'API key not valid');
+
+      await expect(animateSprite(spritePath, 'attack', tempDir, { provider: ['veo', 'runway'], maxRetries: 1, fallback: 'fail' }))
+        .rejects.toThrow(VideoAuthError);
+    });
+
+    it('should retry a failed poll without resubmitting the operation', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      const spritePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(spritePath, 'png');
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      vi.stubEnv('VEO_BASE_URL', baseUrl);
+      const succeed = operationFlow(`${baseUrl}/files/abc:download?alt=media`);
+      respond = (url, res, polls) => (url.includes('/operations/') && polls === 1 ? failWith(503, 'Unavailable')(url, res) : succeed(url, res, polls));
+
+      const result = await animateSprite(spritePath, 'attack', tempDir, { maxRetries: 3, retryDelay: 1, pollInterval: 1 });
+
+      expect(requests.filter(r => r.url?.endsWith(':predictLongRunning'))).toHaveLength(1);
+      expect(requests.filter(r => r.url?.includes('/operations/'))).toHaveLength(2);
+      expect(await fs.readFile(result.videoPath, 'utf-8')).toBe('mp4-bytes');
+      expect(result.provider).toBe('veo');
+    });
+
+    it('should retry a failed download without resubmitting the operation', async () => {
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      const succeed = operationFlow(`${baseUrl}/files/abc:download?alt=media`);
+      let downloads = 0;
+      respond = (url, res, polls) => (url.includes('/files/') && ++downloads === 1 ? failWith(502, 'Bad gateway')(url, res) : succeed(url, res, polls));
+
+      const video = await generateVeoVideo(request, { apiKey: 'test-key', baseUrl, pollInterval: 1 });
+
+      expect(video.toString()).toBe('mp4-bytes');
+      expect(downloads).toBe(2);
+      expect(requests.filter(r => r.url?.endsWith(':predictLongRunning'))).toHaveLength(1);
+    });
+
+    it('should give up on a download that keeps failing with the operation name', async () => {
+      const succeed = operationFlow(`${baseUrl}/files/abc:download?alt=media`);
+      respond = (url, res, polls) => (url.includes('/files/') ? failWith(503, 'Unavailable')(url, res) : succeed(url, res, polls));
+
+      const error = await generateVeoVideo(request, { apiKey: 'test-key', baseUrl, pollInterval: 5, timeout: 50 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(VideoTimeoutError);
+      expect(error.message).toContain('could not be downloaded');
+      expect(error.operationName).toBe('models/veo-test/operations/op1');
+      expect(error.retryable).toBe(false);
+    });
+
+    it('should retry server errors', async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      const spritePath = path.join(tempDir, 'sprite.png');
+      await fs.writeFile(spritePath, 'png');
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      vi.stubEnv('VEO_BASE_URL', baseUrl);
+      const succeed = operationFlow(`${baseUrl}/files/abc:download?alt=media`);
+      respond = (url, res, polls) => (requests.length === 1 ? failWith(503, 'Overloaded')(url, res) : succeed(url, res, polls));
+
+      const result = await animateSprite(spritePath, 'attack', tempDir, { maxRetries: 2, retryDelay: 1, pollInterval: 1 });
+
+      expect(requests.filter(r => r.method === 'POST')).toHaveLength(2);
+      expect(await fs.readFile(result.videoPath, 'utf-8')).toBe('mp4-bytes');
+      expect(result.provider).toBe('veo');
+    });
+  });
+
+  describe('seamless loops', () => {
+    const tempDir = path.join(__dirname, '.temp-video-loop-test');
+    const spritePath = path.join(tempDir, 'sprite.png');
+    const clipPath = path.join(tempDir, 'clip.mp4');
+
+    beforeAll(async () => {
+      await fs.mkdir(path.join(tempDir, 'frames'), { recursive: true });
+      await sharp({ create: { width: 16, height: 16, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } })
+        .png()
+        .toFile(spritePath);
+      if (!ffmpegPath) return;
+
+      // 24 fps: a 6-frame intro, then two passes of a 12-frame bob
+      const cycle = [0, 2, 4, 6, 8, 10, 12, 10, 8, 6, 4, 2];
+      const offsets = [40, 36, 32, 28, 24, 20, ...cycle, ...cycle];
+      for (const [i, offset] of offsets.entries()) {
+        await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 20, g: 20, b: 20 } } })
+          .composite([{ input: { create: { width: 16, height: 16, channels: 3, background: { r: 240, g: 240, b: 240 } } }, left: 24, top: 8 + offset }])
+          .png()
+          .toFile(path.join(tempDir, 'frames', `frame_${i.toString().padStart(4, '0')}.png`));
+      }
+      execFileSync(ffmpegPath, [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-framerate', '24', '-i', path.join(tempDir, 'frames', 'frame_%04d.png'),
+        '-c:v', 'mpeg4', '-q:v', '2', '-pix_fmt', 'yuv420p', clipPath,
+      ]);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    async function stubVeo(): Promise<void> {
+      const video = await fs.readFile(clipPath);
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+        if (url.endsWith(':predictLongRunning')) {
+          return new Response(JSON.stringify({ name: 'models/veo/operations/loop' }));
+        }
+        if (url.endsWith('/operations/loop')) {
+          return new Response(JSON.stringify({
+            name: 'models/veo/operations/loop',
+            done: true,
+            response: { generatedSamples: [{ video: { uri: 'https://generativelanguage.googleapis.com/v1beta/files/loop' } }] },
+          }));
+        }
+        return new Response(video);
+      }));
+    }
+
+    it('should not check placeholder clips', async () => {
+      const result = await animateSprite(spritePath, 'idle', path.join(tempDir, 'placeholder'), { provider: 'placeholder' });
+      expect(result.loop).toBeUndefined();
+      expect(result.isPlaceholder).toBe(true);
+    });
+
+    it.skipIf(!ffmpegPath)('should trim looping clips to their smoothest loop', async () => {
+      await stubVeo();
+      const outputDir = path.join(tempDir, 'trimmed');
+      const result = await animateSprite(spritePath, 'idle', outputDir, { maxRetries: 1, pollInterval: 1 });
+
+      expect(result.loop).toMatchObject({ start: 0.25, trimmed: true });
+      expect(result.loop!.score).toBeGreaterThan(0.9);
+      expect(result.duration).toBe(1);
+      expect(await getVideoDuration(result.videoPath)).toBeCloseTo(1, 1);
+    });
+
+    it.skipIf(!ffmpegPath)('should only report the score when trimming is off', async () => {
+      await stubVeo();
+      const result = await animateSprite(spritePath, 'walk', path.join(tempDir, 'scored'), { maxRetries: 1, pollInterval: 1, trimLoop: false });
+
+      expect(result.loop).toMatchObject({ trimmed: false });
+      expect(result.duration).toBe(4);
+      expect(await getVideoDuration(result.videoPath)).toBeCloseTo(1.25, 1);
+    });
+
+    it.skipIf(!ffmpegPath)('should leave one-shot clips alone', async () => {
+      await stubVeo();
+      const result = await animateSprite(spritePath, 'attack', path.join(tempDir, 'one-shot'), { maxRetries: 1, pollInterval: 1 });
+      expect(result.loop).toBeUndefined();
+    });
+
+    it.skipIf(!ffmpegPath)('should flip the east-facing clip for west', async () => {
+      await stubVeo();
+      const [east, west] = await animateSpriteDirections(spritePath, 'attack', path.join(tempDir, 'mirrored'), {
+        directions: ['E', 'W'],
+        maxRetries: 1,
+        pollInterval: 1,
+      });
+
+      expect(vi.mocked(fetch).mock.calls.filter(([url]) => String(url).endsWith(':predictLongRunning'))).toHaveLength(1);
+      expect(west).toMatchObject({ direction: 'W', mirroredFrom: 'E', provider: 'veo' });
+      expect(path.basename(west.videoPath)).toBe('attack_W.mp4');
+      expect(await getVideoDuration(west.videoPath)).toBeCloseTo(await getVideoDuration(east.videoPath), 1);
+    });
+
+    it.skipIf(!ffmpegPath)('should condition a transition on the edge frames of both clips', async () => {
+      await stubVeo();
+      const outputDir = path.join(tempDir, 'transition');
+      const options = { maxRetries: 1, pollInterval: 1, trimLoop: false };
+      const attack = await animateSprite(spritePath, 'attack', outputDir, options);
+      const idle = await animateSprite(spritePath, 'idle', outputDir, options);
+      vi.mocked(fetch).mockClear();
+
+      const transition = await animateTransition(attack, idle, outputDir, { maxRetries: 1, pollInterval: 1 });
+      const [, init] = vi.mocked(fetch).mock.calls.find(([url]) => String(url).endsWith(':predictLongRunning'))!;
+      const instance = JSON.parse(String(init!.body)).instances[0];
+
+      expect(instance.prompt).toContain('from its attack animation into its idle animation');
+      expect(instance.image.bytesBase64Encoded).toBeTruthy();
+      expect(instance.lastFrame.bytesBase64Encoded).toBeTruthy();
+      expect(instance.lastFrame.bytesBase64Encoded).not.toBe(instance.image.bytesBase64Encoded);
+      // Veo renders the 1s request at its 4s minimum
+      expect(transition).toMatchObject({ from: 'attack', to: 'idle', duration: 4, provider: 'veo' });
+      expect(transition.videoPath).toBe(path.join(outputDir, 'animations', 'transitions', 'attack_to_idle.mp4'));
+      expect(await fs.readdir(path.join(outputDir, 'animations', 'transitions'))).toEqual(['attack_to_idle.mp4']);
+    });
+  });
+
+  describe('createAnimationBatch', () => {
+    const tempDir = path.join(__dirname, '.temp-video-batch-test');
+    const spritePath = path.join(tempDir, 'sprite.png');
+    const animations = ['idle', 'walk', 'run', 'attack', 'jump', 'death', 'hurt'];
+
+    beforeAll(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await sharp({ create: { width: 16, height: 16, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } })
+        .png()
+        .toFile(spritePath);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    // Veo operations that take a few milliseconds each; jump is rejected as an invalid request
+    function stubSlowVeo(): { maxInFlight: () => number } {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+        if (url.endsWith(':predictLongRunning')) {
+          const prompt: string = JSON.parse(String(init!.body)).instances[0].prompt;
+          const animation = prompt.match(/Animation type: (\w+)/)![1];
+          if (animation === 'jump') {
+            return new Response(JSON.stringify({ error: { code: 400, message: 'bad request' } }), { status: 400 });
+          }
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          return new Response(JSON.stringify({ name: `models/veo/operations/${animation}` }));
+        }
+        const operation = url.match(/\/operations\/(\w+)$/);
+        if (operation) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          return new Response(JSON.stringify({
+            name: `models/veo/operations/${operation[1]}`,
+            done: true,
+            response: { generatedSamples: [{ video: { uri: `https://generativelanguage.googleapis.com/v1beta/files/${operation[1]}` } }] },
+          }));
+        }
+        inFlight--;
+        return new Response('mp4-bytes');
+      }));
+      return { maxInFlight: () => maxInFlight };
+    }
+
+    it('should run clips concurrently within the provider limit and keep their order', async () => {
+      const veo = stubSlowVeo();
+      const rateLimiter = new RateLimiter();
+      const results = await createAnimationBatch(spritePath, animations, tempDir, {
+        maxRetries: 1,
+        pollInterval: 1,
+        fallback: 'fail',
+        trimLoop: false,
+        rateLimiter,
+      });
+
+      // Google allows 5 concurrent requests
+      expect(veo.maxInFlight()).toBe(5);
+      expect(rateLimiter.getStatus('google').active).toBe(0);
+      expect(results.map(r => r.animationType)).toEqual(['idle', 'walk', 'run', 'attack', 'death', 'hurt']);
+      expect(results.every(r => r.provider === 'veo')).toBe(true);
+    });
+  });
+
+  describe('directional clips', () => {
+    const tempDir = path.join(__dirname, '.temp-video-direction-test');
+    const spritePath = path.join(tempDir, 'sprite.png');
+
+    beforeAll(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await sharp({ create: { width: 16, height: 16, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } })
+        .png()
+        .toFile(spritePath);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should save one clip per facing and mirror the left-facing ones', async () => {
+      const outputDir = path.join(tempDir, 'four-way');
+      const results = await createAnimationBatch(spritePath, ['walk', 'attack'], outputDir, { provider: 'placeholder', directions: 4 });
+
+      expect(results.map(r => `${r.animationType}_${r.direction}`)).toEqual([
+        'walk_N', 'walk_E', 'walk_S', 'walk_W',
+        'attack_N', 'attack_E', 'attack_S', 'attack_W',
+      ]);
+      expect(results[3]).toMatchObject({ direction: 'W', mirroredFrom: 'E', isPlaceholder: true });
+      expect(results.filter(r => r.mirroredFrom)).toHaveLength(2);
+      const files = await fs.readdir(path.join(outputDir, 'animations'));
+      expect(files.sort()).toEqual(['attack_E.mp4', 'attack_N.mp4', 'attack_S.mp4', 'attack_W.mp4', 'walk_E.mp4', 'walk_N.mp4', 'walk_S.mp4', 'walk_W.mp4']);
+    });
+
+    it('should describe each facing in the prompt', async () => {
+      const prompts: string[] = [];
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+        if (url.endsWith(':predictLongRunning')) {
+          prompts.push(JSON.parse(String(init!.body)).instances[0].prompt);
+          return new Response(JSON.stringify({ name: 'models/veo/operations/dir' }));
+        }
+        if (url.endsWith('/operations/dir')) {
+          return new Response(JSON.stringify({
+            name: 'models/veo/operations/dir',
+            done: true,
+            response: { generatedSamples: [{ video: { uri: 'https://generativelanguage.googleapis.com/v1beta/files/dir' } }] },
+          }));
+        }
+        return new Response('mp4-bytes');
+      }));
+
+      const results = await animateSpriteDirections(spritePath, 'walk', path.join(tempDir, 'prompts'), {
+        directions: ['N', 'W'],
+        mirror: false,
+        maxRetries: 1,
+        pollInterval: 1,
+      });
+
+      expect(results.map(r => r.mirroredFrom)).toEqual([undefined, undefined]);
+      expect(prompts).toHaveLength(2);
+      expect(prompts[0]).toContain('back view, facing away from the camera');
+      expect(prompts[0]).not.toContain('side view movement');
+      expect(prompts[1]).toContain('side view, facing left (W)');
+    });
+
+    it('should reject unknown directions before generating anything', async () => {
+      await expect(createAnimationBatch(spritePath, ['walk'], path.join(tempDir, 'invalid'), {
+        provider: 'placeholder',
+        directions: ['N', 'UP' as never],
+      })).rejects.toThrow('Invalid direction: UP');
+    });
+  });
+
+  describe('transitions', () => {
+    const tempDir = path.join(__dirname, '.temp-video-transition-test');
+    const spritePath = path.join(tempDir, 'sprite.png');
+
+    beforeAll(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await sharp({ create: { width: 16, height: 16, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } })
+        .png()
+        .toFile(spritePath);
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should pick the usual state changes among the animations', () => {
+      expect(getDefaultTransitions(['idle', 'walk', 'run', 'attack', 'death'])).toEqual([
+        ['idle', 'walk'], ['walk', 'idle'],
+        ['idle', 'run'], ['run', 'idle'],
+        ['attack', 'idle'],
+        ['walk', 'run'], ['run', 'walk'],
+      ]);
+      expect(getDefaultTransitions(['walk', 'attack'])).toEqual([]);
+    });
+
+    it('should parse transition pairs', () => {
+      expect(parseTransitions('auto')).toBe('auto');
+      expect(parseTransitions('idle:walk, walk:run')).toEqual([['idle', 'walk'], ['walk', 'run']]);
+      expect(() => parseTransitions('idle-walk')).toThrow('Invalid transition: idle-walk. Use from:to pairs');
+      expect(() => parseTransitions('idle:idle')).toThrow('two different animations');
+    });
+
+    it('should blend placeholder clips into placeholder transitions per facing', async () => {
+      const outputDir = path.join(tempDir, 'placeholders');
+      const clips = await createAnimationBatch(spritePath, ['idle', 'walk', 'attack'], outputDir, { provider: 'placeholder', directions: ['N', 'E'] });
+      const transitions = await createTransitionBatch(clips, outputDir, { provider: 'placeholder' });
+
+      expect(transitions.map(t => `${t.from}_to_${t.to}_${t.direction}`)).toEqual([
+        'idle_to_walk_N', 'idle_to_walk_E',
+        'walk_to_idle_N', 'walk_to_idle_E',
+        'attack_to_idle_N', 'attack_to_idle_E',
+      ]);
+      expect(transitions[0]).toMatchObject({ isPlaceholder: true, fallbackReason: 'idle_N is a placeholder', duration: 1 });
+      expect((await fs.readdir(path.join(outputDir, 'animations', 'transitions'))).sort()).toEqual([
+        'attack_to_idle_E.mp4', 'attack_to_idle_N.mp4',
+        'idle_to_walk_E.mp4', 'idle_to_walk_N.mp4',
+        'walk_to_idle_E.mp4', 'walk_to_idle_N.mp4',
+      ]);
+    });
+
+    it('should export the clips and transitions as a state machine', async () => {
+      const outputDir = path.join(tempDir, 'graph');
+      const clips = await createAnimationBatch(spritePath, ['walk', 'idle', 'attack'], outputDir, { provider: 'placeholder' });
+      const transitions = await createTransitionBatch(clips, outputDir, {
+        provider: 'placeholder',
+        transitions: [['idle', 'walk'], ['attack', 'idle'], ['idle', 'fly']],
+      });
+      const graph = buildTransitionGraph(clips, transitions);
+
+      expect(graph.initial).toBe('idle');
+      expect(graph.states.map(s => `${s.name}:${s.loop}`)).toEqual(['walk:true', 'idle:true', 'attack:false']);
+      expect(graph.transitions.map(t => `${t.from}->${t.to}`)).toEqual(['idle->walk', 'attack->idle']);
+
+      const machine = JSON.parse(await fs.readFile(await writeStateMachine(graph, path.join(outputDir, 'state-machine.json')), 'utf-8'));
+      expect(machine.initial).toBe('idle');
+      expect(machine.states.idle).toEqual({
+        clip: 'animations/idle.mp4',
+        loop: true,
+        transitions: { walk: { clip: 'animations/transitions/idle_to_walk.mp4', duration: 1 } },
+      });
+      expect(machine.states.walk.transitions).toEqual({});
+    });
+
+    it('should refuse to blend clips with different facings', async () => {
+      const clip = { videoPath: 'walk_N.mp4', animationType: 'walk', duration: 4, fps: 24 };
+      await expect(animateTransition({ ...clip, direction: 'N' }, { ...clip, animationType: 'idle', direction: 'E' }, tempDir))
+        .rejects.toThrow('Cannot blend walk_N into idle_E: both clips must face the same direction');
+    });
+  });
+
+  describe('prompt templates and overrides', () => {
+    const tempDir = path.join(__dirname, '.temp-video-template-test');
+    const spritePath = path.join(tempDir, 'sprite.png');
+    let prompts: Record<string, string>;
+
+    beforeAll(async () => {
+      await fs.mkdir(tempDir, { recursive: true });
+      await sharp({ create: { width: 16, height: 16, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } })
+        .png()
+        .toFile(spritePath);
+    });
+
+    beforeEach(() => {
+      prompts = {};
+      vi.stubEnv('GOOGLE_API_KEY', 'test-key');
+      vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+        if (url.endsWith(':predictLongRunning')) {
+          const prompt: string = JSON.parse(String(init!.body)).instances[0].prompt;
+          prompts[prompt.match(/Animation type: (\w+)/)![1]] = prompt;
+          return new Response(JSON.stringify({ name: 'models/veo/operations/tpl' }));
+        }
+        if (url.endsWith('/operations/tpl')) {
+          return new Response(JSON.stringify({
+            name: 'models/veo/operations/tpl',
+            done: true,
+            response: { generatedSamples: [{ video: { uri: 'https://generativelanguage.googleapis.com/v1beta/files/tpl' } }] },
+          }));
+        }
+        return new Response('mp4-bytes');
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    });
+
+    afterAll(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    const options = { maxRetries: 1, pollInterval: 1, trimLoop: false, fallback: 'fail' as const };
+
+    it('should only ask for a seamless loop on looping animations', async () => {
+      await createAnimationBatch(spritePath, ['walk', 'death'], path.join(tempDir, 'wording'), options);
+
+      expect(prompts.walk).toContain('Animation type: walk, seamless looping required.');
+      expect(prompts.death).toContain('Animation type: death, plays once from start to finish, no looping.');
+      expect(prompts.death).not.toContain('seamless');
+    });
+
+    it('should record the length Veo rendered rather than the one requested', async () => {
+      const [hurt, walk] = await createAnimationBatch(spritePath, ['hurt', 'walk'], path.join(tempDir, 'rendered'), {
+        ...options,
+        overrides: { walk: { duration: '5s' } },
+      });
+
+      expect(hurt).toMatchObject({ animationType: 'hurt', duration: 4 });
+      expect(walk).toMatchObject({ animationType: 'walk', duration: 6 });
+    });
+
+    it('should record the requested length of placeholder clips', async () => {
+      const [hurt] = await createAnimationBatch(spritePath, ['hurt'], path.join(tempDir, 'placeholder'), { provider: 'placeholder' });
+      expect(hurt).toMatchObject({ duration: 1, isPlaceholder: true });
+    });
+
+    it('should apply per-animation overrides with templated prompts', async () => {
+      const results = await createAnimationBatch(spritePath, ['idle', 'attack'], path.join(tempDir, 'overrides'), {
+        ...options,
+        characterSheet: {
+          name: 'Sir Pixel',
+          silhouette: 'tall',
+          colorPalette: [],
+          equipment: ['longsword', 'kite shield'],
+          bodyType: 'humanoid',
+          suggestedSkeleton: 'biped',
+          suggestedAnimations: ['idle'],
+          source: 'template',
+        },
+        variables: { character: 'a pixel knight' },
+        overrides: { attack: { prompt: '{{character}} swings {{weapon}} overhead, {{animation}} pose', duration: '3s', fps: 12 } },
+      });
+
+      expect(prompts.attack).toContain('Animate this character sprite: a pixel knight swings longsword overhead, attack pose.');
+      // Veo renders the 3s override at its next supported length
+      expect(results[1]).toMatchObject({ animationType: 'attack', duration: 4, fps: 12 });
+      expect(results[0]).toMatchObject({ animationType: 'idle', duration: 4, fps: 24 });
+      expect(prompts.idle).toContain('subtle idle breathing');
+    });
+
+    it('should fail on a missing variable before calling the provider', async () => {
+      await expect(animateSprite(spritePath, 'attack', path.join(tempDir, 'missing'), {
+        ...options,
+        prompt: '{{character}} swings {{weapon}}',
+      })).rejects.toThrow('Missing prompt variables: character, weapon');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -3,8 +3,10 @@ import CharacterForm from './components/CharacterForm';
 import Preview3D from './components/Preview3D';
 import StatusPanel from './components/StatusPanel';
 
-export type CharacterStyle = 'pixel' | 'anime' | 'lowpoly' | 'painterly' | 'voxel';
-export type AnimationType = 'idle' | 'walk' | 'run' | 'attack' | 'jump' | 'death' | 'hurt';
+// Built-in styles plus any loaded from style packs on the server
+export type CharacterStyle = string;
+// Built-in animations plus any loaded from animation packs on the server
+export type AnimationType = string;
 export type SkeletonType = 'biped' | 'quadruped' | 'custom';
 
 export interface GenerationConfig {
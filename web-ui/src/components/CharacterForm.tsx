@@ -1,6 +1,8 @@
+import { useEffect, useState } from 'react';
 import type { GenerationConfig, CharacterStyle, AnimationType, SkeletonType } from '../App';
 
-const STYLES: { value: CharacterStyle; label: string }[] = [
+// Built-in styles, shown until the server's style list (including style packs) arrives
+const DEFAULT_STYLES: { value: CharacterStyle; label: string }[] = [
   { value: 'pixel', label: 'Pixel Art' },
   { value: 'anime', label: 'Anime/Chibi' },
   { value: 'lowpoly', label: 'Low Poly' },
@@ -8,7 +10,8 @@ const STYLES: { value: CharacterStyle; label: string }[] = [
   { value: 'voxel', label: 'Voxel' },
 ];
 
-const ANIMATIONS: { value: AnimationType; label: string }[] = [
+// Built-in animations, shown until the server's list (including animation packs) arrives
+const DEFAULT_ANIMATIONS: { value: AnimationType; label: string }[] = [
   { value: 'idle', label: 'Idle' },
   { value: 'walk', label: 'Walk' },
   { value: 'run', label: 'Run' },
@@ -16,6 +19,14 @@ const ANIMATIONS: { value: AnimationType; label: string }[] = [
   { value: 'jump', label: 'Jump' },
   { value: 'death', label: 'Death' },
   { value: 'hurt', label: 'Hurt' },
+  { value: 'cast', label: 'Cast' },
+  { value: 'block', label: 'Block' },
+  { value: 'dodge', label: 'Dodge' },
+  { value: 'emote', label: 'Emote' },
+  { value: 'crouch', label: 'Crouch' },
+  { value: 'climb', label: 'Climb' },
+  { value: 'swim', label: 'Swim' },
+  { value: 'fly', label: 'Fly' },
 ];
 
 const SKELETONS: { value: SkeletonType; label: string; description: string }[] = [
@@ -32,6 +43,31 @@ interface Props {
 }
 
 export default function CharacterForm({ config, onChange, onGenerate, isGenerating }: Props) {
+  const [styles, setStyles] = useState(DEFAULT_STYLES);
+  const [animations, setAnimations] = useState(DEFAULT_ANIMATIONS);
+
+  useEffect(() => {
+    fetch('/api/styles')
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(res.statusText))))
+      .then((data: { styles: { name: string; description?: string }[] }) => {
+        setStyles(data.styles.map(style => ({
+          value: style.name,
+          label: DEFAULT_STYLES.find(s => s.value === style.name)?.label ?? style.name,
+        })));
+      })
+      .catch(() => setStyles(DEFAULT_STYLES));
+
+    fetch('/api/animations')
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(res.statusText))))
+      .then((data: { animations: { name: string }[] }) => {
+        setAnimations(data.animations.map(animation => ({
+          value: animation.name,
+          label: DEFAULT_ANIMATIONS.find(a => a.value === animation.name)?.label ?? animation.name,
+        })));
+      })
+      .catch(() => setAnimations(DEFAULT_ANIMATIONS));
+  }, []);
+
   const toggleAnimation = (anim: AnimationType) => {
     const newAnims = config.animations.includes(anim)
       ? config.animations.filter(a => a !== anim)
@@ -58,7 +94,7 @@ export default function CharacterForm({ config, onChange, onGenerate, isGenerati
       <div>
         <label className="block text-sm font-medium text-gray-300 mb-2">Art Style</label>
         <div className="grid grid-cols-3 gap-2">
-          {STYLES.map(style => (
+          {styles.map(style => (
             <button
               key={style.value}
               onClick={() => onChange({ ...config, style: style.value })}
@@ -78,7 +114,7 @@ export default function CharacterForm({ config, onChange, onGenerate, isGenerati
       <div>
         <label className="block text-sm font-medium text-gray-300 mb-2">Animations</label>
         <div className="flex flex-wrap gap-2">
-          {ANIMATIONS.map(anim => (
+          {animations.map(anim => (
             <button
               key={anim.value}
               onClick={() => toggleAnimation(anim.value)}